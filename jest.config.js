@@ -3,6 +3,8 @@ module.exports = {
   testEnvironment: 'jsdom',
   moduleNameMapper: {
     '\\.(css|less|scss|sass)$': '<rootDir>/tests/__mocks__/styleMock.js',
+    '\\.wasm$': '<rootDir>/tests/__mocks__/wasmMock.js',
+    'pdf\\.worker\\.min\\.mjs$': '<rootDir>/tests/__mocks__/pdfWorkerMock.js',
   },
   setupFilesAfterEnv: ['<rootDir>/tests/setupTests.ts'],
   testMatch: ['<rootDir>/tests/**/*.test.ts?(x)', '<rootDir>/tests/**/*.spec.ts?(x)'],
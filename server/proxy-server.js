@@ -2,12 +2,22 @@ const express = require('express');
 const cors = require('cors');
 const fs = require('fs');
 const path = require('path');
+const dns = require('dns');
+const net = require('net');
 const { createProxyMiddleware } = require('http-proxy-middleware');
 require('dotenv').config();
 
 const app = express();
 
-app.use(cors());
+// The LLM routes answer any origin; /fetch-page only serves the app itself (see below)
+const allowAnyOrigin = cors();
+const APP_ORIGINS = (process.env.APP_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+const allowAppOrigin = cors({ origin: APP_ORIGINS });
+
+app.use('/api/v1', allowAnyOrigin);
 
 app.use((req, res, next) => {
   console.log(`${new Date().toISOString()} [${req.method}] ${req.url}`);
@@ -30,76 +40,306 @@ const isMockMode = (req) => {
   return req.query.mock === 'true' || req.headers['x-use-mock'] === 'true';
 };
 
+const MOCK_STREAM_PIECE_SIZE = 40;
+const MOCK_STREAM_DELAY_MS = 30;
+
+const getMockFlashcardContent = () => {
+  const content = mockFlashcardResponse.choices[0].message.content;
+  return typeof content === 'string' ? content : JSON.stringify(content);
+};
+
+// The answer judge, the duplicate check and the quality review ask for their own JSON objects, so they
+// are told apart by the response format their instructions ask for. Each gets an answer that changes
+// nothing: the judge says it cannot tell, no pair is a duplicate and every card passes.
+const getMockReviewContent = (messages) => {
+  const instructions = messages.filter(message => message.role === 'system').map(message => message.content).join('\n');
+  const userMessages = messages.filter(message => message.role === 'user');
+  const lastMessage = userMessages.length > 0 ? String(userMessages[userMessages.length - 1].content) : '';
+
+  if (instructions.includes('{"verdict"')) {
+    return JSON.stringify({ verdict: 'partial', feedback: 'Mock mode cannot judge answers; compare yours with the expected answer.' });
+  }
+  if (instructions.includes('{"duplicates"')) {
+    return JSON.stringify({ duplicates: [] });
+  }
+  if (instructions.includes('{"reviews"')) {
+    const cardCount = (lastMessage.match(/^Card \d+:/gm) || []).length;
+    const reviews = [];
+    for (let card = 1; card <= cardCount; card++) {
+      reviews.push({ card, score: 5, issues: [] });
+    }
+    return JSON.stringify({ reviews });
+  }
+  return null;
+};
+
+// Replays a mock completion as OpenAI-style server-sent events, a few characters at a time
+const streamMockResponse = (res, text) => {
+  const pieces = [];
+  for (let i = 0; i < text.length; i += MOCK_STREAM_PIECE_SIZE) {
+    pieces.push(text.substring(i, i + MOCK_STREAM_PIECE_SIZE));
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  let index = 0;
+  const timer = setInterval(() => {
+    if (index >= pieces.length) {
+      clearInterval(timer);
+      res.write('data: [DONE]\n\n');
+      res.end();
+      return;
+    }
+    const chunk = { choices: [{ index: 0, delta: { content: pieces[index] } }] };
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    index += 1;
+  }, MOCK_STREAM_DELAY_MS);
+
+  res.on('close', () => clearInterval(timer));
+};
+
+// Only mock requests are parsed here; real requests must reach the proxy with their body untouched
+const parseJsonBody = express.json();
+
 app.use('/api/v1/chat/completions', (req, res, next) => {
-  if (isMockMode(req)) {
+  if (!isMockMode(req)) {
+    return next();
+  }
+  parseJsonBody(req, res, () => {
+    const body = req.body || {};
+    const reviewContent = getMockReviewContent(Array.isArray(body.messages) ? body.messages : []);
+    if (body.stream) {
+      console.log('Using MOCK streaming response mode');
+      return streamMockResponse(res, reviewContent || getMockFlashcardContent());
+    }
     console.log('Using MOCK response mode');
-    return res.json(mockFlashcardResponse);
+    return res.json(reviewContent ? { choices: [{ message: { content: reviewContent } }] } : mockFlashcardResponse);
+  });
+});
+
+// The browser names its inference server with every request. Only local servers, the proxy's own
+// INFERENCE_SERVER_URL and the hosts listed in INFERENCE_ALLOWED_HOSTS are accepted, so the proxy
+// cannot be pointed at arbitrary hosts.
+const DEFAULT_INFERENCE_SERVER_URL = process.env.INFERENCE_SERVER_URL || 'http://localhost:1234';
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+const getHostname = (url) => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch (error) {
+    return null;
+  }
+};
+
+// The configured server is always allowed, such as LM Studio on a trainer's machine on the local network
+const ALLOWED_INFERENCE_HOSTS = LOCAL_HOSTNAMES.concat(
+  [getHostname(DEFAULT_INFERENCE_SERVER_URL)],
+  (process.env.INFERENCE_ALLOWED_HOSTS || '').split(',').map(host => host.trim().toLowerCase())
+).filter(Boolean);
+
+// Refuses requested servers up front: forwarding to the default target instead would make
+// Test Connection and generation report on a different server than the one the user chose
+app.use('/api/v1', (req, res, next) => {
+  const requestedUrl = req.headers['x-inference-server-url'];
+  if (!requestedUrl) {
+    return next();
+  }
+  const hostname = getHostname(requestedUrl);
+  if (!hostname) {
+    return res.status(400).json({ error: `Invalid inference server URL: ${requestedUrl}` });
+  }
+  if (!ALLOWED_INFERENCE_HOSTS.includes(hostname)) {
+    console.warn('Rejecting inference server requested by client:', requestedUrl);
+    return res.status(400).json({
+      error: `The proxy does not forward to ${hostname}. Add it to INFERENCE_ALLOWED_HOSTS in .env to allow it.`
+    });
   }
   next();
 });
 
+const routeToRequestedServer = (req) => req.headers['x-inference-server-url'] || undefined;
+
 const inferenceProxy = createProxyMiddleware({
-  target: process.env.INFERENCE_SERVER_URL || 'http://localhost:1234',
+  target: DEFAULT_INFERENCE_SERVER_URL,
+  router: routeToRequestedServer,
   changeOrigin: true,
   pathRewrite: {
     '^/api/v1': '', // Remove /api/v1 prefix when forwarding
   },
-  onProxyReq: (proxyReq, req, res) => {
-    console.log('Proxying request to inference server:', req.method, req.url);
-  },
-  onProxyRes: (proxyRes, req, res) => {
-    console.log('Received response from inference server:', proxyRes.statusCode);
-    
-    // Handle response data to ensure content is a valid JSON string
-    if (req.url.includes('/chat/completions')) {
-      const originalBody = [];
-      proxyRes.on('data', (chunk) => {
-        originalBody.push(chunk);
-      });
-      
-      proxyRes.on('end', () => {
-        try {
-          const bodyString = Buffer.concat(originalBody).toString();
-          const bodyJson = JSON.parse(bodyString);
-          
-          // Check if content is an object and convert it to a string if needed
-          if (bodyJson.choices && bodyJson.choices[0] && bodyJson.choices[0].message) {
-            const content = bodyJson.choices[0].message.content;
-            
-            // If content is an object, stringify it
-            if (content && typeof content === 'object') {
-              bodyJson.choices[0].message.content = JSON.stringify(content);
-              
-              // Replace the response with our modified version
-              const modifiedBody = JSON.stringify(bodyJson);
-              res.setHeader('content-length', Buffer.byteLength(modifiedBody));
-              res.end(modifiedBody);
-              console.log('Modified response to ensure content is a valid JSON string');
-              return;
-            }
-          }
-        } catch (error) {
-          console.error('Error processing proxy response:', error);
-          // Continue with original response if there's an error
-        }
-      });
+  // Responses, including streamed completions, are piped through unchanged so events reach the browser as they arrive
+  on: {
+    proxyReq: (proxyReq, req) => {
+      console.log('Proxying request to inference server:', req.method, req.url);
+    },
+    proxyRes: (proxyRes) => {
+      console.log('Received response from inference server:', proxyRes.statusCode);
+    },
+    error: (err, req, res) => {
+      console.error('Proxy error:', err);
+      if (!res.headersSent) {
+        res.status(502).send('Proxy Error: ' + err.message);
+      }
     }
-  },
-  onError: (err, req, res) => {
-    console.error('Proxy error:', err);
-    res.status(500).send('Proxy Error: ' + err.message);
   }
 });
 
 app.use('/api/v1', inferenceProxy);
 
-app.get('/health', (req, res) => {
-  res.json({ status: 'ok', mockModeAvailable: true });
+// Fetches a web page on behalf of the browser, which cannot read most sites directly because of CORS.
+// Main-content extraction happens in the browser; this only returns the raw HTML.
+const PAGE_FETCH_TIMEOUT_MS = 15000;
+const MAX_PAGE_SIZE = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local (including cloud metadata at 169.254.169.254), unique-local and other
+// non-public ranges. Pages on them are refused so other websites cannot use the proxy to reach internal hosts.
+const blockedAddresses = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses such as ::ffff:10.0.0.1 are matched against the IPv4 ranges
+const isBlockedAddress = (address) => {
+  return blockedAddresses.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+};
+
+class PageFetchError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const assertPublicHost = async (pageUrl) => {
+  const hostname = pageUrl.hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname }]
+    : await dns.promises.lookup(hostname, { all: true });
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new PageFetchError(403, `Refusing to fetch ${hostname}: it is a local or private address`);
+  }
+};
+
+// Redirects are followed by hand so that every hop is checked, not just the first URL
+const fetchPublicPage = async (pageUrl, signal) => {
+  let currentUrl = pageUrl;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await assertPublicHost(currentUrl);
+    const response = await fetch(currentUrl, {
+      signal,
+      redirect: 'manual',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; FlashcardExtractor/0.1)',
+        Accept: 'text/html,application/xhtml+xml'
+      }
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl };
+    }
+    currentUrl = new URL(location, currentUrl);
+    if (currentUrl.protocol !== 'http:' && currentUrl.protocol !== 'https:') {
+      throw new PageFetchError(400, 'The page redirected to a non-http address');
+    }
+  }
+  throw new PageFetchError(502, 'The page redirected too many times');
+};
+
+// Reads the body only up to MAX_PAGE_SIZE bytes, so an oversized page cannot exhaust the proxy's memory
+const readLimitedText = async (response, controller) => {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_PAGE_SIZE) {
+    controller.abort();
+    return null;
+  }
+
+  const chunks = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks).toString('utf8');
+    }
+    size += value.byteLength;
+    if (size > MAX_PAGE_SIZE) {
+      controller.abort();
+      return null;
+    }
+    chunks.push(value);
+  }
+};
+
+// Requests from other origins are refused outright: CORS alone would only hide the response, not stop the fetch
+const rejectOtherOrigins = (req, res, next) => {
+  const origin = req.headers.origin;
+  if (origin && !APP_ORIGINS.includes(origin)) {
+    return res.status(403).json({ error: `Origin ${origin} may not fetch pages through this proxy` });
+  }
+  next();
+};
+
+app.get('/fetch-page', allowAppOrigin, rejectOtherOrigins, async (req, res) => {
+  let pageUrl;
+  try {
+    pageUrl = new URL(req.query.url);
+  } catch (error) {
+    return res.status(400).json({ error: 'A valid url query parameter is required' });
+  }
+  if (pageUrl.protocol !== 'http:' && pageUrl.protocol !== 'https:') {
+    return res.status(400).json({ error: 'Only http and https pages can be fetched' });
+  }
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PAGE_FETCH_TIMEOUT_MS);
+  try {
+    const { response, url } = await fetchPublicPage(pageUrl, controller.signal);
+
+    if (!response.ok) {
+      return res.status(502).json({ error: `The page responded with ${response.status} ${response.statusText}` });
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('html')) {
+      return res.status(415).json({ error: `Expected an HTML page but got ${contentType || 'an unknown content type'}` });
+    }
+
+    const html = await readLimitedText(response, controller);
+    if (html === null) {
+      return res.status(413).json({ error: 'The page is too large to extract' });
+    }
+
+    res.json({ url: url.href, html });
+  } catch (error) {
+    const message = error.name === 'AbortError' ? 'Timed out fetching the page' : error.message;
+    console.error('Error fetching page:', pageUrl.href, message);
+    res.status(error.status || 502).json({ error: message });
+  } finally {
+    clearTimeout(timeout);
+  }
 });
 
-const PORT = process.env.PROXY_PORT || 3001;
-app.listen(PORT, () => {
-  console.log(`Proxy server running on http://localhost:${PORT}`);
-  console.log(`Forwarding requests from http://localhost:${PORT}/api/v1 to ${process.env.INFERENCE_SERVER_URL || 'http://localhost:1234'}`);
-  console.log(`Mock mode available: add ?mock=true to URL or set X-Use-Mock header to 'true'`);
+app.get('/health', allowAnyOrigin, (req, res) => {
+  res.json({ status: 'ok', mockModeAvailable: true });
 });
+
+// Started by `npm run proxy`; tests require the app without listening
+if (require.main === module) {
+  const PORT = process.env.PROXY_PORT || 3001;
+  app.listen(PORT, () => {
+    console.log(`Proxy server running on http://localhost:${PORT}`);
+    console.log(`Forwarding requests from http://localhost:${PORT}/api/v1 to ${DEFAULT_INFERENCE_SERVER_URL}`);
+    console.log(`Mock mode available: add ?mock=true to URL or set X-Use-Mock header to 'true'`);
+  });
+}
+
+module.exports = app;
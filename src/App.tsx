@@ -1,36 +1,202 @@
-import React, { useState } from 'react';
-import { FlashcardSet } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Flashcard, FlashcardSet, ExtractionProgress } from './types';
 import InputForm from './components/InputForm';
 import FlashcardViewer from './components/FlashcardViewer';
+import DeckLibrary from './components/DeckLibrary';
+import LLMSettingsPanel from './components/LLMSettingsPanel';
+import CardQualityReview from './components/CardQualityReview';
+import { saveDeck } from './services/deckLibraryService';
+import { CardCritique, getRevisedCritiques } from './services/cardQualityService';
+import { v4 as uuidv4 } from 'uuid';
 import './styles/App.css';
 
+type AppView = 'library' | 'create' | 'deck';
+
+// Keeps any changes the user already made (e.g. reviews) to cards that are re-delivered by the generator
+const withExistingCards = (incoming: FlashcardSet, current: FlashcardSet | null): FlashcardSet => {
+  if (!current || current.id !== incoming.id) {
+    return incoming;
+  }
+  const currentById: Record<string, Flashcard> = {};
+  current.cards.forEach(card => {
+    currentById[card.id] = card;
+  });
+  return { ...incoming, cards: incoming.cards.map(card => currentById[card.id] || card) };
+};
+
 const App: React.FC = () => {
+  const [view, setView] = useState<AppView>('library');
   const [flashcardSet, setFlashcardSet] = useState<FlashcardSet | null>(null);
-  const [loading, setLoading] = useState<boolean>(false);
+  // Ids of the decks being generated; several can run when the user starts another in the meantime
+  const [generatingDeckIds, setGeneratingDeckIds] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  // Suggested rewrites of a new deck; the deck is saved once the user has decided on them
+  const [critiques, setCritiques] = useState<CardCritique[] | null>(null);
+  // Bumped to reload the library when a deck finishes generating in the background
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  // The generation whose deck is on screen. Generation carries on when the user leaves its deck; it
+  // then finishes in the background instead of pulling the user back. A ref, because InputForm keeps
+  // the callbacks it started with.
+  const followedDeckId = useRef<string | null>(null);
+  const isOpenDeckGenerating = Boolean(flashcardSet && flashcardSet.id && generatingDeckIds.indexOf(flashcardSet.id) !== -1);
+
+  // Save the open deck whenever it changes, but not for every card that streams in
+  useEffect(() => {
+    if (!flashcardSet || !flashcardSet.id || isOpenDeckGenerating || critiques) return;
+    saveFlashcardSet(flashcardSet);
+  }, [flashcardSet, isOpenDeckGenerating, critiques]);
+
+  const saveFlashcardSet = (set: FlashcardSet) => {
+    saveDeck(set).catch(error => {
+      setError(`Could not save deck to library: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  };
+
+  const handleLoadingChange = (isLoading: boolean, deckId?: string) => {
+    if (!deckId) return;
+    if (isLoading) {
+      followedDeckId.current = deckId;
+      setGeneratingDeckIds(ids => ids.concat(deckId));
+    } else {
+      setGeneratingDeckIds(ids => ids.filter(id => id !== deckId));
+    }
+  };
+
+  const handlePartialFlashcardSet = (partialSet: FlashcardSet) => {
+    if (!partialSet.id || partialSet.id !== followedDeckId.current) return;
+    setFlashcardSet(current => withExistingCards(partialSet, current));
+    setView('deck');
+  };
+
+  const handleFlashcardSetCreated = (newSet: FlashcardSet, newCritiques?: CardCritique[]) => {
+    // Generated sets come with their deck id; imported ones get a new one
+    const id = newSet.id || uuidv4();
+    // Suggested rewrites are skipped: the user is no longer there to review them
+    if (newSet.id && newSet.id !== followedDeckId.current) {
+      saveDeck({ ...newSet, id })
+        .then(() => setLibraryVersion(version => version + 1))
+        .catch(error => {
+          setError(`Could not save deck to library: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        });
+      return;
+    }
+    setFlashcardSet(current => withExistingCards({ ...newSet, id }, current));
+    setCritiques(newCritiques && getRevisedCritiques(newCritiques).length > 0 ? newCritiques : null);
+    setView('deck');
+  };
+
+  const handleReviewFinished = (cards: Flashcard[]) => {
+    setCritiques(null);
+    handleCardsChange(cards);
+  };
+
+  // Leaving the review keeps the deck as generated rather than losing it
+  const discardReview = () => {
+    if (critiques && flashcardSet && flashcardSet.id) {
+      saveFlashcardSet(flashcardSet);
+    }
+    setCritiques(null);
+  };
+
+  const handleOpenDeck = (deck: FlashcardSet) => {
+    followedDeckId.current = null;
+    setError(null);
+    setFlashcardSet(deck);
+    setView('deck');
+  };
+
+  const handleCardsChange = (cards: Flashcard[]) => {
+    setFlashcardSet(current => (current ? { ...current, cards } : current));
+  };
+
+  const showLibrary = () => {
+    followedDeckId.current = null;
+    discardReview();
+    setError(null);
+    setFlashcardSet(null);
+    setView('library');
+  };
+
+  const showCreateForm = () => {
+    followedDeckId.current = null;
+    discardReview();
+    setError(null);
+    setFlashcardSet(null);
+    setView('create');
+  };
 
   return (
     <div className="app-container">
       <header>
         <h1>Flashcard Extractor</h1>
-        <p>Extract flashcards from Wikipedia articles or text</p>
+        <p>Extract flashcards from Wikipedia articles, web pages or text</p>
+        <div className="header-actions">
+          {view !== 'library' && (
+            <button className="library-link" onClick={showLibrary}>
+              ← My Decks
+            </button>
+          )}
+          <button
+            className="settings-link"
+            onClick={() => setShowSettings(!showSettings)}
+            aria-expanded={showSettings}
+          >
+            ⚙️ LLM Settings
+          </button>
+        </div>
       </header>
 
       <main>
-        {!flashcardSet ? (
+        {showSettings && <LLMSettingsPanel onClose={() => setShowSettings(false)} />}
+
+        {view === 'library' && (
+          <DeckLibrary
+            key={libraryVersion}
+            onOpenDeck={handleOpenDeck}
+            onCreateNew={showCreateForm}
+            setError={setError}
+          />
+        )}
+
+        {view === 'create' && (
           <InputForm 
-            setFlashcardSet={setFlashcardSet} 
-            setLoading={setLoading} 
+            setFlashcardSet={handleFlashcardSetCreated} 
+            setLoading={handleLoadingChange} 
             setError={setError} 
+            setProgress={setProgress}
+            setPartialFlashcardSet={handlePartialFlashcardSet}
           />
-        ) : (
+        )}
+
+        {view === 'deck' && flashcardSet && critiques && (
+          <CardQualityReview
+            cards={flashcardSet.cards}
+            critiques={critiques}
+            onFinish={handleReviewFinished}
+          />
+        )}
+
+        {view === 'deck' && flashcardSet && !critiques && (
           <FlashcardViewer 
             flashcardSet={flashcardSet} 
-            onReset={() => setFlashcardSet(null)} 
+            onReset={showCreateForm} 
+            onCardsChange={handleCardsChange}
+            isGenerating={isOpenDeckGenerating}
           />
         )}
 
-        {loading && <div className="loader">Generating flashcards...</div>}
+        {generatingDeckIds.length > 0 && (
+          <div className="loader">
+            Generating flashcards...
+            {progress && progress.totalChunks > 1 && (
+              <span className="loader-progress">
+                {' '}({progress.completedChunks} of {progress.totalChunks} sections done)
+              </span>
+            )}
+          </div>
+        )}
         {error && <div className="error">{error}</div>}
       </main>
 
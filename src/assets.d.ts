@@ -0,0 +1,10 @@
+// Files bundled as webpack asset/resource modules resolve to their public URL
+declare module '*.wasm' {
+  const url: string;
+  export default url;
+}
+
+declare module 'pdfjs-dist/build/pdf.worker.min.mjs' {
+  const url: string;
+  export default url;
+}
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { CardChanges, validateCardChanges } from '../services/cardEditingService';
+
+interface CardEditorProps {
+  initialCard?: CardChanges;
+  submitLabel: string;
+  onSave: (changes: CardChanges) => void;
+  onCancel: () => void;
+}
+
+const CardEditor: React.FC<CardEditorProps> = ({ initialCard, submitLabel, onSave, onCancel }) => {
+  const [question, setQuestion] = useState<string>(initialCard ? initialCard.question : '');
+  const [answer, setAnswer] = useState<string>(initialCard ? initialCard.answer : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const changes = { question, answer };
+    const validationError = validateCardChanges(changes);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSave(changes);
+  };
+
+  return (
+    <form className="card-editor" onSubmit={handleSubmit}>
+      <label>
+        Question
+        <textarea value={question} onChange={(e) => setQuestion(e.target.value)} rows={2} />
+      </label>
+      <label>
+        Answer
+        <textarea value={answer} onChange={(e) => setAnswer(e.target.value)} rows={3} />
+      </label>
+      {error && <p className="card-editor-error">{error}</p>}
+      <div className="card-editor-actions">
+        <button type="submit">{submitLabel}</button>
+        <button type="button" onClick={onCancel}>Cancel</button>
+      </div>
+    </form>
+  );
+};
+
+export default CardEditor;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { Flashcard } from '../types';
+import { CARD_TYPE_LABELS, CLOZE_BLANK, getOptionLabel } from '../services/cardTypeService';
+import '../styles/CardFace.css';
+
+interface CardFaceProps {
+  card: Flashcard;
+  side: 'front' | 'back';
+}
+
+// Splits cloze text into plain and hidden parts; hidden parts sit at odd indices
+const splitCloze = (text: string): string[] => text.split(/\{\{(.+?)\}\}/);
+
+// Type-specific content of one side of a card, shared by the card view and study sessions
+const CardFace: React.FC<CardFaceProps> = ({ card, side }) => {
+  const isFront = side === 'front';
+  const typeLabel = card.type && card.type !== 'basic' && isFront
+    ? <span className="card-type-label">{CARD_TYPE_LABELS[card.type]}</span>
+    : null;
+
+  switch (card.type) {
+    case 'cloze':
+      return (
+        <>
+          {typeLabel}
+          <p className="cloze-text">
+            {splitCloze(card.question).map((part, index) => {
+              if (index % 2 === 0) return part;
+              return isFront
+                ? <span key={index} className="cloze-blank" aria-label="blank">{CLOZE_BLANK}</span>
+                : <mark key={index} className="cloze-answer">{part}</mark>;
+            })}
+          </p>
+        </>
+      );
+    case 'multiple-choice':
+      return (
+        <>
+          {typeLabel}
+          {isFront && <p>{card.question}</p>}
+          <ol className="card-options">
+            {card.options.map((option, index) => {
+              const isCorrect = !isFront && option === card.answer;
+              return (
+                <li key={index} className={isCorrect ? 'correct-option' : ''}>
+                  {getOptionLabel(index)}. {option}{isCorrect && ' ✓'}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      );
+    case 'true-false':
+      return (
+        <>
+          {typeLabel}
+          <p>{isFront ? card.question : card.answer}</p>
+          {!isFront && card.explanation && <p className="card-explanation">{card.explanation}</p>}
+        </>
+      );
+    default:
+      return <p>{isFront ? card.question : card.answer}</p>;
+  }
+};
+
+export default CardFace;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Flashcard } from '../types';
+import {
+  CardCritique,
+  QUALITY_ISSUE_LABELS,
+  MAX_SCORE,
+  getRevisedCritiques,
+  applyRevisions
+} from '../services/cardQualityService';
+import { formatCardFront, formatCardBack } from '../services/cardTypeService';
+import { diffWords } from '../services/textDiffService';
+import '../styles/CardQualityReview.css';
+
+interface CardQualityReviewProps {
+  cards: Flashcard[];
+  critiques: CardCritique[];
+  onFinish: (cards: Flashcard[]) => void;
+}
+
+type Decision = 'accepted' | 'rejected';
+
+const TextDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <p className="text-diff">
+    {diffWords(before, after).map((part, index) => {
+      if (part.change === 'removed') return <del key={index}>{part.text}</del>;
+      if (part.change === 'added') return <ins key={index}>{part.text}</ins>;
+      return <span key={index}>{part.text}</span>;
+    })}
+  </p>
+);
+
+const CardQualityReview: React.FC<CardQualityReviewProps> = ({ cards, critiques, onFinish }) => {
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+
+  const cardsById: Record<string, Flashcard> = {};
+  cards.forEach(card => {
+    cardsById[card.id] = card;
+  });
+  // Cards deleted while the critic was running have nothing left to rewrite
+  const revised = getRevisedCritiques(critiques).filter(critique => cardsById[critique.cardId] !== undefined);
+  const acceptedIds = revised.map(critique => critique.cardId).filter(id => decisions[id] === 'accepted');
+
+  const decide = (cardId: string, decision: Decision) => {
+    setDecisions({ ...decisions, [cardId]: decision });
+  };
+
+  const decideAll = (decision: Decision) => {
+    const all: Record<string, Decision> = {};
+    revised.forEach(critique => {
+      all[critique.cardId] = decision;
+    });
+    setDecisions(all);
+  };
+
+  return (
+    <div className="card-quality-review">
+      <h2>Review suggested rewrites</h2>
+      <p className="quality-summary">
+        The critic suggests rewriting {revised.length} of {cards.length} cards. Cards whose rewrite you do not accept keep their original wording.
+      </p>
+
+      <div className="quality-bulk-actions">
+        <button onClick={() => decideAll('accepted')}>Accept All</button>
+        <button onClick={() => decideAll('rejected')}>Reject All</button>
+      </div>
+
+      <ol className="quality-list">
+        {revised.map(critique => {
+          const card = cardsById[critique.cardId];
+          const revision = { ...critique.revision, id: card.id } as Flashcard;
+          const cardNumber = cards.indexOf(card) + 1;
+          return (
+            <li key={critique.cardId} className={`quality-item ${decisions[critique.cardId] || ''}`}>
+              <div className="quality-meta">
+                <span className="quality-score">Card {cardNumber} · Score {critique.score}/{MAX_SCORE}</span>
+                {critique.issues.map(issue => (
+                  <span key={issue} className="quality-issue">{QUALITY_ISSUE_LABELS[issue]}</span>
+                ))}
+              </div>
+              <dl className="quality-diff">
+                <dt>Question</dt>
+                <dd><TextDiff before={formatCardFront(card)} after={formatCardFront(revision)} /></dd>
+                <dt>Answer</dt>
+                <dd><TextDiff before={formatCardBack(card)} after={formatCardBack(revision)} /></dd>
+              </dl>
+              <div className="quality-decision" role="group" aria-label={`Rewrite of card ${cardNumber}`}>
+                <button
+                  aria-pressed={decisions[critique.cardId] === 'accepted'}
+                  onClick={() => decide(critique.cardId, 'accepted')}
+                >
+                  Accept
+                </button>
+                <button
+                  aria-pressed={decisions[critique.cardId] === 'rejected'}
+                  onClick={() => decide(critique.cardId, 'rejected')}
+                >
+                  Reject
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      <button className="finish-review-btn" onClick={() => onFinish(applyRevisions(cards, critiques, acceptedIds))}>
+        Save Deck ({acceptedIds.length} of {revised.length} rewrites accepted)
+      </button>
+    </div>
+  );
+};
+
+export default CardQualityReview;
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import {
+  RefineAction,
+  REFINE_ACTION_LABELS,
+  MAX_NEW_CARDS,
+  DEFAULT_NEW_CARDS
+} from '../services/cardRefinementService';
+import '../styles/CardRefineActions.css';
+
+interface CardRefineActionsProps {
+  // The action waiting for the LLM, if any; all actions are disabled until it is done
+  pendingAction: RefineAction | null;
+  onRefine: (action: RefineAction, count: number) => void;
+}
+
+const NEW_CARD_COUNTS = Array.from({ length: MAX_NEW_CARDS }, (_, index) => index + 1);
+
+const CardRefineActions: React.FC<CardRefineActionsProps> = ({ pendingAction, onRefine }) => {
+  const [count, setCount] = useState<number>(DEFAULT_NEW_CARDS);
+
+  const renderButton = (action: RefineAction) => (
+    <button onClick={() => onRefine(action, count)} disabled={pendingAction !== null}>
+      {pendingAction === action ? 'Working...' : REFINE_ACTION_LABELS[action]}
+    </button>
+  );
+
+  return (
+    <div className="card-refine-actions" role="group" aria-label="Improve card with the LLM" aria-busy={pendingAction !== null}>
+      {renderButton('regenerate')}
+      {renderButton('simplify')}
+      {renderButton('split')}
+      <span className="more-like-this">
+        {renderButton('more')}
+        <select
+          aria-label="Number of new cards"
+          value={count}
+          onChange={(e) => setCount(Number(e.target.value))}
+          disabled={pendingAction !== null}
+        >
+          {NEW_CARD_COUNTS.map(value => (
+            <option key={value} value={value}>{value}</option>
+          ))}
+        </select>
+      </span>
+    </div>
+  );
+};
+
+export default CardRefineActions;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { DifficultyLevel, Flashcard } from '../types';
+import { DIFFICULTY_LEVELS, DIFFICULTY_LABELS, normalizeTag } from '../services/tagService';
+import '../styles/CardTagEditor.css';
+
+interface CardTagEditorProps {
+  card: Flashcard;
+  onAddTag: (tag: string) => void;
+  onRemoveTag: (tag: string) => void;
+  onDifficultyChange: (difficulty?: DifficultyLevel) => void;
+}
+
+const CardTagEditor: React.FC<CardTagEditorProps> = ({ card, onAddTag, onRemoveTag, onDifficultyChange }) => {
+  const [newTag, setNewTag] = useState<string>('');
+  const tags = card.tags || [];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (normalizeTag(newTag)) {
+      onAddTag(newTag);
+    }
+    setNewTag('');
+  };
+
+  return (
+    <div className="card-tag-editor">
+      <ul className="tag-list" aria-label="Tags">
+        {tags.map(tag => (
+          <li key={tag} className="tag-chip">
+            {tag}
+            <button type="button" aria-label={`Remove tag ${tag}`} onClick={() => onRemoveTag(tag)}>×</button>
+          </li>
+        ))}
+      </ul>
+      <form className="add-tag-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          aria-label="New tag"
+          placeholder="Add a tag"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+        />
+        <button type="submit" disabled={!newTag.trim()}>Add Tag</button>
+      </form>
+      <label className="difficulty-select">
+        Difficulty
+        <select
+          value={card.difficulty || ''}
+          onChange={(e) => onDifficultyChange(e.target.value ? e.target.value as DifficultyLevel : undefined)}
+        >
+          <option value="">Not set</option>
+          {DIFFICULTY_LEVELS.map(level => (
+            <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default CardTagEditor;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Flashcard } from '../types';
+import {
+  CsvColumnMapping,
+  NO_COLUMN,
+  guessColumnMapping,
+  buildCardsFromRecords
+} from '../services/csvService';
+import '../styles/CsvImportPreview.css';
+
+interface CsvImportPreviewProps {
+  fileName: string;
+  records: string[][];
+  onImport: (cards: Flashcard[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROW_COUNT = 5;
+const MAX_LISTED_ERRORS = 20;
+
+const CsvImportPreview: React.FC<CsvImportPreviewProps> = ({ fileName, records, onImport, onCancel }) => {
+  const [hasHeader, setHasHeader] = useState<boolean>(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(records[0] || []));
+
+  const columnCount = records.reduce((max, record) => Math.max(max, record.length), 0);
+  const headers: string[] = [];
+  for (let i = 0; i < columnCount; i++) {
+    const name = hasHeader && records[0][i] ? records[0][i].trim() : '';
+    headers.push(name || `Column ${i + 1}`);
+  }
+
+  const dataRecords = hasHeader ? records.slice(1) : records;
+  const firstRow = hasHeader ? 2 : 1;
+
+  let mappingProblem: string | null = null;
+  if (mapping.question === NO_COLUMN || mapping.answer === NO_COLUMN) {
+    mappingProblem = 'Choose the columns that hold the question and the answer';
+  } else if (mapping.question === mapping.answer) {
+    mappingProblem = 'Question and answer must come from different columns';
+  }
+
+  const result = mappingProblem ? null : buildCardsFromRecords(dataRecords, mapping, firstRow);
+
+  const updateMapping = (field: keyof CsvColumnMapping) => (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = Number(e.target.value);
+    setMapping(current => ({ ...current, [field]: value }));
+  };
+
+  const handleHeaderToggle = () => {
+    const nextHasHeader = !hasHeader;
+    setHasHeader(nextHasHeader);
+    if (nextHasHeader) {
+      setMapping(guessColumnMapping(records[0] || []));
+    }
+  };
+
+  const renderColumnSelect = (field: keyof CsvColumnMapping, label: string, emptyLabel: string) => (
+    <label className="csv-mapping-field">
+      {label}
+      <select value={mapping[field]} onChange={updateMapping(field)}>
+        <option value={NO_COLUMN}>{emptyLabel}</option>
+        {headers.map((header, index) => (
+          <option key={index} value={index}>{header}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="csv-import-preview">
+      <h3>Import preview: {fileName}</h3>
+
+      <label className="csv-header-toggle">
+        <input type="checkbox" checked={hasHeader} onChange={handleHeaderToggle} />
+        First row contains column names
+      </label>
+
+      <div className="csv-mapping">
+        {renderColumnSelect('question', 'Question column', 'Select a column')}
+        {renderColumnSelect('answer', 'Answer column', 'Select a column')}
+        {renderColumnSelect('tags', 'Tags column', 'None')}
+        {renderColumnSelect('type', 'Card type column', 'None')}
+        {renderColumnSelect('options', 'Options column', 'None')}
+        {renderColumnSelect('difficulty', 'Difficulty column', 'None')}
+        {renderColumnSelect('explanation', 'Explanation column', 'None')}
+      </div>
+
+      <div className="csv-preview-table">
+        <table>
+          <thead>
+            <tr>
+              {headers.map((header, index) => (
+                <th key={index}>{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {dataRecords.slice(0, PREVIEW_ROW_COUNT).map((record, rowIndex) => (
+              <tr key={rowIndex}>
+                {headers.map((_, index) => (
+                  <td key={index}>{record[index] || ''}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {dataRecords.length > PREVIEW_ROW_COUNT && (
+          <p className="csv-preview-more">…and {dataRecords.length - PREVIEW_ROW_COUNT} more rows</p>
+        )}
+      </div>
+
+      {mappingProblem && <p className="csv-mapping-problem">{mappingProblem}</p>}
+
+      {result && result.errors.length > 0 && (
+        <div className="csv-row-errors">
+          <p>
+            {result.errors.length} {result.errors.length === 1 ? 'row' : 'rows'} will be skipped:
+          </p>
+          <ul>
+            {result.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+              <li key={error.row}>Row {error.row}: {error.message}</li>
+            ))}
+          </ul>
+          {result.errors.length > MAX_LISTED_ERRORS && (
+            <p>…and {result.errors.length - MAX_LISTED_ERRORS} more</p>
+          )}
+        </div>
+      )}
+
+      <div className="csv-import-actions">
+        <button
+          type="button"
+          className="csv-import-confirm"
+          disabled={!result || result.cards.length === 0}
+          onClick={() => result && onImport(result.cards)}
+        >
+          Import {result ? result.cards.length : 0} {result && result.cards.length === 1 ? 'card' : 'cards'}
+        </button>
+        <button type="button" onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportPreview;
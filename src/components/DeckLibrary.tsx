@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { DeckSummary, FlashcardSet } from '../types';
+import {
+  listDecks,
+  getDeck,
+  renameDeck,
+  duplicateDeck,
+  deleteDeck,
+  mergeDecks,
+  splitDeck
+} from '../services/deckLibraryService';
+import { SplitCriterion, SPLIT_CRITERION_LABELS } from '../services/deckMergeService';
+import '../styles/DeckLibrary.css';
+
+interface DeckLibraryProps {
+  onOpenDeck: (flashcardSet: FlashcardSet) => void;
+  onCreateNew: () => void;
+  setError: React.Dispatch<React.SetStateAction<string | null>>;
+}
+
+const DeckLibrary: React.FC<DeckLibraryProps> = ({ onOpenDeck, onCreateNew, setError }) => {
+  const [decks, setDecks] = useState<DeckSummary[]>([]);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [splittingId, setSplittingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const refreshDecks = useCallback(async () => {
+    try {
+      setDecks(await listDecks());
+    } catch (error) {
+      setError(`Error loading deck library: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setLoaded(true);
+    }
+  }, [setError]);
+
+  useEffect(() => {
+    refreshDecks();
+  }, [refreshDecks]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await refreshDecks();
+    } catch (error) {
+      setError(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    }
+  };
+
+  const handleOpen = async (id: string) => {
+    setError(null);
+    try {
+      const deck = await getDeck(id);
+      if (!deck) {
+        throw new Error('Deck no longer exists');
+      }
+      onOpenDeck(deck);
+    } catch (error) {
+      setError(`Error opening deck: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const startRename = (deck: DeckSummary) => {
+    setRenamingId(deck.id);
+    setRenameValue(deck.title);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent, id: string) => {
+    e.preventDefault();
+    setRenamingId(null);
+    runAction(() => renameDeck(id, renameValue));
+  };
+
+  const handleDelete = (id: string) => {
+    setPendingDeleteId(null);
+    setSelectedIds(selectedIds.filter(selectedId => selectedId !== id));
+    runAction(() => deleteDeck(id));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.indexOf(id) === -1
+      ? [...selectedIds, id]
+      : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const handleMerge = () => {
+    // Merge in library order rather than the order the boxes were ticked
+    const ids = decks.map(deck => deck.id).filter(id => selectedIds.indexOf(id) !== -1);
+    setSelectedIds([]);
+    runAction(() => mergeDecks(ids));
+  };
+
+  const handleSplit = (id: string, criterion: SplitCriterion) => {
+    setSplittingId(null);
+    runAction(() => splitDeck(id, criterion));
+  };
+
+  return (
+    <div className="deck-library">
+      <div className="deck-library-header">
+        <h2>My Decks</h2>
+        <button className="create-deck-btn" onClick={onCreateNew}>
+          Create New Flashcards
+        </button>
+      </div>
+
+      {loaded && decks.length === 0 && (
+        <div className="deck-library-empty">
+          <p>No saved decks yet</p>
+          <small>Generated and imported flashcards are saved here automatically</small>
+        </div>
+      )}
+
+      {selectedIds.length >= 2 && (
+        <div className="deck-selection-bar">
+          <button onClick={handleMerge}>Merge Selected ({selectedIds.length})</button>
+          <button onClick={() => setSelectedIds([])}>Clear Selection</button>
+        </div>
+      )}
+
+      <ul className="deck-list">
+        {decks.map(deck => (
+          <li key={deck.id} className="deck-item">
+            <input
+              type="checkbox"
+              className="deck-select"
+              aria-label={`Select ${deck.title}`}
+              checked={selectedIds.indexOf(deck.id) !== -1}
+              onChange={() => toggleSelected(deck.id)}
+            />
+            <div className="deck-info">
+              {renamingId === deck.id ? (
+                <form className="rename-form" onSubmit={(e) => handleRenameSubmit(e, deck.id)}>
+                  <input
+                    aria-label="Deck title"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    autoFocus
+                  />
+                  <button type="submit">Save</button>
+                  <button type="button" onClick={() => setRenamingId(null)}>Cancel</button>
+                </form>
+              ) : (
+                <h3>{deck.title}</h3>
+              )}
+              <p className="deck-meta">
+                {deck.cardCount} cards · {deck.source} · {new Date(deck.createdAt).toLocaleDateString()}
+              </p>
+            </div>
+
+            <div className="deck-actions">
+              {pendingDeleteId === deck.id ? (
+                <>
+                  <button className="delete-btn" onClick={() => handleDelete(deck.id)}>Confirm Delete</button>
+                  <button onClick={() => setPendingDeleteId(null)}>Cancel</button>
+                </>
+              ) : splittingId === deck.id ? (
+                <>
+                  {(Object.keys(SPLIT_CRITERION_LABELS) as SplitCriterion[]).map(criterion => (
+                    <button key={criterion} onClick={() => handleSplit(deck.id, criterion)}>
+                      {SPLIT_CRITERION_LABELS[criterion]}
+                    </button>
+                  ))}
+                  <button onClick={() => setSplittingId(null)}>Cancel</button>
+                </>
+              ) : (
+                <>
+                  <button className="open-btn" onClick={() => handleOpen(deck.id)}>Open</button>
+                  <button onClick={() => startRename(deck)}>Rename</button>
+                  <button onClick={() => runAction(() => duplicateDeck(deck.id))}>Duplicate</button>
+                  <button onClick={() => setSplittingId(deck.id)}>Split</button>
+                  <button className="delete-btn" onClick={() => setPendingDeleteId(deck.id)}>Delete</button>
+                </>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DeckLibrary;
@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { DOCUMENT_ACCEPT, getDocumentKind } from '../services/documentService';
+import '../styles/DocumentDropZone.css';
+
+interface DocumentDropZoneProps {
+  file: File | null;
+  onFileChange: (file: File | null) => void;
+  onError: (message: string) => void;
+}
+
+const UNSUPPORTED_MESSAGE = 'Unsupported file type. Choose a PDF, Word (.docx), Markdown or text file';
+
+const DocumentDropZone: React.FC<DocumentDropZoneProps> = ({ file, onFileChange, onError }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    if (!getDocumentKind(selected.name)) {
+      onError(UNSUPPORTED_MESSAGE);
+      return;
+    }
+    onFileChange(selected);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    selectFile(e.dataTransfer.files[0]);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    selectFile(e.target.files?.[0]);
+    // Reset the input value to allow choosing the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div
+      className={`document-drop-zone ${isDragging ? 'dragging' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {file ? (
+        <div className="selected-document">
+          <span>📄 {file.name}</span>
+          <button type="button" onClick={() => onFileChange(null)} aria-label="Remove document">
+            ✕
+          </button>
+        </div>
+      ) : (
+        <p>Drop a PDF, Word, Markdown or text file here</p>
+      )}
+      <button type="button" className="choose-document-button" onClick={() => fileInputRef.current?.click()}>
+        {file ? 'Choose Another File' : 'Choose File'}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={DOCUMENT_ACCEPT}
+        onChange={handleInputChange}
+        style={{ display: 'none' }}
+      />
+    </div>
+  );
+};
+
+export default DocumentDropZone;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Flashcard } from '../types';
+import {
+  DuplicateGroup,
+  findDuplicateGroups,
+  findDuplicateGroupsWithLLM,
+  canMergeAnswers,
+  keepOneCard,
+  mergeCardAnswers
+} from '../services/duplicateService';
+import { formatCardFront, formatCardBack } from '../services/cardTypeService';
+import { getMockModeSetting } from '../config';
+import '../styles/DuplicateReview.css';
+
+interface DuplicateReviewProps {
+  cards: Flashcard[];
+  onCardsChange: (cards: Flashcard[]) => void;
+}
+
+const getGroupKey = (group: DuplicateGroup): string => group.cardIds.join(',');
+
+const DuplicateReview: React.FC<DuplicateReviewProps> = ({ cards, onCardsChange }) => {
+  // Found once when the review opens; resolved groups are removed as the user works through them
+  const [groups, setGroups] = useState<DuplicateGroup[]>(() => findDuplicateGroups(cards));
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+  const [isChecking, setIsChecking] = useState<boolean>(false);
+  const [checkedWithLLM, setCheckedWithLLM] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getKeepId = (group: DuplicateGroup): string => keepIds[getGroupKey(group)] || group.cardIds[0];
+
+  const removeGroup = (group: DuplicateGroup) => {
+    setGroups(groups.filter(other => getGroupKey(other) !== getGroupKey(group)));
+  };
+
+  const handleKeepOne = (group: DuplicateGroup) => {
+    onCardsChange(keepOneCard(cards, group.cardIds, getKeepId(group)));
+    removeGroup(group);
+  };
+
+  const handleMergeAnswers = (group: DuplicateGroup) => {
+    onCardsChange(mergeCardAnswers(cards, group.cardIds, getKeepId(group)));
+    removeGroup(group);
+  };
+
+  const handleCheckWithLLM = async () => {
+    setIsChecking(true);
+    setError(null);
+    try {
+      setGroups(await findDuplicateGroupsWithLLM(cards, undefined, getMockModeSetting()));
+      setKeepIds({});
+      setCheckedWithLLM(true);
+    } catch (checkError) {
+      setError(checkError instanceof Error ? checkError.message : 'Unknown error');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const findCard = (id: string): Flashcard | undefined => cards.filter(card => card.id === id)[0];
+
+  return (
+    <div className="duplicate-review">
+      <div className="duplicate-review-header">
+        <p className="duplicate-count">
+          {groups.length === 0
+            ? 'No likely duplicates found'
+            : `${groups.length} ${groups.length === 1 ? 'group' : 'groups'} of likely duplicates`}
+        </p>
+        <button onClick={handleCheckWithLLM} disabled={isChecking || checkedWithLLM}>
+          {isChecking ? 'Checking...' : 'Also Check Paraphrases with the LLM'}
+        </button>
+      </div>
+
+      {error && <div className="error">{error}</div>}
+
+      {groups.map((group, index) => {
+        const groupCards = group.cardIds.map(findCard).filter((card): card is Flashcard => card !== undefined);
+        const keepId = getKeepId(group);
+        return (
+          <section key={getGroupKey(group)} className="duplicate-group" aria-label={`Duplicate group ${index + 1}`}>
+            <p className="duplicate-similarity">
+              {group.detectedBy === 'llm' ? 'Confirmed by the LLM' : `${Math.round(group.similarity * 100)}% similar`}
+            </p>
+            <ul>
+              {groupCards.map(card => (
+                <li key={card.id}>
+                  <label>
+                    <input
+                      type="radio"
+                      name={`keep-${getGroupKey(group)}`}
+                      checked={card.id === keepId}
+                      onChange={() => setKeepIds({ ...keepIds, [getGroupKey(group)]: card.id })}
+                    />
+                    <span className="duplicate-question">{formatCardFront(card)}</span>
+                    <small className="duplicate-answer">{formatCardBack(card)}</small>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="duplicate-actions">
+              <button onClick={() => handleKeepOne(group)}>Keep Selected</button>
+              <button onClick={() => handleMergeAnswers(group)} disabled={!canMergeAnswers(groupCards)}>
+                Merge Answers
+              </button>
+              <button onClick={() => removeGroup(group)}>Keep All</button>
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DuplicateReview;
@@ -1,27 +1,296 @@
-import React, { useState } from 'react';
-import { FlashcardSet } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Flashcard, FlashcardSet, ReviewGrade, CardProvenance, DifficultyLevel } from '../types';
+import { reviewCard } from '../services/schedulerService';
+import {
+  CardChanges,
+  DeletedCard,
+  createCard,
+  updateCard,
+  deleteCards,
+  restoreCards,
+  moveCard,
+  toggleStarred,
+  addTag,
+  removeTag,
+  setDifficulty
+} from '../services/cardEditingService';
+import { DIFFICULTY_LABELS, getDeckTags } from '../services/tagService';
+import {
+  DeckView,
+  CardFilter,
+  CardOrder,
+  CARD_FILTER_LABELS,
+  CARD_ORDER_LABELS,
+  DEFAULT_DECK_VIEW,
+  MAX_SHUFFLE_SEED,
+  applyDeckView,
+  createShuffleSeed,
+  findMatches,
+  isDeckOrder
+} from '../services/deckViewService';
+import { exportToApkg } from '../services/ankiService';
+import { refineFlashcard } from '../services/llmService';
+import { getMockModeSetting } from '../config';
+import { RefineAction, CardRefinement, applyRefinement, undoRefinement } from '../services/cardRefinementService';
+import { recordReviewEvent } from '../services/reviewHistoryService';
+import { formatCardsAsCsv } from '../services/csvService';
+import { isProvenanceVerified } from '../services/provenanceService';
+import { CARD_TYPE_LABELS, formatCardFront, formatCardBack } from '../services/cardTypeService';
+import { useKeyboardShortcuts, ShortcutHandlers } from '../hooks/useKeyboardShortcuts';
+import StudySession from './StudySession';
+import QuizSession from './QuizSession';
+import StudyStats from './StudyStats';
+import DuplicateReview from './DuplicateReview';
+import CardEditor from './CardEditor';
+import CardFace from './CardFace';
+import CardTagEditor from './CardTagEditor';
+import CardRefineActions from './CardRefineActions';
+import KeyboardShortcutsHelp from './KeyboardShortcutsHelp';
 import '../styles/FlashcardViewer.css';
 
+const UNVERIFIED_MESSAGE = 'The supporting quote was not found in the source, so this card may be hallucinated';
+
+const pluralizeCards = (count: number): string => `${count} ${count === 1 ? 'card' : 'cards'}`;
+
+const describeRefinement = (refinement: CardRefinement): string => {
+  const count = refinement.addedIds.length;
+  switch (refinement.action) {
+    case 'regenerate':
+      return 'Regenerated the card.';
+    case 'simplify':
+      return 'Simplified the card.';
+    case 'split':
+      return `Split the card into ${pluralizeCards(count)}.`;
+    default:
+      return `Added ${pluralizeCards(count)} like it.`;
+  }
+};
+
 interface FlashcardViewerProps {
   flashcardSet: FlashcardSet;
   onReset: () => void;
+  onCardsChange?: (cards: Flashcard[]) => void;
+  isGenerating?: boolean;
 }
 
-const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset }) => {
+const FlashcardViewer: React.FC<FlashcardViewerProps> = ({
+  flashcardSet,
+  onReset,
+  onCardsChange,
+  isGenerating = false
+}) => {
+  const [cards, setCards] = useState<Flashcard[]>(flashcardSet.cards);
   const [currentIndex, setCurrentIndex] = useState<number>(0);
   const [flipped, setFlipped] = useState<boolean>(false);
-  const [viewMode, setViewMode] = useState<'cards' | 'list'>('cards');
+  const [viewMode, setViewMode] = useState<'cards' | 'list' | 'study' | 'quiz' | 'stats' | 'duplicates'>('cards');
+  const isReviewing = viewMode === 'study' || viewMode === 'quiz' || viewMode === 'stats' || viewMode === 'duplicates';
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState<boolean>(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [lastDeleted, setLastDeleted] = useState<DeletedCard[] | null>(null);
+  const [lastRefinement, setLastRefinement] = useState<CardRefinement | null>(null);
+  const [pendingRefinement, setPendingRefinement] = useState<RefineAction | null>(null);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  const [deckView, setDeckView] = useState<DeckView>(DEFAULT_DECK_VIEW);
+  const cardRef = useRef<HTMLDivElement>(null);
+  const wasEditing = useRef<boolean>(false);
+  // Refined cards arrive after a round trip to the LLM and go into the deck as it is by then
+  const latestCards = useRef<Flashcard[]>(cards);
+  latestCards.current = cards;
+
+  // Streamed partial sets replace the card list, so editing waits until generation has finished
+  const canEdit = !isGenerating;
+
+  // Card and list view show the filtered, sorted cards; positions in the card view refer to this list
+  const visibleCards = applyDeckView(cards, deckView);
+  const cardIndex = Math.min(currentIndex, Math.max(0, visibleCards.length - 1));
+  // Dragging rows only makes sense while the list shows the whole deck in its own order
+  const canReorder = canEdit && isDeckOrder(deckView);
+  const allVisibleSelected = visibleCards.length > 0 && visibleCards.every(card => selectedIds.indexOf(card.id) !== -1);
+
+  useEffect(() => {
+    setCards(flashcardSet.cards);
+  }, [flashcardSet]);
+
+  // The editor replaces the card, so keyboard users get their focus back on it once editing ends
+  useEffect(() => {
+    if (wasEditing.current && !editingId && cardRef.current) {
+      cardRef.current.focus();
+    }
+    wasEditing.current = editingId !== null;
+  }, [editingId]);
+
+  const updateCards = (updatedCards: Flashcard[]) => {
+    latestCards.current = updatedCards;
+    setCards(updatedCards);
+    if (onCardsChange) {
+      onCardsChange(updatedCards);
+    }
+  };
+
+  const handleGrade = (cardId: string, grade: ReviewGrade, responseTimeMs: number) => {
+    updateCards(cards.map(card => (card.id === cardId ? reviewCard(card, grade) : card)));
+    // Review history is kept for saved decks only; losing an event must not interrupt studying
+    if (flashcardSet.id) {
+      recordReviewEvent({ deckId: flashcardSet.id, cardId, timestamp: new Date(), grade, responseTimeMs })
+        .catch(error => console.error('Could not record review:', error));
+    }
+  };
+
+  const handleSaveEdit = (changes: CardChanges) => {
+    if (editingId) {
+      updateCards(updateCard(cards, editingId, changes));
+    }
+    setEditingId(null);
+  };
+
+  const handleAddCard = (changes: CardChanges) => {
+    const card = createCard(changes);
+    const updatedCards = cards.concat([card]);
+    updateCards(updatedCards);
+    // Show the new card, unless the active filter hides it
+    const position = applyDeckView(updatedCards, deckView).indexOf(card);
+    if (position !== -1) {
+      setCurrentIndex(position);
+    }
+    setFlipped(false);
+    setIsAdding(false);
+  };
+
+  const handleToggleStarred = (id: string) => {
+    updateCards(toggleStarred(cards, id));
+  };
+
+  const handleAddTag = (id: string, tag: string) => {
+    updateCards(addTag(cards, id, tag));
+  };
+
+  const handleRemoveTag = (id: string, tag: string) => {
+    updateCards(removeTag(cards, id, tag));
+  };
+
+  const handleDifficultyChange = (id: string, difficulty?: DifficultyLevel) => {
+    updateCards(setDifficulty(cards, id, difficulty));
+  };
+
+  const updateDeckView = (changes: Partial<DeckView>) => {
+    setDeckView({ ...deckView, ...changes });
+    setCurrentIndex(0);
+    setFlipped(false);
+  };
+
+  const handleOrderChange = (order: CardOrder) => {
+    // A fresh seed each time shuffling is picked; the seed field reproduces an earlier order
+    updateDeckView(order === 'shuffled' && deckView.order !== 'shuffled'
+      ? { order, shuffleSeed: createShuffleSeed() }
+      : { order });
+  };
+
+  const handleSeedChange = (value: string) => {
+    const seed = parseInt(value, 10);
+    if (seed >= 1 && seed <= MAX_SHUFFLE_SEED) {
+      updateDeckView({ shuffleSeed: seed });
+    }
+  };
+
+  const showCard = (updatedCards: Flashcard[], card: Flashcard) => {
+    const position = applyDeckView(updatedCards, deckView).indexOf(card);
+    if (position !== -1) {
+      setCurrentIndex(position);
+    }
+    setFlipped(false);
+  };
+
+  const handleRefine = async (card: Flashcard, action: RefineAction, count: number) => {
+    setPendingRefinement(action);
+    setRefineError(null);
+    try {
+      const refinedCards = await refineFlashcard(card, action, flashcardSet.sourceContent, count, undefined, getMockModeSetting());
+      const result = applyRefinement(latestCards.current, card.id, action, refinedCards);
+      updateCards(result.cards);
+      setLastRefinement(result.refinement);
+      setLastDeleted(null);
+      showCard(result.cards, refinedCards[0]);
+    } catch (error) {
+      setRefineError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setPendingRefinement(null);
+    }
+  };
+
+  const handleUndoRefinement = () => {
+    if (lastRefinement) {
+      const restoredCards = undoRefinement(cards, lastRefinement);
+      updateCards(restoredCards);
+      if (lastRefinement.replaced) {
+        showCard(restoredCards, lastRefinement.replaced.card);
+      }
+      setLastRefinement(null);
+    }
+  };
+
+  const handleDelete = (ids: string[]) => {
+    const result = deleteCards(cards, ids);
+    updateCards(result.cards);
+    setLastDeleted(result.deleted);
+    setLastRefinement(null);
+    setSelectedIds(selectedIds.filter(id => ids.indexOf(id) === -1));
+    setCurrentIndex(Math.min(cardIndex, Math.max(0, applyDeckView(result.cards, deckView).length - 1)));
+    setFlipped(false);
+    if (editingId && ids.indexOf(editingId) !== -1) {
+      setEditingId(null);
+    }
+  };
+
+  const handleUndoDelete = () => {
+    if (lastDeleted) {
+      updateCards(restoreCards(cards, lastDeleted));
+      setLastDeleted(null);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(selectedIds.indexOf(id) === -1
+      ? selectedIds.concat([id])
+      : selectedIds.filter(selectedId => selectedId !== id));
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected
+      ? selectedIds.filter(id => !visibleCards.some(card => card.id === id))
+      : selectedIds.concat(visibleCards.filter(card => selectedIds.indexOf(card.id) === -1).map(card => card.id)));
+  };
+
+  const handleDragStart = (e: React.DragEvent, index: number) => {
+    setDragIndex(index);
+    // Firefox only starts a drag when some data is set
+    if (e.dataTransfer) {
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', cards[index].id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) {
+      updateCards(moveCard(cards, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
 
   const handleNext = () => {
-    if (currentIndex < flashcardSet.cards.length - 1) {
-      setCurrentIndex(currentIndex + 1);
+    if (cardIndex < visibleCards.length - 1) {
+      setCurrentIndex(cardIndex + 1);
       setFlipped(false);
     }
   };
 
   const handlePrevious = () => {
-    if (currentIndex > 0) {
-      setCurrentIndex(currentIndex - 1);
+    if (cardIndex > 0) {
+      setCurrentIndex(cardIndex - 1);
       setFlipped(false);
     }
   };
@@ -30,20 +299,33 @@ const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset
     setFlipped(!flipped);
   };
 
-  const exportAsCSV = () => {
-    const csvContent = [
-      ['Question', 'Answer'],
-      ...flashcardSet.cards.map(card => [card.question, card.answer])
-    ]
-      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
-      .join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  // Space is handled by the document-wide shortcut, so only Enter needs handling here
+  const handleCardKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleFlip();
+    }
+  };
+
+  const toggleShortcuts = () => {
+    setShowShortcuts(!showShortcuts);
+  };
+
+  // Flipping and navigating belong to the card view; the study session registers its own keys
+  const shortcuts: ShortcutHandlers = { '?': toggleShortcuts };
+  if (viewMode === 'cards' && !showShortcuts) {
+    shortcuts.Space = handleFlip;
+    shortcuts.ArrowLeft = handlePrevious;
+    shortcuts.ArrowRight = handleNext;
+  }
+  useKeyboardShortcuts(shortcuts, editingId === null && !isAdding);
+
+  const downloadBlob = (blob: Blob, extension: string) => {
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     
     link.setAttribute('href', url);
-    link.setAttribute('download', `${flashcardSet.title.replace(/\s+/g, '_')}_flashcards.csv`);
+    link.setAttribute('download', `${flashcardSet.title.replace(/\s+/g, '_')}_flashcards.${extension}`);
     link.style.visibility = 'hidden';
     
     document.body.appendChild(link);
@@ -51,24 +333,85 @@ const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset
     document.body.removeChild(link);
   };
 
+  const exportAsCSV = () => {
+    downloadBlob(new Blob([formatCardsAsCsv(cards)], { type: 'text/csv;charset=utf-8;' }), 'csv');
+  };
+
   const exportAsJSON = () => {
-    const jsonContent = JSON.stringify(flashcardSet, null, 2);
-    const blob = new Blob([jsonContent], { type: 'application/json' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${flashcardSet.title.replace(/\s+/g, '_')}_flashcards.json`);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    const jsonContent = JSON.stringify({ ...flashcardSet, cards }, null, 2);
+    downloadBlob(new Blob([jsonContent], { type: 'application/json' }), 'json');
+  };
+
+  const exportAsApkg = async () => {
+    setExportError(null);
+    try {
+      const packageData = await exportToApkg({ ...flashcardSet, cards });
+      downloadBlob(new Blob([packageData], { type: 'application/octet-stream' }), 'apkg');
+    } catch (error) {
+      setExportError(`Error exporting Anki package: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
   // Handle empty flashcard sets
-  const hasCards = flashcardSet.cards && flashcardSet.cards.length > 0;
-  const currentCard = hasCards ? flashcardSet.cards[currentIndex] : null;
+  const hasCards = visibleCards.length > 0;
+  const currentCard = hasCards ? visibleCards[cardIndex] : null;
+  const deckTags = getDeckTags(cards);
+  // A tag removed from its last card stays selectable until the filter is changed
+  if (deckView.tag && !deckTags.some(entry => entry.tag === deckView.tag)) {
+    deckTags.push({ tag: deckView.tag, count: 0 });
+  }
+  const emptyMessage = cards.length > 0 ? 'No cards match the current filters' : 'No flashcards available';
+  const unverifiedCount = cards.filter(card => card.provenance && !isProvenanceVerified(card.provenance)).length;
+  const announcement = currentCard
+    ? `Card ${cardIndex + 1} of ${visibleCards.length}. ${flipped ? `Answer: ${formatCardBack(currentCard)}` : `Question: ${formatCardFront(currentCard)}`}`
+    : '';
+
+  const renderHighlighted = (text: string): React.ReactNode => {
+    const matches = findMatches(text, deckView.query);
+    if (matches.length === 0) {
+      return text;
+    }
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    matches.forEach(match => {
+      parts.push(text.slice(position, match.start));
+      parts.push(<mark key={match.start} className="search-match">{text.slice(match.start, match.end)}</mark>);
+      position = match.end;
+    });
+    parts.push(text.slice(position));
+    return parts;
+  };
+
+  const renderCardMeta = (card: Flashcard) => (
+    <>
+      {card.difficulty && (
+        <small className={`card-difficulty difficulty-${card.difficulty}`}>{DIFFICULTY_LABELS[card.difficulty]}</small>
+      )}
+      {(card.tags || []).map(tag => <small key={tag} className="card-tag">#{tag}</small>)}
+    </>
+  );
+
+  const renderStarButton = (card: Flashcard, label: string) => (
+    <button
+      className={`star-btn ${card.starred ? 'starred' : ''}`}
+      aria-label={label}
+      aria-pressed={card.starred === true}
+      onClick={() => handleToggleStarred(card.id)}
+    >
+      {card.starred ? '★' : '☆'}
+    </button>
+  );
+
+  const renderProvenance = (provenance: CardProvenance) => (
+    <div className="card-provenance">
+      {provenance.quote && <blockquote className="card-quote">“{provenance.quote}”</blockquote>}
+      {!isProvenanceVerified(provenance) && (
+        <p className="unverified-warning">
+          ⚠️ {provenance.quote ? UNVERIFIED_MESSAGE : 'No supporting quote was given, so this card may be hallucinated'}
+        </p>
+      )}
+    </div>
+  );
 
   return (
     <div className="flashcard-viewer">
@@ -76,8 +419,13 @@ const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset
         <h2>{flashcardSet.title}</h2>
         <p className="source">Source: {flashcardSet.source}</p>
         <p className="card-count">
-          {flashcardSet.cards.length} flashcards generated
+          {cards.length} flashcards generated{isGenerating ? ' so far, more on the way...' : ''}
         </p>
+        {unverifiedCount > 0 && (
+          <p className="unverified-count">
+            ⚠️ {unverifiedCount} {unverifiedCount === 1 ? 'card is' : 'cards are'} not backed by a quote from the source
+          </p>
+        )}
       </div>
 
       <div className="view-controls">
@@ -93,69 +441,323 @@ const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset
         >
           List View
         </button>
+        <button
+          className={viewMode === 'study' ? 'active' : ''}
+          onClick={() => setViewMode('study')}
+        >
+          Study
+        </button>
+        <button
+          className={viewMode === 'quiz' ? 'active' : ''}
+          onClick={() => setViewMode('quiz')}
+        >
+          Quiz
+        </button>
+        <button
+          className={viewMode === 'stats' ? 'active' : ''}
+          onClick={() => setViewMode('stats')}
+        >
+          Stats
+        </button>
+        <button
+          className={viewMode === 'duplicates' ? 'active' : ''}
+          onClick={() => setViewMode('duplicates')}
+          disabled={!canEdit}
+        >
+          Duplicates
+        </button>
+        <button className="shortcuts-btn" aria-keyshortcuts="?" onClick={toggleShortcuts}>
+          Keyboard Shortcuts
+        </button>
       </div>
 
-      {viewMode === 'cards' ? (
+      {showShortcuts && <KeyboardShortcutsHelp onClose={() => setShowShortcuts(false)} />}
+
+      {canEdit && !isReviewing && (
+        <div className="edit-controls">
+          <button onClick={() => setIsAdding(true)} disabled={isAdding}>
+            + Add Card
+          </button>
+          {viewMode === 'list' && selectedIds.length > 0 && (
+            <button className="delete-selected-btn" onClick={() => handleDelete(selectedIds)}>
+              Delete Selected ({selectedIds.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {lastDeleted && (
+        <div className="undo-bar" role="status">
+          Deleted {lastDeleted.length} {lastDeleted.length === 1 ? 'card' : 'cards'}.
+          <button onClick={handleUndoDelete}>Undo</button>
+        </div>
+      )}
+
+      {lastRefinement && (
+        <div className="undo-bar" role="status">
+          {describeRefinement(lastRefinement)}
+          <button onClick={handleUndoRefinement}>Undo</button>
+        </div>
+      )}
+
+      {isAdding && canEdit && !isReviewing && (
+        <CardEditor submitLabel="Add Card" onSave={handleAddCard} onCancel={() => setIsAdding(false)} />
+      )}
+
+      {(viewMode === 'cards' || viewMode === 'list') && (
+        <div className="deck-toolbar">
+          <input
+            type="search"
+            aria-label="Search cards"
+            placeholder="Search questions and answers"
+            value={deckView.query}
+            onChange={(e) => updateDeckView({ query: e.target.value })}
+          />
+          <label>
+            Show
+            <select value={deckView.filter} onChange={(e) => updateDeckView({ filter: e.target.value as CardFilter })}>
+              {(Object.keys(CARD_FILTER_LABELS) as CardFilter[]).map(filter => (
+                <option key={filter} value={filter}>{CARD_FILTER_LABELS[filter]}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Tag
+            <select value={deckView.tag} onChange={(e) => updateDeckView({ tag: e.target.value })}>
+              <option value="">All tags</option>
+              {deckTags.map(entry => (
+                <option key={entry.tag} value={entry.tag}>{entry.tag} ({entry.count})</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Order
+            <select value={deckView.order} onChange={(e) => handleOrderChange(e.target.value as CardOrder)}>
+              {(Object.keys(CARD_ORDER_LABELS) as CardOrder[]).map(order => (
+                <option key={order} value={order}>{CARD_ORDER_LABELS[order]}</option>
+              ))}
+            </select>
+          </label>
+          {deckView.order === 'shuffled' && (
+            <>
+              <label>
+                Seed
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_SHUFFLE_SEED}
+                  value={deckView.shuffleSeed}
+                  onChange={(e) => handleSeedChange(e.target.value)}
+                />
+              </label>
+              <button onClick={() => updateDeckView({ shuffleSeed: createShuffleSeed() })}>Reshuffle</button>
+            </>
+          )}
+          {visibleCards.length !== cards.length && (
+            <p className="filter-summary">Showing {visibleCards.length} of {cards.length} cards</p>
+          )}
+        </div>
+      )}
+
+      {viewMode === 'study' && (
+        <StudySession cards={cards} onGrade={handleGrade} />
+      )}
+
+      {viewMode === 'quiz' && (
+        <QuizSession cards={cards} />
+      )}
+
+      {viewMode === 'stats' && (
+        <StudyStats deckId={flashcardSet.id} cards={cards} />
+      )}
+
+      {viewMode === 'duplicates' && canEdit && (
+        <DuplicateReview cards={cards} onCardsChange={updateCards} />
+      )}
+
+      {viewMode === 'cards' && (
         <div className="card-view">
-          {hasCards ? (
-            <div className={`flashcard ${flipped ? 'flipped' : ''}`} onClick={handleFlip}>
+          {hasCards && currentCard && editingId === currentCard.id ? (
+            <CardEditor
+              initialCard={currentCard}
+              submitLabel="Save"
+              onSave={handleSaveEdit}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : hasCards ? (
+            <div
+              ref={cardRef}
+              className={`flashcard ${flipped ? 'flipped' : ''}`}
+              role="button"
+              tabIndex={0}
+              aria-label={flipped ? 'Flip back to the question' : 'Flip to reveal the answer'}
+              aria-keyshortcuts="Space Enter"
+              aria-describedby="card-announcement"
+              onClick={handleFlip}
+              onKeyDown={handleCardKeyDown}
+            >
               <div className="flashcard-inner">
-                <div className="flashcard-front">
-                  <p>{currentCard?.question}</p>
+                <div className="flashcard-front" aria-hidden={flipped}>
+                  {currentCard?.section && <span className="card-section">{currentCard.section}</span>}
+                  {currentCard && <CardFace card={currentCard} side="front" />}
+                  {currentCard && <div className="card-meta">{renderCardMeta(currentCard)}</div>}
                   <small>Click to reveal answer</small>
                 </div>
-                <div className="flashcard-back">
-                  <p>{currentCard?.answer}</p>
+                <div className="flashcard-back" aria-hidden={!flipped}>
+                  {currentCard && <CardFace card={currentCard} side="back" />}
+                  {currentCard?.provenance && renderProvenance(currentCard.provenance)}
                   <small>Click to see question</small>
                 </div>
               </div>
             </div>
           ) : (
             <div className="empty-flashcard">
-              <p>No flashcards available</p>
+              <p>{emptyMessage}</p>
+            </div>
+          )}
+
+          <p id="card-announcement" className="visually-hidden" aria-live="polite">{announcement}</p>
+
+          {canEdit && currentCard && editingId !== currentCard.id && (
+            <div className="card-edit-actions">
+              {renderStarButton(currentCard, 'Star card')}
+              <button onClick={() => setEditingId(currentCard.id)}>Edit Card</button>
+              <button className="delete-card-btn" onClick={() => handleDelete([currentCard.id])}>
+                Delete Card
+              </button>
             </div>
           )}
 
+          {canEdit && currentCard && editingId !== currentCard.id && (
+            <CardRefineActions
+              pendingAction={pendingRefinement}
+              onRefine={(action, count) => handleRefine(currentCard, action, count)}
+            />
+          )}
+
+          {refineError && <div className="error">{refineError}</div>}
+
+          {canEdit && currentCard && editingId !== currentCard.id && (
+            <CardTagEditor
+              card={currentCard}
+              onAddTag={(tag) => handleAddTag(currentCard.id, tag)}
+              onRemoveTag={(tag) => handleRemoveTag(currentCard.id, tag)}
+              onDifficultyChange={(difficulty) => handleDifficultyChange(currentCard.id, difficulty)}
+            />
+          )}
+
           <div className="card-navigation">
             <button 
               onClick={handlePrevious} 
-              disabled={!hasCards || currentIndex === 0}
+              disabled={!hasCards || cardIndex === 0}
             >
               Previous
             </button>
             <span className="card-counter">
-              {hasCards ? `${currentIndex + 1} / ${flashcardSet.cards.length}` : '0 / 0'}
+              {hasCards ? `${cardIndex + 1} / ${visibleCards.length}` : '0 / 0'}
             </span>
             <button 
               onClick={handleNext} 
-              disabled={!hasCards || currentIndex === flashcardSet.cards.length - 1}
+              disabled={!hasCards || cardIndex === visibleCards.length - 1}
             >
               Next
             </button>
           </div>
         </div>
-      ) : (
+      )}
+
+      {viewMode === 'list' && (
         <div className="list-view">
           <table>
             <thead>
               <tr>
+                {canEdit && (
+                  <th>
+                    <input
+                      type="checkbox"
+                      aria-label="Select all cards"
+                      checked={allVisibleSelected}
+                      onChange={toggleSelectAll}
+                    />
+                  </th>
+                )}
                 <th>#</th>
                 <th>Question</th>
                 <th>Answer</th>
+                {canEdit && <th>Actions</th>}
               </tr>
             </thead>
             <tbody>
               {hasCards ? (
-                flashcardSet.cards.map((card, index) => (
-                  <tr key={card.id}>
-                    <td>{index + 1}</td>
-                    <td>{card.question}</td>
-                    <td>{card.answer}</td>
-                  </tr>
-                ))
+                visibleCards.map(card => {
+                  // Rows are numbered by their place in the deck, whatever the view's order
+                  const index = cards.indexOf(card);
+                  return editingId === card.id ? (
+                    <tr key={card.id}>
+                      <td colSpan={5}>
+                        <CardEditor
+                          initialCard={card}
+                          submitLabel="Save"
+                          onSave={handleSaveEdit}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr
+                      key={card.id}
+                      draggable={canReorder}
+                      onDragStart={(e) => handleDragStart(e, index)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => handleDrop(e, index)}
+                      onDragEnd={() => setDragIndex(null)}
+                      className={dragIndex === index ? 'dragging' : ''}
+                    >
+                      {canEdit && (
+                        <td>
+                          <input
+                            type="checkbox"
+                            aria-label={`Select card ${index + 1}`}
+                            checked={selectedIds.indexOf(card.id) !== -1}
+                            onChange={() => toggleSelected(card.id)}
+                          />
+                        </td>
+                      )}
+                      <td>
+                        {canReorder && <span className="drag-handle" title="Drag to reorder">⠿</span>}
+                        {index + 1}
+                      </td>
+                      <td className="list-card-text">
+                        {renderHighlighted(formatCardFront(card))}
+                        {card.type && card.type !== 'basic' && (
+                          <small className="card-type">{CARD_TYPE_LABELS[card.type]}</small>
+                        )}
+                        {card.section && <small className="card-section">{card.section}</small>}
+                        {renderCardMeta(card)}
+                      </td>
+                      <td className="list-card-text">
+                        {renderHighlighted(formatCardBack(card))}
+                        {card.provenance && !isProvenanceVerified(card.provenance) && (
+                          <span className="unverified-flag" title={UNVERIFIED_MESSAGE}>⚠️ Unverified</span>
+                        )}
+                      </td>
+                      {canEdit && (
+                        <td className="row-actions">
+                          {renderStarButton(card, `Star card ${index + 1}`)}
+                          <button aria-label={`Edit card ${index + 1}`} onClick={() => setEditingId(card.id)}>
+                            Edit
+                          </button>
+                          <button aria-label={`Delete card ${index + 1}`} onClick={() => handleDelete([card.id])}>
+                            Delete
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })
               ) : (
                 <tr>
-                  <td colSpan={3} style={{ textAlign: 'center' }}>No flashcards available</td>
+                  <td colSpan={canEdit ? 5 : 3} style={{ textAlign: 'center' }}>{emptyMessage}</td>
                 </tr>
               )}
             </tbody>
@@ -163,6 +765,8 @@ const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset
         </div>
       )}
 
+      {exportError && <div className="error">{exportError}</div>}
+
       <div className="action-buttons">
         <button onClick={exportAsCSV} className="export-btn">
           Export as CSV
@@ -170,6 +774,9 @@ const FlashcardViewer: React.FC<FlashcardViewerProps> = ({ flashcardSet, onReset
         <button onClick={exportAsJSON} className="export-btn">
           Export as JSON
         </button>
+        <button onClick={exportAsApkg} className="export-btn">
+          Export as Anki (.apkg)
+        </button>
         <button onClick={onReset} className="reset-btn">
           Create New Flashcards
         </button>
@@ -1,24 +1,79 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { extractFlashcards } from '../services/llmService';
-import { fetchWikipediaContent } from '../services/wikipediaService';
-import { FlashcardSet, Flashcard } from '../types';
+import { extractFlashcards, previewExtractionMessages, MAX_EXTRACTION_REQUESTS } from '../services/llmService';
+import { critiqueFlashcards, CardCritique } from '../services/cardQualityService';
+import { fetchWikipediaContent, parseWikipediaUrl, toSourceSections, WikipediaContent } from '../services/wikipediaService';
+import { fetchWebPage } from '../services/webPageService';
+import { extractDocument } from '../services/documentService';
+import { FlashcardSet, Flashcard, ExtractionOptions, ExtractionProgress, SourceSection, InputType, CardType, PromptTemplate } from '../types';
 import { getLLMConfig } from '../config';
+import { parseReviewState } from '../services/schedulerService';
+import { parseProvenance } from '../services/provenanceService';
+import { parseSourceContent } from '../services/cardRefinementService';
+import { CARD_TYPES, CARD_TYPE_LABELS, parseCardContent } from '../services/cardTypeService';
+import { parseTagList, parseDifficulty } from '../services/tagService';
+import { importFromApkg } from '../services/ankiService';
+import { parseCsv } from '../services/csvService';
+import { TARGET_LANGUAGES, getLanguageName } from '../services/languageService';
+import { DEFAULT_PROMPT_TEMPLATE, validatePromptTemplate } from '../services/promptTemplateService';
 import { MockModeToggle } from './MockModeToggle';
+import CsvImportPreview from './CsvImportPreview';
+import WikipediaSectionPicker from './WikipediaSectionPicker';
+import DocumentDropZone from './DocumentDropZone';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import PromptPreview from './PromptPreview';
 import { v4 as uuidv4 } from 'uuid';
 import '../styles/InputForm.css';
 
 interface InputFormProps {
-  setFlashcardSet: React.Dispatch<React.SetStateAction<FlashcardSet | null>>;
-  setLoading: React.Dispatch<React.SetStateAction<boolean>>;
+  // Critiques come with generated sets when the quality review pass is switched on
+  setFlashcardSet: (flashcardSet: FlashcardSet, critiques?: CardCritique[]) => void;
+  // Each generation gets its own deck id, which its partial and finished sets carry, so
+  // generations that overlap can be told apart
+  setLoading: (loading: boolean, deckId?: string) => void;
   setError: React.Dispatch<React.SetStateAction<string | null>>;
+  setProgress?: (progress: ExtractionProgress | null) => void;
+  setPartialFlashcardSet?: (flashcardSet: FlashcardSet) => void;
 }
 
-const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setError }) => {
-  const [isUrlInput, setIsUrlInput] = useState(true);
+// Content fetched or extracted from the chosen input, ready to be sent to the LLM
+type LoadedSource = {
+  content: string | SourceSection[];
+  source: string;
+  title: string;
+  sourceLanguage?: string;
+};
+
+const InputForm: React.FC<InputFormProps> = ({
+  setFlashcardSet,
+  setLoading,
+  setError,
+  setProgress,
+  setPartialFlashcardSet
+}) => {
+  const [inputType, setInputType] = useState<InputType>('url');
+  const isUrlInput = inputType === 'url';
   const [input, setInput] = useState('');
+  const [documentFile, setDocumentFile] = useState<File | null>(null);
   const [useMockMode, setUseMockMode] = useState(false);
+  // Empty means the cards follow the language of the source
+  const [targetLanguage, setTargetLanguage] = useState('');
+  const [cardTypes, setCardTypes] = useState<CardType[]>(['basic']);
+  const [reviewQuality, setReviewQuality] = useState(false);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(DEFAULT_PROMPT_TEMPLATE);
+  // Source loaded for the prompt preview; generation reuses it instead of fetching again
+  const [previewSource, setPreviewSource] = useState<LoadedSource | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  // Source that needs more requests than usual; generation waits until the user agrees to them
+  const [oversizedSource, setOversizedSource] = useState<{ source: LoadedSource; requestCount: number } | null>(null);
   const jsonFileInputRef = useRef<HTMLInputElement>(null);
   const csvFileInputRef = useRef<HTMLInputElement>(null);
+  const apkgFileInputRef = useRef<HTMLInputElement>(null);
+  const [csvPreview, setCsvPreview] = useState<{ fileName: string; records: string[][] } | null>(null);
+  // Outline fetched for the section picker; only used while the URL field still holds `url`
+  const [wikiOutline, setWikiOutline] = useState<{ url: string; article: WikipediaContent } | null>(null);
+  const [selectedSectionIds, setSelectedSectionIds] = useState<string[]>([]);
+  const [isLoadingSections, setIsLoadingSections] = useState(false);
+  const activeOutline = isUrlInput && wikiOutline && wikiOutline.url === input ? wikiOutline : null;
   
   useEffect(() => {
     const savedSetting = localStorage.getItem('use_mock_mode');
@@ -27,13 +82,74 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
     }
   }, []);
 
+  useEffect(() => {
+    setPreviewSource(null);
+    setOversizedSource(null);
+  }, [inputType, input, documentFile, selectedSectionIds]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const getInputProblem = (): string | null => {
+    if (inputType === 'file' && !documentFile) {
+      return 'Please choose a document';
+    }
+    if (inputType !== 'file' && !input.trim()) {
+      return 'Please enter a URL or text';
+    }
+    return null;
+  };
+
+  const getOptionsProblem = (): string | null => {
+    if (activeOutline && selectedSectionIds.length === 0) {
+      return 'Please select at least one section';
+    }
+    if (cardTypes.length === 0) {
+      return 'Please choose at least one card type';
+    }
+    return validatePromptTemplate(promptTemplate);
+  };
+
+  const getExtractionOptions = (sourceLanguage?: string): ExtractionOptions => ({
+    language: targetLanguage || sourceLanguage,
+    cardTypes,
+    template: promptTemplate
+  });
+
+  const loadSource = async (): Promise<LoadedSource> => {
+    if (isUrlInput) {
+      if (parseWikipediaUrl(input)) {
+        const wikiContent = activeOutline ? activeOutline.article : await fetchWikipediaContent(input);
+        const chosenSections = activeOutline
+          ? wikiContent.sections.filter(section => selectedSectionIds.indexOf(section.id) !== -1)
+          : wikiContent.sections;
+        const sourceSections = toSourceSections(chosenSections);
+        return {
+          content: sourceSections.length > 0 ? sourceSections : wikiContent.content,
+          source: input,
+          title: extractTitleFromUrl(input),
+          sourceLanguage: wikiContent.language
+        };
+      }
+      const page = await fetchWebPage(input);
+      return { content: page.content, source: input, title: page.title, sourceLanguage: page.language };
+    }
+    if (inputType === 'file' && documentFile) {
+      const extracted = await extractDocument(documentFile);
+      return {
+        content: extracted.sections.length > 0 ? extracted.sections : extracted.text,
+        source: documentFile.name,
+        title: extracted.title
+      };
+    }
+    return { content: input, source: 'Custom text', title: 'Custom Text Flashcards' };
+  };
+
+  // Without `confirmed`, content that needs more than the usual number of requests stops at a warning
+  const generate = async (confirmed?: { source: LoadedSource; requestCount: number }) => {
     setError(null);
+    setOversizedSource(null);
 
-    if (!input.trim()) {
-      setError('Please enter a Wikipedia URL or text');
+    const inputProblem = getInputProblem();
+    if (inputProblem) {
+      setError(inputProblem);
       return;
     }
 
@@ -44,43 +160,129 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
       return;
     }
 
-    setLoading(true);
+    const optionsProblem = getOptionsProblem();
+    if (optionsProblem) {
+      setError(optionsProblem);
+      return;
+    }
+
+    const deckId = uuidv4();
+    setLoading(true, deckId);
 
     try {
-      let content = input;
-      let source = 'Custom text';
+      if (isUrlInput && !isValidUrl(input)) {
+        setError('Please enter a valid web page URL');
+        setLoading(false, deckId);
+        return;
+      }
 
-      if (isUrlInput) {
-        if (!isValidWikipediaUrl(input)) {
-          setError('Please enter a valid Wikipedia URL');
-          setLoading(false);
+      const loadedSource = confirmed ? confirmed.source : previewSource || await loadSource();
+      const { content, source, title, sourceLanguage } = loadedSource;
+      const extractionOptions = getExtractionOptions(sourceLanguage);
+      if (!confirmed) {
+        const { requestCount } = previewExtractionMessages(content, extractionOptions);
+        if (requestCount > MAX_EXTRACTION_REQUESTS) {
+          setOversizedSource({ source: loadedSource, requestCount });
           return;
         }
-
-        const wikiContent = await fetchWikipediaContent(input);
-        content = wikiContent.content;
-        source = input;
       }
-
-      const flashcards = await extractFlashcards(content, undefined, useMockMode);
-
-      setFlashcardSet({
-        title: isUrlInput ? extractTitleFromUrl(input) : 'Custom Text Flashcards',
+      const createdAt = new Date();
+
+      // Stream cards into a partial set so they can be studied while generation continues
+      const streamedCards: Flashcard[] = [];
+      const handleCard = setPartialFlashcardSet ? (card: Flashcard) => {
+        streamedCards.push(card);
+        setPartialFlashcardSet({ id: deckId, title, source, cards: streamedCards.slice(), createdAt });
+      } : undefined;
+
+      const flashcards = await extractFlashcards(
+        content, undefined, useMockMode, setProgress, handleCard,
+        confirmed ? { ...extractionOptions, maxRequests: confirmed.requestCount } : extractionOptions
+      );
+
+      const flashcardSet: FlashcardSet = {
+        id: deckId,
+        title,
         source: source,
         cards: flashcards,
-        createdAt: new Date()
-      });
+        createdAt,
+        sourceContent: content
+      };
+
+      if (reviewQuality && flashcards.length > 0) {
+        // A failed review must not cost the user the cards that were already generated
+        try {
+          setFlashcardSet(flashcardSet, await critiqueFlashcards(flashcards, undefined, useMockMode));
+        } catch (reviewError) {
+          setError(`Cards were saved without a quality review. ${reviewError instanceof Error ? reviewError.message : 'Unknown error'}`);
+          setFlashcardSet(flashcardSet);
+        }
+      } else {
+        setFlashcardSet(flashcardSet);
+      }
     } catch (error) {
       setError(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
     } finally {
-      setLoading(false);
+      setLoading(false, deckId);
+      if (setProgress) {
+        setProgress(null);
+      }
     }
   };
 
-  const isValidWikipediaUrl = (url: string): boolean => {
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    generate();
+  };
+
+  // Loads the content without generating, so the rendered messages can be checked before sending
+  const handlePreviewPrompt = async () => {
+    setError(null);
+    const problem = getInputProblem() || getOptionsProblem();
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (isUrlInput && !isValidUrl(input)) {
+      setError('Please enter a valid web page URL');
+      return;
+    }
+
+    setIsLoadingPreview(true);
+    try {
+      setPreviewSource(await loadSource());
+    } catch (error) {
+      setError(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const handleChooseSections = async () => {
+    setError(null);
+    setIsLoadingSections(true);
+    try {
+      const article = await fetchWikipediaContent(input);
+      setWikiOutline({ url: input, article });
+      setSelectedSectionIds(article.sections.map(section => section.id));
+    } catch (error) {
+      setError(`Error: ${error instanceof Error ? error.message : 'Unknown error occurred'}`);
+    } finally {
+      setIsLoadingSections(false);
+    }
+  };
+
+  // Keeps the selection in CARD_TYPES order so the prompt lists the types consistently
+  const toggleCardType = (type: CardType) => {
+    setCardTypes(current => CARD_TYPES.filter(candidate => (
+      candidate === type ? current.indexOf(candidate) === -1 : current.indexOf(candidate) !== -1
+    )));
+  };
+
+  const isValidUrl = (url: string): boolean => {
     try {
       const parsedUrl = new URL(url);
-      return parsedUrl.hostname.includes('wikipedia.org') && parsedUrl.pathname.length > 1;
+      return parsedUrl.protocol === 'http:' || parsedUrl.protocol === 'https:';
     } catch {
       return false;
     }
@@ -90,7 +292,7 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
     try {
       const parsedUrl = new URL(url);
       const pathParts = parsedUrl.pathname.split('/');
-      const lastPart = pathParts[pathParts.length - 1];
+      const lastPart = decodeURIComponent(pathParts[pathParts.length - 1]);
       return lastPart.replace(/_/g, ' ');
     } catch {
       return 'Wikipedia Flashcards';
@@ -109,6 +311,12 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
     }
   };
 
+  const handleImportApkg = () => {
+    if (apkgFileInputRef.current) {
+      apkgFileInputRef.current.click();
+    }
+  };
+
   const handleJSONFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -134,18 +342,38 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
           if (!card.question || !card.answer) {
             throw new Error(`Invalid card at index ${index}: missing question or answer`);
           }
-          return {
-            id: card.id || uuidv4(),
+          const { content: cardContent, reason } = parseCardContent({
+            ...card,
             question: String(card.question),
             answer: String(card.answer)
+          });
+          if (!cardContent) {
+            throw new Error(`Invalid card at index ${index}: ${reason}`);
+          }
+          const review = parseReviewState(card.review);
+          const provenance = parseProvenance(card.provenance);
+          const tags = parseTagList(card.tags);
+          const difficulty = parseDifficulty(card.difficulty);
+          return {
+            id: card.id || uuidv4(),
+            ...cardContent,
+            ...(tags.length > 0 ? { tags } : {}),
+            ...(difficulty ? { difficulty } : {}),
+            ...(typeof card.section === 'string' && card.section ? { section: card.section } : {}),
+            ...(provenance ? { provenance } : {}),
+            ...(review ? { review } : {}),
+            ...(card.starred === true ? { starred: true } : {})
           };
         });
 
+        // Keep where an exported deck came from, so its cards can still be refined from the source
+        const sourceContent = parseSourceContent(data.sourceContent);
         const flashcardSet: FlashcardSet = {
           title: data.title || 'Imported JSON Flashcards',
-          source: 'JSON Import',
+          source: typeof data.source === 'string' && data.source.trim() ? data.source : 'JSON Import',
           cards: validatedCards,
-          createdAt: data.createdAt ? new Date(data.createdAt) : new Date()
+          createdAt: data.createdAt ? new Date(data.createdAt) : new Date(),
+          ...(sourceContent ? { sourceContent } : {})
         };
 
         setFlashcardSet(flashcardSet);
@@ -168,7 +396,8 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
     const file = event.target.files?.[0];
     if (!file) return;
 
-    if (!file.name.toLowerCase().endsWith('.csv')) {
+    const fileName = file.name.toLowerCase();
+    if (!fileName.endsWith('.csv') && !fileName.endsWith('.tsv')) {
       setError('Please select a valid CSV file');
       return;
     }
@@ -177,55 +406,57 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
-        const lines = content.split('\n').filter(line => line.trim());
+        const records = parseCsv(content).records;
         
-        if (lines.length < 2) {
+        if (records.length < 2) {
           throw new Error('CSV file must contain at least a header row and one data row');
         }
 
-        const headers = lines[0].split(',').map(h => h.replace(/"/g, '').trim().toLowerCase());
-        const questionIndex = headers.findIndex(h => h === 'question');
-        const answerIndex = headers.findIndex(h => h === 'answer');
-
-        if (questionIndex === -1 || answerIndex === -1) {
-          throw new Error('CSV file must contain "Question" and "Answer" columns');
-        }
+        // Columns are mapped in the preview before any cards are created
+        setCsvPreview({ fileName: file.name, records });
+        setError(null);
+      } catch (error) {
+        setError(`Error importing CSV: ${error instanceof Error ? error.message : 'Invalid file format'}`);
+      }
+    };
 
-        const cards: Flashcard[] = [];
-        for (let i = 1; i < lines.length; i++) {
-          const values = lines[i].split(',').map(v => v.replace(/^"|"$/g, '').trim());
-          
-          if (values.length <= Math.max(questionIndex, answerIndex)) {
-            continue; // Skip incomplete rows
-          }
+    reader.onerror = () => {
+      setError('Error reading file');
+    };
 
-          const question = values[questionIndex];
-          const answer = values[answerIndex];
+    reader.readAsText(file);
+    // Reset the input value to allow re-importing the same file
+    event.target.value = '';
+  };
 
-          if (question && answer) {
-            cards.push({
-              id: uuidv4(),
-              question,
-              answer
-            });
-          }
-        }
+  const handleCSVImport = (cards: Flashcard[]) => {
+    setCsvPreview(null);
+    setFlashcardSet({
+      title: 'Imported CSV Flashcards',
+      source: 'CSV Import',
+      cards,
+      createdAt: new Date()
+    });
+    setError(null);
+  };
 
-        if (cards.length === 0) {
-          throw new Error('No valid flashcards found in CSV file');
-        }
+  const handleApkgFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
 
-        const flashcardSet: FlashcardSet = {
-          title: 'Imported CSV Flashcards',
-          source: 'CSV Import',
-          cards,
-          createdAt: new Date()
-        };
+    if (!file.name.toLowerCase().endsWith('.apkg')) {
+      setError('Please select a valid Anki package (.apkg) file');
+      return;
+    }
 
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const flashcardSet = await importFromApkg(e.target?.result as ArrayBuffer);
         setFlashcardSet(flashcardSet);
         setError(null);
       } catch (error) {
-        setError(`Error importing CSV: ${error instanceof Error ? error.message : 'Invalid file format'}`);
+        setError(`Error importing Anki package: ${error instanceof Error ? error.message : 'Invalid file format'}`);
       }
     };
 
@@ -233,7 +464,7 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
       setError('Error reading file');
     };
 
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
     // Reset the input value to allow re-importing the same file
     event.target.value = '';
   };
@@ -244,39 +475,151 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
         <div className="input-type-selector">
           <button
             type="button"
-            className={isUrlInput ? 'active' : ''}
-            onClick={() => setIsUrlInput(true)}
+            className={inputType === 'url' ? 'active' : ''}
+            onClick={() => setInputType('url')}
           >
-            Wikipedia URL
+            Web URL
           </button>
           <button
             type="button"
-            className={!isUrlInput ? 'active' : ''}
-            onClick={() => setIsUrlInput(false)}
+            className={inputType === 'text' ? 'active' : ''}
+            onClick={() => setInputType('text')}
           >
             Custom Text
           </button>
+          <button
+            type="button"
+            className={inputType === 'file' ? 'active' : ''}
+            onClick={() => setInputType('file')}
+          >
+            Document
+          </button>
         </div>
 
-        <div className="form-group">
-          <label htmlFor="input">
-            {isUrlInput ? 'Wikipedia URL' : 'Text to extract flashcards from'}
-          </label>
-          <textarea
-            id="input"
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            placeholder={
-              isUrlInput
-                ? 'https://en.wikipedia.org/wiki/Artificial_intelligence'
-                : 'Paste your text here...'
-            }
-            rows={isUrlInput ? 1 : 10}
+        {inputType === 'file' ? (
+          <div className="form-group">
+            <DocumentDropZone file={documentFile} onFileChange={setDocumentFile} onError={setError} />
+            <small>Text is extracted in the browser. PDFs are split into pages and Word or Markdown files into their headed sections, and each card records where it came from.</small>
+          </div>
+        ) : (
+          <div className="form-group">
+            <label htmlFor="input">
+              {isUrlInput ? 'Wikipedia or web page URL' : 'Text to extract flashcards from'}
+            </label>
+            <textarea
+              id="input"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={
+                isUrlInput
+                  ? 'https://en.wikipedia.org/wiki/Artificial_intelligence'
+                  : 'Paste your text here...'
+              }
+              rows={isUrlInput ? 1 : 10}
+            />
+            {isUrlInput && (
+              <small>Any article, blog post or documentation page; pages outside Wikipedia are fetched through the proxy server (npm run proxy).</small>
+            )}
+          </div>
+        )}
+
+        {isUrlInput && !activeOutline && parseWikipediaUrl(input) && (
+          <button
+            type="button"
+            className="choose-sections-button"
+            onClick={handleChooseSections}
+            disabled={isLoadingSections}
+          >
+            {isLoadingSections ? 'Loading sections…' : 'Choose Sections'}
+          </button>
+        )}
+
+        {activeOutline && (
+          <WikipediaSectionPicker
+            sections={activeOutline.article.sections}
+            selectedIds={selectedSectionIds}
+            onChange={setSelectedSectionIds}
           />
+        )}
+
+        <fieldset className="card-type-select">
+          <legend>Card types</legend>
+          {CARD_TYPES.map(type => (
+            <label key={type}>
+              <input
+                type="checkbox"
+                checked={cardTypes.indexOf(type) !== -1}
+                onChange={() => toggleCardType(type)}
+              />
+              {CARD_TYPE_LABELS[type]}
+            </label>
+          ))}
+          <small>Choose more than one type to get a mix; multiple choice cards come with generated distractors.</small>
+        </fieldset>
+
+        <div className="form-group language-select">
+          <label htmlFor="target-language">Card language</label>
+          <select
+            id="target-language"
+            value={targetLanguage}
+            onChange={(e) => setTargetLanguage(e.target.value)}
+          >
+            <option value="">Same as source</option>
+            {TARGET_LANGUAGES.map(code => (
+              <option key={code} value={code}>{getLanguageName(code)}</option>
+            ))}
+          </select>
+          <small>Pick a language to practise reading or translating; cards are otherwise written in the language of the source.</small>
+        </div>
+
+        <div className="form-group quality-review-option">
+          <label>
+            <input
+              type="checkbox"
+              checked={reviewQuality}
+              onChange={(e) => setReviewQuality(e.target.checked)}
+            />
+            Review card quality
+          </label>
+          <small>A second LLM pass scores every card for clear, single-fact questions with short answers that are not given away, and suggests rewrites you can accept or reject.</small>
         </div>
 
+        <PromptTemplateEditor template={promptTemplate} onChange={setPromptTemplate} />
+
         <MockModeToggle onChange={setUseMockMode} />
+
+        {previewSource && (
+          <PromptPreview
+            prompt={previewExtractionMessages(previewSource.content, getExtractionOptions(previewSource.sourceLanguage))}
+            onClose={() => setPreviewSource(null)}
+          />
+        )}
+
+        <button
+          type="button"
+          className="preview-prompt-button"
+          onClick={handlePreviewPrompt}
+          disabled={isLoadingPreview}
+        >
+          {isLoadingPreview ? 'Loading content…' : 'Preview Prompt'}
+        </button>
         
+        {oversizedSource && (
+          <div className="request-limit-warning" role="alert">
+            <p>
+              This content needs {oversizedSource.requestCount} LLM requests, more than the usual limit
+              of {MAX_EXTRACTION_REQUESTS}. Generating may take a long time, especially with a local model.
+              Choose fewer sections or shorter text, or generate anyway.
+            </p>
+            <div className="request-limit-actions">
+              <button type="button" onClick={() => generate(oversizedSource)}>
+                Generate Anyway ({oversizedSource.requestCount} Requests)
+              </button>
+              <button type="button" onClick={() => setOversizedSource(null)}>Cancel</button>
+            </div>
+          </div>
+        )}
+
         <button className="submit-button" type="submit">Generate Flashcards</button>
       </form>
 
@@ -297,6 +640,13 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
           >
             📊 Import CSV
           </button>
+          <button 
+            type="button" 
+            className="import-button apkg-import"
+            onClick={handleImportApkg}
+          >
+            🗂️ Import Anki
+          </button>
         </div>
         
         <input
@@ -310,14 +660,32 @@ const InputForm: React.FC<InputFormProps> = ({ setFlashcardSet, setLoading, setE
         <input
           ref={csvFileInputRef}
           type="file"
-          accept=".csv"
+          accept=".csv,.tsv"
           onChange={handleCSVFileChange}
           style={{ display: 'none' }}
         />
         
+        <input
+          ref={apkgFileInputRef}
+          type="file"
+          accept=".apkg"
+          onChange={handleApkgFileChange}
+          style={{ display: 'none' }}
+        />
+        
+        {csvPreview && (
+          <CsvImportPreview
+            fileName={csvPreview.fileName}
+            records={csvPreview.records}
+            onImport={handleCSVImport}
+            onCancel={() => setCsvPreview(null)}
+          />
+        )}
+        
         <div className="import-info">
           <p><strong>JSON Format:</strong> Use exported JSON files from this app</p>
-          <p><strong>CSV Format:</strong> Must have "Question" and "Answer" columns</p>
+          <p><strong>CSV Format:</strong> Comma, semicolon or tab separated; choose the question and answer columns after selecting the file; optional Type and Options columns keep card types</p>
+          <p><strong>Anki Format:</strong> .apkg packages; the first two fields of each note become question and answer</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,71 @@
+import React, { useEffect, useRef } from 'react';
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import '../styles/KeyboardShortcutsHelp.css';
+
+interface KeyboardShortcutsHelpProps {
+  onClose: () => void;
+}
+
+const SHORTCUTS: Array<{ keys: string[]; action: string }> = [
+  { keys: ['Space'], action: 'Flip the card, or show the answer when studying' },
+  { keys: ['←', '→'], action: 'Previous or next card' },
+  { keys: ['1', '2', '3', '4'], action: 'Grade the answer when studying: Again, Hard, Good, Easy' },
+  { keys: ['?'], action: 'Show or hide this list' },
+  { keys: ['Esc'], action: 'Close this list' }
+];
+
+const KeyboardShortcutsHelp: React.FC<KeyboardShortcutsHelpProps> = ({ onClose }) => {
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useKeyboardShortcuts({ Escape: onClose });
+
+  // Focus moves into the dialog and goes back to where it was once the dialog closes
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    if (closeButtonRef.current) {
+      closeButtonRef.current.focus();
+    }
+    return () => {
+      if (previouslyFocused && typeof previouslyFocused.focus === 'function') {
+        previouslyFocused.focus();
+      }
+    };
+  }, []);
+
+  // The close button is the only control, so Tab keeps focus on it
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab') {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div className="shortcuts-backdrop" onClick={onClose}>
+      <div
+        className="shortcuts-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <h3 id="shortcuts-title">Keyboard shortcuts</h3>
+        <table>
+          <tbody>
+            {SHORTCUTS.map(shortcut => (
+              <tr key={shortcut.action}>
+                <th scope="row">
+                  {shortcut.keys.map(key => <kbd key={key}>{key}</kbd>)}
+                </th>
+                <td>{shortcut.action}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button ref={closeButtonRef} type="button" onClick={onClose}>Close</button>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcutsHelp;
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import {
+  LLMSettings,
+  getLLMConfig,
+  getLLMSettings,
+  saveLLMSettings,
+  clearLLMSettings
+} from '../config';
+import { testLLMConnection } from '../services/connectionService';
+import { DEFAULT_TEMPERATURE, DEFAULT_MAX_TOKENS } from '../services/llmProvider';
+import '../styles/LLMSettingsPanel.css';
+
+interface LLMSettingsPanelProps {
+  onClose: () => void;
+}
+
+type SettingsForm = {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  temperature: string;
+  maxTokens: string;
+};
+
+type StatusMessage = {
+  type: 'success' | 'error';
+  text: string;
+};
+
+const toForm = (settings: LLMSettings): SettingsForm => ({
+  baseUrl: settings.baseUrl || '',
+  model: settings.model || '',
+  apiKey: settings.apiKey || '',
+  temperature: settings.temperature !== undefined ? String(settings.temperature) : '',
+  maxTokens: settings.maxTokens !== undefined ? String(settings.maxTokens) : ''
+});
+
+// Empty fields are left out so the environment default keeps applying
+const parseForm = (form: SettingsForm): LLMSettings => {
+  const settings: LLMSettings = {};
+
+  if (form.baseUrl.trim()) {
+    try {
+      new URL(form.baseUrl.trim());
+    } catch {
+      throw new Error('Base URL must be a valid URL, e.g. http://localhost:1234/v1');
+    }
+    settings.baseUrl = form.baseUrl.trim();
+  }
+  if (form.model.trim()) {
+    settings.model = form.model.trim();
+  }
+  if (form.apiKey.trim()) {
+    settings.apiKey = form.apiKey.trim();
+  }
+  if (form.temperature.trim()) {
+    const temperature = Number(form.temperature);
+    if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+      throw new Error('Temperature must be a number between 0 and 2');
+    }
+    settings.temperature = temperature;
+  }
+  if (form.maxTokens.trim()) {
+    const maxTokens = Number(form.maxTokens);
+    if (!Number.isInteger(maxTokens) || maxTokens <= 0) {
+      throw new Error('Max tokens must be a positive whole number');
+    }
+    settings.maxTokens = maxTokens;
+  }
+
+  return settings;
+};
+
+const LLMSettingsPanel: React.FC<LLMSettingsPanelProps> = ({ onClose }) => {
+  const [form, setForm] = useState<SettingsForm>(() => toForm(getLLMSettings()));
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const [testing, setTesting] = useState<boolean>(false);
+  const [models, setModels] = useState<string[]>([]);
+  const defaults = getLLMConfig({});
+
+  const updateField = (field: keyof SettingsForm) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setForm(current => ({ ...current, [field]: value }));
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      saveLLMSettings(parseForm(form));
+      setStatus({ type: 'success', text: 'Settings saved' });
+    } catch (error) {
+      setStatus({ type: 'error', text: error instanceof Error ? error.message : 'Invalid settings' });
+    }
+  };
+
+  const handleReset = () => {
+    clearLLMSettings();
+    setForm(toForm({}));
+    setModels([]);
+    setStatus({ type: 'success', text: 'Settings reset to defaults' });
+  };
+
+  // Tests the values currently in the form, saved or not
+  const handleTestConnection = async () => {
+    setStatus(null);
+    setTesting(true);
+    try {
+      const config = getLLMConfig(parseForm(form));
+      const result = await testLLMConnection(config);
+      setModels(result.models);
+
+      const proxyText = result.proxyHealthy ? 'Proxy server is running. ' : 'Proxy server is not responding. ';
+      const modelText = result.models.length === 0
+        ? 'Connected, but the server did not list any models.'
+        : `Connected: ${result.models.length} model${result.models.length === 1 ? '' : 's'} available.`;
+      const missingText = result.models.length > 0 && result.models.indexOf(config.model) === -1
+        ? ` Model "${config.model}" was not found on the server.`
+        : '';
+      setStatus({
+        type: missingText ? 'error' : 'success',
+        text: `${proxyText}${modelText}${missingText}`
+      });
+    } catch (error) {
+      setStatus({
+        type: 'error',
+        text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="llm-settings-panel">
+      <div className="llm-settings-header">
+        <h2>LLM Settings</h2>
+        <button type="button" className="close-settings-btn" onClick={onClose} aria-label="Close settings">
+          ✕
+        </button>
+      </div>
+      <p className="llm-settings-info">
+        Settings are stored in this browser only. Leave a field empty to use the default shown.
+      </p>
+
+      <form onSubmit={handleSave} noValidate>
+        <div className="settings-field">
+          <label htmlFor="llm-base-url">Base URL</label>
+          <input
+            id="llm-base-url"
+            type="text"
+            value={form.baseUrl}
+            onChange={updateField('baseUrl')}
+            placeholder={defaults.baseUrl}
+          />
+        </div>
+
+        <div className="settings-field">
+          <label htmlFor="llm-model">Model</label>
+          <input
+            id="llm-model"
+            type="text"
+            list="llm-model-options"
+            value={form.model}
+            onChange={updateField('model')}
+            placeholder={defaults.model}
+          />
+          <datalist id="llm-model-options">
+            {models.map(model => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+        </div>
+
+        <div className="settings-field">
+          <label htmlFor="llm-api-key">API Key</label>
+          <input
+            id="llm-api-key"
+            type="password"
+            autoComplete="off"
+            value={form.apiKey}
+            onChange={updateField('apiKey')}
+            placeholder={defaults.defaultApiKey ? 'Using key from environment' : 'Not set'}
+          />
+        </div>
+
+        <div className="settings-row">
+          <div className="settings-field">
+            <label htmlFor="llm-temperature">Temperature</label>
+            <input
+              id="llm-temperature"
+              type="number"
+              min="0"
+              max="2"
+              step="0.1"
+              value={form.temperature}
+              onChange={updateField('temperature')}
+              placeholder={String(DEFAULT_TEMPERATURE)}
+            />
+          </div>
+
+          <div className="settings-field">
+            <label htmlFor="llm-max-tokens">Max Tokens</label>
+            <input
+              id="llm-max-tokens"
+              type="number"
+              min="1"
+              step="1"
+              value={form.maxTokens}
+              onChange={updateField('maxTokens')}
+              placeholder={String(DEFAULT_MAX_TOKENS)}
+            />
+          </div>
+        </div>
+
+        {status && (
+          <div className={`settings-status ${status.type}`} role="status">
+            {status.text}
+          </div>
+        )}
+
+        <div className="settings-actions">
+          <button type="submit" className="save-settings-btn">Save</button>
+          <button type="button" onClick={handleTestConnection} disabled={testing}>
+            {testing ? 'Testing...' : 'Test Connection'}
+          </button>
+          <button type="button" onClick={handleReset}>Reset to Defaults</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default LLMSettingsPanel;
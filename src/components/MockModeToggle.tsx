@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { MOCK_MODE_STORAGE_KEY } from '../config';
 import '../styles/MockModeToggle.css';
 
 interface MockModeToggleProps {
@@ -9,7 +10,7 @@ export const MockModeToggle: React.FC<MockModeToggleProps> = ({ onChange }) => {
   const [useMock, setUseMock] = useState<boolean>(true);
 
   useEffect(() => {
-    const savedSetting = localStorage.getItem('use_mock_mode');
+    const savedSetting = localStorage.getItem(MOCK_MODE_STORAGE_KEY);
     if (savedSetting) {
       setUseMock(savedSetting === 'true');
     }
@@ -18,7 +19,7 @@ export const MockModeToggle: React.FC<MockModeToggleProps> = ({ onChange }) => {
   const handleToggle = () => {
     const newValue = !useMock;
     setUseMock(newValue);
-    localStorage.setItem('use_mock_mode', String(newValue));
+    localStorage.setItem(MOCK_MODE_STORAGE_KEY, String(newValue));
     onChange(newValue);
   };
 
@@ -27,6 +28,7 @@ export const MockModeToggle: React.FC<MockModeToggleProps> = ({ onChange }) => {
       <label className="toggle-switch">
         <input
           type="checkbox"
+          aria-label="Fast mock mode"
           checked={useMock}
           onChange={handleToggle}
         />
@@ -0,0 +1,37 @@
+import React from 'react';
+import { RenderedPrompt } from '../services/llmService';
+import { ChatMessage } from '../services/llmProvider';
+import '../styles/PromptPreview.css';
+
+interface PromptPreviewProps {
+  prompt: RenderedPrompt;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  system: 'System message',
+  user: 'User message',
+  assistant: 'Assistant message'
+};
+
+const PromptPreview: React.FC<PromptPreviewProps> = ({ prompt, onClose }) => (
+  <section className="prompt-preview" aria-label="Prompt preview">
+    <div className="prompt-preview-header">
+      <h3>Prompt preview</h3>
+      <button type="button" onClick={onClose}>Close Preview</button>
+    </div>
+    <p className="prompt-preview-summary">
+      {prompt.requestCount > 1
+        ? `The first of ${prompt.requestCount} requests; the others send the next excerpts with the same prompt.`
+        : 'The content is sent in a single request.'}
+    </p>
+    {prompt.messages.map((message, index) => (
+      <div key={index} className={`prompt-preview-message prompt-preview-${message.role}`}>
+        <h4>{ROLE_LABELS[message.role]}</h4>
+        <pre>{message.content}</pre>
+      </div>
+    ))}
+  </section>
+);
+
+export default PromptPreview;
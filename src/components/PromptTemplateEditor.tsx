@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_VARIABLES,
+  PROMPT_VARIABLE_DESCRIPTIONS,
+  getCustomPresets,
+  saveCustomPreset,
+  deleteCustomPreset,
+  isTemplateModified
+} from '../services/promptTemplateService';
+import '../styles/PromptTemplateEditor.css';
+
+interface StatusMessage {
+  type: 'success' | 'error';
+  text: string;
+}
+
+interface PromptTemplateEditorProps {
+  template: PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+}
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ template, onChange }) => {
+  const [customPresets, setCustomPresets] = useState<PromptTemplate[]>(() => getCustomPresets());
+  const [isEditing, setIsEditing] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [status, setStatus] = useState<StatusMessage | null>(null);
+  const presets = BUILT_IN_PRESETS.concat(customPresets);
+  const isModified = isTemplateModified(template, presets);
+
+  const choosePreset = (id: string) => {
+    const preset = presets.filter(candidate => candidate.id === id)[0];
+    if (preset) {
+      onChange(preset);
+      setPresetName(preset.builtIn ? '' : preset.name);
+      setStatus(null);
+    }
+  };
+
+  const updateTemplate = (changes: Partial<PromptTemplate>) => {
+    onChange({ ...template, ...changes });
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveCustomPreset(template, presetName);
+      setCustomPresets(getCustomPresets());
+      setPresetName(saved.name);
+      onChange(saved);
+      setStatus({ type: 'success', text: `Saved preset "${saved.name}"` });
+    } catch (error) {
+      setStatus({ type: 'error', text: error instanceof Error ? error.message : 'Could not save the preset' });
+    }
+  };
+
+  const handleDelete = () => {
+    deleteCustomPreset(template.id);
+    setCustomPresets(getCustomPresets());
+    setPresetName('');
+    onChange(DEFAULT_PROMPT_TEMPLATE);
+    setStatus({ type: 'success', text: `Deleted preset "${template.name}"` });
+  };
+
+  // Enter in the name field saves the preset instead of submitting the surrounding form
+  const handleNameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleSave();
+    }
+  };
+
+  return (
+    <fieldset className="prompt-template-editor">
+      <legend>Prompt</legend>
+      <div className="prompt-preset-row">
+        <label htmlFor="prompt-preset">Preset</label>
+        <select id="prompt-preset" value={template.id} onChange={(e) => choosePreset(e.target.value)}>
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </optgroup>
+          {customPresets.length > 0 && (
+            <optgroup label="Saved">
+              {customPresets.map(preset => (
+                <option key={preset.id} value={preset.id}>{preset.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isModified && <span className="prompt-modified">Edited</span>}
+        <button
+          type="button"
+          className="prompt-edit-toggle"
+          aria-expanded={isEditing}
+          onClick={() => setIsEditing(!isEditing)}
+        >
+          {isEditing ? 'Hide Template' : 'Edit Template'}
+        </button>
+      </div>
+
+      {isEditing && (
+        <div className="prompt-template-fields">
+          <label htmlFor="prompt-system">Instructions</label>
+          <textarea
+            id="prompt-system"
+            value={template.systemPrompt}
+            onChange={(e) => updateTemplate({ systemPrompt: e.target.value })}
+            rows={6}
+          />
+          <label htmlFor="prompt-user">User message</label>
+          <textarea
+            id="prompt-user"
+            value={template.userPrompt}
+            onChange={(e) => updateTemplate({ userPrompt: e.target.value })}
+            rows={3}
+          />
+          <label htmlFor="prompt-audience">Audience</label>
+          <input
+            id="prompt-audience"
+            type="text"
+            value={template.audience}
+            onChange={(e) => updateTemplate({ audience: e.target.value })}
+          />
+
+          <ul className="prompt-variables">
+            {PROMPT_VARIABLES.map(variable => (
+              <li key={variable}><code>{`{{${variable}}}`}</code> {PROMPT_VARIABLE_DESCRIPTIONS[variable]}</li>
+            ))}
+          </ul>
+          <small>The length limits and the response format are always added after the instructions.</small>
+
+          <div className="prompt-preset-actions">
+            <input
+              type="text"
+              aria-label="Preset name"
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={handleNameKeyDown}
+            />
+            <button type="button" onClick={handleSave}>Save Preset</button>
+            {isModified && (
+              <button type="button" onClick={() => choosePreset(template.id)}>Reset</button>
+            )}
+            {!template.builtIn && customPresets.some(preset => preset.id === template.id) && (
+              <button type="button" className="prompt-delete-button" onClick={handleDelete}>Delete Preset</button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <div className={`prompt-status ${status.type}`} role="status">
+          {status.text}
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+export default PromptTemplateEditor;
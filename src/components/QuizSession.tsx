@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Flashcard } from '../types';
+import {
+  QuizResult,
+  QuizVerdict,
+  gradeAnswerLocally,
+  gradeAnswerWithLLM,
+  summarizeQuiz,
+  getMissedCards
+} from '../services/quizService';
+import { formatCardFront, formatCardBack, getOptionLabel } from '../services/cardTypeService';
+import { getMockModeSetting } from '../config';
+import CardFace from './CardFace';
+import '../styles/QuizSession.css';
+
+interface QuizSessionProps {
+  cards: Flashcard[];
+}
+
+const VERDICT_LABELS: Record<QuizVerdict, string> = {
+  correct: '✅ Correct',
+  partial: '🟡 Partially correct',
+  incorrect: '❌ Incorrect'
+};
+
+const QuizSession: React.FC<QuizSessionProps> = ({ cards }) => {
+  const [queue, setQueue] = useState<Flashcard[]>(cards);
+  const [position, setPosition] = useState<number>(0);
+  const [response, setResponse] = useState<string>('');
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [useJudge, setUseJudge] = useState<boolean>(false);
+  const [isGrading, setIsGrading] = useState<boolean>(false);
+  const [judgeError, setJudgeError] = useState<string | null>(null);
+
+  const currentCard = position < queue.length ? queue[position] : null;
+  // Results line up with the queue, so the current card has a result once it has been answered
+  const currentResult = results.length > position ? results[position] : null;
+
+  const startQuiz = (quizCards: Flashcard[]) => {
+    setQueue(quizCards);
+    setPosition(0);
+    setResults([]);
+    setResponse('');
+    setJudgeError(null);
+  };
+
+  const submitAnswer = async (answer: string) => {
+    if (!currentCard || currentResult || isGrading) return;
+
+    let grade = gradeAnswerLocally(currentCard, answer);
+    const isTyped = currentCard.type !== 'multiple-choice' && currentCard.type !== 'true-false';
+    // The judge is only asked about typed answers the local match does not accept
+    if (useJudge && isTyped && answer.trim() && grade.verdict !== 'correct') {
+      setIsGrading(true);
+      setJudgeError(null);
+      try {
+        grade = await gradeAnswerWithLLM(currentCard, answer, undefined, getMockModeSetting());
+      } catch (error) {
+        setJudgeError(`${error instanceof Error ? error.message : 'Unknown error'}; graded locally instead`);
+      }
+      setIsGrading(false);
+    }
+
+    setResults(results.concat([{ card: currentCard, response: answer, grade }]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitAnswer(response);
+  };
+
+  const handleNext = () => {
+    setPosition(position + 1);
+    setResponse('');
+    setJudgeError(null);
+  };
+
+  if (queue.length === 0) {
+    return (
+      <div className="quiz-session">
+        <div className="study-complete">
+          <p>No cards to quiz on</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentCard) {
+    const summary = summarizeQuiz(results);
+    const missed = getMissedCards(results);
+
+    return (
+      <div className="quiz-session">
+        <div className="quiz-summary">
+          <h3>Quiz complete</h3>
+          <p className="quiz-score">Score: {Math.round(summary.score * 100)}%</p>
+          <p>
+            {summary.correct} correct, {summary.partial} partially correct, {summary.incorrect} incorrect
+            out of {summary.total}
+          </p>
+
+          <table className="quiz-results">
+            <thead>
+              <tr>
+                <th>Question</th>
+                <th>Your answer</th>
+                <th>Correct answer</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result, index) => (
+                <tr key={index} className={`quiz-result-${result.grade.verdict}`}>
+                  <td>{formatCardFront(result.card)}</td>
+                  <td>{result.response || <em>No answer</em>}</td>
+                  <td>{formatCardBack(result.card)}</td>
+                  <td>{VERDICT_LABELS[result.grade.verdict]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="quiz-actions">
+            {missed.length > 0 && (
+              <button className="quiz-primary-btn" onClick={() => startQuiz(missed)}>
+                Retry Missed Cards ({missed.length})
+              </button>
+            )}
+            <button onClick={() => startQuiz(cards)}>Restart Quiz</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const renderAnswerInput = (card: Flashcard) => {
+    if (card.type === 'multiple-choice' || card.type === 'true-false') {
+      const choices = card.type === 'multiple-choice' ? card.options : ['True', 'False'];
+      return (
+        <div className="quiz-choices">
+          {choices.map((choice, index) => {
+            const isPicked = currentResult !== null && currentResult.response === choice;
+            const isAnswer = currentResult !== null && choice === card.answer;
+            return (
+              <button
+                key={choice}
+                className={`quiz-choice${isAnswer ? ' correct-choice' : ''}${isPicked && !isAnswer ? ' wrong-choice' : ''}`}
+                disabled={currentResult !== null}
+                onClick={() => submitAnswer(choice)}
+              >
+                {card.type === 'multiple-choice' ? `${getOptionLabel(index)}. ${choice}` : choice}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+
+    return (
+      <form className="quiz-answer-form" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          aria-label="Your answer"
+          placeholder="Type your answer..."
+          value={response}
+          onChange={(e) => setResponse(e.target.value)}
+          disabled={currentResult !== null || isGrading}
+          autoFocus
+        />
+        {!currentResult && (
+          <button type="submit" className="quiz-primary-btn" disabled={isGrading}>
+            {isGrading ? 'Grading...' : 'Check Answer'}
+          </button>
+        )}
+      </form>
+    );
+  };
+
+  return (
+    <div className="quiz-session">
+      <div className="quiz-header">
+        <span className="study-progress">Question {position + 1} of {queue.length}</span>
+        <label className="quiz-judge-toggle">
+          <input type="checkbox" checked={useJudge} onChange={() => setUseJudge(!useJudge)} />
+          Grade typed answers with the LLM
+        </label>
+      </div>
+
+      <div className="quiz-question">
+        {currentCard.type === 'multiple-choice'
+          ? <p>{currentCard.question}</p>
+          : <CardFace card={currentCard} side="front" />}
+      </div>
+
+      {renderAnswerInput(currentCard)}
+
+      {judgeError && <p className="quiz-judge-error">{judgeError}</p>}
+
+      {currentResult && (
+        <div className={`quiz-feedback quiz-result-${currentResult.grade.verdict}`} role="status">
+          <strong>{VERDICT_LABELS[currentResult.grade.verdict]}</strong>
+          {currentResult.grade.feedback && <p>{currentResult.grade.feedback}</p>}
+          {currentResult.grade.verdict !== 'correct' && (
+            <p className="quiz-expected">Answer: {formatCardBack(currentCard)}</p>
+          )}
+          <button className="quiz-primary-btn" onClick={handleNext} autoFocus>
+            {position + 1 < queue.length ? 'Next Question' : 'See Results'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizSession;
@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Flashcard, ReviewGrade } from '../types';
+import { REVIEW_GRADES, getDueCards } from '../services/schedulerService';
+import { formatCardFront, formatCardBack } from '../services/cardTypeService';
+import { getDeckTags, hasTag } from '../services/tagService';
+import { useKeyboardShortcuts, ShortcutHandlers } from '../hooks/useKeyboardShortcuts';
+import CardFace from './CardFace';
+import '../styles/StudySession.css';
+
+interface StudySessionProps {
+  cards: Flashcard[];
+  // `responseTimeMs` is the time from showing the card to grading it
+  onGrade: (cardId: string, grade: ReviewGrade, responseTimeMs: number) => void;
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy'
+};
+
+const StudySession: React.FC<StudySessionProps> = ({ cards, onGrade }) => {
+  const [flipped, setFlipped] = useState<boolean>(false);
+  const [reviewedCount, setReviewedCount] = useState<number>(0);
+  // Study only the cards with this tag; empty for the whole deck
+  const [tag, setTag] = useState<string>('');
+
+  const deckTags = getDeckTags(cards);
+  const dueCards = getDueCards(tag ? cards.filter(card => hasTag(card, tag)) : cards);
+  const currentCard = dueCards.length > 0 ? dueCards[0] : null;
+  const shownAt = useRef<number>(Date.now());
+  const currentCardId = currentCard ? currentCard.id : null;
+
+  useEffect(() => {
+    shownAt.current = Date.now();
+  }, [currentCardId, reviewedCount]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!currentCard) return;
+    onGrade(currentCard.id, grade, Date.now() - shownAt.current);
+    setReviewedCount(reviewedCount + 1);
+    setFlipped(false);
+  };
+
+  // Space flips the card and, once the answer shows, 1 to 4 grade it from Again to Easy
+  const shortcuts: ShortcutHandlers = { Space: () => setFlipped(!flipped) };
+  if (flipped) {
+    REVIEW_GRADES.forEach((grade, index) => {
+      shortcuts[String(index + 1)] = () => handleGrade(grade);
+    });
+  }
+  useKeyboardShortcuts(shortcuts, currentCard !== null);
+
+  const handleCardKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      setFlipped(!flipped);
+    }
+  };
+
+  const handleTagChange = (value: string) => {
+    setTag(value);
+    setFlipped(false);
+  };
+
+  const tagPicker = deckTags.length > 0 && (
+    <label className="study-tag-picker">
+      Study tag
+      <select value={tag} onChange={(e) => handleTagChange(e.target.value)}>
+        <option value="">All tags</option>
+        {deckTags.map(entry => (
+          <option key={entry.tag} value={entry.tag}>{entry.tag}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  if (!currentCard) {
+    return (
+      <div className="study-session">
+        {tagPicker}
+        <div className="study-complete">
+          <p>No cards are due for review</p>
+          {reviewedCount > 0 && <small>{reviewedCount} cards reviewed this session</small>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="study-session">
+      {tagPicker}
+      <p className="study-progress">{dueCards.length} cards due</p>
+
+      <div
+        className={`flashcard ${flipped ? 'flipped' : ''}`}
+        role="button"
+        tabIndex={0}
+        aria-label={flipped ? 'Flip back to the question' : 'Flip to reveal the answer'}
+        aria-keyshortcuts="Space Enter"
+        aria-describedby="study-announcement"
+        onClick={() => setFlipped(!flipped)}
+        onKeyDown={handleCardKeyDown}
+      >
+        <div className="flashcard-inner">
+          <div className="flashcard-front" aria-hidden={flipped}>
+            <CardFace card={currentCard} side="front" />
+            <small>Click to reveal answer</small>
+          </div>
+          <div className="flashcard-back" aria-hidden={!flipped}>
+            <CardFace card={currentCard} side="back" />
+            <small>How well did you remember?</small>
+          </div>
+        </div>
+      </div>
+
+      <p id="study-announcement" className="visually-hidden" aria-live="polite">
+        {flipped ? `Answer: ${formatCardBack(currentCard)}` : `Question: ${formatCardFront(currentCard)}`}
+      </p>
+
+      {flipped ? (
+        <div className="grade-buttons">
+          {REVIEW_GRADES.map((grade, index) => (
+            <button
+              key={grade}
+              className={`grade-btn grade-${grade}`}
+              aria-keyshortcuts={String(index + 1)}
+              title={`Press ${index + 1}`}
+              onClick={() => handleGrade(grade)}
+            >
+              {GRADE_LABELS[grade]}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="grade-buttons">
+          <button className="show-answer-btn" aria-keyshortcuts="Space" onClick={() => setFlipped(true)}>
+            Show Answer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StudySession;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { Flashcard, ReviewEvent } from '../types';
+import { getReviewEvents } from '../services/reviewHistoryService';
+import { buildStudyStats, formatDuration, DailyCount, HEATMAP_DAYS } from '../services/studyStatsService';
+import { formatCardFront } from '../services/cardTypeService';
+import '../styles/StudyStats.css';
+
+interface StudyStatsProps {
+  // Review history is only kept for decks saved in the library
+  deckId?: string;
+  cards: Flashcard[];
+}
+
+const HEATMAP_LEVELS = 4;
+
+const getHeatLevel = (count: number, max: number): number => {
+  if (count === 0 || max === 0) return 0;
+  return Math.max(1, Math.ceil((count / max) * HEATMAP_LEVELS));
+};
+
+const formatForecastDay = (day: DailyCount, index: number): string => {
+  if (index === 0) return 'Today';
+  if (index === 1) return 'Tomorrow';
+  const [year, month, date] = day.date.split('-').map(Number);
+  return new Date(year, month - 1, date).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+};
+
+const StudyStats: React.FC<StudyStatsProps> = ({ deckId, cards }) => {
+  const [events, setEvents] = useState<ReviewEvent[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    if (!deckId) {
+      setEvents([]);
+      return undefined;
+    }
+    getReviewEvents(deckId)
+      .then(loaded => {
+        if (isCurrent) setEvents(loaded);
+      })
+      .catch(loadError => {
+        if (isCurrent) {
+          setError(`Could not load review history: ${loadError instanceof Error ? loadError.message : 'Unknown error'}`);
+          setEvents([]);
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [deckId]);
+
+  if (!events) {
+    return <div className="study-stats"><p className="stats-loading">Loading statistics...</p></div>;
+  }
+
+  const stats = buildStudyStats(events, cards);
+  const maxDaily = Math.max(0, ...stats.dailyReviews.map(day => day.count));
+  const maxDue = Math.max(0, ...stats.dueForecast.map(day => day.count));
+  const weeks: DailyCount[][] = [];
+  for (let i = 0; i < stats.dailyReviews.length; i += 7) {
+    weeks.push(stats.dailyReviews.slice(i, i + 7));
+  }
+
+  return (
+    <div className="study-stats">
+      {error && <div className="error">{error}</div>}
+
+      <div className="stats-tiles">
+        <div className="stats-tile">
+          <span className="stats-value">{stats.totalReviews}</span>
+          <span className="stats-label">Reviews</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-value">
+            {stats.retentionRate === null ? '–' : `${Math.round(stats.retentionRate * 100)}%`}
+          </span>
+          <span className="stats-label">Retention</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-value">{formatDuration(stats.totalTimeMs)}</span>
+          <span className="stats-label">Time spent</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-value">{formatDuration(stats.averageTimeMs)}</span>
+          <span className="stats-label">Per review</span>
+        </div>
+      </div>
+
+      <section className="stats-section">
+        <h3>Reviews per day</h3>
+        <div className="review-heatmap" role="img" aria-label={`Reviews per day over the last ${HEATMAP_DAYS} days`}>
+          {weeks.map((week, weekIndex) => (
+            <div key={weekIndex} className="heatmap-week">
+              {week.map(day => (
+                <span
+                  key={day.date}
+                  className={`heatmap-cell heat-level-${getHeatLevel(day.count, maxDaily)}`}
+                  title={`${day.date}: ${day.count} ${day.count === 1 ? 'review' : 'reviews'}`}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="stats-section">
+        <h3>Hardest cards</h3>
+        {stats.hardestCards.length === 0 ? (
+          <p className="stats-empty">No card has given you trouble yet</p>
+        ) : (
+          <ol className="hardest-cards">
+            {stats.hardestCards.map(entry => (
+              <li key={entry.card.id}>
+                <span className="hardest-question">{formatCardFront(entry.card)}</span>
+                <small>Forgotten {entry.lapses} of {entry.reviews} {entry.reviews === 1 ? 'time' : 'times'}</small>
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      <section className="stats-section">
+        <h3>Upcoming reviews</h3>
+        <ul className="due-forecast">
+          {stats.dueForecast.map((day, index) => (
+            <li key={day.date}>
+              <span className="forecast-day">{formatForecastDay(day, index)}</span>
+              <span className="forecast-bar">
+                <span style={{ width: maxDue > 0 ? `${(day.count / maxDue) * 100}%` : '0%' }} />
+              </span>
+              <span className="forecast-count">{day.count}</span>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+export default StudyStats;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { WikipediaSection } from '../services/wikipediaService';
+import '../styles/WikipediaSectionPicker.css';
+
+interface WikipediaSectionPickerProps {
+  sections: WikipediaSection[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+}
+
+// A section followed by every deeper section before the next one at its level
+const getSubtreeIds = (sections: WikipediaSection[], index: number): string[] => {
+  const ids = [sections[index].id];
+  for (let i = index + 1; i < sections.length && sections[i].level > sections[index].level; i++) {
+    ids.push(sections[i].id);
+  }
+  return ids;
+};
+
+const WikipediaSectionPicker: React.FC<WikipediaSectionPickerProps> = ({ sections, selectedIds, onChange }) => {
+  const minLevel = sections.reduce((min, section) => Math.min(min, section.level), Infinity);
+
+  // Ticking a section ticks its subsections too, so "History" selects the whole history
+  const handleToggle = (index: number) => {
+    const subtree = getSubtreeIds(sections, index);
+    const select = selectedIds.indexOf(sections[index].id) === -1;
+    const remaining = selectedIds.filter(id => subtree.indexOf(id) === -1);
+    onChange(select ? remaining.concat(subtree) : remaining);
+  };
+
+  return (
+    <fieldset className="wikipedia-section-picker">
+      <legend>Sections to generate cards from</legend>
+      <div className="section-picker-actions">
+        <button type="button" onClick={() => onChange(sections.map(section => section.id))}>Select all</button>
+        <button type="button" onClick={() => onChange([])}>Select none</button>
+        <span className="section-picker-count">
+          {selectedIds.length} of {sections.length} sections selected
+        </span>
+      </div>
+      <ul>
+        {sections.map((section, index) => (
+          <li key={section.id} style={{ paddingLeft: `${(section.level - minLevel) * 1.5}rem` }}>
+            <label>
+              <input
+                type="checkbox"
+                checked={selectedIds.indexOf(section.id) !== -1}
+                onChange={() => handleToggle(index)}
+              />
+              {section.title}
+            </label>
+          </li>
+        ))}
+      </ul>
+    </fieldset>
+  );
+};
+
+export default WikipediaSectionPicker;
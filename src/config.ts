@@ -1,13 +1,109 @@
+export type LLMProviderName = 'openai' | 'lmstudio' | 'ollama' | 'mock'
+
 export interface LLMConfig {
   baseUrl: string
   model: string
   defaultApiKey: string
+  provider?: LLMProviderName
+  jsonMode?: boolean
+  maxRepairAttempts?: number
+  temperature?: number
+  maxTokens?: number
+}
+
+// Per-browser overrides edited in the LLM Settings panel; empty fields fall back to the environment
+export interface LLMSettings {
+  baseUrl?: string
+  model?: string
+  apiKey?: string
+  temperature?: number
+  maxTokens?: number
+}
+
+export const LLM_SETTINGS_STORAGE_KEY = 'llm_settings'
+export const MOCK_MODE_STORAGE_KEY = 'use_mock_mode'
+
+const PROVIDER_NAMES: LLMProviderName[] = ['openai', 'lmstudio', 'ollama', 'mock']
+
+// Without an explicit LLM_PROVIDER, guess the backend from its URL
+export const detectProvider = (baseUrl: string): LLMProviderName => {
+  if (baseUrl.includes('api.openai.com')) {
+    return 'openai'
+  }
+  if (baseUrl.includes(':11434')) {
+    return 'ollama'
+  }
+  return 'lmstudio'
+}
+
+// OpenAI and Ollama understand a JSON output mode; LM Studio rejects `json_object` unless told otherwise
+const supportsJsonMode = (provider: LLMProviderName): boolean => {
+  if (process.env.LLM_JSON_MODE) {
+    return process.env.LLM_JSON_MODE === 'true'
+  }
+  return provider === 'openai' || provider === 'ollama'
+}
+
+const pickString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
 }
 
-export const getLLMConfig = (): LLMConfig => {
+const pickNumber = (value: unknown): number | undefined => {
+  return typeof value === 'number' && isFinite(value) ? value : undefined
+}
+
+export const getLLMSettings = (): LLMSettings => {
+  try {
+    const saved = localStorage.getItem(LLM_SETTINGS_STORAGE_KEY)
+    const parsed = saved ? JSON.parse(saved) : null
+    if (!parsed || typeof parsed !== 'object') {
+      return {}
+    }
+    return {
+      baseUrl: pickString(parsed.baseUrl),
+      model: pickString(parsed.model),
+      apiKey: pickString(parsed.apiKey),
+      temperature: pickNumber(parsed.temperature),
+      maxTokens: pickNumber(parsed.maxTokens)
+    }
+  } catch (error) {
+    return {}
+  }
+}
+
+// Fast Mock Mode as last set with the toggle on the create form; off until it is switched on
+export const getMockModeSetting = (): boolean => {
+  try {
+    return localStorage.getItem(MOCK_MODE_STORAGE_KEY) === 'true'
+  } catch (error) {
+    return false
+  }
+}
+
+export const saveLLMSettings = (settings: LLMSettings): void => {
+  localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+}
+
+export const clearLLMSettings = (): void => {
+  localStorage.removeItem(LLM_SETTINGS_STORAGE_KEY)
+}
+
+// Saved settings win over build-time environment values; pass `{}` to get the environment defaults
+export const getLLMConfig = (overrides: LLMSettings = getLLMSettings()): LLMConfig => {
+  const baseUrl = overrides.baseUrl || process.env.INFERENCE_SERVER_URL || 'http://localhost:1234/v1'
+  const configuredProvider = process.env.LLM_PROVIDER as LLMProviderName | undefined
+  const provider = configuredProvider && PROVIDER_NAMES.indexOf(configuredProvider) !== -1
+    ? configuredProvider
+    : detectProvider(baseUrl)
+
   return {
-    baseUrl: process.env.INFERENCE_SERVER_URL || 'http://localhost:1234/v1',
-    model: process.env.MODEL_NAME || 'llama-3.2-1b-instruct',
-    defaultApiKey: process.env.LLM_API_KEY || ''
+    baseUrl,
+    model: overrides.model || process.env.MODEL_NAME || 'llama-3.2-1b-instruct',
+    defaultApiKey: overrides.apiKey || process.env.LLM_API_KEY || '',
+    provider,
+    jsonMode: supportsJsonMode(provider),
+    maxRepairAttempts: Number(process.env.LLM_MAX_REPAIR_ATTEMPTS || 1),
+    temperature: overrides.temperature,
+    maxTokens: overrides.maxTokens
   }
 }
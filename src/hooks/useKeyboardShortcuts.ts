@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+
+// Document-wide single-key shortcuts. Keys are KeyboardEvent.key values, with ' ' written as 'Space'.
+
+export type ShortcutHandlers = Record<string, () => void>;
+
+const TEXT_ENTRY_TAGS = ['INPUT', 'TEXTAREA', 'SELECT'];
+const ACTIVATING_KEYS = ['Space', 'Enter'];
+
+// Typing into a form field never triggers a shortcut, and Space or Enter on a button or link
+// keeps activating that control
+const belongsToControl = (target: EventTarget | null, key: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || TEXT_ENTRY_TAGS.indexOf(target.tagName) !== -1) return true;
+  return ACTIVATING_KEYS.indexOf(key) !== -1 && (target.tagName === 'BUTTON' || target.tagName === 'A');
+};
+
+export const useKeyboardShortcuts = (handlers: ShortcutHandlers, enabled: boolean = true) => {
+  // Read through a ref so callers can pass a fresh object on every render without re-subscribing
+  const handlersRef = useRef<ShortcutHandlers>(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const key = event.key === ' ' ? 'Space' : event.key;
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (belongsToControl(event.target, key)) return;
+
+      const handler = handlersRef.current[key];
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
@@ -0,0 +1,346 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import JSZip from 'jszip';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm';
+import { Flashcard, FlashcardSet } from '../types';
+import { formatCardFront, formatCardBack } from './cardTypeService';
+import { formatAnkiTags, parseAnkiTags } from './tagService';
+
+// Anki packages (.apkg) are zip files holding a legacy (schema 11) SQLite collection plus a
+// media manifest. The collection is built and read in the browser with sql.js.
+
+const FIELD_SEPARATOR = '\x1f';
+const DEFAULT_DECK_ID = 1;
+// A fixed note type id lets Anki recognise re-exported decks as the same note type
+const NOTE_TYPE_ID = 1718300000000;
+const NOTE_TYPE_NAME = 'Flashcard Extractor Basic';
+
+const COLLECTION_SCHEMA = `
+  CREATE TABLE col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+  );
+  CREATE TABLE notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+  );
+  CREATE TABLE cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+  );
+  CREATE TABLE revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+  );
+  CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+  CREATE INDEX ix_notes_usn ON notes (usn);
+  CREATE INDEX ix_cards_usn ON cards (usn);
+  CREATE INDEX ix_revlog_usn ON revlog (usn);
+  CREATE INDEX ix_cards_nid ON cards (nid);
+  CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+  CREATE INDEX ix_revlog_cid ON revlog (cid);
+  CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+type AnkiDeck = {
+  id: number;
+  name: string;
+};
+
+type AnkiNoteType = {
+  id: number;
+  flds: Array<{ name: string; ord: number }>;
+};
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+const loadSqlJs = (): Promise<SqlJsStatic> => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs({ locateFile: () => sqlWasmUrl });
+  }
+  return sqlJsPromise;
+};
+
+const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+};
+
+const decodeEntities = (html: string): string => {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return html.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.charAt(0) === '#') {
+      const isHex = code.charAt(1).toLowerCase() === 'x';
+      const codePoint = parseInt(code.substring(isHex ? 2 : 1), isHex ? 16 : 10);
+      return isNaN(codePoint) ? entity : String.fromCodePoint(codePoint);
+    }
+    const decoded = named[code.toLowerCase()];
+    return decoded !== undefined ? decoded : entity;
+  });
+};
+
+// Anki fields are HTML; cards in this app are plain text with line breaks
+export const htmlToText = (html: string): string => {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Anki's duplicate check compares the first 8 hex digits of the SHA-1 of the plain first field
+const fieldChecksum = async (field: string): Promise<number> => {
+  const bytes = new TextEncoder().encode(htmlToText(field));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', bytes));
+  return ((digest[0] << 24) >>> 0) + (digest[1] << 16) + (digest[2] << 8) + digest[3];
+};
+
+const buildNoteType = (deckId: number, now: number) => ({
+  id: NOTE_TYPE_ID,
+  name: NOTE_TYPE_NAME,
+  type: 0,
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  sortf: 0,
+  did: deckId,
+  tmpls: [{
+    name: 'Card 1',
+    ord: 0,
+    qfmt: '{{Front}}',
+    afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+    did: null,
+    bqfmt: '',
+    bafmt: ''
+  }],
+  flds: ['Front', 'Back'].map((name, ord) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: 'Arial',
+    size: 20,
+    media: []
+  })),
+  css: '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n',
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  latexsvg: false,
+  req: [[0, 'any', [0]]],
+  tags: [],
+  vers: []
+});
+
+const buildDeck = (id: number, name: string, now: number) => ({
+  id,
+  name,
+  desc: '',
+  mod: Math.floor(now / 1000),
+  usn: -1,
+  collapsed: false,
+  browserCollapsed: false,
+  newToday: [0, 0],
+  revToday: [0, 0],
+  lrnToday: [0, 0],
+  timeToday: [0, 0],
+  dyn: 0,
+  conf: 1,
+  extendNew: 0,
+  extendRev: 0
+});
+
+const DECK_OPTIONS = {
+  1: {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+    rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, minSpace: 1, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 }
+  }
+};
+
+const buildCollectionConfig = (deckId: number) => ({
+  activeDecks: [deckId],
+  curDeck: deckId,
+  newSpread: 0,
+  collapseTime: 1200,
+  timeLim: 0,
+  estTimes: true,
+  dueCounts: true,
+  curModel: NOTE_TYPE_ID,
+  nextPos: 1,
+  sortType: 'noteFld',
+  sortBackwards: false,
+  addToCur: true
+});
+
+const writeCollection = async (db: Database, flashcardSet: FlashcardSet): Promise<void> => {
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+  const deckId = now;
+  const deckName = flashcardSet.title.trim() || 'Flashcards';
+  const dayStart = new Date(now);
+  dayStart.setHours(0, 0, 0, 0);
+
+  db.run(COLLECTION_SCHEMA);
+  db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+    Math.floor(dayStart.getTime() / 1000),
+    now,
+    now,
+    JSON.stringify(buildCollectionConfig(deckId)),
+    JSON.stringify({ [NOTE_TYPE_ID]: buildNoteType(deckId, now) }),
+    JSON.stringify({
+      [DEFAULT_DECK_ID]: buildDeck(DEFAULT_DECK_ID, 'Default', now),
+      [deckId]: buildDeck(deckId, deckName, now)
+    }),
+    JSON.stringify(DECK_OPTIONS),
+    '{}'
+  ]);
+
+  for (let index = 0; index < flashcardSet.cards.length; index++) {
+    const card = flashcardSet.cards[index];
+    // The basic note type has no cloze or choice fields, so other card types are written out as text
+    const front = escapeHtml(formatCardFront(card));
+    const back = escapeHtml(formatCardBack(card));
+    const noteId = now + index;
+
+    // The card id doubles as the note guid, so re-importing an export keeps the same ids
+    db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+      noteId,
+      card.id,
+      NOTE_TYPE_ID,
+      nowSeconds,
+      formatAnkiTags(card),
+      front + FIELD_SEPARATOR + back,
+      htmlToText(front),
+      await fieldChecksum(front)
+    ]);
+    db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+      noteId,
+      noteId,
+      deckId,
+      nowSeconds,
+      index + 1
+    ]);
+  }
+};
+
+export const exportToApkg = async (flashcardSet: FlashcardSet): Promise<Uint8Array> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    await writeCollection(db, flashcardSet);
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+};
+
+const queryRows = (db: Database, sql: string): SqlValue[][] => {
+  const result = db.exec(sql);
+  return result.length > 0 ? result[0].values : [];
+};
+
+// Text and id columns; blobs and NULLs count as empty
+const toText = (value: SqlValue | undefined): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  return '';
+};
+
+// The col table keeps decks and note types as JSON objects keyed by id
+const readJsonColumn = <T>(db: Database, sql: string): Record<string, T> => {
+  const [row] = queryRows(db, sql);
+  const text = row ? toText(row[0]) : '';
+  const parsed: unknown = text ? JSON.parse(text) : null;
+  return parsed && typeof parsed === 'object' ? parsed as Record<string, T> : {};
+};
+
+const findDeckName = (db: Database): string => {
+  const decks = readJsonColumn<AnkiDeck>(db, 'SELECT decks FROM col');
+  // The deck holding most of the cards names the imported set
+  const [deckRow] = queryRows(db, 'SELECT did FROM cards GROUP BY did ORDER BY COUNT(*) DESC LIMIT 1');
+  const deck = deckRow ? decks[toText(deckRow[0])] : undefined;
+  return deck ? deck.name : 'Imported Anki Flashcards';
+};
+
+const readNoteTypes = (db: Database): Record<string, AnkiNoteType> => {
+  return readJsonColumn<AnkiNoteType>(db, 'SELECT models FROM col');
+};
+
+export const importFromApkg = async (data: ArrayBuffer | Uint8Array): Promise<FlashcardSet> => {
+  const zip = await JSZip.loadAsync(data);
+  // Current Anki versions add a placeholder collection.anki2 next to the compressed anki21b one
+  if (zip.file('collection.anki21b') && !zip.file('collection.anki21')) {
+    throw new Error('This package uses the newer Anki format; export it again with "Support older Anki versions" enabled');
+  }
+
+  const collectionFile = zip.file('collection.anki21') || zip.file('collection.anki2');
+  if (!collectionFile) {
+    throw new Error('Not an Anki package: collection file is missing');
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(await collectionFile.async('uint8array'));
+
+  try {
+    const noteTypes = readNoteTypes(db);
+    const cards: Flashcard[] = [];
+
+    queryRows(db, 'SELECT guid, mid, flds, tags FROM notes ORDER BY id').forEach(([guid, mid, flds, noteTags]) => {
+      const fields = toText(flds).split(FIELD_SEPARATOR);
+      const noteType = noteTypes[toText(mid)];
+      // Fields are stored in the note type's field order
+      const ordered = noteType
+        ? noteType.flds.slice().sort((a, b) => a.ord - b.ord).map(field => fields[field.ord] || '')
+        : fields;
+      const question = htmlToText(ordered[0] || '');
+      const answer = htmlToText(ordered[1] || '');
+
+      if (question && answer) {
+        const { tags, difficulty } = parseAnkiTags(toText(noteTags));
+        cards.push({
+          id: toText(guid),
+          question,
+          answer,
+          ...(tags.length > 0 ? { tags } : {}),
+          ...(difficulty ? { difficulty } : {})
+        });
+      }
+    });
+
+    if (cards.length === 0) {
+      throw new Error('No flashcards with both a front and a back were found');
+    }
+
+    return {
+      title: findDeckName(db),
+      source: 'Anki Import',
+      cards,
+      createdAt: new Date()
+    };
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,108 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DifficultyLevel, Flashcard } from '../types';
+import { normalizeTag } from './tagService';
+
+// Pure helpers for editing a deck. Every edit keeps the ids of untouched cards, so exports,
+// review state and the saved library entry keep pointing at the same cards.
+
+export type CardChanges = Pick<Flashcard, 'question' | 'answer'>;
+
+export type DeletedCard = {
+  card: Flashcard;
+  index: number;
+};
+
+export const createCard = (changes: CardChanges): Flashcard => ({
+  id: uuidv4(),
+  question: changes.question.trim(),
+  answer: changes.answer.trim()
+});
+
+export const validateCardChanges = (changes: CardChanges): string | null => {
+  if (!changes.question.trim() || !changes.answer.trim()) {
+    return 'Question and answer cannot be empty';
+  }
+  return null;
+};
+
+export const updateCard = (cards: Flashcard[], id: string, changes: CardChanges): Flashcard[] => {
+  return cards.map(card => {
+    if (card.id !== id) {
+      return card;
+    }
+    const question = changes.question.trim();
+    const answer = changes.answer.trim();
+    // The correct option of a multiple choice card changes along with its answer
+    if (card.type === 'multiple-choice') {
+      return { ...card, question, answer, options: card.options.map(option => (option === card.answer ? answer : option)) };
+    }
+    return { ...card, question, answer };
+  });
+};
+
+// Returns the removed cards with their positions so the deletion can be undone
+export const deleteCards = (
+  cards: Flashcard[],
+  ids: string[]
+): { cards: Flashcard[]; deleted: DeletedCard[] } => {
+  const remaining: Flashcard[] = [];
+  const deleted: DeletedCard[] = [];
+
+  cards.forEach((card, index) => {
+    if (ids.indexOf(card.id) !== -1) {
+      deleted.push({ card, index });
+    } else {
+      remaining.push(card);
+    }
+  });
+
+  return { cards: remaining, deleted };
+};
+
+// Puts deleted cards back at their original positions, or at the end if the deck has since shrunk
+export const restoreCards = (cards: Flashcard[], deleted: DeletedCard[]): Flashcard[] => {
+  const restored = cards.filter(card => !deleted.some(entry => entry.card.id === card.id));
+  deleted
+    .slice()
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ card, index }) => {
+      restored.splice(Math.min(index, restored.length), 0, card);
+    });
+  return restored;
+};
+
+export const moveCard = (cards: Flashcard[], fromIndex: number, toIndex: number): Flashcard[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || fromIndex >= cards.length) {
+    return cards;
+  }
+  const reordered = cards.slice();
+  const [card] = reordered.splice(fromIndex, 1);
+  reordered.splice(Math.max(0, Math.min(toIndex, reordered.length)), 0, card);
+  return reordered;
+};
+
+export const toggleStarred = (cards: Flashcard[], id: string): Flashcard[] => {
+  return cards.map(card => (card.id === id ? { ...card, starred: !card.starred } : card));
+};
+
+// The tag is normalized first; adding a tag the card already has changes nothing
+export const addTag = (cards: Flashcard[], id: string, tag: string): Flashcard[] => {
+  const normalized = normalizeTag(tag);
+  return cards.map(card => {
+    const tags = card.tags || [];
+    if (card.id !== id || !normalized || tags.indexOf(normalized) !== -1) {
+      return card;
+    }
+    return { ...card, tags: tags.concat([normalized]) };
+  });
+};
+
+export const removeTag = (cards: Flashcard[], id: string, tag: string): Flashcard[] => {
+  return cards.map(card => (card.id === id && card.tags
+    ? { ...card, tags: card.tags.filter(existing => existing !== tag) }
+    : card));
+};
+
+export const setDifficulty = (cards: Flashcard[], id: string, difficulty?: DifficultyLevel): Flashcard[] => {
+  return cards.map(card => (card.id === id ? { ...card, difficulty } : card));
+};
@@ -0,0 +1,154 @@
+import { CardContent, Flashcard } from '../types';
+import { getLLMConfig } from '../config';
+import { getLLMProvider, ChatMessage } from './llmProvider';
+import { parseLLMJson, validateCard, MAX_QUESTION_LENGTH } from './responseParsingService';
+import { getCardType, getCardContent } from './cardTypeService';
+
+// Optional second "critic" pass over generated cards: the LLM scores each card against flashcard
+// best practices and rewrites the weak ones. Nothing is changed until the user accepts a rewrite.
+
+export type QualityIssue = 'not-atomic' | 'ambiguous' | 'answer-too-long' | 'giveaway';
+
+export type CardCritique = {
+  cardId: string;
+  // 1 for a card that breaks every practice, up to 5 for one that follows them all
+  score: number;
+  issues: QualityIssue[];
+  // Suggested replacement of the same card type; only given for weak cards
+  revision?: CardContent;
+};
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  'not-atomic': 'Asks more than one thing',
+  ambiguous: 'Ambiguous',
+  'answer-too-long': 'Answer too long',
+  giveaway: 'Question gives the answer away'
+};
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 5;
+// Cards scoring below this are rewritten
+export const PASSING_SCORE = 4;
+// Cards per request, so long decks neither overflow the context nor come back truncated
+export const CRITIQUE_BATCH_SIZE = 10;
+
+const QUALITY_ISSUES = Object.keys(QUALITY_ISSUE_LABELS) as QualityIssue[];
+
+const buildCritiqueMessages = (cards: Flashcard[]): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You review flashcards against these best practices:
+    - "not-atomic": a card should test exactly one fact
+    - "ambiguous": the question should have only one reasonable answer, and make sense on its own without the source
+    - "answer-too-long": the answer should be a word, a phrase or one short sentence
+    - "giveaway": the question should not contain or hint at its answer
+    Score every card from ${MIN_SCORE} (breaks every practice) to ${MAX_SCORE} (follows them all) and list the practices it breaks.
+    For cards scoring below ${PASSING_SCORE}, add a "rewrite" that fixes the problems: test the same fact, keep the card's type, fields and language, and keep the question under ${MAX_QUESTION_LENGTH} characters.
+    Respond with only a JSON object of the form {"reviews": [{"card": 1, "score": 2, "issues": ["giveaway"], "rewrite": {"question": "...", "answer": "..."}}]}, with one review per card.`
+  },
+  {
+    role: 'user',
+    content: cards.map((card, index) => `Card ${index + 1}: ${JSON.stringify(getCardContent(card))}`).join('\n\n')
+  }
+];
+
+const isSameContent = (card: Flashcard, content: CardContent): boolean => {
+  return JSON.stringify(getCardContent(card)) === JSON.stringify(getCardContent({ ...content, id: card.id } as Flashcard));
+};
+
+// A rewrite that fails validation, changes the card type or changes nothing is dropped; the
+// score and issues are still reported
+const parseRevision = (card: Flashcard, rewrite: unknown): CardContent | undefined => {
+  if (!rewrite || typeof rewrite !== 'object') {
+    return undefined;
+  }
+  const { card: parsed } = validateCard({ type: card.type, ...(rewrite as Record<string, unknown>) });
+  if (!parsed || getCardType(parsed) !== getCardType(card)) {
+    return undefined;
+  }
+  const { quote, tags, difficulty, ...content } = parsed;
+  return isSameContent(card, content as CardContent) ? undefined : content as CardContent;
+};
+
+const parseCritiques = (raw: string, cards: Flashcard[]): CardCritique[] => {
+  const data = (parseLLMJson(raw) || {}) as Record<string, unknown>;
+  if (!Array.isArray(data.reviews)) {
+    throw new Error('the response did not contain a reviews list');
+  }
+
+  const critiques: CardCritique[] = [];
+  const reviewed: Record<string, boolean> = {};
+  data.reviews.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const review = item as Record<string, unknown>;
+    const card = cards[Number(review.card) - 1];
+    const score = Math.round(Number(review.score));
+    if (!card || reviewed[card.id] || isNaN(score)) return;
+    reviewed[card.id] = true;
+
+    const issues = Array.isArray(review.issues)
+      ? QUALITY_ISSUES.filter(issue => (review.issues as unknown[]).indexOf(issue) !== -1)
+      : [];
+    const clamped = Math.min(MAX_SCORE, Math.max(MIN_SCORE, score));
+    const revision = clamped < PASSING_SCORE ? parseRevision(card, review.rewrite) : undefined;
+    critiques.push({ cardId: card.id, score: clamped, issues, ...(revision ? { revision } : {}) });
+  });
+  return critiques;
+};
+
+// Cards the critic skipped get no critique
+export const critiqueFlashcards = async (
+  cards: Flashcard[],
+  apiKey?: string,
+  useMock: boolean = false
+): Promise<CardCritique[]> => {
+  const config = getLLMConfig();
+  try {
+    const provider = getLLMProvider(config, { apiKey, useMock });
+    let critiques: CardCritique[] = [];
+    for (let start = 0; start < cards.length; start += CRITIQUE_BATCH_SIZE) {
+      const batch = cards.slice(start, start + CRITIQUE_BATCH_SIZE);
+      const raw = await provider.complete({
+        messages: buildCritiqueMessages(batch),
+        temperature: 0,
+        maxTokens: config.maxTokens,
+        jsonMode: config.jsonMode
+      });
+      critiques = critiques.concat(parseCritiques(raw, batch));
+    }
+    return critiques;
+  } catch (error) {
+    throw new Error(`Failed to review card quality: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const getRevisedCritiques = (critiques: CardCritique[]): CardCritique[] => {
+  return critiques.filter(critique => critique.revision !== undefined);
+};
+
+const CONTENT_KEYS = ['type', 'question', 'answer', 'options', 'explanation'];
+
+// Replaces the content of accepted cards; ids, tags, review state and source quotes stay, since
+// the rewrite tests the same fact
+export const applyRevisions = (cards: Flashcard[], critiques: CardCritique[], acceptedIds: string[]): Flashcard[] => {
+  const revisions: Record<string, CardContent> = {};
+  critiques.forEach(critique => {
+    if (critique.revision && acceptedIds.indexOf(critique.cardId) !== -1) {
+      revisions[critique.cardId] = critique.revision;
+    }
+  });
+
+  return cards.map(card => {
+    const revision = revisions[card.id];
+    if (!revision) {
+      return card;
+    }
+    const metadata: Record<string, unknown> = {};
+    Object.keys(card).forEach(key => {
+      if (CONTENT_KEYS.indexOf(key) === -1) {
+        metadata[key] = (card as Record<string, unknown>)[key];
+      }
+    });
+    return { ...metadata, ...revision } as Flashcard;
+  });
+};
@@ -0,0 +1,101 @@
+import { Flashcard, SourceSection } from '../types';
+import { DeletedCard, restoreCards } from './cardEditingService';
+import { DEFAULT_CHUNK_SIZE } from './chunkingService';
+
+// Per-card follow-ups to generation: finding the source text a card was made from, and putting the
+// refined cards into the deck in a way that can be undone
+
+export type RefineAction = 'regenerate' | 'simplify' | 'split' | 'more';
+
+export type CardRefinement = {
+  action: RefineAction;
+  // The refined card and its position, when the action replaced it
+  replaced?: DeletedCard;
+  addedIds: string[];
+};
+
+export const REFINE_ACTION_LABELS: Record<RefineAction, string> = {
+  regenerate: 'Regenerate',
+  simplify: 'Simplify',
+  split: 'Split',
+  more: 'More Like This'
+};
+
+// Most cards a split or "more like this" may add at once
+export const MAX_NEW_CARDS = 5;
+export const DEFAULT_NEW_CARDS = 3;
+
+// The whole source, or the section the card was generated from; empty when the deck has no source
+export const getCardSource = (card: Flashcard, sourceContent?: string | SourceSection[]): string => {
+  if (!sourceContent) {
+    return '';
+  }
+  if (typeof sourceContent === 'string') {
+    return sourceContent;
+  }
+  const section = sourceContent.filter(candidate => candidate.title === card.section)[0];
+  return section ? section.text : '';
+};
+
+// Source content read back from an export file; malformed sections are dropped rather than trusted
+export const parseSourceContent = (raw: unknown): string | SourceSection[] | undefined => {
+  if (typeof raw === 'string') {
+    return raw || undefined;
+  }
+  if (!Array.isArray(raw)) {
+    return undefined;
+  }
+  const sections: SourceSection[] = raw
+    .filter(section => section && typeof section.title === 'string' && typeof section.text === 'string')
+    .map(section => ({ title: section.title, text: section.text }));
+  return sections.length > 0 ? sections : undefined;
+};
+
+// About one generation chunk of the source, centred on the card's quote. Without a located quote
+// the quote itself is the best context there is.
+export const getSourceExcerpt = (card: Flashcard, source: string, size: number = DEFAULT_CHUNK_SIZE): string => {
+  const provenance = card.provenance;
+  const quote = provenance ? provenance.quote : '';
+  if (!source) {
+    return quote;
+  }
+  if (source.length <= size) {
+    return source;
+  }
+  if (!provenance || provenance.start === undefined || provenance.end === undefined) {
+    return quote;
+  }
+  const middle = Math.round((provenance.start + provenance.end) / 2);
+  const start = Math.max(0, Math.min(source.length - size, middle - Math.round(size / 2)));
+  return source.substring(start, start + size);
+};
+
+// "More like this" adds the new cards after the card; the other actions replace it
+export const applyRefinement = (
+  cards: Flashcard[],
+  cardId: string,
+  action: RefineAction,
+  newCards: Flashcard[]
+): { cards: Flashcard[]; refinement: CardRefinement } => {
+  const index = cards.map(card => card.id).indexOf(cardId);
+  if (index === -1) {
+    throw new Error('The card no longer exists');
+  }
+
+  const addedIds = newCards.map(card => card.id);
+  if (action === 'more') {
+    return {
+      cards: cards.slice(0, index + 1).concat(newCards, cards.slice(index + 1)),
+      refinement: { action, addedIds }
+    };
+  }
+  return {
+    cards: cards.slice(0, index).concat(newCards, cards.slice(index + 1)),
+    refinement: { action, replaced: { card: cards[index], index }, addedIds }
+  };
+};
+
+export const undoRefinement = (cards: Flashcard[], refinement: CardRefinement): Flashcard[] => {
+  const remaining = cards.filter(card => refinement.addedIds.indexOf(card.id) === -1);
+  return refinement.replaced ? restoreCards(remaining, [refinement.replaced]) : remaining;
+};
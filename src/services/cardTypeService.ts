@@ -0,0 +1,182 @@
+import { CardContent, CardType, Flashcard } from '../types';
+
+// Validation and plain-text rendering of the card types. Generated and imported cards both go
+// through parseCardContent, so every card in a deck has the fields its type needs.
+
+export const CARD_TYPES: CardType[] = ['basic', 'cloze', 'multiple-choice', 'true-false'];
+
+export const CARD_TYPE_LABELS: Record<CardType, string> = {
+  basic: 'Question & answer',
+  cloze: 'Cloze deletion',
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True / false'
+};
+
+export const CLOZE_BLANK = '_____';
+export const MIN_CHOICE_OPTIONS = 2;
+
+const CLOZE_PATTERN = /\{\{(.+?)\}\}/g;
+
+// Letter shown before a multiple choice option: A, B, C, ...
+export const getOptionLabel = (index: number): string => String.fromCharCode(65 + index);
+
+export const getCardType = (card: { type?: CardType }): CardType => card.type || 'basic';
+
+export const hasClozeDeletion = (text: string): boolean => /\{\{.+?\}\}/.test(text);
+
+export const getClozeDeletions = (text: string): string[] => {
+  const deletions: string[] = [];
+  text.replace(CLOZE_PATTERN, (_, hidden: string) => {
+    deletions.push(hidden.trim());
+    return '';
+  });
+  return deletions;
+};
+
+export const hideClozeDeletions = (text: string): string => text.replace(CLOZE_PATTERN, CLOZE_BLANK);
+
+export const revealClozeDeletions = (text: string): string => text.replace(CLOZE_PATTERN, '$1');
+
+// Accepts booleans as well as "true"/"false" in any case, since models and spreadsheets use both
+export const parseTrueFalse = (value: unknown): 'True' | 'False' | null => {
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true') return 'True';
+    if (normalized === 'false') return 'False';
+  }
+  return null;
+};
+
+// "Multiple choice", "multiple_choice" and "true/false" all name a known type
+export const parseCardType = (value: unknown): CardType | null => {
+  if (value === undefined || value === null || value === '') {
+    return 'basic';
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase().replace(/[\s_/]+/g, '-') as CardType;
+  return CARD_TYPES.indexOf(normalized) !== -1 ? normalized : null;
+};
+
+const trimmed = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// FNV-1a, so the same card always gets the same option order
+const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Drops blank and repeated options and makes sure the correct answer is one of them. A missing
+// answer goes at a position seeded by the question, so it is not always given away as the last option.
+const normalizeOptions = (options: unknown[], answer: string, question: string): string[] => {
+  const distinct: string[] = [];
+  options.map(trimmed).forEach(option => {
+    if (option && !distinct.some(other => other.toLowerCase() === option.toLowerCase())) {
+      distinct.push(option);
+    }
+  });
+  if (distinct.some(option => option.toLowerCase() === answer.toLowerCase())) {
+    return distinct;
+  }
+  const position = hashText(question) % (distinct.length + 1);
+  return distinct.slice(0, position).concat([answer], distinct.slice(position));
+};
+
+export const parseCardContent = (raw: Record<string, unknown>): { content?: CardContent; reason?: string } => {
+  const type = parseCardType(raw.type);
+  if (!type) {
+    return { reason: `unknown card type "${String(raw.type)}"` };
+  }
+
+  const question = trimmed(raw.question);
+  if (!question) {
+    return { reason: 'question is missing or empty' };
+  }
+
+  if (type === 'cloze') {
+    const deletions = getClozeDeletions(question);
+    if (deletions.length === 0) {
+      return { reason: 'cloze text has no {{...}} deletion' };
+    }
+    return { content: { type, question, answer: trimmed(raw.answer) || deletions.join(', ') } };
+  }
+
+  if (type === 'true-false') {
+    const answer = parseTrueFalse(raw.answer);
+    if (!answer) {
+      return { reason: 'true/false answer must be True or False' };
+    }
+    const explanation = trimmed(raw.explanation);
+    return { content: { type, question, answer, ...(explanation ? { explanation } : {}) } };
+  }
+
+  const answer = trimmed(raw.answer);
+  if (!answer) {
+    return { reason: 'answer is missing or empty' };
+  }
+
+  if (type === 'multiple-choice') {
+    if (!Array.isArray(raw.options)) {
+      return { reason: 'multiple choice options are missing' };
+    }
+    const options = normalizeOptions(raw.options, answer, question);
+    if (options.length < MIN_CHOICE_OPTIONS) {
+      return { reason: `multiple choice needs at least ${MIN_CHOICE_OPTIONS} options` };
+    }
+    // Use the option's spelling so the answer can be matched against the options exactly
+    const correct = options.filter(option => option.toLowerCase() === answer.toLowerCase())[0];
+    return { content: { type, question, answer: correct, options } };
+  }
+
+  return { content: { question, answer } };
+};
+
+// The type-specific fields alone, in the format cards are generated in, for showing a card to the LLM
+export const getCardContent = (card: Flashcard): CardContent => {
+  switch (card.type) {
+    case 'multiple-choice':
+      return { type: card.type, question: card.question, answer: card.answer, options: card.options };
+    case 'true-false':
+      return { type: card.type, question: card.question, answer: card.answer, ...(card.explanation ? { explanation: card.explanation } : {}) };
+    case 'cloze':
+      return { type: card.type, question: card.question, answer: card.answer };
+    default:
+      return { question: card.question, answer: card.answer };
+  }
+};
+
+// Plain-text front and back, for exports and views that cannot render the card type
+export const formatCardFront = (card: Flashcard): string => {
+  switch (card.type) {
+    case 'cloze':
+      return hideClozeDeletions(card.question);
+    case 'multiple-choice':
+      return [card.question].concat(card.options.map((option, index) => `${getOptionLabel(index)}. ${option}`)).join('\n');
+    case 'true-false':
+      return `True or false: ${card.question}`;
+    default:
+      return card.question;
+  }
+};
+
+export const formatCardBack = (card: Flashcard): string => {
+  switch (card.type) {
+    case 'cloze':
+      return revealClozeDeletions(card.question);
+    case 'multiple-choice': {
+      const index = card.options.indexOf(card.answer);
+      return index === -1 ? card.answer : `${getOptionLabel(index)}. ${card.answer}`;
+    }
+    case 'true-false':
+      return card.explanation ? `${card.answer}. ${card.explanation}` : card.answer;
+    default:
+      return card.answer;
+  }
+};
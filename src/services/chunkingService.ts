@@ -0,0 +1,124 @@
+import { SourceSection } from '../types';
+
+// Splits long source text into LLM-sized chunks without cutting through sections or sentences
+
+export const DEFAULT_CHUNK_SIZE = 3000;
+
+const CHARS_PER_CARD = 250;
+const MIN_CARDS_PER_CHUNK = 3;
+const MAX_CARDS_PER_CHUNK = 15;
+
+const isHeading = (block: string): boolean => {
+  return /^#{1,6}\s/.test(block) || (block.length < 80 && !/[.!?:;,]$/.test(block) && !block.includes('\n'));
+};
+
+const splitIntoBlocks = (content: string): string[] => {
+  const paragraphs = content
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(block => block.length > 0);
+
+  // Keep headings attached to the paragraph that follows them
+  const blocks: string[] = [];
+  let pendingHeading = '';
+  paragraphs.forEach(paragraph => {
+    if (isHeading(paragraph)) {
+      pendingHeading = pendingHeading ? `${pendingHeading}\n\n${paragraph}` : paragraph;
+      return;
+    }
+    blocks.push(pendingHeading ? `${pendingHeading}\n\n${paragraph}` : paragraph);
+    pendingHeading = '';
+  });
+  if (pendingHeading) {
+    blocks.push(pendingHeading);
+  }
+
+  return blocks;
+};
+
+const splitOversizedBlock = (block: string, maxChunkSize: number): string[] => {
+  const sentences = block.match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) || [block];
+  const pieces: string[] = [];
+  let current = '';
+
+  sentences.forEach(sentence => {
+    if (sentence.length > maxChunkSize) {
+      if (current.trim()) {
+        pieces.push(current.trim());
+      }
+      current = '';
+      for (let i = 0; i < sentence.length; i += maxChunkSize) {
+        pieces.push(sentence.substring(i, i + maxChunkSize).trim());
+      }
+      return;
+    }
+
+    if (current.length + sentence.length > maxChunkSize) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  });
+
+  if (current.trim()) {
+    pieces.push(current.trim());
+  }
+
+  return pieces.filter(piece => piece.length > 0);
+};
+
+export const chunkContent = (content: string, maxChunkSize: number = DEFAULT_CHUNK_SIZE): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  splitIntoBlocks(content).forEach(block => {
+    if (block.length > maxChunkSize) {
+      if (current) {
+        chunks.push(current);
+        current = '';
+      }
+      chunks.push(...splitOversizedBlock(block, maxChunkSize));
+      return;
+    }
+
+    const candidate = current ? `${current}\n\n${block}` : block;
+    if (candidate.length > maxChunkSize) {
+      chunks.push(current);
+      current = block;
+    } else {
+      current = candidate;
+    }
+  });
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+};
+
+export type ContentChunk = {
+  text: string;
+  // The text the chunk was cut from: the whole content, or the section it belongs to
+  source: string;
+  // Title of the section the chunk belongs to, when the content was split into sections
+  section?: string;
+};
+
+// Chunks never span two sections, so every card can be traced back to the section it came from
+export const chunkSections = (sections: SourceSection[], maxChunkSize: number = DEFAULT_CHUNK_SIZE): ContentChunk[] => {
+  return sections.reduce<ContentChunk[]>((chunks, section) => {
+    const sectionChunks = chunkContent(section.text, maxChunkSize).map(text => ({
+      text: `## ${section.title}\n\n${text}`,
+      source: section.text,
+      section: section.title
+    }));
+    return chunks.concat(sectionChunks);
+  }, []);
+};
+
+export const getTargetCardCount = (chunk: string): number => {
+  const estimate = Math.round(chunk.length / CHARS_PER_CARD);
+  return Math.min(MAX_CARDS_PER_CHUNK, Math.max(MIN_CARDS_PER_CHUNK, estimate));
+};
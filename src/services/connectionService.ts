@@ -0,0 +1,39 @@
+import { LLMConfig } from '../config';
+import { getLLMProvider } from './llmProvider';
+import { PROXY_SERVER_URL } from './providers/openAICompatibleProvider';
+
+export interface ConnectionTestResult {
+  proxyHealthy: boolean;
+  models: string[];
+}
+
+interface HealthResponse {
+  status?: string;
+}
+
+export const checkProxyHealth = async (): Promise<boolean> => {
+  try {
+    const response = await fetch(`${PROXY_SERVER_URL}/health`);
+    if (!response.ok) {
+      return false;
+    }
+    const data: HealthResponse = await response.json();
+    return data.status === 'ok';
+  } catch (error) {
+    return false;
+  }
+};
+
+// Checks the proxy first so a failed model listing can say whether the proxy is the likely culprit
+export const testLLMConnection = async (config: LLMConfig): Promise<ConnectionTestResult> => {
+  const proxyHealthy = await checkProxyHealth();
+
+  try {
+    const models = await getLLMProvider(config).listModels();
+    return { proxyHealthy, models };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const hint = proxyHealthy ? '' : ` (the proxy server at ${PROXY_SERVER_URL} is not responding; start it with npm run proxy)`;
+    throw new Error(`${message}${hint}`);
+  }
+};
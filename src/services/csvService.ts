@@ -0,0 +1,218 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Flashcard } from '../types';
+import { parseCardContent } from './cardTypeService';
+import { parseTagList, parseDifficulty } from './tagService';
+
+// RFC 4180 parsing plus the column mapping used by the CSV import preview.
+// Comma, semicolon and tab separated files are all accepted.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export type ParsedCsv = {
+  delimiter: CsvDelimiter;
+  records: string[][];
+};
+
+export type CsvColumnMapping = {
+  question: number;
+  answer: number;
+  tags: number;
+  type: number;
+  options: number;
+  difficulty: number;
+  explanation: number;
+};
+
+export type CsvRowError = {
+  row: number;
+  message: string;
+};
+
+export const NO_COLUMN = -1;
+
+// Joins the options of a multiple choice card in a single cell
+export const OPTION_SEPARATOR = ' | ';
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+// Counts each candidate delimiter in the first record, ignoring anything inside quotes
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts[char] !== undefined) {
+      counts[char] += 1;
+    }
+  }
+
+  return DELIMITERS.reduce((best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best), DELIMITERS[0]);
+};
+
+export const parseCsv = (input: string, delimiter?: CsvDelimiter): ParsedCsv => {
+  const text = input.charAt(0) === '\uFEFF' ? input.substring(1) : input;
+  const separator = delimiter || detectDelimiter(text);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quoteStartLine = 0;
+  let line = 1;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+
+  const endRecord = () => {
+    endField();
+    records.push(record);
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charAt(i);
+
+    if (inQuotes) {
+      if (char === '"' && text.charAt(i + 1) === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') {
+          line += 1;
+        }
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+      quoteStartLine = line;
+    } else if (char === separator) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text.charAt(i + 1) === '\n') {
+        i += 1;
+      }
+      line += 1;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${quoteStartLine}`);
+  }
+
+  // A trailing newline does not start another record
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return { delimiter: separator, records };
+};
+
+const findColumn = (headers: string[], names: string[]): number => {
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  for (let i = 0; i < names.length; i++) {
+    const index = normalized.indexOf(names[i]);
+    if (index !== -1) {
+      return index;
+    }
+  }
+  return NO_COLUMN;
+};
+
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => ({
+  question: findColumn(headers, ['question', 'front', 'term', 'prompt']),
+  answer: findColumn(headers, ['answer', 'back', 'definition', 'response']),
+  tags: findColumn(headers, ['tags', 'tag', 'labels']),
+  type: findColumn(headers, ['type', 'card type', 'kind']),
+  options: findColumn(headers, ['options', 'choices']),
+  difficulty: findColumn(headers, ['difficulty', 'level']),
+  explanation: findColumn(headers, ['explanation', 'notes'])
+});
+
+export const parseTags = (value: string): string[] => {
+  return parseTagList(value.split(/[,;\s]+/));
+};
+
+const isBlankRecord = (record: string[]): boolean => record.every(cell => !cell.trim());
+
+// `firstRow` is the 1-based file row of records[0], so errors point at the row users see in a spreadsheet
+export const buildCardsFromRecords = (
+  records: string[][],
+  mapping: CsvColumnMapping,
+  firstRow: number = 1
+): { cards: Flashcard[]; errors: CsvRowError[] } => {
+  const cards: Flashcard[] = [];
+  const errors: CsvRowError[] = [];
+
+  records.forEach((record, index) => {
+    if (isBlankRecord(record)) return;
+
+    const row = firstRow + index;
+    const question = (record[mapping.question] || '').trim();
+    const answer = (record[mapping.answer] || '').trim();
+
+    if (!question || !answer) {
+      const missing = [!question ? 'question' : '', !answer ? 'answer' : ''].filter(Boolean).join(' and ');
+      const shortRow = record.length <= Math.max(mapping.question, mapping.answer);
+      errors.push({
+        row,
+        message: shortRow
+          ? `missing ${missing} (row has only ${record.length} ${record.length === 1 ? 'column' : 'columns'})`
+          : `missing ${missing}`
+      });
+      return;
+    }
+
+    const options = mapping.options !== NO_COLUMN ? (record[mapping.options] || '').split(OPTION_SEPARATOR.trim()) : [];
+    const { content, reason } = parseCardContent({
+      type: mapping.type !== NO_COLUMN ? (record[mapping.type] || '').trim() : '',
+      question,
+      answer,
+      options,
+      explanation: mapping.explanation !== NO_COLUMN ? record[mapping.explanation] || '' : ''
+    });
+    if (!content) {
+      errors.push({ row, message: reason || 'invalid card' });
+      return;
+    }
+
+    const tags = mapping.tags !== NO_COLUMN ? parseTags(record[mapping.tags] || '') : [];
+    const difficulty = mapping.difficulty !== NO_COLUMN ? parseDifficulty(record[mapping.difficulty]) : undefined;
+    cards.push({
+      id: uuidv4(),
+      ...content,
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(difficulty ? { difficulty } : {})
+    });
+  });
+
+  return { cards, errors };
+};
+
+// Type, options and explanation columns let the file be imported again without losing the card types
+export const formatCardsAsCsv = (cards: Flashcard[]): string => {
+  return [
+    ['Question', 'Answer', 'Type', 'Options', 'Explanation', 'Tags', 'Difficulty'],
+    ...cards.map(card => [
+      card.question,
+      card.answer,
+      card.type || 'basic',
+      card.type === 'multiple-choice' ? card.options.join(OPTION_SEPARATOR) : '',
+      card.type === 'true-false' ? card.explanation || '' : '',
+      (card.tags || []).join(' '),
+      card.difficulty || ''
+    ])
+  ]
+    .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+};
@@ -0,0 +1,98 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DeckSummary, FlashcardSet } from '../types';
+import { DECK_STORE, runRequest } from './localDatabase';
+import { deleteReviewEvents } from './reviewHistoryService';
+import { mergeFlashcardSets, splitFlashcardSet, SplitCriterion } from './deckMergeService';
+
+// Local deck library persisted in IndexedDB, so saved decks survive page reloads
+
+type StoredDeck = FlashcardSet & { id: string };
+
+const toSummary = (deck: StoredDeck): DeckSummary => ({
+  id: deck.id,
+  title: deck.title,
+  source: deck.source,
+  createdAt: deck.createdAt,
+  cardCount: deck.cards.length
+});
+
+export const listDecks = async (): Promise<DeckSummary[]> => {
+  const decks = await runRequest<StoredDeck[]>(DECK_STORE, 'readonly', store => store.getAll());
+  return decks
+    .map(toSummary)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+export const getDeck = async (id: string): Promise<FlashcardSet | null> => {
+  const deck = await runRequest<StoredDeck | undefined>(DECK_STORE, 'readonly', store => store.get(id));
+  return deck || null;
+};
+
+export const saveDeck = async (flashcardSet: FlashcardSet): Promise<FlashcardSet> => {
+  const deck: StoredDeck = { ...flashcardSet, id: flashcardSet.id || uuidv4() };
+  await runRequest(DECK_STORE, 'readwrite', store => store.put(deck));
+  return deck;
+};
+
+export const renameDeck = async (id: string, title: string): Promise<FlashcardSet> => {
+  const trimmedTitle = title.trim();
+  if (!trimmedTitle) {
+    throw new Error('Deck title cannot be empty');
+  }
+
+  const deck = await getDeck(id);
+  if (!deck) {
+    throw new Error(`Deck not found: ${id}`);
+  }
+
+  return saveDeck({ ...deck, title: trimmedTitle });
+};
+
+export const duplicateDeck = async (id: string): Promise<FlashcardSet> => {
+  const deck = await getDeck(id);
+  if (!deck) {
+    throw new Error(`Deck not found: ${id}`);
+  }
+
+  return saveDeck({
+    ...deck,
+    id: uuidv4(),
+    title: `${deck.title} (copy)`,
+    cards: deck.cards.map(card => ({ ...card, id: uuidv4() })),
+    createdAt: new Date()
+  });
+};
+
+// The merged deck is saved as a new deck; review history stays with the original decks
+export const mergeDecks = async (ids: string[], title?: string): Promise<FlashcardSet> => {
+  const decks: FlashcardSet[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    const deck = await getDeck(ids[i]);
+    if (!deck) {
+      throw new Error(`Deck not found: ${ids[i]}`);
+    }
+    decks.push(deck);
+  }
+
+  return saveDeck({ ...mergeFlashcardSets(decks, title), id: uuidv4() });
+};
+
+// Saves every part as a new deck and keeps the original
+export const splitDeck = async (id: string, criterion: SplitCriterion): Promise<FlashcardSet[]> => {
+  const deck = await getDeck(id);
+  if (!deck) {
+    throw new Error(`Deck not found: ${id}`);
+  }
+
+  const parts = splitFlashcardSet(deck, criterion);
+  const saved: FlashcardSet[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    saved.push(await saveDeck({ ...parts[i], id: uuidv4() }));
+  }
+  return saved;
+};
+
+export const deleteDeck = async (id: string): Promise<void> => {
+  await runRequest(DECK_STORE, 'readwrite', store => store.delete(id));
+  await deleteReviewEvents(id);
+};
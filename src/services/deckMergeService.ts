@@ -0,0 +1,92 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Flashcard, FlashcardSet } from '../types';
+
+// Pure helpers for combining decks and cutting them apart. Both produce new sets; the decks they
+// start from are left as they are.
+
+export type SplitCriterion = 'tag' | 'section';
+
+export const SPLIT_CRITERION_LABELS: Record<SplitCriterion, string> = {
+  tag: 'By Tag',
+  section: 'By Section'
+};
+
+// Collects cards the split criterion does not cover, e.g. cards without any tag
+const LEFTOVER_GROUP_NAMES: Record<SplitCriterion, string> = {
+  tag: 'Untagged',
+  section: 'Other'
+};
+
+const unique = (values: string[]): string[] => values.filter((value, index) => values.indexOf(value) === index);
+
+// Cards keep their ids, review state and metadata; a card whose id is already taken, e.g. when a
+// deck is merged with its own copy, gets a new one
+export const mergeFlashcardSets = (sets: FlashcardSet[], title?: string): FlashcardSet => {
+  if (sets.length < 2) {
+    throw new Error('Choose at least two decks to merge');
+  }
+
+  const usedIds: Record<string, boolean> = {};
+  const cards: Flashcard[] = [];
+  sets.forEach(set => {
+    set.cards.forEach(card => {
+      const id = usedIds[card.id] ? uuidv4() : card.id;
+      usedIds[id] = true;
+      cards.push(id === card.id ? card : { ...card, id });
+    });
+  });
+
+  return {
+    title: (title || '').trim() || sets.map(set => set.title).join(' + '),
+    source: unique(sets.map(set => set.source)).join(', '),
+    cards,
+    createdAt: new Date()
+  };
+};
+
+const getGroupNames = (card: Flashcard, criterion: SplitCriterion): string[] => {
+  if (criterion === 'tag') {
+    return card.tags || [];
+  }
+  return card.section ? [card.section] : [];
+};
+
+// One set per tag or section, in order of first appearance. A card with several tags goes into
+// the set of each of them; cards without any end up in a final "Untagged" or "Other" set.
+export const splitFlashcardSet = (flashcardSet: FlashcardSet, criterion: SplitCriterion): FlashcardSet[] => {
+  const groupNames: string[] = [];
+  const groups: Record<string, Flashcard[]> = {};
+  const leftovers: Flashcard[] = [];
+
+  flashcardSet.cards.forEach(card => {
+    const names = getGroupNames(card, criterion);
+    if (names.length === 0) {
+      leftovers.push(card);
+    }
+    names.forEach(name => {
+      if (!groups[name]) {
+        groups[name] = [];
+        groupNames.push(name);
+      }
+      groups[name].push(card);
+    });
+  });
+
+  if (groupNames.length === 0) {
+    throw new Error(criterion === 'tag' ? 'No card has a tag to split by' : 'No card has a section to split by');
+  }
+
+  const parts = groupNames.map(name => ({ name, cards: groups[name] }));
+  if (leftovers.length > 0) {
+    parts.push({ name: LEFTOVER_GROUP_NAMES[criterion], cards: leftovers });
+  }
+
+  const createdAt = new Date();
+  return parts.map(part => ({
+    title: `${flashcardSet.title} – ${part.name}`,
+    source: flashcardSet.source,
+    cards: part.cards,
+    createdAt,
+    ...(flashcardSet.sourceContent ? { sourceContent: flashcardSet.sourceContent } : {})
+  }));
+};
@@ -0,0 +1,174 @@
+import { Flashcard } from '../types';
+import { CARD_TYPES, getCardType, formatCardFront, formatCardBack } from './cardTypeService';
+import { DIFFICULTY_LEVELS, hasTag } from './tagService';
+
+// Which cards of a deck are shown and in what order. The deck itself is never reordered, so
+// clearing the view brings back the order the cards were generated or arranged in.
+
+export type CardFilter = 'all' | 'starred' | 'missed';
+
+export type CardOrder = 'deck' | 'question' | 'answer' | 'type' | 'section' | 'difficulty' | 'due' | 'shuffled';
+
+export type DeckView = {
+  filter: CardFilter;
+  // Only cards with this tag; empty for every card
+  tag: string;
+  // Free text; a card matches when its question, answer or tags contain every word
+  query: string;
+  order: CardOrder;
+  // Same seed, same shuffled order
+  shuffleSeed: number;
+};
+
+export type TextMatch = {
+  start: number;
+  end: number;
+};
+
+export const CARD_FILTER_LABELS: Record<CardFilter, string> = {
+  all: 'All cards',
+  starred: 'Starred only',
+  missed: 'Missed last time'
+};
+
+export const CARD_ORDER_LABELS: Record<CardOrder, string> = {
+  deck: 'Deck order',
+  question: 'Question (A–Z)',
+  answer: 'Answer (A–Z)',
+  type: 'Card type',
+  section: 'Section',
+  difficulty: 'Difficulty',
+  due: 'Next review',
+  shuffled: 'Shuffled'
+};
+
+export const DEFAULT_DECK_VIEW: DeckView = {
+  filter: 'all',
+  tag: '',
+  query: '',
+  order: 'deck',
+  shuffleSeed: 1
+};
+
+export const MAX_SHUFFLE_SEED = 999999;
+
+export const createShuffleSeed = (): number => Math.floor(Math.random() * MAX_SHUFFLE_SEED) + 1;
+
+// True when the view shows every card in deck order, i.e. positions in the view are deck positions
+export const isDeckOrder = (view: DeckView): boolean => {
+  return view.filter === 'all' && !view.tag && !view.query.trim() && view.order === 'deck';
+};
+
+const getSearchTerms = (query: string): string[] => {
+  return query.toLowerCase().split(/\s+/).filter(term => term.length > 0);
+};
+
+export const matchesSearch = (card: Flashcard, query: string): boolean => {
+  const text = `${formatCardFront(card)}\n${formatCardBack(card)}\n${(card.tags || []).join(' ')}`.toLowerCase();
+  return getSearchTerms(query).every(term => text.indexOf(term) !== -1);
+};
+
+// Non-overlapping ranges of `text` that match a search word, in order, for highlighting
+export const findMatches = (text: string, query: string): TextMatch[] => {
+  const lowerText = text.toLowerCase();
+  const matches: TextMatch[] = [];
+  getSearchTerms(query).forEach(term => {
+    let start = lowerText.indexOf(term);
+    while (start !== -1) {
+      matches.push({ start, end: start + term.length });
+      start = lowerText.indexOf(term, start + term.length);
+    }
+  });
+
+  const merged: TextMatch[] = [];
+  matches
+    .sort((a, b) => a.start - b.start)
+    .forEach(match => {
+      const last = merged[merged.length - 1];
+      if (last && match.start <= last.end) {
+        last.end = Math.max(last.end, match.end);
+      } else {
+        merged.push({ start: match.start, end: match.end });
+      }
+    });
+  return merged;
+};
+
+const matchesFilter = (card: Flashcard, filter: CardFilter): boolean => {
+  if (filter === 'starred') return card.starred === true;
+  if (filter === 'missed') return card.review !== undefined && card.review.lastGrade === 'again';
+  return true;
+};
+
+// mulberry32: small, fast and good enough to shuffle a deck
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const shuffleCards = (cards: Flashcard[], seed: number): Flashcard[] => {
+  const random = createRandom(seed);
+  const shuffled = cards.slice();
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    const card = shuffled[i];
+    shuffled[i] = shuffled[j];
+    shuffled[j] = card;
+  }
+  return shuffled;
+};
+
+const compareText = (a: string, b: string): number => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+// Cards never reviewed are due now, so they come first
+const getDueTime = (card: Flashcard): number => (card.review ? new Date(card.review.dueDate).getTime() : 0);
+
+const getDifficultyRank = (card: Flashcard): number => {
+  return card.difficulty ? DIFFICULTY_LEVELS.indexOf(card.difficulty) : DIFFICULTY_LEVELS.length;
+};
+
+const compareCards = (a: Flashcard, b: Flashcard, order: CardOrder): number => {
+  switch (order) {
+    case 'question':
+      return compareText(formatCardFront(a), formatCardFront(b));
+    case 'answer':
+      return compareText(formatCardBack(a), formatCardBack(b));
+    case 'type':
+      return CARD_TYPES.indexOf(getCardType(a)) - CARD_TYPES.indexOf(getCardType(b));
+    case 'section':
+      // Cards without a section go last
+      if (!a.section || !b.section) return (a.section ? 0 : 1) - (b.section ? 0 : 1);
+      return compareText(a.section, b.section);
+    case 'difficulty':
+      // Easiest first; cards without a difficulty go last
+      return getDifficultyRank(a) - getDifficultyRank(b);
+    case 'due':
+      return getDueTime(a) - getDueTime(b);
+    default:
+      return 0;
+  }
+};
+
+export const sortCards = (cards: Flashcard[], order: CardOrder, shuffleSeed: number): Flashcard[] => {
+  if (order === 'shuffled') {
+    return shuffleCards(cards, shuffleSeed);
+  }
+  // Ties keep deck order
+  return cards
+    .map((card, index) => ({ card, index }))
+    .sort((a, b) => compareCards(a.card, b.card, order) || a.index - b.index)
+    .map(entry => entry.card);
+};
+
+export const applyDeckView = (cards: Flashcard[], view: DeckView): Flashcard[] => {
+  const visible = cards.filter(card => matchesFilter(card, view.filter)
+    && (!view.tag || hasTag(card, view.tag))
+    && matchesSearch(card, view.query));
+  return sortCards(visible, view.order, view.shuffleSeed);
+};
@@ -0,0 +1,361 @@
+import JSZip from 'jszip';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs';
+import { SourceSection } from '../types';
+
+// Client-side text extraction for documents used as a generation source. Structure is kept where
+// the format has it: PDFs are split into pages, Word and Markdown files into their headed sections.
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'text';
+
+export interface ExtractedDocument {
+  title: string;
+  // Whole text of the document
+  text: string;
+  // Pages or headed sections; empty when the document has no structure to preserve
+  sections: SourceSection[];
+}
+
+export const DOCUMENT_ACCEPT = '.pdf,.docx,.md,.markdown,.txt';
+
+const EXTENSION_KINDS: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  txt: 'text'
+};
+
+const LEAD_SECTION_TITLE = 'Introduction';
+
+export const getDocumentKind = (fileName: string): DocumentKind | null => {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  return EXTENSION_KINDS[extension] || null;
+};
+
+const getDocumentTitle = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.substring(0, dot) : fileName;
+};
+
+// Splits on ATX headings outside code fences; text before the first heading becomes an introduction
+export const splitMarkdownSections = (markdown: string): SourceSection[] => {
+  const sections: SourceSection[] = [];
+  let title = LEAD_SECTION_TITLE;
+  let lines: string[] = [];
+  let inFence = false;
+  let hasHeadings = false;
+
+  const endSection = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      sections.push({ title, text });
+    }
+    lines = [];
+  };
+
+  markdown.replace(/\r\n/g, '\n').split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : line.match(/^#{1,6}\s+(.+?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      endSection();
+      title = heading[1];
+      hasHeadings = true;
+    } else {
+      lines.push(line);
+    }
+  });
+  endSection();
+
+  return hasHeadings ? sections : [];
+};
+
+const stripFrontMatter = (markdown: string): string => {
+  return markdown.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '');
+};
+
+type PdfTextItem = {
+  str: string;
+  hasEOL?: boolean;
+  height: number;
+  transform: number[];
+};
+
+type PdfLine = {
+  text: string;
+  height: number;
+  y: number;
+};
+
+const HEADING_SIZE_RATIO = 1.2;
+const MAX_HEADING_LENGTH = 100;
+const PARAGRAPH_GAP_RATIO = 1.8;
+
+const groupIntoLines = (items: PdfTextItem[]): PdfLine[] => {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+
+  items.forEach(item => {
+    if (!current) {
+      current = { text: '', height: 0, y: item.transform[5] };
+    }
+    current.text += item.str;
+    current.height = Math.max(current.height, item.height);
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  });
+  if (current) {
+    lines.push(current);
+  }
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0);
+};
+
+const median = (values: number[]): number => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted.length > 0 ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+// Rebuilds paragraphs from positioned lines: larger type becomes a heading, wide gaps end a paragraph
+export const pdfItemsToText = (items: PdfTextItem[]): string => {
+  const lines = groupIntoLines(items);
+  const bodyHeight = median(lines.map(line => line.height));
+  const blocks: string[] = [];
+  let paragraph = '';
+  let previous: PdfLine | null = null;
+
+  const endParagraph = () => {
+    if (paragraph) {
+      blocks.push(paragraph);
+    }
+    paragraph = '';
+  };
+
+  lines.forEach(line => {
+    const isHeading = bodyHeight > 0 && line.height >= bodyHeight * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_LENGTH;
+    if (isHeading) {
+      endParagraph();
+      blocks.push(`## ${line.text}`);
+      previous = null;
+      return;
+    }
+
+    if (previous && previous.y - line.y > Math.max(previous.height, line.height) * PARAGRAPH_GAP_RATIO) {
+      endParagraph();
+    }
+    if (!paragraph) {
+      paragraph = line.text;
+    } else if (/[A-Za-z]-$/.test(paragraph) && /^[a-z]/.test(line.text)) {
+      // Rejoin a word hyphenated across the line break
+      paragraph = paragraph.substring(0, paragraph.length - 1) + line.text;
+    } else {
+      paragraph = `${paragraph} ${line.text}`;
+    }
+    previous = line;
+  });
+  endParagraph();
+
+  return blocks.join('\n\n');
+};
+
+export const extractPdf = async (data: ArrayBuffer, fileName: string): Promise<ExtractedDocument> => {
+  // pdf.js is large, so it is only loaded once someone actually opens a PDF
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  const sections: SourceSection[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    // Marked-content entries only delimit tagged regions and carry no text
+    const items: PdfTextItem[] = [];
+    content.items.forEach(item => {
+      if ('str' in item) {
+        items.push(item);
+      }
+    });
+    const text = pdfItemsToText(items);
+    if (text) {
+      sections.push({ title: `Page ${pageNumber}`, text });
+    }
+  }
+
+  if (sections.length === 0) {
+    throw new Error('No text found in the PDF; scanned documents without a text layer are not supported');
+  }
+
+  return {
+    title: getDocumentTitle(fileName),
+    text: sections.map(section => section.text).join('\n\n'),
+    sections
+  };
+};
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const getWordChildren = (element: Element, localName: string): Element[] => {
+  return Array.from(element.childNodes).filter((node): node is Element => (
+    node.nodeType === 1 && (node as Element).localName === localName && (node as Element).namespaceURI === WORD_NAMESPACE
+  ));
+};
+
+const getWordAttribute = (element: Element, name: string): string => {
+  return element.getAttributeNS(WORD_NAMESPACE, name) || '';
+};
+
+const getParagraphText = (paragraph: Element): string => {
+  let text = '';
+  const walk = (node: Element) => {
+    Array.from(node.childNodes).forEach(child => {
+      if (child.nodeType !== 1) return;
+      const element = child as Element;
+      if (element.namespaceURI === WORD_NAMESPACE && element.localName === 't') {
+        text += element.textContent || '';
+      } else if (element.namespaceURI === WORD_NAMESPACE && (element.localName === 'tab' || element.localName === 'br')) {
+        text += ' ';
+      } else {
+        walk(element);
+      }
+    });
+  };
+  walk(paragraph);
+  return text.replace(/\s+/g, ' ').trim();
+};
+
+// Heading level from the paragraph style ("Heading2", "Title") or, for localised styles, its outline level
+const getHeadingLevel = (paragraph: Element): number => {
+  const properties = getWordChildren(paragraph, 'pPr')[0];
+  if (!properties) return 0;
+
+  const style = getWordChildren(properties, 'pStyle')[0];
+  const styleId = style ? getWordAttribute(style, 'val') : '';
+  if (styleId === 'Title') return 1;
+  const styleMatch = styleId.match(/^Heading([1-6])$/i);
+  if (styleMatch) return Number(styleMatch[1]);
+
+  const outline = getWordChildren(properties, 'outlineLvl')[0];
+  const outlineLevel = outline ? Number(getWordAttribute(outline, 'val')) : NaN;
+  return outlineLevel >= 0 && outlineLevel < 6 ? outlineLevel + 1 : 0;
+};
+
+const isListParagraph = (paragraph: Element): boolean => {
+  const properties = getWordChildren(paragraph, 'pPr')[0];
+  return !!properties && getWordChildren(properties, 'numPr').length > 0;
+};
+
+// Converts the body of word/document.xml to Markdown so it can share the Markdown section splitting
+export const docxXmlToMarkdown = (xml: string): string => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NAMESPACE, 'body')[0];
+  if (!body) {
+    throw new Error('The Word document has no body');
+  }
+
+  const blocks: string[] = [];
+  const visit = (element: Element) => {
+    if (element.localName === 'p') {
+      const text = getParagraphText(element);
+      if (!text) return;
+      const level = getHeadingLevel(element);
+      if (level > 0) {
+        blocks.push(`${'#'.repeat(level)} ${text}`);
+      } else if (isListParagraph(element)) {
+        // Consecutive list items stay in one block
+        const last = blocks[blocks.length - 1];
+        if (last && last.indexOf('- ') === 0) {
+          blocks[blocks.length - 1] = `${last}\n- ${text}`;
+        } else {
+          blocks.push(`- ${text}`);
+        }
+      } else {
+        blocks.push(text);
+      }
+    } else if (element.localName === 'tbl') {
+      const rows = getWordChildren(element, 'tr')
+        .map(row => getWordChildren(row, 'tc')
+          .map(cell => getWordChildren(cell, 'p').map(getParagraphText).filter(Boolean).join(' '))
+          .join(' | '))
+        .filter(row => row.replace(/[\s|]/g, '').length > 0);
+      if (rows.length > 0) {
+        blocks.push(rows.join('\n'));
+      }
+    } else if (element.localName === 'sdt' || element.localName === 'sdtContent') {
+      // Content controls wrap ordinary paragraphs
+      Array.from(element.children).forEach(visit);
+    }
+  };
+  Array.from(body.children).forEach(visit);
+
+  return blocks.join('\n\n');
+};
+
+export const extractDocx = async (data: ArrayBuffer, fileName: string): Promise<ExtractedDocument> => {
+  let xml: string;
+  try {
+    const zip = await JSZip.loadAsync(data);
+    const documentFile = zip.file('word/document.xml');
+    if (!documentFile) {
+      throw new Error('word/document.xml is missing');
+    }
+    xml = await documentFile.async('string');
+  } catch (error) {
+    throw new Error(`Not a valid Word document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  return extractMarkdown(docxXmlToMarkdown(xml), fileName);
+};
+
+export const extractMarkdown = (markdown: string, fileName: string): ExtractedDocument => {
+  const text = stripFrontMatter(markdown).trim();
+  return { title: getDocumentTitle(fileName), text, sections: splitMarkdownSections(text) };
+};
+
+export const extractPlainText = (text: string, fileName: string): ExtractedDocument => {
+  return { title: getDocumentTitle(fileName), text: text.trim(), sections: [] };
+};
+
+const readFile = (file: File, as: 'text' | 'arrayBuffer'): Promise<string | ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string | ArrayBuffer);
+    reader.onerror = () => reject(new Error('Error reading file'));
+    if (as === 'text') {
+      reader.readAsText(file);
+    } else {
+      reader.readAsArrayBuffer(file);
+    }
+  });
+};
+
+export const extractDocument = async (file: File): Promise<ExtractedDocument> => {
+  const kind = getDocumentKind(file.name);
+  let extracted: ExtractedDocument;
+
+  switch (kind) {
+    case 'pdf':
+      extracted = await extractPdf(await readFile(file, 'arrayBuffer') as ArrayBuffer, file.name);
+      break;
+    case 'docx':
+      extracted = await extractDocx(await readFile(file, 'arrayBuffer') as ArrayBuffer, file.name);
+      break;
+    case 'markdown':
+      extracted = extractMarkdown(await readFile(file, 'text') as string, file.name);
+      break;
+    case 'text':
+      extracted = extractPlainText(await readFile(file, 'text') as string, file.name);
+      break;
+    default:
+      throw new Error('Unsupported file type. Choose a PDF, Word (.docx), Markdown or text file');
+  }
+
+  if (!extracted.text) {
+    throw new Error(`${file.name} does not contain any text`);
+  }
+  return extracted;
+};
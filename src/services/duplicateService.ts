@@ -0,0 +1,260 @@
+import { Flashcard } from '../types';
+import { getLLMConfig } from '../config';
+import { getLLMProvider, ChatMessage } from './llmProvider';
+import { parseLLMJson } from './responseParsingService';
+import { formatCardFront, formatCardBack, getCardType } from './cardTypeService';
+import { normalizeAnswer, getSimilarity } from './quizService';
+
+// Finds cards that ask the same thing, within a deck or across merged decks. Text similarity
+// catches rewordings of the same sentence; the optional LLM check also catches paraphrases.
+
+export type DuplicateGroup = {
+  // In deck order; the first card is the suggested one to keep
+  cardIds: string[];
+  // Highest similarity between two cards of the group, from 0 to 1; 1 when the LLM confirmed it
+  similarity: number;
+  detectedBy: 'text' | 'llm';
+};
+
+type CardPair = {
+  first: number;
+  second: number;
+  similarity: number;
+};
+
+// Pairs at least this similar are duplicates without asking anyone
+export const DUPLICATE_THRESHOLD = 0.75;
+// Pairs between this and DUPLICATE_THRESHOLD are shown to the LLM
+export const CANDIDATE_THRESHOLD = 0.4;
+export const MAX_LLM_PAIRS = 40;
+
+// The question says what a card asks, so it weighs more than the answer
+const QUESTION_WEIGHT = 0.7;
+// Edit distance takes time proportional to the product of the lengths, so long answers are compared by their start
+const MAX_EDIT_DISTANCE_LENGTH = 200;
+
+// A card side normalized once, so comparing every pair of a deck does not redo it
+type ComparedText = {
+  text: string;
+  words: string[];
+};
+
+type ComparedCard = {
+  question: ComparedText;
+  answer: ComparedText;
+};
+
+const toComparedText = (text: string): ComparedText => {
+  const normalized = normalizeAnswer(text);
+  const words = normalized.split(' ').filter(word => word.length > 0);
+  return {
+    text: normalized.slice(0, MAX_EDIT_DISTANCE_LENGTH),
+    words: words.filter((word, index) => words.indexOf(word) === index)
+  };
+};
+
+const toComparedCard = (card: Flashcard): ComparedCard => ({
+  question: toComparedText(formatCardFront(card)),
+  answer: toComparedText(formatCardBack(card))
+});
+
+// Dice coefficient of the word sets, so reordered sentences still match
+const getWordOverlap = (a: ComparedText, b: ComparedText): number => {
+  if (a.words.length === 0 && b.words.length === 0) {
+    return 1;
+  }
+  const shared = a.words.filter(word => b.words.indexOf(word) !== -1).length;
+  return (2 * shared) / (a.words.length + b.words.length);
+};
+
+// Edit distance alone rates short texts like "Question 1" and "Question 2" as near-identical, and
+// word overlap alone misses typos, so each tempers the other
+const getTextSimilarity = (a: ComparedText, b: ComparedText): number => {
+  return (getWordOverlap(a, b) + getSimilarity(a.text, b.text)) / 2;
+};
+
+// The edit distance similarity is at most the ratio of the lengths, so this never falls below getTextSimilarity
+const getTextSimilarityBound = (a: ComparedText, b: ComparedText): number => {
+  const longer = Math.max(a.text.length, b.text.length);
+  const lengthRatio = longer === 0 ? 1 : Math.min(a.text.length, b.text.length) / longer;
+  return (getWordOverlap(a, b) + lengthRatio) / 2;
+};
+
+const weighSides = (question: number, answer: number): number => QUESTION_WEIGHT * question + (1 - QUESTION_WEIGHT) * answer;
+
+const getComparedSimilarity = (a: ComparedCard, b: ComparedCard): number => {
+  return weighSides(getTextSimilarity(a.question, b.question), getTextSimilarity(a.answer, b.answer));
+};
+
+export const getCardSimilarity = (a: Flashcard, b: Flashcard): number => {
+  return getComparedSimilarity(toComparedCard(a), toComparedCard(b));
+};
+
+// Only pairs that could reach the threshold pay for the edit distance
+const findPairs = (cards: Flashcard[], threshold: number): CardPair[] => {
+  const compared = cards.map(toComparedCard);
+  const pairs: CardPair[] = [];
+  for (let first = 0; first < cards.length; first++) {
+    for (let second = first + 1; second < cards.length; second++) {
+      const a = compared[first];
+      const b = compared[second];
+      const bound = weighSides(getTextSimilarityBound(a.question, b.question), getTextSimilarityBound(a.answer, b.answer));
+      if (bound < threshold) {
+        continue;
+      }
+      const similarity = getComparedSimilarity(a, b);
+      if (similarity >= threshold) {
+        pairs.push({ first, second, similarity });
+      }
+    }
+  }
+  return pairs;
+};
+
+// Cards linked through any chain of pairs end up in one group
+const groupPairs = (cards: Flashcard[], pairs: CardPair[], detectedBy: DuplicateGroup['detectedBy']): DuplicateGroup[] => {
+  const parent = cards.map((card, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+
+  pairs.forEach(pair => {
+    parent[find(pair.second)] = find(pair.first);
+  });
+
+  const members: Record<number, number[]> = {};
+  const similarity: Record<number, number> = {};
+  pairs.forEach(pair => {
+    const root = find(pair.first);
+    similarity[root] = Math.max(similarity[root] || 0, pair.similarity);
+  });
+  cards.forEach((card, index) => {
+    const root = find(index);
+    members[root] = (members[root] || []).concat([index]);
+  });
+
+  return Object.keys(members)
+    .map(Number)
+    .filter(root => members[root].length > 1)
+    .sort((a, b) => members[a][0] - members[b][0])
+    .map(root => ({
+      cardIds: members[root].map(index => cards[index].id),
+      similarity: Math.round(similarity[root] * 100) / 100,
+      detectedBy
+    }));
+};
+
+export const findDuplicateGroups = (cards: Flashcard[], threshold: number = DUPLICATE_THRESHOLD): DuplicateGroup[] => {
+  return groupPairs(cards, findPairs(cards, threshold), 'text');
+};
+
+const describeCard = (card: Flashcard): string => `${formatCardFront(card)} → ${formatCardBack(card)}`.replace(/\s+/g, ' ');
+
+const buildDuplicateCheckMessages = (cards: Flashcard[], pairs: CardPair[]): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You review pairs of flashcards from one deck and decide which pairs are duplicates.
+    Two cards are duplicates when they test the same fact, even if they are worded differently.
+    Cards about related but different facts are not duplicates.
+    Respond with only a JSON object of the form {"duplicates": [1, 4]} listing the numbers of the duplicate pairs, or {"duplicates": []}.`
+  },
+  {
+    role: 'user',
+    content: pairs
+      .map((pair, index) => `Pair ${index + 1}:\nA: ${describeCard(cards[pair.first])}\nB: ${describeCard(cards[pair.second])}`)
+      .join('\n\n')
+  }
+];
+
+// Text matches plus the similar-looking pairs the LLM confirms as duplicates
+export const findDuplicateGroupsWithLLM = async (
+  cards: Flashcard[],
+  apiKey?: string,
+  useMock: boolean = false
+): Promise<DuplicateGroup[]> => {
+  const pairs = findPairs(cards, CANDIDATE_THRESHOLD);
+  const certain = pairs.filter(pair => pair.similarity >= DUPLICATE_THRESHOLD);
+  const candidates = pairs
+    .filter(pair => pair.similarity < DUPLICATE_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, MAX_LLM_PAIRS);
+
+  if (candidates.length === 0) {
+    return groupPairs(cards, certain, 'text');
+  }
+
+  const config = getLLMConfig();
+  try {
+    const provider = getLLMProvider(config, { apiKey, useMock });
+    const raw = await provider.complete({
+      messages: buildDuplicateCheckMessages(cards, candidates),
+      temperature: 0,
+      maxTokens: config.maxTokens,
+      jsonMode: config.jsonMode
+    });
+
+    const data = (parseLLMJson(raw) || {}) as Record<string, unknown>;
+    if (!Array.isArray(data.duplicates)) {
+      throw new Error('the response did not contain a duplicates list');
+    }
+    const confirmed = candidates
+      .filter((pair, index) => (data.duplicates as unknown[]).some(value => Number(value) === index + 1))
+      .map(pair => ({ ...pair, similarity: 1 }));
+
+    // Groups the LLM added to are reported as found by it
+    const textGroups = groupPairs(cards, certain, 'text');
+    return groupPairs(cards, certain.concat(confirmed), 'llm').map(group => {
+      const textGroup = textGroups.filter(candidate => candidate.cardIds.join() === group.cardIds.join())[0];
+      return textGroup || group;
+    });
+  } catch (error) {
+    throw new Error(`Failed to check duplicates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+// Answers can only be combined on question/answer cards; other types would stop making sense
+export const canMergeAnswers = (cards: Flashcard[]): boolean => cards.every(card => getCardType(card) === 'basic');
+
+const getGroupCards = (cards: Flashcard[], cardIds: string[]): Flashcard[] => {
+  return cards.filter(card => cardIds.indexOf(card.id) !== -1);
+};
+
+const combineMetadata = (kept: Flashcard, group: Flashcard[]): Flashcard => {
+  const tags: string[] = [];
+  group.forEach(card => (card.tags || []).forEach(tag => {
+    if (tags.indexOf(tag) === -1) tags.push(tag);
+  }));
+  return {
+    ...kept,
+    ...(tags.length > 0 ? { tags } : {}),
+    ...(group.some(card => card.starred) ? { starred: true } : {})
+  };
+};
+
+// Keeps one card of the group where it is and removes the others; their tags and stars move to it
+export const keepOneCard = (cards: Flashcard[], cardIds: string[], keepId: string): Flashcard[] => {
+  const group = getGroupCards(cards, cardIds);
+  return cards
+    .filter(card => card.id === keepId || cardIds.indexOf(card.id) === -1)
+    .map(card => (card.id === keepId ? combineMetadata(card, group) : card));
+};
+
+// Like keepOneCard, but the kept card's answer also lists the other cards' different answers
+export const mergeCardAnswers = (cards: Flashcard[], cardIds: string[], keepId: string): Flashcard[] => {
+  const group = getGroupCards(cards, cardIds);
+  if (!canMergeAnswers(group)) {
+    throw new Error('Only question & answer cards can have their answers merged');
+  }
+  const kept = group.filter(card => card.id === keepId)[0];
+  if (!kept) {
+    throw new Error('The card to keep is not part of the group');
+  }
+  const answers: string[] = [kept.answer];
+  group.forEach(card => {
+    if (!answers.some(answer => normalizeAnswer(answer) === normalizeAnswer(card.answer))) {
+      answers.push(card.answer);
+    }
+  });
+
+  return keepOneCard(cards, cardIds, keepId).map(card => (card.id === keepId
+    ? { ...card, answer: answers.join('\n') }
+    : card));
+};
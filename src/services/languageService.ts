@@ -0,0 +1,12 @@
+// Language codes follow Wikipedia's subdomains, which are (mostly) ISO 639 codes
+
+export const TARGET_LANGUAGES = ['en', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'sv', 'ru', 'uk', 'tr', 'ar', 'hi', 'ja', 'ko', 'zh'];
+
+export const getLanguageName = (code: string): string => {
+  try {
+    const displayNames = new Intl.DisplayNames(['en'], { type: 'language' });
+    return displayNames.of(code) || code;
+  } catch (error) {
+    return code;
+  }
+};
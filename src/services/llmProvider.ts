@@ -0,0 +1,28 @@
+import { LLMConfig, detectProvider } from '../config';
+import { LLMProvider, ProviderOptions } from './providers/types';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createLMStudioProvider } from './providers/lmStudioProvider';
+import { createOllamaProvider } from './providers/ollamaProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+export type { ChatMessage, CompletionRequest, LLMProvider, ProviderOptions } from './providers/types';
+export { DEFAULT_TEMPERATURE, DEFAULT_MAX_TOKENS } from './providers/types';
+
+export const getLLMProvider = (config: LLMConfig, options: ProviderOptions = {}): LLMProvider => {
+  // Fast mock mode is answered by the proxy, which speaks the OpenAI protocol
+  if (options.useMock) {
+    return createOpenAICompatibleProvider(config, options);
+  }
+
+  switch (config.provider || detectProvider(config.baseUrl)) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config, options);
+    case 'ollama':
+      return createOllamaProvider(config, options);
+    case 'mock':
+      return createMockProvider();
+    case 'lmstudio':
+    default:
+      return createLMStudioProvider(config, options);
+  }
+};
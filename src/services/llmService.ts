@@ -1,146 +1,402 @@
-import { Flashcard } from '../types';
+import { CardContent, CardType, DifficultyLevel, Flashcard, CardProvenance, ExtractionOptions, ExtractionProgress, SourceSection } from '../types';
 import { v4 as uuidv4 } from 'uuid';
-import { getLLMConfig } from '../config';
+import { getLLMConfig, LLMConfig } from '../config';
+import { chunkContent, chunkSections, getTargetCardCount, ContentChunk } from './chunkingService';
+import { createFlashcardStreamParser, StreamedCard } from './streamingService';
+import { getLanguageName } from './languageService';
+import { getLLMProvider, ChatMessage, LLMProvider } from './llmProvider';
+import { buildProvenance } from './provenanceService';
+import { getCardType, getCardContent } from './cardTypeService';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_AUDIENCE,
+  SOURCE_LANGUAGE_DESCRIPTION,
+  PromptVariables,
+  renderPromptTemplate
+} from './promptTemplateService';
+import {
+  RefineAction,
+  MAX_NEW_CARDS,
+  DEFAULT_NEW_CARDS,
+  getCardSource,
+  getSourceExcerpt
+} from './cardRefinementService';
+import {
+  parseFlashcardResponse,
+  validateCard,
+  describeValidationErrors,
+  ParsedFlashcardResponse,
+  ParsedCard,
+  MAX_QUESTION_LENGTH,
+  MAX_ANSWER_LENGTH
+} from './responseParsingService';
 
-// This service is compatible with both OpenAI and LMStudio APIs
+// Provider-agnostic flashcard extraction; the backend is chosen by getLLMProvider
 
-type ChatMessage = {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+type GeneratedCard = CardContent & {
+  section?: string;
+  provenance: CardProvenance;
+  tags?: string[];
+  difficulty?: DifficultyLevel;
 };
 
-interface FlashcardResponse {
-  flashcards: Array<{
-    question: string;
-    answer: string;
-  }>;
-}
-
-interface ChatCompletionResponse {
-  choices: Array<{
-    message: {
-      content: string;
-    };
-  }>;
-}
+const MAX_CONCURRENT_REQUESTS = 2;
+// A small local model takes a while per request, so longer content is only sent once the user agrees
+export const MAX_EXTRACTION_REQUESTS = 10;
 
+// Pass the content as sections to generate cards from only part of a source and label each card with its section
 export const extractFlashcards = async (
-  content: string,
+  content: string | SourceSection[],
   apiKey?: string,
-  useMock: boolean = false
+  useMock: boolean = false,
+  onProgress?: (progress: ExtractionProgress) => void,
+  onCard?: (card: Flashcard) => void,
+  options: ExtractionOptions = {}
 ): Promise<Flashcard[]> => {
   const config = getLLMConfig();
   try {
-    if (!config.baseUrl) {
+    if (!config.baseUrl && config.provider !== 'mock') {
       throw new Error('API base URL is not configured. Please check your environment variables.');
     }
-    const isProxyRequired = true;
-    const apiKeyToUse = isProxyRequired ? 
-      (apiKey || config.defaultApiKey || 'not-needed') : 
-      (apiKey || config.defaultApiKey || '');
-
-    let baseURL = config.baseUrl;
-    
-    if (isProxyRequired) {
-      baseURL = 'http://localhost:3001/api/v1';
-      console.log('Using proxy server for LMStudio:', baseURL);
+
+    const provider = getLLMProvider(config, { apiKey, useMock });
+
+    const chunks = toChunks(content);
+    const maxRequests = options.maxRequests || MAX_EXTRACTION_REQUESTS;
+    if (chunks.length > maxRequests) {
+      throw new Error(`the content needs ${chunks.length} requests, more than the limit of ${maxRequests}`);
     }
-    
-    const truncatedContent = truncateContent(content, 3000);
-
-    const messages: ChatMessage[] = [
-      {
-        role: 'system',
-        content: `You are a helpful assistant that creates flashcards from educational content. 
-        Extract key concepts and create question-answer pairs that would be useful for studying.
-        Focus on important facts, definitions, and concepts.
-        Create between 10-20 flashcards depending on the content length.
-        Format your response as a valid JSON object with a "flashcards" array containing objects with "question" and "answer" properties.`
-      },
-      {
-        role: 'user',
-        content: `Create flashcards from the following content:\n\n${truncatedContent}`
-      }
-    ];
-    
-    let requestBody = {
-      model: config.model,
-      messages: messages,
-      temperature: 0.7,
-      max_tokens: 4000,
-      stream: false
-    };
-
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json'
-    };
-
-    if (apiKeyToUse && !isProxyRequired) {
-      headers['Authorization'] = `Bearer ${apiKeyToUse}`;
+    let completedChunks = 0;
+
+    if (onProgress) {
+      onProgress({ completedChunks, totalChunks: chunks.length });
     }
-    
-    let responseContent: string | undefined;
-    
-    try {
-      const requestBodyString = JSON.stringify(requestBody);
-      console.log('Final request body string:', requestBodyString);
-      
-      const url = `${baseURL}/chat/completions${useMock ? '?mock=true' : ''}`;
-      console.log(`Making request to: ${url} ${useMock ? '(MOCK MODE)' : ''}`)
-      
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: useMock ? { ...headers, 'X-Use-Mock': 'true' } : headers,
-        body: requestBodyString
+
+    // When streaming, cards are handed out as they arrive, so duplicates are filtered on the fly
+    const isNewCard = createDuplicateFilter();
+    const streamedCards: Flashcard[] = [];
+    const handleStreamedCard = onCard ? (generated: GeneratedCard) => {
+      if (!isNewCard(generated)) return;
+      const card = toFlashcard(generated);
+      streamedCards.push(card);
+      onCard(card);
+    } : undefined;
+
+    const chunkResults = await mapWithConcurrency(chunks, MAX_CONCURRENT_REQUESTS, async (chunk) => {
+      const annotate = ({ quote, ...content }: ParsedCard): GeneratedCard => ({
+        ...content,
+        ...(chunk.section ? { section: chunk.section } : {}),
+        provenance: buildProvenance(quote, chunk.source)
       });
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`API request failed: ${response.status} ${errorText}`);
+      const handleChunkCard = handleStreamedCard ? (card: ParsedCard) => handleStreamedCard(annotate(card)) : undefined;
+      const messages = buildMessages(chunk.text, getTargetCardCount(chunk.text), options);
+      const cards = await requestFlashcards(provider, config, messages, options.cardTypes, handleChunkCard);
+      completedChunks += 1;
+      if (onProgress) {
+        onProgress({ completedChunks, totalChunks: chunks.length });
       }
-      
-      const responseData: ChatCompletionResponse = await response.json();
-      responseContent = responseData.choices[0]?.message?.content;
-    } catch (error: any) {
-      console.error('Fetch error details:', error);
-      throw new Error(`Network error when connecting to ${baseURL}: ${error.message || 'Unknown error'}`);
+      return cards.map(annotate);
+    });
+
+    if (onCard) {
+      return streamedCards;
     }
-    
-    if (!responseContent) {
-      throw new Error('No response from LLM API');
+
+    const mergedCards = chunkResults.reduce<GeneratedCard[]>((all, cards) => all.concat(cards), []);
+
+    return removeDuplicateCards(mergedCards).map(toFlashcard);
+  } catch (error) {
+    console.error('Error extracting flashcards:', error);
+    throw new Error(`Failed to extract flashcards: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export type RenderedPrompt = {
+  messages: ChatMessage[];
+  // Every request is built from the same template; only the excerpt and the card count differ
+  requestCount: number;
+};
+
+// The messages of the first request exactly as extractFlashcards would send them
+export const previewExtractionMessages = (
+  content: string | SourceSection[],
+  options: ExtractionOptions = {}
+): RenderedPrompt => {
+  const chunks = toChunks(content);
+  const firstChunk = chunks.length > 0 ? chunks[0].text : '';
+  return {
+    messages: buildMessages(firstChunk, getTargetCardCount(firstChunk), options),
+    requestCount: chunks.length
+  };
+};
+
+// Asks for a replacement, a simpler version, an atomic split or more cards on the same concept.
+// The new cards have new ids and keep the card's section and tags; the card itself is not changed.
+export const refineFlashcard = async (
+  card: Flashcard,
+  action: RefineAction,
+  sourceContent?: string | SourceSection[],
+  count: number = DEFAULT_NEW_CARDS,
+  apiKey?: string,
+  useMock: boolean = false
+): Promise<Flashcard[]> => {
+  const config = getLLMConfig();
+  try {
+    if (!config.baseUrl && config.provider !== 'mock') {
+      throw new Error('API base URL is not configured. Please check your environment variables.');
     }
 
-    const parsedResponse = JSON.parse(responseContent) as FlashcardResponse;
-    
-    if (!parsedResponse.flashcards || !Array.isArray(parsedResponse.flashcards)) {
-      throw new Error('Invalid response format from LLM');
+    const provider = getLLMProvider(config, { apiKey, useMock });
+    const source = getCardSource(card, sourceContent);
+    const limit = getRefinedCardLimit(action, count);
+    const messages = buildRefineMessages(card, action, limit, getSourceExcerpt(card, source));
+    const parsed = await requestFlashcards(provider, config, messages, [getCardType(card)]);
+
+    // New cards that only repeat the card, or each other, are no use
+    const isNewCard = createDuplicateFilter();
+    if (action === 'more') {
+      isNewCard(card);
+    }
+    const refined = parsed.filter(isNewCard).slice(0, limit);
+    if (refined.length === 0) {
+      throw new Error('the LLM only repeated the card');
     }
 
-    return parsedResponse.flashcards.map(card => ({
+    return refined.map(({ quote, tags, difficulty, ...content }) => ({
       id: uuidv4(),
-      question: card.question,
-      answer: card.answer
+      ...content,
+      ...(card.section ? { section: card.section } : {}),
+      ...(source ? { provenance: buildProvenance(quote, source) } : {}),
+      ...(card.tags && card.tags.length > 0 ? { tags: card.tags } : tags ? { tags } : {}),
+      ...(difficulty ? { difficulty } : {})
     }));
   } catch (error) {
-    console.error('Error extracting flashcards:', error);
-    throw new Error(`Failed to extract flashcards: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    console.error('Error refining flashcard:', error);
+    throw new Error(`Failed to refine flashcard: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 };
 
-const truncateContent = (content: string, maxLength: number): string => {
-  if (content.length <= maxLength) {
-    return content;
+const toChunks = (content: string | SourceSection[]): ContentChunk[] => {
+  return typeof content === 'string'
+    ? chunkContent(content).map(text => ({ text, source: content }))
+    : chunkSections(content);
+};
+
+const toFlashcard = (card: GeneratedCard): Flashcard => ({
+  id: uuidv4(),
+  ...card
+});
+
+// Without a language the model is left to follow the content, which is what it does by default
+const buildLanguageInstruction = (language?: string): string => {
+  if (!language) {
+    return '';
   }
-  
-  return content.substring(0, maxLength) + '... [Content truncated due to length]';
+  return `\n    Write every question and answer in ${getLanguageName(language)}, even if the content is in another language.`;
 };
 
-const needsCORSproxy = (url: string): boolean => {
-  try {
-    const parsedUrl = new URL(url);
-    const hostname = parsedUrl.hostname.toLowerCase();
-    return hostname === 'localhost' || hostname === '127.0.0.1';
-  } catch (error) {
-    return false;
+const CARD_TYPE_FORMATS: Record<CardType, string> = {
+  basic: '"basic": "question" and "answer"',
+  cloze: '"cloze": "question" is a sentence from the content with the key term wrapped in double curly braces, e.g. "The {{mitochondrion}} produces most of the cell\'s ATP.", and "answer" is the hidden term',
+  'multiple-choice': '"multiple-choice": "question", "answer" and "options", an array of 4 choices in random order: the answer and 3 plausible but wrong distractors',
+  'true-false': '"true-false": "question" is a statement about the content, "answer" is "True" or "False", and "explanation" says briefly why'
+};
+
+const isBasicOnly = (cardTypes?: CardType[]): boolean => {
+  return !cardTypes || cardTypes.length === 0 || (cardTypes.length === 1 && cardTypes[0] === 'basic');
+};
+
+const buildFormatInstruction = (cardTypes?: CardType[]): string => {
+  if (isBasicOnly(cardTypes)) {
+    return 'Format your response as a valid JSON object with a "flashcards" array containing objects with "question", "answer", "quote", "tags" and "difficulty" properties.';
+  }
+  const types = cardTypes as CardType[];
+  return `Create a mix of these card types: ${types.map(type => `"${type}"`).join(', ')}.
+    Format your response as a valid JSON object with a "flashcards" array. Every flashcard has a "type", a "quote", "tags", a "difficulty" and the properties of its type:
+    ${types.map(type => `- ${CARD_TYPE_FORMATS[type]}`).join('\n    ')}`;
+};
+
+// The template words the request; the limits and the response format that parsing relies on are always added
+const buildMessages = (content: string, targetCount: number, options: ExtractionOptions): ChatMessage[] => {
+  const template = options.template || DEFAULT_PROMPT_TEMPLATE;
+  const values: PromptVariables = {
+    content,
+    count: targetCount,
+    language: options.language ? getLanguageName(options.language) : SOURCE_LANGUAGE_DESCRIPTION,
+    audience: template.audience.trim() || DEFAULT_AUDIENCE
+  };
+  return [
+    {
+      role: 'system',
+      content: `${renderPromptTemplate(template.systemPrompt, values)}${buildLanguageInstruction(options.language)}
+    Keep questions under ${MAX_QUESTION_LENGTH} characters and answers under ${MAX_ANSWER_LENGTH} characters.
+    For every flashcard, also give a "quote": one or two sentences copied word for word from the content that support the answer.
+    Also give "tags": one to three short lowercase topic tags such as "photosynthesis" or "world-war-2", and "difficulty": "easy", "medium" or "hard" for ${values.audience}.
+    ${buildFormatInstruction(options.cardTypes)}
+    Respond with the JSON object only, without markdown code fences or any other text.`
+    },
+    {
+      role: 'user',
+      content: renderPromptTemplate(template.userPrompt, values)
+    }
+  ];
+};
+
+const REFINE_INSTRUCTIONS: Record<RefineAction, (count: number) => string> = {
+  regenerate: () => 'Write one new flashcard to replace this one. It should test the same concept, asked in a different and clearer way.',
+  simplify: () => 'Rewrite this flashcard as one simpler flashcard about the same fact: a short, plain question and an answer of a few words.',
+  split: count => `This flashcard tests several facts at once. Split it into 2 to ${count} flashcards that each test exactly one of them.`,
+  more: count => `Write ${count} new flashcards about the same concept as this one. Each must test a different fact than this flashcard and than the others.`
+};
+
+const getRefinedCardLimit = (action: RefineAction, count: number): number => {
+  if (action === 'regenerate' || action === 'simplify') {
+    return 1;
+  }
+  return action === 'split' ? MAX_NEW_CARDS : Math.min(MAX_NEW_CARDS, Math.max(1, count));
+};
+
+// The excerpt goes after a blank line, the same place as the content in the generation prompt
+const buildRefineMessages = (card: Flashcard, action: RefineAction, count: number, excerpt: string): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You are a helpful assistant that improves flashcards for studying.
+    ${REFINE_INSTRUCTIONS[action](count)}
+    Write in the same language as the flashcard.${excerpt ? `
+    The flashcard is followed by an excerpt of the source it was made from. Only use facts from the excerpt, and for every flashcard give a "quote": one or two sentences copied word for word from the excerpt that support the answer.` : ''}
+    Keep questions under ${MAX_QUESTION_LENGTH} characters and answers under ${MAX_ANSWER_LENGTH} characters.
+    Also give "tags": one to three short lowercase topic tags, and "difficulty": "easy", "medium" or "hard" for a student new to the topic.
+    ${buildFormatInstruction([getCardType(card)])}
+    Respond with the JSON object only, without markdown code fences or any other text.`
+  },
+  {
+    role: 'user',
+    content: `Flashcard: ${JSON.stringify(getCardContent(card))}${excerpt ? `\n\n${excerpt}` : ''}`
+  }
+];
+
+const buildRepairMessage = (problem: string, cardTypes?: CardType[]): ChatMessage => ({
+  role: 'user',
+  content: isBasicOnly(cardTypes)
+    ? `Your previous response could not be used: ${problem}.
+  Reply again with only a valid JSON object of the form {"flashcards": [{"question": "...", "answer": "...", "quote": "...", "tags": ["..."], "difficulty": "medium"}]}, fixing these problems.`
+    : `Your previous response could not be used: ${problem}.
+  Reply again with only a valid JSON object with a "flashcards" array in the format described above, fixing these problems.`
+});
+
+const requestFlashcards = async (
+  provider: LLMProvider,
+  config: LLMConfig,
+  initialMessages: ChatMessage[],
+  cardTypes?: CardType[],
+  onCard?: (card: ParsedCard) => void
+): Promise<ParsedCard[]> => {
+  let messages = initialMessages;
+  const maxAttempts = 1 + (config.maxRepairAttempts || 0);
+
+  for (let attempt = 1; ; attempt++) {
+    let streamedCardCount = 0;
+    const handleStreamedCard = onCard ? (streamed: StreamedCard) => {
+      const { card } = validateCard(streamed);
+      if (card) {
+        streamedCardCount += 1;
+        onCard(card);
+      }
+    } : undefined;
+
+    const parser = createFlashcardStreamParser();
+    const responseContent = await provider.complete({
+      messages,
+      temperature: config.temperature,
+      maxTokens: config.maxTokens,
+      jsonMode: config.jsonMode,
+      onDelta: handleStreamedCard ? (delta) => parser.push(delta).forEach(handleStreamedCard) : undefined
+    });
+
+    let parsed: ParsedFlashcardResponse | null = null;
+    let problem: string;
+    try {
+      parsed = parseFlashcardResponse(responseContent);
+      problem = parsed.errors.length > 0
+        ? describeValidationErrors(parsed.errors)
+        : 'the flashcards array was empty';
+    } catch (error) {
+      if (attempt >= maxAttempts) {
+        throw error;
+      }
+      problem = error instanceof Error ? error.message : 'the response was not valid JSON';
+    }
+
+    if (parsed && parsed.errors.length > 0) {
+      console.warn(`Dropped ${parsed.errors.length} invalid flashcards: ${describeValidationErrors(parsed.errors)}`);
+    }
+
+    if (parsed && parsed.cards.length > 0) {
+      // The backend ignored `stream: true` and answered in one piece
+      if (onCard && streamedCardCount === 0) {
+        parsed.cards.forEach(onCard);
+      }
+      return parsed.cards;
+    }
+
+    if (attempt >= maxAttempts) {
+      throw new Error(`No valid flashcards in LLM response: ${problem}`);
+    }
+
+    console.log(`Re-prompting LLM (attempt ${attempt + 1} of ${maxAttempts}): ${problem}`);
+    messages = messages.concat([
+      { role: 'assistant', content: responseContent },
+      buildRepairMessage(problem, cardTypes)
+    ]);
   }
 };
+
+// Runs the worker over every item, keeping at most `limit` calls in flight, and preserves input order
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex;
+      nextIndex += 1;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(limit, items.length); i++) {
+    workers.push(runWorker());
+  }
+  await Promise.all(workers);
+
+  return results;
+};
+
+const normalizeQuestion = (question: string): string => {
+  return question
+    .toLowerCase()
+    .replace(/[.,!?;:'"()[\]{}¿¡-]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const createDuplicateFilter = () => {
+  const seen: Record<string, boolean> = {};
+  return (card: { question: string }): boolean => {
+    const key = normalizeQuestion(card.question);
+    if (seen[key]) {
+      return false;
+    }
+    seen[key] = true;
+    return true;
+  };
+};
+
+const removeDuplicateCards = (cards: GeneratedCard[]): GeneratedCard[] => {
+  return cards.filter(createDuplicateFilter());
+};
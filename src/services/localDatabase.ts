@@ -0,0 +1,54 @@
+// The browser's IndexedDB database, shared by the deck library and the review history
+
+const DB_NAME = 'flashcard-extractor';
+// Version 2 added the review history
+const DB_VERSION = 2;
+
+export const DECK_STORE = 'decks';
+export const REVIEW_STORE = 'reviews';
+export const REVIEW_DECK_INDEX = 'deckId';
+
+type StoreName = typeof DECK_STORE | typeof REVIEW_STORE;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DECK_STORE)) {
+        db.createObjectStore(DECK_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(REVIEW_STORE)) {
+        const reviews = db.createObjectStore(REVIEW_STORE, { keyPath: 'id', autoIncrement: true });
+        reviews.createIndex(REVIEW_DECK_INDEX, 'deckId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error('Failed to open local database'));
+  });
+};
+
+export const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error || new Error('Local database transaction failed'));
+      transaction.onabort = () => reject(transaction.error || new Error('Local database transaction aborted'));
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,188 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PromptTemplate } from '../types';
+
+// Prompt templates word the instructions and the user message of a generation request. The
+// length limits and the JSON response format are always appended by llmService, so an edited
+// template cannot stop the cards from being parsed.
+
+export type PromptVariables = {
+  content: string;
+  count: number;
+  language: string;
+  audience: string;
+};
+
+export type PromptVariable = keyof PromptVariables;
+
+export const PROMPT_VARIABLES: PromptVariable[] = ['content', 'count', 'language', 'audience'];
+
+export const PROMPT_VARIABLE_DESCRIPTIONS: Record<PromptVariable, string> = {
+  content: 'the excerpt the cards are made from',
+  count: 'how many cards to ask for, based on the length of the excerpt',
+  language: 'the chosen card language, or "the language of the content"',
+  audience: 'who the cards are written for'
+};
+
+export const PROMPT_PRESETS_STORAGE_KEY = 'prompt_presets';
+
+export const SOURCE_LANGUAGE_DESCRIPTION = 'the language of the content';
+export const DEFAULT_AUDIENCE = 'a student new to the topic';
+
+// Only the known variables are replaced, so other double braces such as cloze examples stay as written
+const VARIABLE_PATTERN = /\{\{\s*(content|count|language|audience)\s*\}\}/g;
+const CONTENT_PATTERN = /\{\{\s*content\s*\}\}/;
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: 'default',
+  name: 'Default',
+  systemPrompt: [
+    'You are a helpful assistant that creates flashcards from educational content.',
+    'Extract key concepts and create question-answer pairs that would be useful for studying.',
+    'Focus on important facts, definitions, and concepts.',
+    'Create about {{count}} flashcards for this excerpt, fewer if it does not contain enough distinct facts.'
+  ].join('\n'),
+  userPrompt: 'Create flashcards from the following content:\n\n{{content}}',
+  audience: DEFAULT_AUDIENCE,
+  builtIn: true
+};
+
+export const BUILT_IN_PRESETS: PromptTemplate[] = [
+  DEFAULT_PROMPT_TEMPLATE,
+  {
+    id: 'exam-prep',
+    name: 'Exam prep',
+    systemPrompt: [
+      'You are an experienced teacher writing revision flashcards for {{audience}}.',
+      'Focus on what an exam is likely to test: key facts, definitions, causes and effects, comparisons, dates and figures.',
+      'Prefer questions that make the student recall or apply a fact over ones answered by recognising a phrase.',
+      'Create about {{count}} flashcards for this excerpt, fewer if it does not contain enough examinable material.'
+    ].join('\n'),
+    userPrompt: 'Create exam revision flashcards from the following content:\n\n{{content}}',
+    audience: 'a student preparing for an exam on the topic',
+    builtIn: true
+  },
+  {
+    id: 'vocabulary',
+    name: 'Vocabulary',
+    systemPrompt: [
+      'You are a language teacher creating vocabulary flashcards for {{audience}}.',
+      'Pick the words and phrases from the content that are most useful to learn, especially uncommon or subject-specific ones.',
+      'Put the word or phrase in the question and its meaning, written in {{language}}, in the answer, with a short example of its use where it helps.',
+      'Create about {{count}} flashcards for this excerpt, fewer if it does not contain enough useful vocabulary.'
+    ].join('\n'),
+    userPrompt: 'Create vocabulary flashcards from the following content:\n\n{{content}}',
+    audience: 'a language learner',
+    builtIn: true
+  },
+  {
+    id: 'definitions',
+    name: 'Definitions only',
+    systemPrompt: [
+      'You are a helpful assistant that creates flashcards which each define one term from the content.',
+      'Ask "What is ...?" or "Define ..." and answer with a concise definition based on the content.',
+      'Skip dates, events and other facts that are not definitions.',
+      'Create about {{count}} flashcards for this excerpt, fewer if it defines fewer terms.'
+    ].join('\n'),
+    userPrompt: 'Create definition flashcards from the following content:\n\n{{content}}',
+    audience: DEFAULT_AUDIENCE,
+    builtIn: true
+  },
+  {
+    id: 'children',
+    name: 'For children',
+    systemPrompt: [
+      'You are a friendly teacher creating flashcards for {{audience}}.',
+      'Use short sentences and simple, everyday words, and explain any difficult word in the answer.',
+      'Ask about the most interesting and important ideas rather than small details.',
+      'Create about {{count}} flashcards for this excerpt, fewer if it does not contain enough ideas a child would understand.'
+    ].join('\n'),
+    userPrompt: 'Create flashcards for children from the following content:\n\n{{content}}',
+    audience: 'a child aged 8 to 11',
+    builtIn: true
+  }
+];
+
+export const renderPromptTemplate = (text: string, values: PromptVariables): string => {
+  return text.replace(VARIABLE_PATTERN, (match, name: PromptVariable) => String(values[name]));
+};
+
+// The first problem that would stop the template from producing a usable request, or null
+export const validatePromptTemplate = (template: PromptTemplate): string | null => {
+  if (!template.systemPrompt.trim()) {
+    return 'The prompt instructions cannot be empty';
+  }
+  if (!CONTENT_PATTERN.test(template.userPrompt)) {
+    return 'The user message must contain {{content}}';
+  }
+  return null;
+};
+
+const isStoredPreset = (value: unknown): value is PromptTemplate => {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const preset = value as Record<string, unknown>;
+  return typeof preset.id === 'string' && typeof preset.name === 'string' &&
+    typeof preset.systemPrompt === 'string' && typeof preset.userPrompt === 'string' && typeof preset.audience === 'string';
+};
+
+export const getCustomPresets = (): PromptTemplate[] => {
+  try {
+    const saved = localStorage.getItem(PROMPT_PRESETS_STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(isStoredPreset).map(({ id, name, systemPrompt, userPrompt, audience }) => ({
+      id, name, systemPrompt, userPrompt, audience
+    }));
+  } catch (error) {
+    return [];
+  }
+};
+
+const storeCustomPresets = (presets: PromptTemplate[]): void => {
+  localStorage.setItem(PROMPT_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+const isSameName = (a: string, b: string): boolean => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Saving under the name of an existing custom preset overwrites it; built-in presets cannot be overwritten
+export const saveCustomPreset = (template: PromptTemplate, name: string): PromptTemplate => {
+  const presetName = name.trim();
+  if (!presetName) {
+    throw new Error('Please give the preset a name');
+  }
+  if (BUILT_IN_PRESETS.some(preset => isSameName(preset.name, presetName))) {
+    throw new Error(`"${presetName}" is a built-in preset; please choose another name`);
+  }
+  const problem = validatePromptTemplate(template);
+  if (problem) {
+    throw new Error(problem);
+  }
+
+  const presets = getCustomPresets();
+  const existing = presets.filter(preset => isSameName(preset.name, presetName))[0];
+  const saved: PromptTemplate = {
+    id: existing ? existing.id : uuidv4(),
+    name: presetName,
+    systemPrompt: template.systemPrompt,
+    userPrompt: template.userPrompt,
+    audience: template.audience.trim()
+  };
+  storeCustomPresets(existing
+    ? presets.map(preset => (preset.id === existing.id ? saved : preset))
+    : presets.concat(saved));
+  return saved;
+};
+
+export const deleteCustomPreset = (id: string): void => {
+  storeCustomPresets(getCustomPresets().filter(preset => preset.id !== id));
+};
+
+// Whether the template was edited since it was picked from the preset with the same id
+export const isTemplateModified = (template: PromptTemplate, presets: PromptTemplate[]): boolean => {
+  const preset = presets.filter(candidate => candidate.id === template.id)[0];
+  return !preset || preset.systemPrompt !== template.systemPrompt ||
+    preset.userPrompt !== template.userPrompt || preset.audience !== template.audience;
+};
@@ -0,0 +1,100 @@
+import { CardProvenance } from '../types';
+
+// Checks the quotes the LLM gives as evidence for its cards against the source text. Matching
+// ignores case, runs of whitespace and typographic quotes and dashes, because models rarely copy
+// those exactly; an ellipsis in a quote may stand for any amount of skipped text.
+
+export type QuoteLocation = {
+  start: number;
+  end: number;
+};
+
+const ELLIPSIS = /\s*(?:\.\.\.|…)\s*/;
+const SURROUNDING_QUOTES = /^["'“”‘’«»„\s]+|["'“”‘’«»\s]+$/g;
+
+const normalizeChar = (char: string): string => {
+  if (/\s/.test(char)) return ' ';
+  if (/[‘’‚‛′]/.test(char)) return '\'';
+  if (/[“”„‟″«»]/.test(char)) return '"';
+  if (/[‐‑‒–—]/.test(char)) return '-';
+  return char.toLowerCase();
+};
+
+// Normalised text plus, for each of its characters, the index of the source character it came from
+const normalize = (text: string): { text: string; offsets: number[] } => {
+  let normalized = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = normalizeChar(text.charAt(i));
+    if (char === ' ' && (normalized === '' || normalized.charAt(normalized.length - 1) === ' ')) {
+      continue;
+    }
+    normalized += char;
+    // Lower-casing can turn one character into two
+    for (let k = 0; k < char.length; k++) {
+      offsets.push(i);
+    }
+  }
+
+  return { text: normalized, offsets };
+};
+
+export const locateQuote = (source: string, quote: string): QuoteLocation | null => {
+  const parts = quote
+    .replace(SURROUNDING_QUOTES, '')
+    .split(ELLIPSIS)
+    .map(part => normalize(part).text.trim())
+    .filter(part => part.length > 0);
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const haystack = normalize(source);
+  let searchFrom = 0;
+  let start = -1;
+
+  for (let i = 0; i < parts.length; i++) {
+    const index = haystack.text.indexOf(parts[i], searchFrom);
+    if (index === -1) {
+      return null;
+    }
+    if (start === -1) {
+      start = index;
+    }
+    searchFrom = index + parts[i].length;
+  }
+
+  return {
+    start: haystack.offsets[start],
+    end: haystack.offsets[searchFrom - 1] + 1
+  };
+};
+
+export const buildProvenance = (quote: string | undefined, source: string): CardProvenance => {
+  const trimmed = (quote || '').trim();
+  const location = trimmed ? locateQuote(source, trimmed) : null;
+  return location ? { quote: trimmed, start: location.start, end: location.end } : { quote: trimmed };
+};
+
+export const isProvenanceVerified = (provenance: CardProvenance): boolean => {
+  return provenance.start !== undefined && provenance.end !== undefined;
+};
+
+// Provenance read back from an export file; anything malformed is dropped rather than trusted
+export const parseProvenance = (raw: unknown): CardProvenance | undefined => {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const provenance = raw as Record<string, unknown>;
+  const quote = provenance.quote;
+  if (typeof quote !== 'string') {
+    return undefined;
+  }
+  const start = Number(provenance.start);
+  const end = Number(provenance.end);
+  const hasRange = provenance.start !== undefined && provenance.end !== undefined &&
+    Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end >= start;
+  return hasRange ? { quote, start, end } : { quote };
+};
@@ -0,0 +1,8 @@
+import { LLMConfig } from '../../config';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+import { LLMProvider, ProviderOptions } from './types';
+
+// LM Studio serves the OpenAI protocol but without CORS headers, so every call goes through the proxy
+export const createLMStudioProvider = (config: LLMConfig, options: ProviderOptions = {}): LLMProvider => {
+  return createOpenAICompatibleProvider(config, { ...options, name: 'LM Studio', alwaysUseProxy: true });
+};
@@ -0,0 +1,78 @@
+import { CompletionRequest, LLMProvider } from './types';
+
+// Offline provider that builds flashcards straight from the source sentences. The same input
+// always produces the same output, which makes it useful for demos and end-to-end tests.
+
+const MAX_MOCK_CARDS = 10;
+const STREAM_PIECE_SIZE = 40;
+
+const getLastUserMessage = (request: CompletionRequest): string => {
+  const userMessages = request.messages.filter(message => message.role === 'user');
+  return userMessages.length > 0 ? userMessages[userMessages.length - 1].content : '';
+};
+
+const getSourceText = (request: CompletionRequest): string => {
+  const lastMessage = getLastUserMessage(request);
+  const separatorIndex = lastMessage.indexOf('\n\n');
+  return separatorIndex === -1 ? lastMessage : lastMessage.substring(separatorIndex + 2);
+};
+
+// The answer judge, the duplicate check and the quality review are told apart by the JSON object
+// their instructions ask for. Each gets an answer that changes nothing; other requests get cards.
+const getReviewContent = (request: CompletionRequest): string | null => {
+  const instructions = request.messages
+    .filter(message => message.role === 'system')
+    .map(message => message.content)
+    .join('\n');
+
+  if (instructions.indexOf('{"verdict"') !== -1) {
+    return JSON.stringify({ verdict: 'partial', feedback: 'Mock mode cannot judge answers; compare yours with the expected answer.' });
+  }
+  if (instructions.indexOf('{"duplicates"') !== -1) {
+    return JSON.stringify({ duplicates: [] });
+  }
+  if (instructions.indexOf('{"reviews"') !== -1) {
+    const cardCount = (getLastUserMessage(request).match(/^Card \d+:/gm) || []).length;
+    const reviews = [];
+    for (let card = 1; card <= cardCount; card++) {
+      reviews.push({ card, score: 5, issues: [] });
+    }
+    return JSON.stringify({ reviews });
+  }
+  return null;
+};
+
+const getFlashcardContent = (request: CompletionRequest): string => {
+  const sentences = (getSourceText(request).match(/[^.!?]+[.!?]+/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.split(/\s+/).length >= 4)
+    .slice(0, MAX_MOCK_CARDS);
+  return JSON.stringify({ flashcards: sentences.map(toCard) });
+};
+
+const toCard = (sentence: string, index: number) => {
+  const words = sentence.replace(/[.!?]+$/, '').split(/\s+/);
+  const cutoff = Math.max(1, Math.ceil(words.length / 2));
+  return {
+    question: `Complete the statement (${index + 1}): "${words.slice(0, cutoff).join(' ')} ..."`,
+    answer: sentence
+  };
+};
+
+export const createMockProvider = (): LLMProvider => {
+  const complete = async (request: CompletionRequest): Promise<string> => {
+    const content = getReviewContent(request) || getFlashcardContent(request);
+
+    if (request.onDelta) {
+      for (let i = 0; i < content.length; i += STREAM_PIECE_SIZE) {
+        request.onDelta(content.substring(i, i + STREAM_PIECE_SIZE));
+      }
+    }
+
+    return content;
+  };
+
+  const listModels = async (): Promise<string[]> => ['mock'];
+
+  return { name: 'Mock', complete, listModels };
+};
@@ -0,0 +1,118 @@
+import { LLMConfig } from '../../config';
+import { readJsonLines } from '../streamingService';
+import {
+  CompletionRequest,
+  LLMProvider,
+  ProviderOptions,
+  DEFAULT_TEMPERATURE,
+  DEFAULT_MAX_TOKENS
+} from './types';
+
+// Ollama's native /api/chat endpoint, which streams newline-delimited JSON rather than SSE
+
+interface OllamaTagsResponse {
+  models?: Array<{
+    name: string;
+  }>;
+}
+
+interface OllamaChatResponse {
+  message?: {
+    content?: string;
+  };
+  done?: boolean;
+  error?: string;
+}
+
+// Accepts both the server root and an OpenAI-style `/v1` base URL
+const getOllamaRoot = (baseUrl: string): string => {
+  return baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+};
+
+export const createOllamaProvider = (config: LLMConfig, options: ProviderOptions = {}): LLMProvider => {
+  const rootUrl = getOllamaRoot(config.baseUrl);
+
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json'
+  };
+
+  if (options.apiKey) {
+    headers['Authorization'] = `Bearer ${options.apiKey}`;
+  }
+
+  const complete = async (request: CompletionRequest): Promise<string> => {
+    const { onDelta } = request;
+    const requestBody = {
+      model: config.model,
+      messages: request.messages,
+      stream: Boolean(onDelta),
+      ...(request.jsonMode ? { format: 'json' } : {}),
+      options: {
+        temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+        num_predict: request.maxTokens ?? DEFAULT_MAX_TOKENS
+      }
+    };
+
+    let responseContent = '';
+
+    try {
+      const url = `${rootUrl}/api/chat`;
+      console.log(`Making request to: ${url}`);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(requestBody)
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`API request failed: ${response.status} ${errorText}`);
+      }
+
+      if (onDelta && response.body) {
+        await readJsonLines(response.body, (line) => {
+          const chunk = JSON.parse(line) as OllamaChatResponse;
+          if (chunk.error) {
+            throw new Error(chunk.error);
+          }
+          const delta = chunk.message?.content || '';
+          responseContent += delta;
+          if (delta) {
+            onDelta(delta);
+          }
+        });
+      } else {
+        const responseData: OllamaChatResponse = await response.json();
+        responseContent = responseData.message?.content || '';
+      }
+    } catch (error: any) {
+      console.error('Fetch error details:', error);
+      throw new Error(`Network error when connecting to ${rootUrl}: ${error.message || 'Unknown error'}`);
+    }
+
+    if (!responseContent) {
+      throw new Error('No response from LLM API');
+    }
+
+    return responseContent;
+  };
+
+  const listModels = async (): Promise<string[]> => {
+    let response: Response;
+    try {
+      response = await fetch(`${rootUrl}/api/tags`, { headers });
+    } catch (error: any) {
+      throw new Error(`Network error when connecting to ${rootUrl}: ${error.message || 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Model listing failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data: OllamaTagsResponse = await response.json();
+    return (data.models || []).map(model => model.name);
+  };
+
+  return { name: 'Ollama', complete, listModels };
+};
@@ -0,0 +1,190 @@
+import { LLMConfig } from '../../config';
+import { readServerSentEvents } from '../streamingService';
+import {
+  ChatMessage,
+  CompletionRequest,
+  LLMProvider,
+  ProviderOptions,
+  DEFAULT_TEMPERATURE,
+  DEFAULT_MAX_TOKENS
+} from './types';
+
+// Any backend speaking OpenAI's /chat/completions protocol
+
+export const PROXY_SERVER_URL = 'http://localhost:3001';
+export const PROXY_BASE_URL = `${PROXY_SERVER_URL}/api/v1`;
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  max_tokens: number;
+  stream: boolean;
+  response_format?: { type: 'json_object' };
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+}
+
+interface ModelListResponse {
+  data?: Array<{
+    id: string;
+  }>;
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+}
+
+export interface OpenAICompatibleProviderOptions extends ProviderOptions {
+  name?: string;
+  alwaysUseProxy?: boolean;
+}
+
+// Browsers cannot call local inference servers directly because of CORS, so those go through the proxy
+export const needsCORSproxy = (url: string): boolean => {
+  try {
+    const parsedUrl = new URL(url);
+    const hostname = parsedUrl.hostname.toLowerCase();
+    return hostname === 'localhost' || hostname === '127.0.0.1';
+  } catch (error) {
+    return false;
+  }
+};
+
+export const createOpenAICompatibleProvider = (
+  config: LLMConfig,
+  options: OpenAICompatibleProviderOptions = {}
+): LLMProvider => {
+  const { apiKey, useMock = false, alwaysUseProxy = false } = options;
+  const isProxyRequired = alwaysUseProxy || useMock || needsCORSproxy(config.baseUrl);
+  const apiKeyToUse = isProxyRequired ? 
+    (apiKey || config.defaultApiKey || 'not-needed') : 
+    (apiKey || config.defaultApiKey || '');
+  const baseURL = isProxyRequired ? PROXY_BASE_URL : config.baseUrl;
+
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json'
+  };
+
+  if (apiKeyToUse && !isProxyRequired) {
+    headers['Authorization'] = `Bearer ${apiKeyToUse}`;
+  }
+
+  // Tells the proxy which server to forward to; it only accepts local servers and the hosts it is configured for
+  if (isProxyRequired && !useMock) {
+    headers['X-Inference-Server-Url'] = config.baseUrl;
+  }
+
+  const complete = async (request: CompletionRequest): Promise<string> => {
+    const { onDelta } = request;
+
+    if (isProxyRequired) {
+      console.log('Using proxy server:', baseURL);
+    }
+
+    let requestBody: ChatCompletionRequest = {
+      model: config.model,
+      messages: request.messages,
+      temperature: request.temperature ?? DEFAULT_TEMPERATURE,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      stream: Boolean(onDelta)
+    };
+
+    if (request.jsonMode) {
+      requestBody.response_format = { type: 'json_object' };
+    }
+
+    let responseContent: string | undefined;
+
+    try {
+      const url = `${baseURL}/chat/completions${useMock ? '?mock=true' : ''}`;
+      console.log(`Making request to: ${url} ${useMock ? '(MOCK MODE)' : ''}`)
+
+      const sendRequest = (body: ChatCompletionRequest) => {
+        const requestBodyString = JSON.stringify(body);
+        console.log('Final request body string:', requestBodyString);
+
+        return fetch(url, {
+          method: 'POST',
+          headers: useMock ? { ...headers, 'X-Use-Mock': 'true' } : headers,
+          body: requestBodyString
+        });
+      };
+
+      let response = await sendRequest(requestBody);
+
+      if (!response.ok) {
+        let errorText = await response.text();
+
+        if (requestBody.response_format && response.status === 400 && errorText.includes('response_format')) {
+          console.log('Backend does not support JSON mode, retrying without response_format');
+          requestBody = { ...requestBody };
+          delete requestBody.response_format;
+          response = await sendRequest(requestBody);
+          if (!response.ok) {
+            errorText = await response.text();
+          }
+        }
+
+        if (!response.ok) {
+          throw new Error(`API request failed: ${response.status} ${errorText}`);
+        }
+      }
+
+      const contentType = (response.headers && response.headers.get('content-type')) || '';
+
+      if (onDelta && contentType.includes('text/event-stream') && response.body) {
+        let streamedContent = '';
+        await readServerSentEvents(response.body, (data) => {
+          const chunk = JSON.parse(data) as ChatCompletionChunk;
+          const delta = chunk.choices[0]?.delta?.content || '';
+          streamedContent += delta;
+          if (delta) {
+            onDelta(delta);
+          }
+        });
+        responseContent = streamedContent;
+      } else {
+        const responseData: ChatCompletionResponse = await response.json();
+        responseContent = responseData.choices[0]?.message?.content;
+      }
+    } catch (error: any) {
+      console.error('Fetch error details:', error);
+      throw new Error(`Network error when connecting to ${baseURL}: ${error.message || 'Unknown error'}`);
+    }
+
+    if (!responseContent) {
+      throw new Error('No response from LLM API');
+    }
+
+    return responseContent;
+  };
+
+  const listModels = async (): Promise<string[]> => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseURL}/models`, { headers });
+    } catch (error: any) {
+      throw new Error(`Network error when connecting to ${baseURL}: ${error.message || 'Unknown error'}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Model listing failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data: ModelListResponse = await response.json();
+    return (data.data || []).map(model => model.id);
+  };
+
+  return { name: options.name || 'OpenAI-compatible', complete, listModels };
+};
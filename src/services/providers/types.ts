@@ -0,0 +1,27 @@
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  // When set, the provider streams the response if its backend can, reporting text as it arrives
+  onDelta?: (text: string) => void;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete: (request: CompletionRequest) => Promise<string>;
+  listModels: () => Promise<string[]>;
+}
+
+export interface ProviderOptions {
+  apiKey?: string;
+  useMock?: boolean;
+}
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 4000;
@@ -0,0 +1,197 @@
+import { Flashcard } from '../types';
+import { getLLMConfig } from '../config';
+import { getLLMProvider, ChatMessage } from './llmProvider';
+import { parseLLMJson } from './responseParsingService';
+import { formatCardFront } from './cardTypeService';
+
+// Grading of typed quiz answers: a local fuzzy match that needs no backend, and an optional
+// LLM judge that also accepts answers worded differently from the card.
+
+export type QuizVerdict = 'correct' | 'partial' | 'incorrect';
+
+export type AnswerGrade = {
+  verdict: QuizVerdict;
+  feedback?: string;
+  gradedBy: 'local' | 'llm';
+};
+
+export type QuizResult = {
+  card: Flashcard;
+  response: string;
+  grade: AnswerGrade;
+};
+
+export type QuizSummary = {
+  total: number;
+  correct: number;
+  partial: number;
+  incorrect: number;
+  // Share of the possible points, from 0 to 1; partially correct answers earn half a point
+  score: number;
+};
+
+// Answers at least this similar to the expected one count as typos of it
+const TYPO_SIMILARITY = 0.8;
+// Share of the expected key words an answer must contain to be correct or partially correct
+const CORRECT_COVERAGE = 0.75;
+const PARTIAL_COVERAGE = 0.4;
+
+const STOP_WORDS = ['a', 'an', 'the', 'of', 'and', 'or', 'to', 'in', 'on', 'at', 'by', 'for', 'is', 'are', 'was', 'were', 'it', 'that', 'which', 'with'];
+
+// Read from the answer as typed, because normalising splits contractions such as "isn't"
+const NEGATION_PATTERN = /\b(not|no|never|none|nor|neither|nothing|cannot)\b|n['’]t\b/i;
+
+const VERDICT_POINTS: Record<QuizVerdict, number> = {
+  correct: 1,
+  partial: 0.5,
+  incorrect: 0
+};
+
+// Lower-cases and drops accents, punctuation and articles so only the wording is compared
+export const normalizeAnswer = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,!?;:'"()[\]{}¿¡«»“”‘’/\\–—-]/g, ' ')
+    .replace(/\b(a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const editDistance = (a: string, b: string): number => {
+  let previous: number[] = [];
+  for (let j = 0; j <= b.length; j++) {
+    previous.push(j);
+  }
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for identical strings, falling towards 0 as more characters need changing
+export const getSimilarity = (a: string, b: string): number => {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+};
+
+const getKeyWords = (normalized: string): string[] => {
+  return normalized.split(' ').filter(word => word && STOP_WORDS.indexOf(word) === -1);
+};
+
+// The same key words in any order, e.g. the expected answer given in a full sentence such as "It is Paris".
+// An extra key word can change the meaning ("Paris is the capital of Spain"), so it does not match.
+const hasSameKeyWords = (given: string, expected: string): boolean => {
+  const givenWords = getKeyWords(given);
+  const expectedWords = getKeyWords(expected);
+  return expectedWords.length > 0 &&
+    givenWords.every(word => expectedWords.indexOf(word) !== -1) &&
+    expectedWords.every(word => givenWords.indexOf(word) !== -1);
+};
+
+export const gradeAnswerLocally = (card: Flashcard, response: string): AnswerGrade => {
+  const given = normalizeAnswer(response);
+  const expected = normalizeAnswer(card.answer);
+
+  if (!given) {
+    return { verdict: 'incorrect', feedback: 'No answer given', gradedBy: 'local' };
+  }
+  if (given === expected) {
+    return { verdict: 'correct', gradedBy: 'local' };
+  }
+  // "Not true" or "Paris is not the capital" contain the expected words but say the opposite; whether
+  // a negation is harmless is left to the LLM judge
+  if (NEGATION_PATTERN.test(response) && !NEGATION_PATTERN.test(card.answer)) {
+    return { verdict: 'incorrect', gradedBy: 'local' };
+  }
+  if (hasSameKeyWords(given, expected)) {
+    return { verdict: 'correct', gradedBy: 'local' };
+  }
+  if (card.type === 'multiple-choice' || card.type === 'true-false') {
+    return { verdict: 'incorrect', gradedBy: 'local' };
+  }
+  if (getSimilarity(given, expected) >= TYPO_SIMILARITY) {
+    return { verdict: 'correct', feedback: 'Check the spelling', gradedBy: 'local' };
+  }
+
+  const expectedWords = getKeyWords(expected);
+  const givenWords = getKeyWords(given);
+  if (expectedWords.length === 0) {
+    return { verdict: 'incorrect', gradedBy: 'local' };
+  }
+  const matched = expectedWords.filter(word => givenWords.some(other => getSimilarity(word, other) >= TYPO_SIMILARITY));
+  const coverage = matched.length / expectedWords.length;
+
+  if (coverage >= CORRECT_COVERAGE) {
+    return { verdict: 'correct', gradedBy: 'local' };
+  }
+  if (coverage >= PARTIAL_COVERAGE) {
+    return { verdict: 'partial', feedback: 'Some key words are missing', gradedBy: 'local' };
+  }
+  return { verdict: 'incorrect', gradedBy: 'local' };
+};
+
+const buildJudgeMessages = (card: Flashcard, response: string): ChatMessage[] => [
+  {
+    role: 'system',
+    content: `You grade a learner's answer to a flashcard by comparing it with the expected answer.
+    Accept different wording, synonyms and small spelling mistakes when the meaning is the same.
+    Use "partial" when the answer is on the right track but misses an important part.
+    Respond with only a JSON object of the form {"verdict": "correct" | "partial" | "incorrect", "feedback": "one short sentence for the learner"}.`
+  },
+  {
+    role: 'user',
+    content: `Question: ${formatCardFront(card)}\nExpected answer: ${card.answer}\nLearner's answer: ${response}`
+  }
+];
+
+export const gradeAnswerWithLLM = async (
+  card: Flashcard,
+  response: string,
+  apiKey?: string,
+  useMock: boolean = false
+): Promise<AnswerGrade> => {
+  const config = getLLMConfig();
+  try {
+    const provider = getLLMProvider(config, { apiKey, useMock });
+    const raw = await provider.complete({
+      messages: buildJudgeMessages(card, response),
+      temperature: 0,
+      maxTokens: config.maxTokens,
+      jsonMode: config.jsonMode
+    });
+
+    const data = (parseLLMJson(raw) || {}) as Record<string, unknown>;
+    const verdict = typeof data.verdict === 'string' ? data.verdict.trim().toLowerCase() : '';
+    if (verdict !== 'correct' && verdict !== 'partial' && verdict !== 'incorrect') {
+      throw new Error('the response did not contain a verdict');
+    }
+    const feedback = typeof data.feedback === 'string' ? data.feedback.trim() : '';
+    return { verdict, gradedBy: 'llm', ...(feedback ? { feedback } : {}) };
+  } catch (error) {
+    throw new Error(`Failed to grade answer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const summarizeQuiz = (results: QuizResult[]): QuizSummary => {
+  const count = (verdict: QuizVerdict) => results.filter(result => result.grade.verdict === verdict).length;
+  const points = results.reduce((total, result) => total + VERDICT_POINTS[result.grade.verdict], 0);
+  return {
+    total: results.length,
+    correct: count('correct'),
+    partial: count('partial'),
+    incorrect: count('incorrect'),
+    score: results.length > 0 ? points / results.length : 0
+  };
+};
+
+// Cards answered partially or not at all, for another round
+export const getMissedCards = (results: QuizResult[]): Flashcard[] => {
+  return results.filter(result => result.grade.verdict !== 'correct').map(result => result.card);
+};
@@ -0,0 +1,192 @@
+import { CardContent, DifficultyLevel } from '../types';
+import { parseCardContent } from './cardTypeService';
+import { parseTagList, parseDifficulty } from './tagService';
+
+// Turns noisy LLM output into validated flashcards: extracts the JSON payload, repairs common
+// defects and checks every card individually so one bad card does not sink the whole response
+
+export type ParsedCard = CardContent & {
+  // Supporting passage from the source, when the model gave one
+  quote?: string;
+  // Suggested by the model; cards without them are still valid
+  tags?: string[];
+  difficulty?: DifficultyLevel;
+};
+
+export type CardValidationError = {
+  index: number;
+  reason: string;
+};
+
+export type ParsedFlashcardResponse = {
+  cards: ParsedCard[];
+  errors: CardValidationError[];
+};
+
+export const MAX_QUESTION_LENGTH = 300;
+export const MAX_ANSWER_LENGTH = 1000;
+
+// Strips markdown fences and surrounding prose, keeping the outermost object or array
+export const extractJsonPayload = (raw: string): string => {
+  let text = raw.trim();
+
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+  if (fenced && fenced[1].trim()) {
+    text = fenced[1].trim();
+  }
+
+  const objectStart = text.indexOf('{');
+  const arrayStart = text.indexOf('[');
+  const starts = [objectStart, arrayStart].filter(index => index !== -1);
+  if (starts.length === 0) {
+    return text;
+  }
+
+  const start = Math.min(...starts);
+  const closer = text[start] === '{' ? '}' : ']';
+  const end = text.lastIndexOf(closer);
+
+  return end > start ? text.substring(start, end + 1) : text.substring(start);
+};
+
+const closeUnbalancedBrackets = (text: string): string => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if ((char === '}' || char === ']') && closers[closers.length - 1] === char) {
+      closers.pop();
+    }
+  }
+
+  let repaired = inString ? `${text}"` : text;
+  // A response cut off mid-card leaves a dangling key or comma; drop it before closing up
+  repaired = repaired.replace(/"[^"]*"\s*:\s*$/, '');
+  if (closers[closers.length - 1] === '}') {
+    repaired = repaired.replace(/([{,])\s*"[^"]*"\s*$/, '$1');
+  }
+  repaired = repaired.replace(/,\s*$/, '');
+  return repaired + closers.reverse().join('');
+};
+
+export const repairJson = (text: string): string => {
+  const repaired = text
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, '\'')
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/\/\*[\s\S]*?\*\//g, '');
+
+  return closeUnbalancedBrackets(repaired).replace(/,(\s*[}\]])/g, '$1');
+};
+
+export const parseLLMJson = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Fall through to the more forgiving strategies below
+  }
+
+  const payload = extractJsonPayload(raw);
+  try {
+    return JSON.parse(payload);
+  } catch {
+    // Try again after repairing the payload
+  }
+
+  try {
+    return JSON.parse(repairJson(payload));
+  } catch (error) {
+    throw new Error(`Could not parse JSON from LLM response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+const findCardArray = (data: unknown): unknown[] | null => {
+  if (Array.isArray(data)) {
+    return data;
+  }
+  if (data && typeof data === 'object') {
+    const record = data as Record<string, unknown>;
+    if (Array.isArray(record.flashcards)) {
+      return record.flashcards;
+    }
+    if (Array.isArray(record.cards)) {
+      return record.cards;
+    }
+  }
+  return null;
+};
+
+export const validateCard = (card: unknown): { card?: ParsedCard; reason?: string } => {
+  if (!card || typeof card !== 'object') {
+    return { reason: 'card is not an object' };
+  }
+
+  const raw = card as Record<string, unknown>;
+  const { content, reason } = parseCardContent(raw);
+  if (!content) {
+    return { reason };
+  }
+  if (content.question.length > MAX_QUESTION_LENGTH) {
+    return { reason: `question is longer than ${MAX_QUESTION_LENGTH} characters` };
+  }
+  if (content.answer.length > MAX_ANSWER_LENGTH) {
+    return { reason: `answer is longer than ${MAX_ANSWER_LENGTH} characters` };
+  }
+
+  // A missing or malformed quote does not invalidate the card; it just cannot be verified
+  const quote = typeof raw.quote === 'string' ? raw.quote.trim() : '';
+  const tags = parseTagList(raw.tags);
+  const difficulty = parseDifficulty(raw.difficulty);
+  return {
+    card: {
+      ...content,
+      ...(quote ? { quote } : {}),
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(difficulty ? { difficulty } : {})
+    }
+  };
+};
+
+export const parseFlashcardResponse = (raw: string): ParsedFlashcardResponse => {
+  const items = findCardArray(parseLLMJson(raw));
+  if (!items) {
+    throw new Error('Invalid response format from LLM');
+  }
+
+  const cards: ParsedCard[] = [];
+  const errors: CardValidationError[] = [];
+
+  items.forEach((item, index) => {
+    const result = validateCard(item);
+    if (result.card) {
+      cards.push(result.card);
+    } else {
+      errors.push({ index, reason: result.reason || 'invalid card' });
+    }
+  });
+
+  return { cards, errors };
+};
+
+export const describeValidationErrors = (errors: CardValidationError[]): string => {
+  return errors.map(error => `card ${error.index + 1}: ${error.reason}`).join('; ');
+};
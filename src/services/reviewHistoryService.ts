@@ -0,0 +1,38 @@
+import { ReviewEvent } from '../types';
+import { REVIEW_DECK_INDEX, REVIEW_STORE, runRequest } from './localDatabase';
+
+// Review events stored in IndexedDB next to the deck library. Events are only ever added,
+// and are removed together with their deck.
+
+// The store adds an auto-incremented key to every event
+type StoredReviewEvent = ReviewEvent & { id?: number };
+
+export const recordReviewEvent = async (event: ReviewEvent): Promise<void> => {
+  await runRequest(REVIEW_STORE, 'readwrite', store => store.add(event));
+};
+
+// Oldest first
+export const getReviewEvents = async (deckId: string): Promise<ReviewEvent[]> => {
+  const events = await runRequest<StoredReviewEvent[]>(
+    REVIEW_STORE,
+    'readonly',
+    store => store.index(REVIEW_DECK_INDEX).getAll(deckId)
+  );
+  return events
+    .map(({ id, ...event }) => ({ ...event, timestamp: new Date(event.timestamp) }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
+
+export const deleteReviewEvents = async (deckId: string): Promise<void> => {
+  await runRequest(REVIEW_STORE, 'readwrite', store => {
+    const request = store.index(REVIEW_DECK_INDEX).openCursor(deckId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      }
+    };
+    return request;
+  });
+};
@@ -0,0 +1,123 @@
+import { Flashcard, ReviewGrade, ReviewState } from '../types';
+
+// SM-2 spaced repetition, with the four Anki-style grades mapped onto SM-2 quality scores
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const createInitialReviewState = (now: Date = new Date()): ReviewState => ({
+  easeFactor: DEFAULT_EASE_FACTOR,
+  interval: 0,
+  repetitions: 0,
+  dueDate: new Date(now.getTime())
+});
+
+// Review state that went through JSON (export files) carries its dates as strings
+// JSON stores dates as ISO strings; anything that does not read as a date is dropped
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number' && !(value instanceof Date)) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export const parseReviewState = (raw: unknown): ReviewState | undefined => {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+  const state = raw as Record<string, unknown>;
+  const dueDate = parseDate(state.dueDate);
+  if (!dueDate) {
+    return undefined;
+  }
+  return {
+    easeFactor: Number(state.easeFactor) || DEFAULT_EASE_FACTOR,
+    interval: Number(state.interval) || 0,
+    repetitions: Number(state.repetitions) || 0,
+    dueDate,
+    lastReviewed: parseDate(state.lastReviewed),
+    lastGrade: REVIEW_GRADES.filter(grade => grade === state.lastGrade)[0]
+  };
+};
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_IN_MS);
+
+export const scheduleReview = (
+  state: ReviewState | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewState => {
+  const previous = state || createInitialReviewState(now);
+  const quality = GRADE_QUALITY[grade];
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+
+  if (quality < 3) {
+    // Failed recall: start the card over, but keep the reduced ease factor
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    if (repetitions === 1) {
+      interval = 1;
+    } else if (repetitions === 2) {
+      interval = 6;
+    } else {
+      interval = Math.round(previous.interval * easeFactor);
+    }
+
+    if (grade === 'hard') {
+      interval = Math.max(1, Math.round(interval * 0.8));
+    } else if (grade === 'easy') {
+      interval = Math.round(interval * 1.3) + 1;
+    }
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueDate: addDays(now, interval),
+    lastReviewed: new Date(now.getTime()),
+    lastGrade: grade
+  };
+};
+
+export const isCardDue = (card: Flashcard, now: Date = new Date()): boolean => {
+  if (!card.review) {
+    return true;
+  }
+  return new Date(card.review.dueDate).getTime() <= now.getTime();
+};
+
+export const getDueCards = (cards: Flashcard[], now: Date = new Date()): Flashcard[] => {
+  return cards
+    .filter(card => isCardDue(card, now))
+    .sort((a, b) => {
+      const aDue = a.review ? new Date(a.review.dueDate).getTime() : 0;
+      const bDue = b.review ? new Date(b.review.dueDate).getTime() : 0;
+      return aDue - bDue;
+    });
+};
+
+export const reviewCard = (card: Flashcard, grade: ReviewGrade, now: Date = new Date()): Flashcard => ({
+  ...card,
+  review: scheduleReview(card.review, grade, now)
+});
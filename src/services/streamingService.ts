@@ -0,0 +1,153 @@
+// Helpers for OpenAI-style server-sent event streams and for pulling flashcards out of partial JSON
+
+// A card object as the model wrote it; the type-specific fields are checked by validateCard
+export type StreamedCard = {
+  question: string;
+  answer: string | boolean;
+  [field: string]: unknown;
+};
+
+export interface FlashcardStreamParser {
+  push: (text: string) => StreamedCard[];
+}
+
+// Emits every object that closes directly inside an array, as soon as its closing brace arrives
+export const createFlashcardStreamParser = (): FlashcardStreamParser => {
+  let buffer = '';
+  let scanIndex = 0;
+  let inString = false;
+  let escaped = false;
+  const openers: Array<{ char: '{' | '['; start: number }> = [];
+
+  const push = (text: string): StreamedCard[] => {
+    buffer += text;
+    const cards: StreamedCard[] = [];
+
+    for (; scanIndex < buffer.length; scanIndex++) {
+      const char = buffer[scanIndex];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        openers.push({ char, start: scanIndex });
+      } else if (char === '}' || char === ']') {
+        const opener = openers.pop();
+        const parent = openers[openers.length - 1];
+
+        if (char === '}' && opener && opener.char === '{' && parent && parent.char === '[') {
+          const card = parseCard(buffer.substring(opener.start, scanIndex + 1));
+          if (card) {
+            cards.push(card);
+          }
+        }
+      }
+    }
+
+    return cards;
+  };
+
+  return { push };
+};
+
+const parseCard = (json: string): StreamedCard | null => {
+  try {
+    const value = JSON.parse(json);
+    // True/false answers may come as JSON booleans
+    if (value && typeof value.question === 'string' && (typeof value.answer === 'string' || typeof value.answer === 'boolean')) {
+      return value;
+    }
+  } catch {
+    // Not a complete card object, e.g. a nested structure the model added
+  }
+  return null;
+};
+
+// Reads `data:` events from a fetch body until the stream ends or the server sends [DONE]
+export const readServerSentEvents = async (
+  body: ReadableStream<Uint8Array>,
+  onData: (data: string) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  const handleEvent = (event: string): boolean => {
+    const data = event
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.substring(5).replace(/^ /, ''))
+      .join('\n');
+
+    if (!data) {
+      return true;
+    }
+    if (data === '[DONE]') {
+      return false;
+    }
+    onData(data);
+    return true;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    pending += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+    const events = pending.split('\n\n');
+    pending = events.pop() || '';
+
+    for (let i = 0; i < events.length; i++) {
+      if (!handleEvent(events[i])) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+
+  if (pending.trim()) {
+    handleEvent(pending);
+  }
+};
+
+// Reads newline-delimited JSON (as streamed by Ollama's native API), one line at a time
+export const readJsonLines = async (
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void
+): Promise<void> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() || '';
+
+    lines
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .forEach(onLine);
+  }
+
+  if (pending.trim()) {
+    onLine(pending.trim());
+  }
+};
@@ -0,0 +1,150 @@
+import { Flashcard, ReviewEvent, ReviewGrade } from '../types';
+
+// Pure aggregation of a deck's review history for the statistics dashboard. Every function takes
+// the current time as a parameter so results do not depend on when they are computed.
+
+export type DailyCount = {
+  // Local calendar day as YYYY-MM-DD
+  date: string;
+  count: number;
+};
+
+export type CardDifficulty = {
+  card: Flashcard;
+  reviews: number;
+  // Reviews graded "again", i.e. the card was forgotten
+  lapses: number;
+  // 0 for cards always remembered easily, up to 1 for cards forgotten every time
+  difficulty: number;
+};
+
+export type StudyStats = {
+  totalReviews: number;
+  // Share of reviews not graded "again"; null before the first review
+  retentionRate: number | null;
+  totalTimeMs: number;
+  averageTimeMs: number;
+  dailyReviews: DailyCount[];
+  hardestCards: CardDifficulty[];
+  dueForecast: DailyCount[];
+};
+
+export const HEATMAP_DAYS = 84;
+export const FORECAST_DAYS = 14;
+export const HARDEST_CARD_COUNT = 5;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// How much each grade counts towards a card's difficulty
+const GRADE_DIFFICULTY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 0.5,
+  good: 0,
+  easy: 0
+};
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : String(value));
+
+export const toDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Calendar days rather than 24-hour steps, so daylight saving changes do not skip or repeat a day
+const addDays = (date: Date, days: number): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+export const getRetentionRate = (events: ReviewEvent[]): number | null => {
+  if (events.length === 0) {
+    return null;
+  }
+  return events.filter(event => event.grade !== 'again').length / events.length;
+};
+
+export const getTotalTime = (events: ReviewEvent[]): number => {
+  return events.reduce((total, event) => total + Math.max(0, event.responseTimeMs), 0);
+};
+
+// One entry per day for the last `days` days, oldest first and ending today
+export const getDailyReviewCounts = (events: ReviewEvent[], days: number, now: Date): DailyCount[] => {
+  const counts: Record<string, number> = {};
+  events.forEach(event => {
+    const key = toDateKey(event.timestamp);
+    counts[key] = (counts[key] || 0) + 1;
+  });
+
+  const result: DailyCount[] = [];
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDateKey(addDays(now, -offset));
+    result.push({ date, count: counts[date] || 0 });
+  }
+  return result;
+};
+
+// Cards that were reviewed at least once, most difficult first; deleted cards are left out
+export const getHardestCards = (events: ReviewEvent[], cards: Flashcard[], limit: number): CardDifficulty[] => {
+  const totals: Record<string, { reviews: number; lapses: number; weight: number }> = {};
+  events.forEach(event => {
+    const total = totals[event.cardId] || { reviews: 0, lapses: 0, weight: 0 };
+    total.reviews += 1;
+    total.lapses += event.grade === 'again' ? 1 : 0;
+    total.weight += GRADE_DIFFICULTY[event.grade];
+    totals[event.cardId] = total;
+  });
+
+  return cards
+    .filter(card => totals[card.id] !== undefined)
+    .map(card => {
+      const total = totals[card.id];
+      return { card, reviews: total.reviews, lapses: total.lapses, difficulty: total.weight / total.reviews };
+    })
+    .filter(entry => entry.difficulty > 0)
+    .sort((a, b) => b.difficulty - a.difficulty || b.lapses - a.lapses || b.reviews - a.reviews)
+    .slice(0, limit);
+};
+
+// Cards due on each of the next `days` days; overdue and never-reviewed cards count as due today
+export const getDueForecast = (cards: Flashcard[], days: number, now: Date): DailyCount[] => {
+  const today = startOfDay(now).getTime();
+  const counts: number[] = [];
+  for (let i = 0; i < days; i++) {
+    counts.push(0);
+  }
+
+  cards.forEach(card => {
+    const due = card.review ? startOfDay(new Date(card.review.dueDate)).getTime() : today;
+    const offset = Math.max(0, Math.round((due - today) / DAY_IN_MS));
+    if (offset < days) {
+      counts[offset] += 1;
+    }
+  });
+
+  return counts.map((count, offset) => ({ date: toDateKey(addDays(now, offset)), count }));
+};
+
+export const buildStudyStats = (events: ReviewEvent[], cards: Flashcard[], now: Date = new Date()): StudyStats => {
+  const totalTimeMs = getTotalTime(events);
+  return {
+    totalReviews: events.length,
+    retentionRate: getRetentionRate(events),
+    totalTimeMs,
+    averageTimeMs: events.length > 0 ? totalTimeMs / events.length : 0,
+    dailyReviews: getDailyReviewCounts(events, HEATMAP_DAYS, now),
+    hardestCards: getHardestCards(events, cards, HARDEST_CARD_COUNT),
+    dueForecast: getDueForecast(cards, FORECAST_DAYS, now)
+  };
+};
+
+// "1 h 5 min", "3 min 20 s" or "12 s"
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours} h ${minutes} min`;
+  }
+  if (minutes > 0) {
+    return `${minutes} min ${seconds % 60} s`;
+  }
+  return `${seconds} s`;
+};
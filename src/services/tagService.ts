@@ -0,0 +1,84 @@
+import { DifficultyLevel, Flashcard } from '../types';
+
+// Tags and difficulty: the card metadata used to slice a deck by topic. Tags are kept in one
+// normalized form everywhere so the same topic typed twice, or read back from an export, matches.
+
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['easy', 'medium', 'hard'];
+
+export const DIFFICULTY_LABELS: Record<DifficultyLevel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+// Anki has no difficulty field, so difficulty travels as a hierarchical tag such as "difficulty::hard"
+export const ANKI_DIFFICULTY_PREFIX = 'difficulty::';
+
+export const MAX_TAG_LENGTH = 40;
+
+// "Cell Biology " becomes "cell-biology"; separators used by CSV and Anki tag lists are replaced
+export const normalizeTag = (tag: string): string => {
+  return tag
+    .trim()
+    .toLowerCase()
+    .replace(/[\s,;]+/g, '-')
+    .replace(/^#+/, '')
+    .substring(0, MAX_TAG_LENGTH);
+};
+
+// Accepts an array of strings or a comma separated string, as LLMs and hand-written JSON use both
+export const parseTagList = (raw: unknown): string[] => {
+  const values = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  const tags: string[] = [];
+  values.forEach(value => {
+    const tag = typeof value === 'string' ? normalizeTag(value) : '';
+    if (tag && tags.indexOf(tag) === -1) {
+      tags.push(tag);
+    }
+  });
+  return tags;
+};
+
+export const parseDifficulty = (raw: unknown): DifficultyLevel | undefined => {
+  const value = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  if (value === 'difficult') return 'hard';
+  if (value === 'moderate' || value === 'intermediate') return 'medium';
+  return DIFFICULTY_LEVELS.indexOf(value as DifficultyLevel) !== -1 ? value as DifficultyLevel : undefined;
+};
+
+// Every tag used in the deck, alphabetically, with the number of cards carrying it
+export const getDeckTags = (cards: Flashcard[]): Array<{ tag: string; count: number }> => {
+  const counts: Record<string, number> = {};
+  cards.forEach(card => {
+    (card.tags || []).forEach(tag => {
+      counts[tag] = (counts[tag] || 0) + 1;
+    });
+  });
+  return Object.keys(counts)
+    .sort()
+    .map(tag => ({ tag, count: counts[tag] }));
+};
+
+export const hasTag = (card: Flashcard, tag: string): boolean => (card.tags || []).indexOf(tag) !== -1;
+
+// Anki stores a note's tags as one space separated string with a space on either side
+export const formatAnkiTags = (card: Flashcard): string => {
+  const tags = (card.tags || []).concat(card.difficulty ? [`${ANKI_DIFFICULTY_PREFIX}${card.difficulty}`] : []);
+  return tags.length > 0 ? ` ${tags.join(' ')} ` : '';
+};
+
+export const parseAnkiTags = (value: string): { tags: string[]; difficulty?: DifficultyLevel } => {
+  let difficulty: DifficultyLevel | undefined;
+  const tags: string[] = [];
+  value.split(/\s+/).forEach(raw => {
+    if (raw.toLowerCase().indexOf(ANKI_DIFFICULTY_PREFIX) === 0) {
+      difficulty = parseDifficulty(raw.substring(ANKI_DIFFICULTY_PREFIX.length)) || difficulty;
+      return;
+    }
+    const tag = normalizeTag(raw);
+    if (tag && tags.indexOf(tag) === -1) {
+      tags.push(tag);
+    }
+  });
+  return difficulty ? { tags, difficulty } : { tags };
+};
@@ -0,0 +1,62 @@
+// Word-level diff for showing how a text was rewritten. Every word keeps the whitespace after it,
+// so joining the parts of one side gives back that text exactly.
+
+export type DiffPart = {
+  text: string;
+  change: 'same' | 'added' | 'removed';
+};
+
+// Matching spaces on their own would split a rewritten phrase into alternating changes
+const tokenize = (text: string): string[] => text.match(/^\s+|\S+\s*/g) || [];
+
+// Adjacent parts with the same change are joined so they render as one highlight
+const appendPart = (parts: DiffPart[], part: DiffPart): void => {
+  const last = parts[parts.length - 1];
+  if (last && last.change === part.change) {
+    last.text += part.text;
+  } else {
+    parts.push({ ...part });
+  }
+};
+
+// Longest common subsequence of the tokens; cards are short, so the quadratic table is fine
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lengths: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    lengths.push([]);
+    for (let j = 0; j <= b.length; j++) {
+      lengths[i].push(0);
+    }
+  }
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      appendPart(parts, { text: a[i], change: 'same' });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      appendPart(parts, { text: a[i], change: 'removed' });
+      i++;
+    } else {
+      appendPart(parts, { text: b[j], change: 'added' });
+      j++;
+    }
+  }
+  for (; i < a.length; i++) {
+    appendPart(parts, { text: a[i], change: 'removed' });
+  }
+  for (; j < b.length; j++) {
+    appendPart(parts, { text: b[j], change: 'added' });
+  }
+  return parts;
+};
@@ -0,0 +1,239 @@
+import { PROXY_SERVER_URL } from './providers/openAICompatibleProvider';
+
+// Readability-style extraction of the main text of an arbitrary web page. Pages are fetched
+// through the proxy server because most sites do not allow cross-origin requests.
+
+export interface WebPageContent {
+  title: string;
+  // Main text of the page, with markdown-style headings and list items
+  content: string;
+  // Address of the page after redirects
+  url: string;
+  // Language declared by the page, if any
+  language?: string;
+}
+
+interface FetchPageResponse {
+  url?: string;
+  html?: string;
+  error?: string;
+}
+
+const ELEMENTS_TO_REMOVE = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'svg',
+  'canvas',
+  'form',
+  'button',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[aria-hidden="true"]',
+  '[hidden]'
+];
+
+// Class names and ids of page furniture: menus, ads, share bars, comment threads and the like
+const BOILERPLATE_PATTERN = /(^|[\s_-])(ad|ads|advert\w*|banner|breadcrumbs?|comments?|cookies?|footer|menu|modal|nav\w*|newsletter|popup|promo\w*|related|share|sharing|sidebar|social|sponsor\w*|subscribe|toc)($|[\s_-])/i;
+
+// Containers named like this hold the content even when they also match the pattern above, e.g. "post has-sidebar"
+const CONTENT_PATTERN = /article|body|content|entry|main|post|story/i;
+
+// Elements that are never removed for their class names, since sites often label them oddly
+const PROTECTED_TAGS = ['HTML', 'BODY', 'MAIN', 'ARTICLE'];
+
+const BLOCK_TAGS = [
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE', 'FOOTER',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'LI', 'MAIN', 'OL', 'P', 'PRE', 'SECTION', 'TABLE', 'UL'
+];
+
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_MAIN_ELEMENT_LENGTH = 200;
+const MAX_LINK_DENSITY = 0.5;
+
+const cleanText = (text: string | null): string => (text || '').replace(/\s+/g, ' ').trim();
+
+const removeBoilerplate = (doc: Document) => {
+  ELEMENTS_TO_REMOVE.forEach(selector => {
+    doc.querySelectorAll(selector).forEach(el => {
+      el.remove();
+    });
+  });
+
+  doc.querySelectorAll('[class], [id]').forEach(el => {
+    if (PROTECTED_TAGS.indexOf(el.tagName) !== -1) return;
+    const label = `${el.getAttribute('class') || ''} ${el.id}`;
+    if (BOILERPLATE_PATTERN.test(label) && !CONTENT_PATTERN.test(label)) {
+      el.remove();
+    }
+  });
+};
+
+// Share of an element's text that sits inside links; high for menus and link lists
+const getLinkDensity = (element: Element): number => {
+  const textLength = cleanText(element.textContent).length;
+  if (textLength === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((total, link) => total + cleanText(link.textContent).length, 0);
+  return linkLength / textLength;
+};
+
+// Scores each paragraph's parent and grandparent by the amount of prose they hold and picks the best
+const findContentRoot = (doc: Document): Element => {
+  const semantic = doc.querySelector('article') || doc.querySelector('main') || doc.querySelector('[role="main"]');
+  if (semantic && cleanText(semantic.textContent).length >= MIN_MAIN_ELEMENT_LENGTH) {
+    return semantic;
+  }
+
+  const candidates: Element[] = [];
+  const scores: number[] = [];
+  const addScore = (element: Element | null, score: number) => {
+    if (!element) return;
+    const index = candidates.indexOf(element);
+    if (index === -1) {
+      candidates.push(element);
+      scores.push(score);
+    } else {
+      scores[index] += score;
+    }
+  };
+
+  doc.querySelectorAll('p, pre').forEach(paragraph => {
+    const text = cleanText(paragraph.textContent);
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+    const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+    addScore(paragraph.parentElement, score);
+    addScore(paragraph.parentElement ? paragraph.parentElement.parentElement : null, score / 2);
+  });
+
+  let best: Element = doc.body;
+  let bestScore = 0;
+  candidates.forEach((candidate, index) => {
+    const score = scores[index] * (1 - getLinkDensity(candidate));
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+// Walks the content root and keeps headings, paragraphs, lists, code and table rows as text blocks
+const collectBlocks = (root: Element): string[] => {
+  const blocks: string[] = [];
+
+  const visit = (element: Element) => {
+    const tag = element.tagName;
+
+    if (/^H[1-6]$/.test(tag)) {
+      const text = cleanText(element.textContent);
+      if (text) {
+        blocks.push(`${'#'.repeat(Number(tag.charAt(1)))} ${text}`);
+      }
+    } else if (tag === 'P' || tag === 'DD' || tag === 'DT' || tag === 'FIGCAPTION') {
+      const text = cleanText(element.textContent);
+      if (text && getLinkDensity(element) <= MAX_LINK_DENSITY) {
+        blocks.push(text);
+      }
+    } else if (tag === 'PRE') {
+      const text = (element.textContent || '').trim();
+      if (text) {
+        blocks.push(text);
+      }
+    } else if (tag === 'UL' || tag === 'OL') {
+      if (getLinkDensity(element) > MAX_LINK_DENSITY) return;
+      const items = Array.from(element.children)
+        .filter(child => child.tagName === 'LI')
+        .map(item => cleanText(item.textContent))
+        .filter(item => item.length > 0);
+      if (items.length > 0) {
+        blocks.push(items.map(item => `- ${item}`).join('\n'));
+      }
+    } else if (tag === 'TABLE') {
+      const rows = Array.from(element.querySelectorAll('tr'))
+        .map(row => Array.from(row.children).map(cell => cleanText(cell.textContent)).filter(Boolean).join(' | '))
+        .filter(row => row.length > 0);
+      if (rows.length > 0) {
+        blocks.push(rows.join('\n'));
+      }
+    } else if (Array.from(element.children).some(child => BLOCK_TAGS.indexOf(child.tagName) !== -1)) {
+      Array.from(element.children).forEach(visit);
+    } else {
+      // Text placed directly in a <div> with no paragraph markup
+      const text = cleanText(element.textContent);
+      if (text.length >= MIN_PARAGRAPH_LENGTH) {
+        blocks.push(text);
+      }
+    }
+  };
+
+  visit(root);
+  return blocks;
+};
+
+const getMetaContent = (doc: Document, selector: string): string => {
+  const meta = doc.querySelector(selector);
+  return meta ? cleanText(meta.getAttribute('content')) : '';
+};
+
+// Prefers the social-media title, which usually lacks the " | Site name" suffix of <title>
+const extractTitle = (doc: Document, url?: string): string => {
+  const heading = doc.querySelector('h1');
+  const title = getMetaContent(doc, 'meta[property="og:title"]') ||
+    cleanText(doc.title) ||
+    (heading ? cleanText(heading.textContent) : '');
+  if (title) {
+    return title;
+  }
+  try {
+    return new URL(url || '').hostname || 'Web Page';
+  } catch {
+    return 'Web Page';
+  }
+};
+
+export const extractMainContent = (html: string, url?: string): WebPageContent => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  const title = extractTitle(doc, url);
+  const language = (doc.documentElement.getAttribute('lang') || '').split('-')[0].toLowerCase();
+
+  removeBoilerplate(doc);
+  const content = collectBlocks(findContentRoot(doc)).join('\n\n');
+
+  return {
+    title,
+    content,
+    url: url || '',
+    ...(language ? { language } : {})
+  };
+};
+
+export const fetchWebPage = async (url: string): Promise<WebPageContent> => {
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_SERVER_URL}/fetch-page?url=${encodeURIComponent(url)}`);
+  } catch (error) {
+    throw new Error(`Failed to fetch web page: the proxy server at ${PROXY_SERVER_URL} is not responding; start it with npm run proxy`);
+  }
+
+  const data: FetchPageResponse = await response.json().catch(() => ({}));
+  if (!response.ok || !data.html) {
+    throw new Error(`Failed to fetch web page: ${data.error || `${response.status} ${response.statusText}`}`);
+  }
+
+  const page = extractMainContent(data.html, data.url || url);
+  if (!page.content) {
+    throw new Error('No readable text was found on the page');
+  }
+  return page;
+};
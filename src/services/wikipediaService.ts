@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { SourceSection } from '../types';
 
 interface WikipediaResponse {
   parse?: {
@@ -12,20 +13,54 @@ interface WikipediaResponse {
   };
 }
 
-interface WikipediaContent {
+export type WikipediaBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; items: string[] };
+
+export interface WikipediaSection {
+  // Anchor of the section in the article, or 'lead' for the text before the first heading
+  id: string;
+  title: string;
+  // Heading level: 2 for top-level sections, 3 and deeper for subsections
+  level: number;
+  blocks: WikipediaBlock[];
+}
+
+export interface WikipediaContent {
   title: string;
+  // The whole article as text, with markdown-style section headings
   content: string;
+  language: string;
+  sections: WikipediaSection[];
+}
+
+export interface WikipediaArticle {
+  // Subdomain of the wiki to query, e.g. 'de' or 'simple'
+  wiki: string;
+  // Language the article is written in
+  language: string;
+  title: string;
 }
 
+// Wikis whose subdomain is not the code of the language they are written in
+const WIKI_LANGUAGES: Record<string, string> = {
+  simple: 'en'
+};
+
+const NON_LANGUAGE_SUBDOMAINS = ['www', 'm', 'mobile'];
+
+export const LEAD_SECTION_ID = 'lead';
+const LEAD_SECTION_TITLE = 'Introduction';
+
 export const fetchWikipediaContent = async (url: string): Promise<WikipediaContent> => {
   try {
-    const title = extractTitleFromUrl(url);
+    const article = parseWikipediaUrl(url);
     
-    if (!title) {
+    if (!article) {
       throw new Error('Invalid Wikipedia URL');
     }
     
-    const apiUrl = `https://en.wikipedia.org/w/api.php?action=parse&page=${title}&format=json&prop=text&origin=*`;
+    const apiUrl = `https://${article.wiki}.wikipedia.org/w/api.php?action=parse&page=${encodeURIComponent(article.title)}&format=json&prop=text&origin=*`;
     
     const response = await axios.get<WikipediaResponse>(apiUrl);
     
@@ -37,12 +72,13 @@ export const fetchWikipediaContent = async (url: string): Promise<WikipediaConte
       throw new Error('Failed to parse Wikipedia content');
     }
     
-    const htmlContent = response.data.parse.text['*'];
-    const plainText = extractTextFromHtml(htmlContent);
+    const sections = extractSectionsFromHtml(response.data.parse.text['*']);
     
     return {
       title: response.data.parse.title,
-      content: plainText
+      content: sectionsToText(sections),
+      language: article.language,
+      sections
     };
   } catch (error) {
     if (axios.isAxiosError(error)) {
@@ -52,66 +88,180 @@ export const fetchWikipediaContent = async (url: string): Promise<WikipediaConte
   }
 };
 
-const extractTitleFromUrl = (url: string): string | null => {
+// Accepts desktop and mobile links to any language edition, e.g. https://de.m.wikipedia.org/wiki/Berlin
+export const parseWikipediaUrl = (url: string): WikipediaArticle | null => {
   try {
     const parsedUrl = new URL(url);
+    const hostname = parsedUrl.hostname.toLowerCase();
+    
+    if (!hostname.endsWith('wikipedia.org')) {
+      return null;
+    }
+    
+    const subdomains = hostname.split('.').slice(0, -2).filter(part => NON_LANGUAGE_SUBDOMAINS.indexOf(part) === -1);
+    const wiki = subdomains.length > 0 ? subdomains[0] : 'en';
+    
+    let title: string | null = null;
+    if (parsedUrl.pathname.indexOf('/wiki/') === 0) {
+      title = parsedUrl.pathname.substring('/wiki/'.length);
+    } else if (parsedUrl.searchParams.get('title')) {
+      title = parsedUrl.searchParams.get('title');
+    } else {
+      // Language variant paths such as /zh-hans/Title
+      const pathParts = parsedUrl.pathname.split('/');
+      title = pathParts[pathParts.length - 1];
+    }
     
-    if (!parsedUrl.hostname.includes('wikipedia.org')) {
+    if (!title) {
       return null;
     }
     
-    const pathParts = parsedUrl.pathname.split('/');
-    return pathParts[pathParts.length - 1];
+    return {
+      wiki,
+      language: WIKI_LANGUAGES[wiki] || wiki,
+      title: decodeURIComponent(title)
+    };
   } catch {
     return null;
   }
 };
 
-const extractTextFromHtml = (html: string): string => {
-  const tempDiv = document.createElement('div');
-  tempDiv.innerHTML = html;
-  
-  const contentDiv = tempDiv.querySelector('#mw-content-text');
-  if (!contentDiv) {
-    return tempDiv.textContent || '';
+const ELEMENTS_TO_REMOVE = [
+  '.mw-empty-elt',
+  '.mw-editsection',
+  '.reference',
+  '.references',
+  '.reflist',
+  '.navbox',
+  '.thumbcaption',
+  '.mbox-image',
+  '.mbox-text',
+  'table',
+  '.infobox',
+  '.sidebar',
+  '.ambox',
+  '.hatnote',
+  '.metadata',
+  '.noprint',
+  '.mw-jump-link',
+  'style',
+  'script',
+  'noscript'
+];
+
+const HEADING_SELECTOR = 'h2, h3, h4, h5, h6';
+
+const cleanText = (text: string | null): string => {
+  return (text || '')
+    .replace(/\[\d+\]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// Newer parser output wraps headings in <div class="mw-heading">, older output puts the title in <span class="mw-headline">
+const findHeading = (element: Element): Element | null => {
+  if (/^H[2-6]$/.test(element.tagName)) {
+    return element;
+  }
+  if (element.classList.contains('mw-heading')) {
+    return element.querySelector(HEADING_SELECTOR);
   }
-  
-  const elementsToRemove = [
-    '.mw-empty-elt',
-    '.mw-editsection',
-    '.reference',
-    '.references',
-    '.reflist',
-    '.navbox',
-    '.thumbcaption',
-    '.mbox-image',
-    '.mbox-text',
-    'table',
-    '.infobox',
-    '.sidebar',
-    '.ambox',
-    '.hatnote',
-    '.metadata',
-    '.noprint',
-    '.mw-jump-link',
-    '.mw-headline',
-    'style',
-    'script',
-    'noscript'
-  ];
-  
-  elementsToRemove.forEach(selector => {
-    contentDiv.querySelectorAll(selector).forEach(el => {
+  return null;
+};
+
+// Drops sections that have no text of their own and no subsections with text
+const removeEmptySections = (sections: WikipediaSection[]): WikipediaSection[] => {
+  return sections.filter((section, index) => {
+    if (section.blocks.length > 0) return true;
+    for (let i = index + 1; i < sections.length && sections[i].level > section.level; i++) {
+      if (sections[i].blocks.length > 0) return true;
+    }
+    return false;
+  });
+};
+
+export const extractSectionsFromHtml = (html: string): WikipediaSection[] => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const root = container.querySelector('.mw-parser-output') || container.querySelector('#mw-content-text') || container;
+
+  ELEMENTS_TO_REMOVE.forEach(selector => {
+    root.querySelectorAll(selector).forEach(el => {
       el.remove();
     });
   });
-  
-  let text = contentDiv.textContent || '';
-  
-  text = text
-    .replace(/\[\d+\]/g, '') 
-    .replace(/\s+/g, ' ')
-    .trim();
-  
-  return text;
+
+  const lead: WikipediaSection = { id: LEAD_SECTION_ID, title: LEAD_SECTION_TITLE, level: 2, blocks: [] };
+  const sections: WikipediaSection[] = [lead];
+  const usedIds: Record<string, boolean> = { [LEAD_SECTION_ID]: true };
+  let current = lead;
+
+  const visit = (element: Element) => {
+    const heading = findHeading(element);
+    if (heading) {
+      const headline = heading.querySelector('.mw-headline') || heading;
+      const title = cleanText(headline.textContent);
+      if (!title) return;
+
+      const anchor = headline.id || heading.id || title.replace(/ /g, '_');
+      let id = anchor;
+      for (let suffix = 2; usedIds[id]; suffix++) {
+        id = `${anchor}_${suffix}`;
+      }
+      usedIds[id] = true;
+
+      current = { id, title, level: Number(heading.tagName.charAt(1)), blocks: [] };
+      sections.push(current);
+      return;
+    }
+
+    const tag = element.tagName;
+    if (tag === 'P') {
+      const text = cleanText(element.textContent);
+      if (text) {
+        current.blocks.push({ type: 'paragraph', text });
+      }
+    } else if (tag === 'UL' || tag === 'OL' || tag === 'DL') {
+      const items = Array.from(element.children)
+        .map(item => cleanText(item.textContent))
+        .filter(item => item.length > 0);
+      if (items.length > 0) {
+        current.blocks.push({ type: 'list', items });
+      }
+    } else if (tag === 'DIV' || tag === 'SECTION' || tag === 'BLOCKQUOTE') {
+      // Mobile output and some templates wrap sections in containers
+      Array.from(element.children).forEach(visit);
+    }
+  };
+
+  Array.from(root.children).forEach(visit);
+
+  return removeEmptySections(sections);
+};
+
+const blockToText = (block: WikipediaBlock): string => {
+  return block.type === 'paragraph' ? block.text : block.items.map(item => `- ${item}`).join('\n');
+};
+
+export const sectionToText = (section: WikipediaSection): string => {
+  return section.blocks.map(blockToText).join('\n\n');
+};
+
+// Markdown-style headings keep the outline visible to the chunker and the LLM
+export const sectionsToText = (sections: WikipediaSection[]): string => {
+  return sections
+    .map(section => {
+      const heading = `${'#'.repeat(section.level)} ${section.title}`;
+      const body = sectionToText(section);
+      return body ? `${heading}\n\n${body}` : heading;
+    })
+    .join('\n\n');
+};
+
+// Sections with only subsections are skipped; their subsections carry the text
+export const toSourceSections = (sections: WikipediaSection[]): SourceSection[] => {
+  return sections
+    .filter(section => section.blocks.length > 0)
+    .map(section => ({ title: section.title, text: sectionToText(section) }));
 };
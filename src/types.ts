@@ -1,14 +1,146 @@
-export type Flashcard = {
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type ReviewState = {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  dueDate: Date;
+  lastReviewed?: Date;
+  // Grade given at the most recent review; 'again' means the card was missed last time
+  lastGrade?: ReviewGrade;
+};
+
+// One graded review in a study session, kept per deck for the statistics dashboard
+export type ReviewEvent = {
+  deckId: string;
+  cardId: string;
+  timestamp: Date;
+  grade: ReviewGrade;
+  // Time from showing the card to grading it
+  responseTimeMs: number;
+};
+
+// Where a generated card's answer comes from in the source text
+export type CardProvenance = {
+  // Supporting passage quoted by the LLM; empty if it did not give one
+  quote: string;
+  // Character range of the quote in the source text, or in the card's section when the source was
+  // split into sections. Missing when the quote could not be found, i.e. the card may be hallucinated
+  start?: number;
+  end?: number;
+};
+
+// How hard a card is to answer, as estimated by the LLM or set by the user
+export type DifficultyLevel = 'easy' | 'medium' | 'hard';
+
+type CardMetadata = {
   id: string;
+  // Lowercase topic labels without spaces, e.g. "cell-biology", so they survive CSV and Anki
+  tags?: string[];
+  difficulty?: DifficultyLevel;
+  // Title of the source section the card was generated from
+  section?: string;
+  provenance?: CardProvenance;
+  review?: ReviewState;
+  // Marked by the user to find the card again, e.g. with the "starred only" filter
+  starred?: boolean;
+};
+
+// Every card type keeps a question and an answer, so code that only needs the text can treat all
+// cards alike; `type` says how to read them. Cards without a type are plain question/answer cards.
+export type BasicCard = CardMetadata & {
+  type?: 'basic';
+  question: string;
+  answer: string;
+};
+
+export type ClozeCard = CardMetadata & {
+  type: 'cloze';
+  // Sentence with the hidden part in double curly braces, e.g. "The {{mitochondrion}} produces ATP."
+  question: string;
+  // The hidden part, repeated so the card reads like any other
+  answer: string;
+};
+
+export type MultipleChoiceCard = CardMetadata & {
+  type: 'multiple-choice';
+  question: string;
+  // The correct option
+  answer: string;
+  // The correct answer and its distractors, in display order
+  options: string[];
+};
+
+export type TrueFalseCard = CardMetadata & {
+  type: 'true-false';
+  // A statement to judge
   question: string;
+  // 'True' or 'False'
   answer: string;
+  explanation?: string;
 };
 
-export type InputType = 'text' | 'url';
+export type Flashcard = BasicCard | ClozeCard | MultipleChoiceCard | TrueFalseCard;
+
+export type CardType = NonNullable<Flashcard['type']>;
+
+type OmitFromEach<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+// The type-specific part of a card, without its id and metadata
+export type CardContent = OmitFromEach<Flashcard, keyof CardMetadata>;
+
+export type InputType = 'text' | 'url' | 'file';
 
 export type FlashcardSet = {
+  id?: string;
   title: string;
   source: string;
   cards: Flashcard[];
   createdAt: Date;
+  // The text the cards were generated from, kept so single cards can be regenerated from it later;
+  // missing for decks imported from files that do not contain it
+  sourceContent?: string | SourceSection[];
+};
+
+export type DeckSummary = {
+  id: string;
+  title: string;
+  source: string;
+  createdAt: Date;
+  cardCount: number;
+};
+
+export type ExtractionOptions = {
+  // Language the cards should be written in, as a language code such as 'de'
+  language?: string;
+  // Card types to generate a mix of; only question/answer cards when missing
+  cardTypes?: CardType[];
+  // Wording of the generation prompt; the default template when missing
+  template?: PromptTemplate;
+  // Most LLM requests the generation may make, once the user has agreed to more than the usual limit
+  maxRequests?: number;
+};
+
+// User-editable wording of the generation prompt; promptTemplateService lists the variables it can use
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  // Instructions sent as the system message, before the fixed response format
+  systemPrompt: string;
+  // Sent as the user message; must contain {{content}}
+  userPrompt: string;
+  // Who the cards are written for, filled in as {{audience}}
+  audience: string;
+  builtIn?: boolean;
+};
+
+// A titled part of the source text; cards generated from it are labelled with the title
+export type SourceSection = {
+  title: string;
+  text: string;
+};
+
+export type ExtractionProgress = {
+  completedChunks: number;
+  totalChunks: number;
 };
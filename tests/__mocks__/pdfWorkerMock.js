@@ -0,0 +1,2 @@
+// The pdf.js worker is a webpack asset in the app; tests that load PDFs mock pdf.js itself
+module.exports = 'pdf.worker.min.mjs';
@@ -0,0 +1,4 @@
+const path = require('path');
+
+// Node builds of sql.js load their WebAssembly binary from disk, so tests get its file path
+module.exports = path.join(__dirname, '../../node_modules/sql.js/dist/sql-wasm.wasm');
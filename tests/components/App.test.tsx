@@ -1,30 +1,229 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
 import App from '../../src/App';
+import { saveDeck } from '../../src/services/deckLibraryService';
+
+type MockInputFormProps = {
+  setFlashcardSet: (set: any, critiques?: any[]) => void;
+  setPartialFlashcardSet: (set: any) => void;
+  setLoading: (loading: boolean, deckId?: string) => void;
+};
+
+// The real form keeps generating after it unmounts, so tests can keep calling the last callbacks it got
+let mockInputFormProps: MockInputFormProps;
 
 jest.mock('../../src/components/InputForm', () => ({
   __esModule: true,
-  default: () => <div data-testid="mock-input-form">Mock Input Form</div>
+  default: (props: MockInputFormProps) => {
+    mockInputFormProps = props;
+    const { setFlashcardSet, setPartialFlashcardSet, setLoading } = props;
+    return (
+      <div data-testid="mock-input-form">
+        <button
+          onClick={() => setFlashcardSet({ title: 'New Deck', source: 'Custom text', cards: [], createdAt: new Date() })}
+        >
+          Mock Generate
+        </button>
+        <button
+          onClick={() => setFlashcardSet(
+            { title: 'Reviewed Deck', source: 'Custom text', cards: [{ id: '1', question: 'Q?', answer: 'A long answer' }], createdAt: new Date() },
+            [{ cardId: '1', score: 2, issues: ['answer-too-long'], revision: { question: 'Q?', answer: 'A' } }]
+          )}
+        >
+          Mock Generate With Review
+        </button>
+        <button
+          onClick={() => {
+            setLoading(true, 'streaming-deck');
+            setPartialFlashcardSet({ id: 'streaming-deck', title: 'Streaming Deck', source: 'Custom text', cards: [], createdAt: new Date() });
+          }}
+        >
+          Mock Stream
+        </button>
+      </div>
+    );
+  }
 }));
 
 jest.mock('../../src/components/FlashcardViewer', () => ({
   __esModule: true,
-  default: () => <div data-testid="mock-flashcard-viewer">Mock Flashcard Viewer</div>
+  default: ({ isGenerating }: { isGenerating: boolean }) => (
+    <div data-testid="mock-flashcard-viewer">{isGenerating ? 'Viewer generating' : 'Mock Flashcard Viewer'}</div>
+  )
+}));
+
+jest.mock('../../src/components/DeckLibrary', () => ({
+  __esModule: true,
+  default: ({ onCreateNew, onOpenDeck }: { onCreateNew: () => void; onOpenDeck: (deck: any) => void }) => (
+    <div data-testid="mock-deck-library">
+      <button onClick={onCreateNew}>Mock Create</button>
+      <button onClick={() => onOpenDeck({ id: 'saved-deck', title: 'Saved Deck', source: 'Custom text', cards: [], createdAt: new Date() })}>
+        Mock Open
+      </button>
+    </div>
+  )
+}));
+
+jest.mock('../../src/services/deckLibraryService', () => ({
+  saveDeck: jest.fn().mockImplementation(deck => Promise.resolve(deck))
 }));
 
 describe('App Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
   test('renders header with title', () => {
     render(<App />);
     expect(screen.getByText('Flashcard Extractor')).toBeInTheDocument();
-    expect(screen.getByText('Extract flashcards from Wikipedia articles or text')).toBeInTheDocument();
+    expect(screen.getByText('Extract flashcards from Wikipedia articles, web pages or text')).toBeInTheDocument();
   });
 
-  test('renders InputForm when no flashcards are present', () => {
+  test('renders the deck library as the landing view', () => {
     render(<App />);
-    expect(screen.getByTestId('mock-input-form')).toBeInTheDocument();
+    expect(screen.getByTestId('mock-deck-library')).toBeInTheDocument();
+    expect(screen.queryByTestId('mock-input-form')).not.toBeInTheDocument();
     expect(screen.queryByTestId('mock-flashcard-viewer')).not.toBeInTheDocument();
   });
 
+  test('renders InputForm when creating new flashcards', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+
+    expect(screen.getByTestId('mock-input-form')).toBeInTheDocument();
+    expect(screen.queryByTestId('mock-deck-library')).not.toBeInTheDocument();
+  });
+
+  test('saves newly created sets to the library and shows them', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Generate' }));
+
+    expect(screen.getByTestId('mock-flashcard-viewer')).toBeInTheDocument();
+    expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({
+      id: expect.any(String),
+      title: 'New Deck'
+    }));
+  });
+
+  test('shows streamed cards while generating without saving yet', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Stream' }));
+
+    expect(screen.getByText('Viewer generating')).toBeInTheDocument();
+    expect(screen.getByText('Generating flashcards...')).toBeInTheDocument();
+    expect(saveDeck).not.toHaveBeenCalled();
+  });
+
+  test('finishes generation in the background when the user leaves the deck', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Stream' }));
+    const { setFlashcardSet, setPartialFlashcardSet, setLoading } = mockInputFormProps;
+
+    fireEvent.click(screen.getByRole('button', { name: '← My Decks' }));
+    act(() => {
+      setPartialFlashcardSet({ id: 'streaming-deck', title: 'Streaming Deck', source: 'Custom text', cards: [], createdAt: new Date() });
+    });
+    expect(screen.getByTestId('mock-deck-library')).toBeInTheDocument();
+
+    act(() => {
+      setFlashcardSet({ id: 'streaming-deck', title: 'Streaming Deck', source: 'Custom text', cards: [], createdAt: new Date() });
+      setLoading(false, 'streaming-deck');
+    });
+
+    expect(screen.getByTestId('mock-deck-library')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({ id: 'streaming-deck', title: 'Streaming Deck' }));
+    });
+  });
+
+  test('keeps overlapping generations apart', async () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Stream' }));
+    const first = mockInputFormProps;
+
+    // A second generation is started from a new form while the first carries on in the background
+    fireEvent.click(screen.getByRole('button', { name: '← My Decks' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    const second = mockInputFormProps;
+    act(() => {
+      second.setLoading(true, 'second-deck');
+      second.setPartialFlashcardSet({ id: 'second-deck', title: 'Second Deck', source: 'Custom text', cards: [], createdAt: new Date() });
+    });
+
+    act(() => {
+      first.setFlashcardSet({ id: 'streaming-deck', title: 'Streaming Deck', source: 'Custom text', cards: [], createdAt: new Date() });
+      first.setLoading(false, 'streaming-deck');
+    });
+
+    await waitFor(() => {
+      expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({ id: 'streaming-deck', title: 'Streaming Deck' }));
+    });
+    expect(saveDeck).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'second-deck' }));
+    expect(screen.getByText('Viewer generating')).toBeInTheDocument();
+    expect(screen.getByText('Generating flashcards...')).toBeInTheDocument();
+
+    act(() => {
+      second.setFlashcardSet({ id: 'second-deck', title: 'Second Deck', source: 'Custom text', cards: [], createdAt: new Date() });
+      second.setLoading(false, 'second-deck');
+    });
+
+    expect(screen.getByText('Mock Flashcard Viewer')).toBeInTheDocument();
+    expect(screen.queryByText('Generating flashcards...')).not.toBeInTheDocument();
+    expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({ id: 'second-deck', title: 'Second Deck' }));
+  });
+
+  test('keeps saving decks opened from the library while another generates', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Stream' }));
+    fireEvent.click(screen.getByRole('button', { name: '← My Decks' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Open' }));
+
+    expect(screen.getByText('Mock Flashcard Viewer')).toBeInTheDocument();
+    expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({ id: 'saved-deck' }));
+  });
+
+  test('saves a reviewed deck only after the rewrites are decided', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Generate With Review' }));
+
+    expect(screen.getByText('Review suggested rewrites')).toBeInTheDocument();
+    expect(saveDeck).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Accept' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Deck (1 of 1 rewrites accepted)' }));
+
+    expect(screen.getByTestId('mock-flashcard-viewer')).toBeInTheDocument();
+    expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Reviewed Deck',
+      cards: [{ id: '1', question: 'Q?', answer: 'A' }]
+    }));
+  });
+
+  test('keeps the generated deck when leaving the review', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Generate With Review' }));
+    fireEvent.click(screen.getByRole('button', { name: '← My Decks' }));
+
+    expect(saveDeck).toHaveBeenCalledWith(expect.objectContaining({
+      cards: [{ id: '1', question: 'Q?', answer: 'A long answer' }]
+    }));
+  });
+
+  test('returns to the library from other views', () => {
+    render(<App />);
+    fireEvent.click(screen.getByRole('button', { name: 'Mock Create' }));
+    fireEvent.click(screen.getByRole('button', { name: '← My Decks' }));
+
+    expect(screen.getByTestId('mock-deck-library')).toBeInTheDocument();
+  });
+
   test('renders footer with current year', () => {
     render(<App />);
     const currentYear = new Date().getFullYear().toString();
@@ -0,0 +1,68 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import CardQualityReview from '../../src/components/CardQualityReview';
+import { CardCritique } from '../../src/services/cardQualityService';
+import { Flashcard } from '../../src/types';
+
+describe('CardQualityReview Component', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'What does the heart pump?', answer: 'The heart pumps blood through the body' },
+    { id: '2', question: 'Which planet is the largest?', answer: 'Jupiter' },
+    { id: '3', question: 'What is the capital and largest city of France?', answer: 'Paris' }
+  ];
+  const critiques: CardCritique[] = [
+    { cardId: '1', score: 2, issues: ['answer-too-long'], revision: { question: 'What does the heart pump?', answer: 'Blood' } },
+    { cardId: '2', score: 5, issues: [] },
+    { cardId: '3', score: 3, issues: ['not-atomic'], revision: { question: 'What is the capital of France?', answer: 'Paris' } }
+  ];
+  const mockOnFinish = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('shows the suggested rewrites as a diff with their issues', () => {
+    const { container } = render(<CardQualityReview cards={cards} critiques={critiques} onFinish={mockOnFinish} />);
+
+    expect(screen.getByText('The critic suggests rewriting 2 of 3 cards. Cards whose rewrite you do not accept keep their original wording.')).toBeInTheDocument();
+    expect(screen.getByText('Card 1 · Score 2/5')).toBeInTheDocument();
+    expect(screen.getByText('Answer too long')).toBeInTheDocument();
+    expect(screen.getByText('Asks more than one thing')).toBeInTheDocument();
+    expect(container.querySelector('del')).toHaveTextContent('The heart pumps blood through the body');
+    expect(container.querySelector('ins')).toHaveTextContent('Blood');
+  });
+
+  test('applies only the accepted rewrites', () => {
+    render(<CardQualityReview cards={cards} critiques={critiques} onFinish={mockOnFinish} />);
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Accept' })[1]);
+    fireEvent.click(screen.getAllByRole('button', { name: 'Reject' })[0]);
+    expect(screen.getAllByRole('button', { name: 'Accept' })[1]).toHaveAttribute('aria-pressed', 'true');
+    fireEvent.click(screen.getByRole('button', { name: 'Save Deck (1 of 2 rewrites accepted)' }));
+
+    expect(mockOnFinish).toHaveBeenCalledWith([
+      cards[0],
+      cards[1],
+      { id: '3', question: 'What is the capital of France?', answer: 'Paris' }
+    ]);
+  });
+
+  test('accepts or rejects every rewrite at once', () => {
+    render(<CardQualityReview cards={cards} critiques={critiques} onFinish={mockOnFinish} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Accept All' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Deck (2 of 2 rewrites accepted)' }));
+    expect(mockOnFinish.mock.calls[0][0].map((card: Flashcard) => card.answer)).toEqual(['Blood', 'Jupiter', 'Paris']);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Reject All' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Save Deck (0 of 2 rewrites accepted)' }));
+    expect(mockOnFinish).toHaveBeenLastCalledWith(cards);
+  });
+
+  test('has no detectable accessibility violations', async () => {
+    const { container } = render(<CardQualityReview cards={cards} critiques={critiques} onFinish={mockOnFinish} />);
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
@@ -0,0 +1,48 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import CardTagEditor from '../../src/components/CardTagEditor';
+import { Flashcard } from '../../src/types';
+
+describe('CardTagEditor Component', () => {
+  const card: Flashcard = { id: '1', question: 'Q', answer: 'A', tags: ['physics'], difficulty: 'medium' };
+  const onAddTag = jest.fn();
+  const onRemoveTag = jest.fn();
+  const onDifficultyChange = jest.fn();
+
+  const renderEditor = () => render(
+    <CardTagEditor card={card} onAddTag={onAddTag} onRemoveTag={onRemoveTag} onDifficultyChange={onDifficultyChange} />
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('shows the tags and difficulty of the card', () => {
+    renderEditor();
+
+    expect(screen.getByRole('list', { name: 'Tags' })).toHaveTextContent('physics');
+    expect(screen.getByLabelText('Difficulty')).toHaveValue('medium');
+  });
+
+  test('adds a tag on submit and clears the field', () => {
+    renderEditor();
+    const input = screen.getByLabelText('New tag');
+
+    expect(screen.getByRole('button', { name: 'Add Tag' })).toBeDisabled();
+    fireEvent.change(input, { target: { value: 'Exam' } });
+    fireEvent.submit(input);
+
+    expect(onAddTag).toHaveBeenCalledWith('Exam');
+    expect(input).toHaveValue('');
+  });
+
+  test('removes tags and clears the difficulty', () => {
+    renderEditor();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove tag physics' }));
+    fireEvent.change(screen.getByLabelText('Difficulty'), { target: { value: '' } });
+
+    expect(onRemoveTag).toHaveBeenCalledWith('physics');
+    expect(onDifficultyChange).toHaveBeenCalledWith(undefined);
+  });
+});
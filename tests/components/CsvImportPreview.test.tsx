@@ -0,0 +1,97 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import CsvImportPreview from '../../src/components/CsvImportPreview';
+
+describe('CsvImportPreview Component', () => {
+  const mockOnImport = jest.fn();
+  const mockOnCancel = jest.fn();
+
+  const records = [
+    ['Term', 'Definition', 'Tags'],
+    ['Mitochondria', 'Powerhouse of the cell', 'biology cells'],
+    ['Osmosis', '', 'biology'],
+    ['Photosynthesis', 'Light to chemical energy', '']
+  ];
+
+  const renderPreview = (previewRecords = records) => render(
+    <CsvImportPreview
+      fileName="biology.csv"
+      records={previewRecords}
+      onImport={mockOnImport}
+      onCancel={mockOnCancel}
+    />
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('guesses the column mapping from the header row', () => {
+    renderPreview();
+
+    expect(screen.getByText('Import preview: biology.csv')).toBeInTheDocument();
+    expect(screen.getByLabelText('Question column')).toHaveValue('0');
+    expect(screen.getByLabelText('Answer column')).toHaveValue('1');
+    expect(screen.getByLabelText('Tags column')).toHaveValue('2');
+    expect(screen.getByText('Mitochondria')).toBeInTheDocument();
+  });
+
+  test('lists rows that will be skipped and imports the rest', () => {
+    renderPreview();
+
+    expect(screen.getByText('1 row will be skipped:')).toBeInTheDocument();
+    expect(screen.getByText('Row 3: missing answer')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Import 2 cards' }));
+
+    expect(mockOnImport).toHaveBeenCalledWith([
+      { id: expect.any(String), question: 'Mitochondria', answer: 'Powerhouse of the cell', tags: ['biology', 'cells'] },
+      { id: expect.any(String), question: 'Photosynthesis', answer: 'Light to chemical energy' }
+    ]);
+  });
+
+  test('lets the user remap columns', () => {
+    renderPreview();
+
+    fireEvent.change(screen.getByLabelText('Question column'), { target: { value: '1' } });
+    fireEvent.change(screen.getByLabelText('Answer column'), { target: { value: '0' } });
+    fireEvent.change(screen.getByLabelText('Tags column'), { target: { value: '-1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Import 2 cards' }));
+
+    expect(mockOnImport.mock.calls[0][0][0]).toEqual({
+      id: expect.any(String),
+      question: 'Powerhouse of the cell',
+      answer: 'Mitochondria'
+    });
+  });
+
+  test('requires different question and answer columns', () => {
+    renderPreview();
+
+    fireEvent.change(screen.getByLabelText('Answer column'), { target: { value: '0' } });
+
+    expect(screen.getByText('Question and answer must come from different columns')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import 0 cards' })).toBeDisabled();
+  });
+
+  test('treats the first row as data when it has no column names', () => {
+    renderPreview([['What is 2+2?', '4'], ['Capital of Peru?', 'Lima']]);
+
+    fireEvent.click(screen.getByLabelText('First row contains column names'));
+    fireEvent.change(screen.getByLabelText('Question column'), { target: { value: '0' } });
+    fireEvent.change(screen.getByLabelText('Answer column'), { target: { value: '1' } });
+
+    expect(screen.getByRole('columnheader', { name: 'Column 1' })).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Import 2 cards' }));
+    expect(mockOnImport.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  test('cancels the import', () => {
+    renderPreview();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(mockOnCancel).toHaveBeenCalled();
+    expect(mockOnImport).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import DeckLibrary from '../../src/components/DeckLibrary';
+import {
+  listDecks,
+  getDeck,
+  renameDeck,
+  duplicateDeck,
+  deleteDeck,
+  mergeDecks,
+  splitDeck
+} from '../../src/services/deckLibraryService';
+
+jest.mock('../../src/services/deckLibraryService', () => ({
+  listDecks: jest.fn(),
+  getDeck: jest.fn(),
+  renameDeck: jest.fn(),
+  duplicateDeck: jest.fn(),
+  deleteDeck: jest.fn(),
+  mergeDecks: jest.fn(),
+  splitDeck: jest.fn()
+}));
+
+const mockListDecks = listDecks as jest.MockedFunction<typeof listDecks>;
+const mockGetDeck = getDeck as jest.MockedFunction<typeof getDeck>;
+
+describe('DeckLibrary Component', () => {
+  const mockOnOpenDeck = jest.fn();
+  const mockOnCreateNew = jest.fn();
+  const mockSetError = jest.fn();
+
+  const summaries = [
+    { id: 'deck-1', title: 'Biology', source: 'https://en.wikipedia.org/wiki/Biology', createdAt: new Date('2024-01-01'), cardCount: 12 },
+    { id: 'deck-2', title: 'Chemistry', source: 'CSV Import', createdAt: new Date('2024-01-02'), cardCount: 5 }
+  ];
+
+  const renderLibrary = () => render(
+    <DeckLibrary
+      onOpenDeck={mockOnOpenDeck}
+      onCreateNew={mockOnCreateNew}
+      setError={mockSetError}
+    />
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockListDecks.mockResolvedValue(summaries);
+  });
+
+  test('lists saved decks with card counts and sources', async () => {
+    renderLibrary();
+
+    expect(await screen.findByText('Biology')).toBeInTheDocument();
+    expect(screen.getByText('Chemistry')).toBeInTheDocument();
+    expect(screen.getByText(/12 cards · https:\/\/en.wikipedia.org\/wiki\/Biology/)).toBeInTheDocument();
+    expect(screen.getByText(/5 cards · CSV Import/)).toBeInTheDocument();
+  });
+
+  test('shows an empty state when there are no decks', async () => {
+    mockListDecks.mockResolvedValue([]);
+    renderLibrary();
+
+    expect(await screen.findByText('No saved decks yet')).toBeInTheDocument();
+  });
+
+  test('calls onCreateNew from the create button', async () => {
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Create New Flashcards' }));
+    expect(mockOnCreateNew).toHaveBeenCalled();
+  });
+
+  test('opens a deck with its full contents', async () => {
+    const deck = { id: 'deck-1', title: 'Biology', source: 'Test', cards: [], createdAt: new Date() };
+    mockGetDeck.mockResolvedValue(deck);
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Open' })[0]);
+
+    await waitFor(() => {
+      expect(mockGetDeck).toHaveBeenCalledWith('deck-1');
+      expect(mockOnOpenDeck).toHaveBeenCalledWith(deck);
+    });
+  });
+
+  test('renames a deck', async () => {
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Rename' })[0]);
+    fireEvent.change(screen.getByLabelText('Deck title'), { target: { value: 'Cell Biology' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(renameDeck).toHaveBeenCalledWith('deck-1', 'Cell Biology');
+      expect(mockListDecks).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  test('duplicates a deck', async () => {
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Duplicate' })[1]);
+
+    await waitFor(() => {
+      expect(duplicateDeck).toHaveBeenCalledWith('deck-2');
+    });
+  });
+
+  test('asks for confirmation before deleting a deck', async () => {
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Delete' })[0]);
+    expect(deleteDeck).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Confirm Delete' }));
+
+    await waitFor(() => {
+      expect(deleteDeck).toHaveBeenCalledWith('deck-1');
+    });
+  });
+
+  test('merges the selected decks', async () => {
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getByLabelText('Select Chemistry'));
+    expect(screen.queryByRole('button', { name: /Merge Selected/ })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Select Biology'));
+    fireEvent.click(screen.getByRole('button', { name: 'Merge Selected (2)' }));
+
+    await waitFor(() => {
+      expect(mergeDecks).toHaveBeenCalledWith(['deck-1', 'deck-2']);
+      expect(mockListDecks).toHaveBeenCalledTimes(2);
+    });
+    expect(screen.getByLabelText('Select Biology')).not.toBeChecked();
+  });
+
+  test('splits a deck by the chosen criterion', async () => {
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Split' })[0]);
+    fireEvent.click(screen.getByRole('button', { name: 'By Tag' }));
+
+    await waitFor(() => {
+      expect(splitDeck).toHaveBeenCalledWith('deck-1', 'tag');
+    });
+    expect(screen.queryByRole('button', { name: 'By Section' })).not.toBeInTheDocument();
+  });
+
+  test('reports decks that cannot be split', async () => {
+    (splitDeck as jest.Mock).mockRejectedValue(new Error('No card has a section to split by'));
+    renderLibrary();
+    await screen.findByText('Biology');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Split' })[1]);
+    fireEvent.click(screen.getByRole('button', { name: 'By Section' }));
+
+    await waitFor(() => {
+      expect(mockSetError).toHaveBeenCalledWith('Error: No card has a section to split by');
+    });
+  });
+
+  test('reports errors from the library', async () => {
+    mockListDecks.mockRejectedValue(new Error('IndexedDB is not available in this browser'));
+    renderLibrary();
+
+    await waitFor(() => {
+      expect(mockSetError).toHaveBeenCalledWith('Error loading deck library: IndexedDB is not available in this browser');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import DuplicateReview from '../../src/components/DuplicateReview';
+import { findDuplicateGroupsWithLLM } from '../../src/services/duplicateService';
+import { Flashcard } from '../../src/types';
+
+jest.mock('../../src/services/duplicateService', () => ({
+  ...jest.requireActual('../../src/services/duplicateService'),
+  findDuplicateGroupsWithLLM: jest.fn()
+}));
+
+describe('DuplicateReview Component', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'What is the capital of France?', answer: 'Paris' },
+    { id: '2', question: 'What is the largest planet?', answer: 'Jupiter' },
+    { id: '3', question: 'What is the capital city of France?', answer: 'Paris, France' },
+    { id: '4', question: 'Name the French capital.', answer: 'Paris' }
+  ];
+  const mockOnCardsChange = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  test('lists groups of likely duplicates with the first card selected', () => {
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    expect(screen.getByText('1 group of likely duplicates')).toBeInTheDocument();
+    const group = screen.getByRole('region', { name: 'Duplicate group 1' });
+    expect(within(group).getAllByRole('radio')).toHaveLength(2);
+    expect(within(group).getByRole('radio', { name: /What is the capital of France\?/ })).toBeChecked();
+  });
+
+  test('keeps the selected card and removes the others', () => {
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    fireEvent.click(screen.getByRole('radio', { name: /What is the capital city of France\?/ }));
+    fireEvent.click(screen.getByRole('button', { name: 'Keep Selected' }));
+
+    expect(mockOnCardsChange.mock.calls[0][0].map((card: Flashcard) => card.id)).toEqual(['2', '3', '4']);
+    expect(screen.getByText('No likely duplicates found')).toBeInTheDocument();
+  });
+
+  test('merges answers into the selected card', () => {
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Merge Answers' }));
+
+    const updated = mockOnCardsChange.mock.calls[0][0] as Flashcard[];
+    expect(updated).toHaveLength(3);
+    expect(updated[0].answer).toBe('Paris\nParis, France');
+  });
+
+  test('keeps all cards of a group the user considers different', () => {
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Keep All' }));
+
+    expect(mockOnCardsChange).not.toHaveBeenCalled();
+    expect(screen.getByText('No likely duplicates found')).toBeInTheDocument();
+  });
+
+  test('disables merging answers for other card types', () => {
+    const choices: Flashcard[] = [
+      { id: '5', type: 'multiple-choice', question: 'Largest planet?', answer: 'Jupiter', options: ['Mars', 'Jupiter'] },
+      { id: '6', type: 'multiple-choice', question: 'Largest planet?', answer: 'Jupiter', options: ['Venus', 'Jupiter'] }
+    ];
+    render(<DuplicateReview cards={choices} onCardsChange={mockOnCardsChange} />);
+
+    expect(screen.getByRole('button', { name: 'Merge Answers' })).toBeDisabled();
+  });
+
+  test('shows paraphrases confirmed by the LLM', async () => {
+    (findDuplicateGroupsWithLLM as jest.Mock).mockResolvedValue([
+      { cardIds: ['1', '3', '4'], similarity: 1, detectedBy: 'llm' }
+    ]);
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Also Check Paraphrases with the LLM' }));
+
+    expect(await screen.findByText('Confirmed by the LLM')).toBeInTheDocument();
+    expect(screen.getAllByRole('radio')).toHaveLength(3);
+    expect(findDuplicateGroupsWithLLM).toHaveBeenCalledWith(cards, undefined, false);
+    expect(screen.getByRole('button', { name: 'Also Check Paraphrases with the LLM' })).toBeDisabled();
+  });
+
+  test('checks paraphrases through the mock server when Fast Mock Mode is on', async () => {
+    localStorage.setItem('use_mock_mode', 'true');
+    (findDuplicateGroupsWithLLM as jest.Mock).mockResolvedValue([]);
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Also Check Paraphrases with the LLM' }));
+
+    await waitFor(() => {
+      expect(findDuplicateGroupsWithLLM).toHaveBeenCalledWith(cards, undefined, true);
+    });
+  });
+
+  test('reports LLM failures and keeps the text matches', async () => {
+    (findDuplicateGroupsWithLLM as jest.Mock).mockRejectedValue(new Error('Failed to check duplicates: offline'));
+    render(<DuplicateReview cards={cards} onCardsChange={mockOnCardsChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Also Check Paraphrases with the LLM' }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to check duplicates: offline')).toBeInTheDocument();
+    });
+    expect(screen.getByText('1 group of likely duplicates')).toBeInTheDocument();
+  });
+});
@@ -1,7 +1,26 @@
 import React from 'react';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { axe } from 'jest-axe';
 import FlashcardViewer from '../../src/components/FlashcardViewer';
 import { FlashcardSet } from '../../src/types';
+import { exportToApkg } from '../../src/services/ankiService';
+import { recordReviewEvent, getReviewEvents } from '../../src/services/reviewHistoryService';
+import { refineFlashcard } from '../../src/services/llmService';
+
+jest.mock('../../src/services/ankiService', () => ({
+  exportToApkg: jest.fn()
+}));
+
+jest.mock('../../src/services/llmService', () => ({
+  refineFlashcard: jest.fn()
+}));
+
+jest.mock('../../src/services/reviewHistoryService', () => ({
+  recordReviewEvent: jest.fn().mockResolvedValue(undefined),
+  getReviewEvents: jest.fn().mockResolvedValue([])
+}));
+
+const mockExportToApkg = exportToApkg as jest.MockedFunction<typeof exportToApkg>;
 
 // Mock URL.createObjectURL
 URL.createObjectURL = jest.fn(() => 'mock-blob-url');
@@ -32,6 +51,7 @@ describe('FlashcardViewer Component', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    localStorage.clear();
   });
 
 
@@ -165,7 +185,8 @@ describe('FlashcardViewer Component', () => {
     // Verify Blob was created with correct CSV content
     expect(global.Blob).toHaveBeenCalledWith(
       [
-        '"Question","Answer"\n"Question 1","Answer 1"\n"Question 2","Answer 2"\n"Question 3","Answer 3"'
+        '"Question","Answer","Type","Options","Explanation","Tags","Difficulty"\n' +
+        '"Question 1","Answer 1","basic","","","",""\n"Question 2","Answer 2","basic","","","",""\n"Question 3","Answer 3","basic","","","",""'
       ],
       { type: 'text/csv;charset=utf-8;' }
     );
@@ -231,6 +252,36 @@ describe('FlashcardViewer Component', () => {
     global.Blob = originalBlob;
   });
   
+  test('exports flashcards as an Anki package when the Anki button is clicked', async () => {
+    const packageData = new Uint8Array([80, 75, 3, 4]);
+    mockExportToApkg.mockResolvedValueOnce(packageData);
+    const originalBlob = global.Blob;
+    global.Blob = jest.fn().mockImplementation((content, options) => ({
+      content,
+      options,
+    }));
+
+    render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Export as Anki (.apkg)' }));
+
+    await waitFor(() => {
+      expect(global.Blob).toHaveBeenCalledWith([packageData], { type: 'application/octet-stream' });
+    });
+    expect(mockExportToApkg).toHaveBeenCalledWith(mockFlashcardSet);
+    expect(URL.createObjectURL).toHaveBeenCalled();
+
+    global.Blob = originalBlob;
+  });
+
+  test('shows an error when the Anki export fails', async () => {
+    mockExportToApkg.mockRejectedValueOnce(new Error('WebAssembly failed to load'));
+
+    render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Export as Anki (.apkg)' }));
+
+    expect(await screen.findByText('Error exporting Anki package: WebAssembly failed to load')).toBeInTheDocument();
+  });
+
   test('handles special characters in CSV export', () => {
     // Create a flashcard set with special characters that need escaping in CSV
     const specialCharFlashcardSet: FlashcardSet = {
@@ -258,7 +309,8 @@ describe('FlashcardViewer Component', () => {
     // Verify Blob was created with properly escaped content
     expect(global.Blob).toHaveBeenCalledWith(
       [
-        '"Question","Answer"\n"Question with ""quotes""","Answer with, comma"\n"Line\nbreak","Tab\tcharacter"'
+        '"Question","Answer","Type","Options","Explanation","Tags","Difficulty"\n' +
+        '"Question with ""quotes""","Answer with, comma","basic","","","",""\n"Line\nbreak","Tab\tcharacter","basic","","","",""'
       ],
       { type: 'text/csv;charset=utf-8;' }
     );
@@ -326,4 +378,562 @@ describe('FlashcardViewer Component', () => {
     expect(screen.getByText('0 / 0')).toBeInTheDocument();
     expect(screen.queryByText('No flashcards available')).toBeInTheDocument();
   });
+
+  test('shows the supporting quote and flags cards whose quote was not found', () => {
+    const setWithProvenance: FlashcardSet = {
+      ...mockFlashcardSet,
+      cards: [
+        { id: '1', question: 'Question 1', answer: 'Answer 1', provenance: { quote: 'Found quote', start: 0, end: 11 } },
+        { id: '2', question: 'Question 2', answer: 'Answer 2', provenance: { quote: 'Invented quote' } },
+        { id: '3', question: 'Question 3', answer: 'Answer 3' }
+      ]
+    };
+    render(<FlashcardViewer flashcardSet={setWithProvenance} onReset={mockOnReset} />);
+
+    expect(screen.getByText('⚠️ 1 card is not backed by a quote from the source')).toBeInTheDocument();
+    expect(screen.getByText('“Found quote”')).toBeInTheDocument();
+    expect(screen.queryByText(/may be hallucinated/)).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByText('“Invented quote”')).toBeInTheDocument();
+    expect(screen.getByText(/may be hallucinated/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+    expect(screen.getAllByText('⚠️ Unverified')).toHaveLength(1);
+  });
+
+  test('renders cloze, multiple choice and true/false cards by type', () => {
+    const typedSet: FlashcardSet = {
+      ...mockFlashcardSet,
+      cards: [
+        { id: '1', type: 'cloze', question: 'The {{Danube}} flows through Vienna.', answer: 'Danube' },
+        { id: '2', type: 'multiple-choice', question: 'Capital of Austria?', answer: 'Vienna', options: ['Graz', 'Vienna', 'Linz'] },
+        { id: '3', type: 'true-false', question: 'Vienna is in Germany.', answer: 'False', explanation: 'It is in Austria.' }
+      ]
+    };
+    render(<FlashcardViewer flashcardSet={typedSet} onReset={mockOnReset} />);
+
+    expect(screen.getByText('Cloze deletion')).toBeInTheDocument();
+    expect(screen.getByLabelText('blank')).toHaveTextContent('_____');
+    expect(screen.getByText('Danube')).toHaveClass('cloze-answer');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByText('Capital of Austria?')).toBeInTheDocument();
+    expect(screen.getAllByText('A. Graz')).toHaveLength(2);
+    expect(screen.getByText('B. Vienna ✓')).toHaveClass('correct-option');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+    expect(screen.getByText('True / false')).toBeInTheDocument();
+    expect(screen.getByText('It is in Austria.')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+    expect(screen.getByText('The _____ flows through Vienna.')).toBeInTheDocument();
+    expect(screen.getByText('True or false: Vienna is in Germany.')).toBeInTheDocument();
+    expect(screen.getByText('False. It is in Austria.')).toBeInTheDocument();
+  });
+
+  test('quiz mode asks for typed answers and hides editing controls', () => {
+    render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} onCardsChange={jest.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Quiz' }));
+
+    expect(screen.getByText('Question 1 of 3')).toBeInTheDocument();
+    expect(screen.getByLabelText('Your answer')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: '+ Add Card' })).not.toBeInTheDocument();
+  });
+
+  test('study mode grades due cards and reports updated review state', () => {
+    const mockOnCardsChange = jest.fn();
+    render(
+      <FlashcardViewer
+        flashcardSet={mockFlashcardSet}
+        onReset={mockOnReset}
+        onCardsChange={mockOnCardsChange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Study' }));
+    expect(screen.getByText('3 cards due')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show Answer' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Good' }));
+
+    expect(screen.getByText('2 cards due')).toBeInTheDocument();
+    const updatedCards = mockOnCardsChange.mock.calls[0][0];
+    expect(updatedCards[0].review).toEqual(expect.objectContaining({ repetitions: 1, interval: 1 }));
+    expect(updatedCards[1].review).toBeUndefined();
+    expect(recordReviewEvent).not.toHaveBeenCalled();
+  });
+
+  test('records reviews of saved decks and shows their statistics', async () => {
+    render(<FlashcardViewer flashcardSet={{ ...mockFlashcardSet, id: 'deck-1' }} onReset={mockOnReset} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Study' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Show Answer' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Again' }));
+
+    expect(recordReviewEvent).toHaveBeenCalledWith({
+      deckId: 'deck-1',
+      cardId: '1',
+      timestamp: expect.any(Date),
+      grade: 'again',
+      responseTimeMs: expect.any(Number)
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stats' }));
+    expect(await screen.findByText('Retention')).toBeInTheDocument();
+    expect(getReviewEvents).toHaveBeenCalledWith('deck-1');
+  });
+
+  test('reviews duplicate cards and reports the cleaned-up deck', () => {
+    const mockOnCardsChange = jest.fn();
+    const cards = [
+      ...mockFlashcardSet.cards,
+      { id: '4', question: 'Question 1?', answer: 'Answer 1' }
+    ];
+    render(
+      <FlashcardViewer
+        flashcardSet={{ ...mockFlashcardSet, cards }}
+        onReset={mockOnReset}
+        onCardsChange={mockOnCardsChange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Duplicates' }));
+    expect(screen.getByText('1 group of likely duplicates')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: '+ Add Card' })).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Keep Selected' }));
+
+    expect(mockOnCardsChange.mock.calls[0][0].map((card: { id: string }) => card.id)).toEqual(['1', '2', '3']);
+    expect(screen.getByText('3 flashcards generated')).toBeInTheDocument();
+  });
+
+  test('disables the duplicate review while cards are generated', () => {
+    render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} isGenerating />);
+
+    expect(screen.getByRole('button', { name: 'Duplicates' })).toBeDisabled();
+  });
+
+  describe('refining cards with the LLM', () => {
+    const refinedCards = [
+      { id: 'split-1', question: 'Split question 1', answer: 'Split answer 1' },
+      { id: 'split-2', question: 'Split question 2', answer: 'Split answer 2' }
+    ];
+
+    const renderRefinable = () => {
+      const onCardsChange = jest.fn();
+      render(
+        <FlashcardViewer
+          flashcardSet={{ ...mockFlashcardSet, sourceContent: 'Source text' }}
+          onReset={mockOnReset}
+          onCardsChange={onCardsChange}
+        />
+      );
+      return onCardsChange;
+    };
+
+    const lastIds = (onCardsChange: jest.Mock) => onCardsChange.mock.calls[onCardsChange.mock.calls.length - 1][0]
+      .map((card: { id: string }) => card.id);
+
+    test('splits the current card and undoes the split', async () => {
+      (refineFlashcard as jest.Mock).mockResolvedValue(refinedCards);
+      const onCardsChange = renderRefinable();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Split' }));
+
+      expect(await screen.findByText('Split the card into 2 cards.')).toBeInTheDocument();
+      expect(refineFlashcard).toHaveBeenCalledWith(mockFlashcardSet.cards[0], 'split', 'Source text', 3, undefined, false);
+      expect(lastIds(onCardsChange)).toEqual(['split-1', 'split-2', '2', '3']);
+      expect(screen.getByText('Split question 1')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+      expect(lastIds(onCardsChange)).toEqual(['1', '2', '3']);
+      expect(screen.getByText('Question 1')).toBeInTheDocument();
+      expect(screen.queryByText('Split the card into 2 cards.')).not.toBeInTheDocument();
+    });
+
+    test('adds the chosen number of cards like the current one', async () => {
+      (refineFlashcard as jest.Mock).mockResolvedValue(refinedCards.slice(0, 1));
+      const onCardsChange = renderRefinable();
+
+      fireEvent.change(screen.getByLabelText('Number of new cards'), { target: { value: '1' } });
+      fireEvent.click(screen.getByRole('button', { name: 'More Like This' }));
+
+      expect(await screen.findByText('Added 1 card like it.')).toBeInTheDocument();
+      expect(refineFlashcard).toHaveBeenCalledWith(mockFlashcardSet.cards[0], 'more', 'Source text', 1, undefined, false);
+      expect(lastIds(onCardsChange)).toEqual(['1', 'split-1', '2', '3']);
+    });
+
+    test('disables the actions while waiting and reports failures', async () => {
+      let rejectRequest: (error: Error) => void = () => undefined;
+      (refineFlashcard as jest.Mock).mockReturnValue(new Promise((resolve, reject) => {
+        rejectRequest = reject;
+      }));
+      const onCardsChange = renderRefinable();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Regenerate' }));
+
+      expect(screen.getByRole('button', { name: 'Working...' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Simplify' })).toBeDisabled();
+
+      rejectRequest(new Error('Failed to refine flashcard: offline'));
+
+      expect(await screen.findByText('Failed to refine flashcard: offline')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Simplify' })).toBeEnabled();
+      expect(onCardsChange).not.toHaveBeenCalled();
+    });
+
+    test('uses the mock server when Fast Mock Mode is on', async () => {
+      localStorage.setItem('use_mock_mode', 'true');
+      (refineFlashcard as jest.Mock).mockResolvedValue(refinedCards.slice(0, 1));
+      renderRefinable();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Regenerate' }));
+
+      expect(await screen.findByText('Split question 1')).toBeInTheDocument();
+      expect(refineFlashcard).toHaveBeenCalledWith(mockFlashcardSet.cards[0], 'regenerate', 'Source text', 3, undefined, true);
+    });
+  });
+
+  describe('editing', () => {
+    const renderEditable = () => {
+      const onCardsChange = jest.fn();
+      render(
+        <FlashcardViewer
+          flashcardSet={mockFlashcardSet}
+          onReset={mockOnReset}
+          onCardsChange={onCardsChange}
+        />
+      );
+      return onCardsChange;
+    };
+
+    const lastCards = (onCardsChange: jest.Mock) => onCardsChange.mock.calls[onCardsChange.mock.calls.length - 1][0];
+
+    test('edits the current card in card view, keeping its id', () => {
+      const onCardsChange = renderEditable();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit Card' }));
+      fireEvent.change(screen.getByLabelText('Question'), { target: { value: 'Better question' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(screen.getByText('Better question')).toBeInTheDocument();
+      expect(lastCards(onCardsChange)[0]).toEqual({ id: '1', question: 'Better question', answer: 'Answer 1' });
+    });
+
+    test('does not save an empty answer', () => {
+      const onCardsChange = renderEditable();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit Card' }));
+      fireEvent.change(screen.getByLabelText('Answer'), { target: { value: '  ' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(screen.getByText('Question and answer cannot be empty')).toBeInTheDocument();
+      expect(onCardsChange).not.toHaveBeenCalled();
+    });
+
+    test('adds a new card and shows it', () => {
+      const onCardsChange = renderEditable();
+
+      fireEvent.click(screen.getByRole('button', { name: '+ Add Card' }));
+      fireEvent.change(screen.getByLabelText('Question'), { target: { value: 'New question' } });
+      fireEvent.change(screen.getByLabelText('Answer'), { target: { value: 'New answer' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add Card' }));
+
+      expect(screen.getByText('4 / 4')).toBeInTheDocument();
+      expect(screen.getByText('New question')).toBeInTheDocument();
+      const updated = lastCards(onCardsChange);
+      expect(updated.map((card: { id: string }) => card.id).slice(0, 3)).toEqual(['1', '2', '3']);
+      expect(updated[3]).toEqual(expect.objectContaining({ question: 'New question', answer: 'New answer' }));
+    });
+
+    test('deletes a card and undoes the deletion', () => {
+      const onCardsChange = renderEditable();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Delete Card' }));
+
+      expect(screen.getByText('Question 2')).toBeInTheDocument();
+      expect(screen.getByText('1 / 2')).toBeInTheDocument();
+      expect(screen.getByRole('status')).toHaveTextContent('Deleted 1 card.');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Undo' }));
+
+      expect(screen.getByText('1 / 3')).toBeInTheDocument();
+      expect(lastCards(onCardsChange).map((card: { id: string }) => card.id)).toEqual(['1', '2', '3']);
+      expect(screen.queryByRole('button', { name: 'Undo' })).not.toBeInTheDocument();
+    });
+
+    test('edits a row inline in list view', () => {
+      const onCardsChange = renderEditable();
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      fireEvent.click(screen.getByRole('button', { name: 'Edit card 2' }));
+      fireEvent.change(screen.getByLabelText('Answer'), { target: { value: 'Fixed answer' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+      expect(screen.getByText('Fixed answer')).toBeInTheDocument();
+      expect(lastCards(onCardsChange)[1]).toEqual({ id: '2', question: 'Question 2', answer: 'Fixed answer' });
+    });
+
+    test('bulk deletes selected cards in list view', () => {
+      const onCardsChange = renderEditable();
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      fireEvent.click(screen.getByLabelText('Select card 1'));
+      fireEvent.click(screen.getByLabelText('Select card 3'));
+      fireEvent.click(screen.getByRole('button', { name: 'Delete Selected (2)' }));
+
+      expect(screen.queryByText('Question 1')).not.toBeInTheDocument();
+      expect(screen.queryByText('Question 3')).not.toBeInTheDocument();
+      expect(lastCards(onCardsChange)).toEqual([{ id: '2', question: 'Question 2', answer: 'Answer 2' }]);
+      expect(screen.getByRole('status')).toHaveTextContent('Deleted 2 cards.');
+    });
+
+    test('selects all cards at once', () => {
+      renderEditable();
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      fireEvent.click(screen.getByLabelText('Select all cards'));
+
+      expect(screen.getByRole('button', { name: 'Delete Selected (3)' })).toBeInTheDocument();
+    });
+
+    test('reorders cards by dragging rows', () => {
+      const onCardsChange = renderEditable();
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      const rows = screen.getAllByRole('row');
+      fireEvent.dragStart(rows[1]);
+      fireEvent.drop(rows[3]);
+
+      expect(lastCards(onCardsChange).map((card: { id: string }) => card.id)).toEqual(['2', '3', '1']);
+    });
+
+    test('hides editing controls while cards are still being generated', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} isGenerating />);
+
+      expect(screen.queryByRole('button', { name: 'Edit Card' })).not.toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: '+ Add Card' })).not.toBeInTheDocument();
+    });
+  });
+
+  describe('filtering, searching and sorting', () => {
+    const missedReview = { easeFactor: 2.3, interval: 1, repetitions: 0, dueDate: new Date(), lastGrade: 'again' as const };
+    const deck: FlashcardSet = {
+      ...mockFlashcardSet,
+      cards: [
+        { id: '1', question: 'Capital of France?', answer: 'Paris', starred: true },
+        { id: '2', question: 'Largest ocean?', answer: 'Pacific', review: missedReview },
+        { id: '3', question: 'Capital of Spain?', answer: 'Madrid', starred: true }
+      ]
+    };
+
+    test('navigates only the starred cards in card view', () => {
+      render(<FlashcardViewer flashcardSet={deck} onReset={mockOnReset} />);
+
+      fireEvent.change(screen.getByLabelText('Show'), { target: { value: 'starred' } });
+
+      expect(screen.getByText('Showing 2 of 3 cards')).toBeInTheDocument();
+      expect(screen.getByText('1 / 2')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+      expect(screen.getByText('Capital of Spain?')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Next' })).toBeDisabled();
+    });
+
+    test('shows the cards missed at their last review', () => {
+      render(<FlashcardViewer flashcardSet={deck} onReset={mockOnReset} />);
+
+      fireEvent.change(screen.getByLabelText('Show'), { target: { value: 'missed' } });
+
+      expect(screen.getByText('Largest ocean?')).toBeInTheDocument();
+      expect(screen.getByText('1 / 1')).toBeInTheDocument();
+    });
+
+    test('searches the list view and highlights the matches', () => {
+      render(<FlashcardViewer flashcardSet={deck} onReset={mockOnReset} />);
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      fireEvent.change(screen.getByLabelText('Search cards'), { target: { value: 'capital' } });
+
+      expect(screen.getAllByRole('row')).toHaveLength(3);
+      const matches = document.querySelectorAll('mark.search-match');
+      expect(matches).toHaveLength(2);
+      expect(matches[0]).toHaveTextContent('Capital');
+
+      fireEvent.change(screen.getByLabelText('Search cards'), { target: { value: 'nothing like this' } });
+      expect(screen.getByText('No cards match the current filters')).toBeInTheDocument();
+    });
+
+    test('sorts the list without changing card numbers or allowing drag and drop', () => {
+      render(<FlashcardViewer flashcardSet={deck} onReset={mockOnReset} onCardsChange={jest.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      fireEvent.change(screen.getByLabelText('Order'), { target: { value: 'answer' } });
+
+      const rows = screen.getAllByRole('row');
+      expect(rows[1]).toHaveTextContent('Madrid');
+      expect(rows[1]).toHaveTextContent('3');
+      expect(rows[1]).toHaveAttribute('draggable', 'false');
+    });
+
+    test('shuffles the same way for the same seed', () => {
+      render(<FlashcardViewer flashcardSet={deck} onReset={mockOnReset} />);
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+      const order = () => screen.getAllByRole('row').slice(1).map(row => row.textContent);
+
+      fireEvent.change(screen.getByLabelText('Order'), { target: { value: 'shuffled' } });
+      fireEvent.change(screen.getByLabelText('Seed'), { target: { value: '7' } });
+      const shuffled = order();
+      fireEvent.change(screen.getByLabelText('Seed'), { target: { value: '8' } });
+      fireEvent.change(screen.getByLabelText('Seed'), { target: { value: '7' } });
+
+      expect(order()).toEqual(shuffled);
+    });
+
+    test('stars the current card', () => {
+      const onCardsChange = jest.fn();
+      render(<FlashcardViewer flashcardSet={deck} onReset={mockOnReset} onCardsChange={onCardsChange} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      const star = screen.getByRole('button', { name: 'Star card' });
+      expect(star).toHaveAttribute('aria-pressed', 'false');
+      fireEvent.click(star);
+
+      expect(onCardsChange.mock.calls[0][0][1].starred).toBe(true);
+      expect(screen.getByRole('button', { name: 'Star card' })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('tags and difficulty', () => {
+    const taggedSet: FlashcardSet = {
+      ...mockFlashcardSet,
+      cards: [
+        { id: '1', question: 'Question 1', answer: 'Answer 1', tags: ['physics'], difficulty: 'hard' },
+        { id: '2', question: 'Question 2', answer: 'Answer 2', tags: ['chemistry'] },
+        { id: '3', question: 'Question 3', answer: 'Answer 3', tags: ['physics', 'exam'] }
+      ]
+    };
+
+    test('adds and removes tags and sets the difficulty of the current card', () => {
+      const onCardsChange = jest.fn();
+      render(<FlashcardViewer flashcardSet={taggedSet} onReset={mockOnReset} onCardsChange={onCardsChange} />);
+      const latest = () => onCardsChange.mock.calls[onCardsChange.mock.calls.length - 1][0][0];
+
+      fireEvent.change(screen.getByLabelText('New tag'), { target: { value: 'Mechanics 101' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Add Tag' }));
+      expect(latest().tags).toEqual(['physics', 'mechanics-101']);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Remove tag physics' }));
+      expect(latest().tags).toEqual(['mechanics-101']);
+
+      fireEvent.change(screen.getByLabelText('Difficulty'), { target: { value: 'easy' } });
+      expect(latest().difficulty).toBe('easy');
+    });
+
+    test('filters cards by tag', () => {
+      render(<FlashcardViewer flashcardSet={taggedSet} onReset={mockOnReset} />);
+
+      fireEvent.change(screen.getByLabelText('Tag'), { target: { value: 'physics' } });
+
+      expect(screen.getByText('Showing 2 of 3 cards')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+      expect(screen.getByText('2 / 2')).toBeInTheDocument();
+      expect(screen.getByText('Question 3')).toBeInTheDocument();
+    });
+
+    test('shows tags and difficulty in list view', () => {
+      render(<FlashcardViewer flashcardSet={taggedSet} onReset={mockOnReset} />);
+      fireEvent.click(screen.getByRole('button', { name: 'List View' }));
+
+      expect(screen.getAllByText('#physics')).toHaveLength(2);
+      expect(screen.getByText('Hard')).toBeInTheDocument();
+    });
+
+    test('exports tags and difficulty to CSV', () => {
+      const originalBlob = global.Blob;
+      global.Blob = jest.fn().mockImplementation((content, options) => ({ content, options }));
+
+      render(<FlashcardViewer flashcardSet={taggedSet} onReset={mockOnReset} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Export as CSV' }));
+
+      const rows = (global.Blob as unknown as jest.Mock).mock.calls[0][0][0].split('\n');
+      expect(rows[1]).toBe('"Question 1","Answer 1","basic","","","physics","hard"');
+      expect(rows[3]).toBe('"Question 3","Answer 3","basic","","","physics exam",""');
+
+      global.Blob = originalBlob;
+    });
+  });
+
+  describe('keyboard and accessibility', () => {
+    test('has no detectable accessibility violations', async () => {
+      const { container } = render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+
+      expect(await axe(container)).toHaveNoViolations();
+    });
+
+    test('flips the card with Space and navigates with the arrow keys', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+
+      fireEvent.keyDown(document.body, { key: ' ' });
+      expect(screen.getByRole('button', { name: 'Flip back to the question' })).toBeInTheDocument();
+
+      fireEvent.keyDown(document.body, { key: 'ArrowRight' });
+      expect(screen.getByText('2 / 3')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Flip to reveal the answer' })).toBeInTheDocument();
+
+      fireEvent.keyDown(document.body, { key: 'ArrowLeft' });
+      expect(screen.getByText('1 / 3')).toBeInTheDocument();
+    });
+
+    test('flips the focused card with Enter', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+
+      fireEvent.keyDown(screen.getByRole('button', { name: 'Flip to reveal the answer' }), { key: 'Enter' });
+
+      expect(screen.getByRole('button', { name: 'Flip back to the question' })).toBeInTheDocument();
+    });
+
+    test('announces the visible side of the card', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+      const card = screen.getByRole('button', { name: 'Flip to reveal the answer' });
+
+      expect(card).toHaveAccessibleDescription('Card 1 of 3. Question: Question 1');
+      fireEvent.click(card);
+      expect(card).toHaveAccessibleDescription('Card 1 of 3. Answer: Answer 1');
+    });
+
+    test('ignores shortcuts while typing in the card editor', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} onCardsChange={jest.fn()} />);
+      fireEvent.click(screen.getByRole('button', { name: 'Edit Card' }));
+
+      fireEvent.keyDown(screen.getByDisplayValue('Question 1'), { key: 'ArrowRight' });
+
+      expect(screen.getByText('1 / 3')).toBeInTheDocument();
+    });
+
+    test('opens and closes the shortcut overlay with ? and Escape', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+
+      fireEvent.keyDown(document.body, { key: '?' });
+      const dialog = screen.getByRole('dialog', { name: 'Keyboard shortcuts' });
+      expect(dialog).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Close' })).toHaveFocus();
+
+      fireEvent.keyDown(document.activeElement as Element, { key: 'Escape' });
+      expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+    });
+
+    test('returns focus to the shortcuts button when the overlay closes', () => {
+      render(<FlashcardViewer flashcardSet={mockFlashcardSet} onReset={mockOnReset} />);
+      const button = screen.getByRole('button', { name: 'Keyboard Shortcuts' });
+      button.focus();
+
+      fireEvent.click(button);
+      fireEvent.click(screen.getByRole('button', { name: 'Close' }));
+
+      expect(button).toHaveFocus();
+    });
+  });
 });
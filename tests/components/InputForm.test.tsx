@@ -2,19 +2,44 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import '@testing-library/jest-dom';
 import InputForm from '../../src/components/InputForm';
-import { extractFlashcards } from '../../src/services/llmService';
+import { extractFlashcards, previewExtractionMessages, MAX_EXTRACTION_REQUESTS } from '../../src/services/llmService';
 import { fetchWikipediaContent } from '../../src/services/wikipediaService';
 import { getLLMConfig } from '../../src/config';
+import { importFromApkg } from '../../src/services/ankiService';
+import { fetchWebPage } from '../../src/services/webPageService';
+import { extractDocument } from '../../src/services/documentService';
+import { critiqueFlashcards } from '../../src/services/cardQualityService';
+import { DEFAULT_PROMPT_TEMPLATE } from '../../src/services/promptTemplateService';
 import userEvent from '@testing-library/user-event';
+import { axe } from 'jest-axe';
 
 jest.mock('../../src/services/llmService', () => ({
+  ...jest.requireActual('../../src/services/llmService'),
   extractFlashcards: jest.fn()
 }));
 
 jest.mock('../../src/services/wikipediaService', () => ({
+  ...jest.requireActual('../../src/services/wikipediaService'),
   fetchWikipediaContent: jest.fn()
 }));
 
+jest.mock('../../src/services/cardQualityService', () => ({
+  critiqueFlashcards: jest.fn()
+}));
+
+jest.mock('../../src/services/webPageService', () => ({
+  fetchWebPage: jest.fn()
+}));
+
+jest.mock('../../src/services/documentService', () => ({
+  ...jest.requireActual('../../src/services/documentService'),
+  extractDocument: jest.fn()
+}));
+
+jest.mock('../../src/services/ankiService', () => ({
+  importFromApkg: jest.fn()
+}));
+
 jest.mock('../../src/config', () => ({
   getLLMConfig: jest.fn().mockReturnValue({
     baseUrl: 'http://test-api.com',
@@ -25,6 +50,7 @@ jest.mock('../../src/config', () => ({
 
 const mockExtractFlashcards = extractFlashcards as jest.MockedFunction<typeof extractFlashcards>;
 const mockFetchWikipediaContent = fetchWikipediaContent as jest.MockedFunction<typeof fetchWikipediaContent>;
+const mockImportFromApkg = importFromApkg as jest.MockedFunction<typeof importFromApkg>;
 
 describe('InputForm Component', () => {
   const mockSetFlashcardSet = jest.fn();
@@ -44,7 +70,7 @@ describe('InputForm Component', () => {
       />
     );
 
-    expect(screen.getByRole('button', { name: 'Wikipedia URL' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Web URL' })).toBeInTheDocument();
     expect(screen.getByRole('button', { name: 'Generate Flashcards' })).toBeInTheDocument();
     expect(screen.getByText('🚀 Fast Mock Mode')).toBeInTheDocument();
   });
@@ -64,10 +90,10 @@ describe('InputForm Component', () => {
     expect(screen.getByRole('button', { name: 'Custom Text' })).toHaveClass('active');
     expect(screen.getByPlaceholderText('Paste your text here...')).toBeInTheDocument();
 
-    const urlModeButton = screen.getByRole('button', { name: 'Wikipedia URL' });
+    const urlModeButton = screen.getByRole('button', { name: 'Web URL' });
     fireEvent.click(urlModeButton);
 
-    expect(screen.getByRole('button', { name: 'Wikipedia URL' })).toHaveClass('active');
+    expect(screen.getByRole('button', { name: 'Web URL' })).toHaveClass('active');
     expect(screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence')).toBeInTheDocument();
   });
 
@@ -83,7 +109,7 @@ describe('InputForm Component', () => {
     const submitButton = screen.getByRole('button', { name: 'Generate Flashcards' });
     fireEvent.click(submitButton);
 
-    expect(mockSetError).toHaveBeenCalledWith('Please enter a Wikipedia URL or text');
+    expect(mockSetError).toHaveBeenCalledWith('Please enter a URL or text');
   });
 
   test('shows error when API key is missing in config', async () => {
@@ -113,7 +139,9 @@ describe('InputForm Component', () => {
   test('processes Wikipedia URL input correctly', async () => {
     const mockWikiContent = {
       title: 'React',
-      content: 'React is a JavaScript library for building user interfaces.'
+      content: 'React is a JavaScript library for building user interfaces.',
+      language: 'en',
+      sections: []
     };
     
     const mockFlashcards = [
@@ -137,16 +165,16 @@ describe('InputForm Component', () => {
     const submitButton = screen.getByRole('button', { name: 'Generate Flashcards' });
     fireEvent.click(submitButton);
 
-    expect(mockSetLoading).toHaveBeenCalledWith(true);
+    expect(mockSetLoading).toHaveBeenCalledWith(true, expect.any(String));
 
     await waitFor(() => {
       expect(mockFetchWikipediaContent).toHaveBeenCalledWith('https://en.wikipedia.org/wiki/React_(JavaScript_library)');
-      expect(mockExtractFlashcards).toHaveBeenCalledWith(mockWikiContent.content, undefined, expect.any(Boolean));
+      expect(mockExtractFlashcards).toHaveBeenCalledWith(mockWikiContent.content, undefined, expect.any(Boolean), undefined, undefined, { language: 'en', cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE });
       expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
         source: 'https://en.wikipedia.org/wiki/React_(JavaScript_library)',
         cards: mockFlashcards
       }));
-      expect(mockSetLoading).toHaveBeenCalledWith(false);
+      expect(mockSetLoading).toHaveBeenCalledWith(false, expect.any(String));
     });
   });
 
@@ -177,25 +205,148 @@ describe('InputForm Component', () => {
     const submitButton = screen.getByRole('button', { name: 'Generate Flashcards' });
     fireEvent.click(submitButton);
 
-    expect(mockSetLoading).toHaveBeenCalledWith(true);
+    expect(mockSetLoading).toHaveBeenCalledWith(true, expect.any(String));
 
     await waitFor(() => {
       expect(mockFetchWikipediaContent).not.toHaveBeenCalled();
       expect(mockExtractFlashcards).toHaveBeenCalledWith(
         'TypeScript is a superset of JavaScript that adds static typing.',
         undefined,
-        expect.any(Boolean)
+        expect.any(Boolean),
+        undefined,
+        undefined,
+        { cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE }
       );
       expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
         title: 'Custom Text Flashcards',
         source: 'Custom text',
         cards: mockFlashcards
       }));
-      expect(mockSetLoading).toHaveBeenCalledWith(false);
+      expect(mockSetLoading).toHaveBeenCalledWith(false, expect.any(String));
+    });
+  });
+
+  test('asks before generating from content that needs more requests than the limit', async () => {
+    const longText = 'Photosynthesis turns light into chemical energy. '.repeat(1000);
+    const { requestCount } = previewExtractionMessages(longText);
+    expect(requestCount).toBeGreaterThan(MAX_EXTRACTION_REQUESTS);
+    mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'What does photosynthesis do?', answer: 'Turns light into chemical energy' }]);
+
+    render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Custom Text' }));
+    fireEvent.change(screen.getByPlaceholderText('Paste your text here...'), { target: { value: longText } });
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(`needs ${requestCount} LLM requests`);
+    expect(mockExtractFlashcards).not.toHaveBeenCalled();
+    expect(mockSetLoading).toHaveBeenLastCalledWith(false, expect.any(String));
+
+    fireEvent.click(screen.getByRole('button', { name: `Generate Anyway (${requestCount} Requests)` }));
+
+    await waitFor(() => {
+      expect(mockExtractFlashcards).toHaveBeenCalledWith(
+        longText, undefined, expect.any(Boolean), undefined, undefined,
+        expect.objectContaining({ maxRequests: requestCount })
+      );
+      expect(mockSetFlashcardSet).toHaveBeenCalled();
+    });
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  test('drops the request warning when cancelled', async () => {
+    render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Custom Text' }));
+    fireEvent.change(screen.getByPlaceholderText('Paste your text here...'), { target: { value: 'Cells divide. '.repeat(4000) } });
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Cancel' }));
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    expect(mockExtractFlashcards).not.toHaveBeenCalled();
+  });
+
+  describe('quality review', () => {
+    const mockFlashcards = [{ id: '1', question: 'What is TypeScript, a typed superset?', answer: 'A typed superset of JavaScript' }];
+
+    const generateWithReview = () => {
+      mockExtractFlashcards.mockResolvedValue(mockFlashcards);
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+      fireEvent.click(screen.getByRole('button', { name: 'Custom Text' }));
+      fireEvent.change(screen.getByPlaceholderText('Paste your text here...'), { target: { value: 'TypeScript adds types.' } });
+      fireEvent.click(screen.getByLabelText('Review card quality'));
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+    };
+
+    test('hands the critiques over with the generated set', async () => {
+      const critiques = [{ cardId: '1', score: 2, issues: ['giveaway'], revision: { question: 'What is TypeScript?', answer: 'Typed JavaScript' } }];
+      (critiqueFlashcards as jest.Mock).mockResolvedValue(critiques);
+      generateWithReview();
+
+      await waitFor(() => {
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({ cards: mockFlashcards }), critiques);
+      });
+      expect(critiqueFlashcards).toHaveBeenCalledWith(mockFlashcards, undefined, false);
+    });
+
+    test('keeps the generated cards when the review fails', async () => {
+      (critiqueFlashcards as jest.Mock).mockRejectedValue(new Error('Failed to review card quality: offline'));
+      generateWithReview();
+
+      await waitFor(() => {
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({ cards: mockFlashcards }));
+      });
+      expect(mockSetError).toHaveBeenCalledWith('Cards were saved without a quality review. Failed to review card quality: offline');
+    });
+  });
+
+  test('generates the chosen mix of card types', async () => {
+    mockExtractFlashcards.mockResolvedValue([]);
+    render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Custom Text' }));
+    fireEvent.change(screen.getByPlaceholderText('Paste your text here...'), { target: { value: 'Some text' } });
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Question & answer' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+    expect(mockSetError).toHaveBeenCalledWith('Please choose at least one card type');
+    expect(mockExtractFlashcards).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'True / false' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Cloze deletion' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+    await waitFor(() => {
+      expect(mockExtractFlashcards).toHaveBeenCalledWith(
+        'Some text', undefined, expect.any(Boolean), undefined, undefined, { cardTypes: ['cloze', 'true-false'], template: DEFAULT_PROMPT_TEMPLATE }
+      );
     });
   });
 
-  test('validates Wikipedia URL correctly', async () => {
+  test('validates the URL', async () => {
     render(
       <InputForm
         setFlashcardSet={mockSetFlashcardSet}
@@ -206,21 +357,23 @@ describe('InputForm Component', () => {
 
     // Enter invalid URL
     const urlInput = screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence');
-    fireEvent.change(urlInput, { target: { value: 'https://example.com/not-wikipedia' } });
+    fireEvent.change(urlInput, { target: { value: 'ftp://example.com/notes' } });
 
     // Submit the form
     const submitButton = screen.getByRole('button', { name: 'Generate Flashcards' });
     fireEvent.click(submitButton);
 
-    expect(mockSetError).toHaveBeenCalledWith('Please enter a valid Wikipedia URL');
-    expect(mockSetLoading).toHaveBeenCalledWith(true);
-    expect(mockSetLoading).toHaveBeenCalledWith(false);
+    expect(mockSetError).toHaveBeenCalledWith('Please enter a valid web page URL');
+    expect(mockSetLoading).toHaveBeenCalledWith(true, expect.any(String));
+    expect(mockSetLoading).toHaveBeenCalledWith(false, expect.any(String));
   });
 
   test('extracts title from Wikipedia URL correctly', async () => {
     const mockWikiContent = {
       title: 'Artificial Intelligence',
-      content: 'AI content here'
+      content: 'AI content here',
+      language: 'en',
+      sections: []
     };
     
     const mockFlashcards = [
@@ -276,7 +429,7 @@ describe('InputForm Component', () => {
 
     await waitFor(() => {
       expect(mockSetError).toHaveBeenCalledWith('Error: API error');
-      expect(mockSetLoading).toHaveBeenCalledWith(false);
+      expect(mockSetLoading).toHaveBeenCalledWith(false, expect.any(String));
     });
   });
 
@@ -302,14 +455,311 @@ describe('InputForm Component', () => {
 
     await waitFor(() => {
       expect(mockSetError).toHaveBeenCalledWith('Error: Wikipedia API error');
-      expect(mockSetLoading).toHaveBeenCalledWith(false);
+      expect(mockSetLoading).toHaveBeenCalledWith(false, expect.any(String));
+    });
+  });
+
+  test('generates cards in the chosen language instead of the article language', async () => {
+    mockFetchWikipediaContent.mockResolvedValue({ title: 'Berlin', content: 'Berlin ist die Hauptstadt.', language: 'de', sections: [] });
+    mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'Q', answer: 'A' }]);
+
+    render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+
+    fireEvent.change(screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence'), {
+      target: { value: 'https://de.wikipedia.org/wiki/Berlin' }
+    });
+    fireEvent.change(screen.getByLabelText('Card language'), { target: { value: 'en' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+    await waitFor(() => {
+      expect(mockExtractFlashcards).toHaveBeenCalledWith(
+        'Berlin ist die Hauptstadt.', undefined, expect.any(Boolean), undefined, undefined, { language: 'en', cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE }
+      );
+    });
+  });
+
+  test('extracts the main text of other web pages', async () => {
+    (fetchWebPage as jest.Mock).mockResolvedValue({
+      title: 'Why Sourdough Rises',
+      content: 'Sourdough rises because wild yeast ferments the flour.',
+      url: 'https://bread.example/sourdough',
+      language: 'fr'
+    });
+    mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'Q', answer: 'A' }]);
+
+    render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+
+    fireEvent.change(screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence'), {
+      target: { value: 'https://bread.example/sourdough' }
+    });
+    expect(screen.queryByRole('button', { name: 'Choose Sections' })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+    await waitFor(() => {
+      expect(fetchWebPage).toHaveBeenCalledWith('https://bread.example/sourdough');
+      expect(mockFetchWikipediaContent).not.toHaveBeenCalled();
+      expect(mockExtractFlashcards).toHaveBeenCalledWith(
+        'Sourdough rises because wild yeast ferments the flour.', undefined, expect.any(Boolean), undefined, undefined, { language: 'fr', cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE }
+      );
+      expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+        title: 'Why Sourdough Rises',
+        source: 'https://bread.example/sourdough'
+      }));
+    });
+  });
+
+  describe('prompt templates', () => {
+    beforeEach(() => {
+      localStorage.clear();
+      (fetchWebPage as jest.Mock).mockResolvedValue({
+        title: 'Why Sourdough Rises',
+        content: 'Sourdough rises because wild yeast ferments the flour.',
+        url: 'https://bread.example/sourdough',
+        language: 'en'
+      });
+      mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'Q', answer: 'A' }]);
+    });
+
+    const renderWithUrl = () => {
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+      fireEvent.change(screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence'), {
+        target: { value: 'https://bread.example/sourdough' }
+      });
+    };
+
+    test('previews the rendered messages and follows preset changes', async () => {
+      renderWithUrl();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Preview Prompt' }));
+
+      const preview = await screen.findByRole('region', { name: 'Prompt preview' });
+      expect(preview).toHaveTextContent('You are a helpful assistant that creates flashcards');
+      expect(preview).toHaveTextContent('Create flashcards from the following content: Sourdough rises because wild yeast ferments the flour.');
+      expect(preview).toHaveTextContent('The content is sent in a single request.');
+      expect(mockExtractFlashcards).not.toHaveBeenCalled();
+
+      fireEvent.change(screen.getByLabelText('Preset'), { target: { value: 'vocabulary' } });
+      expect(preview).toHaveTextContent('You are a language teacher creating vocabulary flashcards for a language learner.');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Close Preview' }));
+      expect(screen.queryByRole('region', { name: 'Prompt preview' })).not.toBeInTheDocument();
+    });
+
+    test('generates with the chosen preset without fetching the previewed page again', async () => {
+      renderWithUrl();
+      fireEvent.change(screen.getByLabelText('Preset'), { target: { value: 'exam-prep' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Preview Prompt' }));
+      await screen.findByRole('region', { name: 'Prompt preview' });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+      await waitFor(() => {
+        expect(mockExtractFlashcards).toHaveBeenCalledWith(
+          'Sourdough rises because wild yeast ferments the flour.', undefined, expect.any(Boolean), undefined, undefined,
+          { language: 'en', cardTypes: ['basic'], template: expect.objectContaining({ id: 'exam-prep', name: 'Exam prep' }) }
+        );
+      });
+      expect(fetchWebPage).toHaveBeenCalledTimes(1);
+    });
+
+    test('refuses to generate with a template that leaves out the content', () => {
+      renderWithUrl();
+      fireEvent.click(screen.getByRole('button', { name: 'Edit Template' }));
+      fireEvent.change(screen.getByLabelText('User message'), { target: { value: 'Make flashcards.' } });
+
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+      expect(mockSetError).toHaveBeenCalledWith('The user message must contain {{content}}');
+      expect(mockExtractFlashcards).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('documents', () => {
+    const chooseDocument = (file: File) => {
+      fireEvent.click(screen.getByRole('button', { name: 'Document' }));
+      const fileInput = document.querySelector('input[type="file"][accept=".pdf,.docx,.md,.markdown,.txt"]') as HTMLInputElement;
+      fireEvent.change(fileInput, { target: { files: [file] } });
+    };
+
+    test('generates cards from the sections of a dropped document', async () => {
+      const sections = [{ title: 'Page 1', text: 'Cells are the basic unit of life.' }];
+      (extractDocument as jest.Mock).mockResolvedValue({ title: 'Lecture 3', text: sections[0].text, sections });
+      mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'Q', answer: 'A' }]);
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      const file = new File(['%PDF'], 'Lecture 3.pdf', { type: 'application/pdf' });
+      chooseDocument(file);
+      expect(screen.getByText('📄 Lecture 3.pdf')).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+      await waitFor(() => {
+        expect(extractDocument).toHaveBeenCalledWith(file);
+        expect(mockExtractFlashcards).toHaveBeenCalledWith(sections, undefined, expect.any(Boolean), undefined, undefined, { language: undefined, cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE });
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+          title: 'Lecture 3',
+          source: 'Lecture 3.pdf'
+        }));
+      });
+    });
+
+    test('uses the whole text of unstructured documents', async () => {
+      (extractDocument as jest.Mock).mockResolvedValue({ title: 'facts', text: 'Water boils at 100 degrees.', sections: [] });
+      mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'Q', answer: 'A' }]);
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      chooseDocument(new File(['Water boils at 100 degrees.'], 'facts.txt', { type: 'text/plain' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+      await waitFor(() => {
+        expect(mockExtractFlashcards).toHaveBeenCalledWith(
+          'Water boils at 100 degrees.', undefined, expect.any(Boolean), undefined, undefined, { language: undefined, cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE }
+        );
+      });
+    });
+
+    test('rejects unsupported files and requires a document', () => {
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      chooseDocument(new File(['x'], 'slides.pptx'));
+      expect(mockSetError).toHaveBeenCalledWith('Unsupported file type. Choose a PDF, Word (.docx), Markdown or text file');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+      expect(mockSetError).toHaveBeenCalledWith('Please choose a document');
+      expect(extractDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('section picker', () => {
+    const article = {
+      title: 'Aspirin',
+      content: '## Introduction\n\nAspirin is a medication.',
+      language: 'en',
+      sections: [
+        { id: 'lead', title: 'Introduction', level: 2, blocks: [{ type: 'paragraph' as const, text: 'Aspirin is a medication.' }] },
+        { id: 'History', title: 'History', level: 2, blocks: [{ type: 'paragraph' as const, text: 'Willow bark was used.' }] },
+        { id: 'Synthesis', title: 'Synthesis', level: 3, blocks: [{ type: 'list' as const, items: ['Kolbe', 'Bayer'] }] },
+        { id: 'Mechanism', title: 'Mechanism', level: 2, blocks: [{ type: 'paragraph' as const, text: 'It inhibits COX.' }] }
+      ]
+    };
+
+    const openPicker = async () => {
+      mockFetchWikipediaContent.mockResolvedValue(article);
+      mockExtractFlashcards.mockResolvedValue([{ id: '1', question: 'Q', answer: 'A' }]);
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      fireEvent.change(screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence'), {
+        target: { value: 'https://en.wikipedia.org/wiki/Aspirin' }
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Choose Sections' }));
+      await screen.findByText('Sections to generate cards from');
+    };
+
+    test('generates cards only from the selected sections', async () => {
+      await openPicker();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Select none' }));
+      fireEvent.click(screen.getByLabelText('History'));
+      fireEvent.click(screen.getByLabelText('Mechanism'));
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+      await waitFor(() => {
+        expect(mockExtractFlashcards).toHaveBeenCalledWith(
+          [
+            { title: 'History', text: 'Willow bark was used.' },
+            { title: 'Synthesis', text: '- Kolbe\n- Bayer' },
+            { title: 'Mechanism', text: 'It inhibits COX.' }
+          ],
+          undefined, expect.any(Boolean), undefined, undefined, { language: 'en', cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE }
+        );
+      });
+      // The outline is reused rather than fetched again
+      expect(mockFetchWikipediaContent).toHaveBeenCalledTimes(1);
+    });
+
+    test('unticking a section also unticks its subsections', async () => {
+      await openPicker();
+
+      expect(screen.getByText('4 of 4 sections selected')).toBeInTheDocument();
+      fireEvent.click(screen.getByLabelText('History'));
+
+      expect(screen.getByLabelText('Synthesis')).not.toBeChecked();
+      expect(screen.getByLabelText('Introduction')).toBeChecked();
+      expect(screen.getByText('2 of 4 sections selected')).toBeInTheDocument();
+    });
+
+    test('requires at least one selected section', async () => {
+      await openPicker();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Select none' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+      expect(mockSetError).toHaveBeenCalledWith('Please select at least one section');
+      expect(mockExtractFlashcards).not.toHaveBeenCalled();
+    });
+
+    test('hides the picker once the URL changes', async () => {
+      await openPicker();
+
+      fireEvent.change(screen.getByPlaceholderText('https://en.wikipedia.org/wiki/Artificial_intelligence'), {
+        target: { value: 'https://en.wikipedia.org/wiki/Ibuprofen' }
+      });
+
+      expect(screen.queryByText('Sections to generate cards from')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Choose Sections' })).toBeInTheDocument();
     });
   });
 
   test('passes mock mode setting to extractFlashcards', async () => {
     const mockWikiContent = {
       title: 'React',
-      content: 'React content'
+      content: 'React content',
+      language: 'en',
+      sections: []
     };
     
     const mockFlashcards = [{ id: '1', question: 'Q', answer: 'A' }];
@@ -342,8 +792,50 @@ describe('InputForm Component', () => {
 
     await waitFor(() => {
       // Verify that mock mode (true) was passed to extractFlashcards
-      expect(mockExtractFlashcards).toHaveBeenCalledWith(mockWikiContent.content, undefined, true);
+      expect(mockExtractFlashcards).toHaveBeenCalledWith(mockWikiContent.content, undefined, true, undefined, undefined, { language: 'en', cardTypes: ['basic'], template: DEFAULT_PROMPT_TEMPLATE });
+    });
+  });
+
+  test('streams partial flashcard sets while generation continues', async () => {
+    const mockSetPartialFlashcardSet = jest.fn();
+    const streamedCards = [
+      { id: '1', question: 'Q1', answer: 'A1' },
+      { id: '2', question: 'Q2', answer: 'A2' }
+    ];
+
+    mockExtractFlashcards.mockImplementation(async (_content, _apiKey, _useMock, _onProgress, onCard) => {
+      streamedCards.forEach(card => onCard!(card));
+      return streamedCards;
+    });
+
+    render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+        setPartialFlashcardSet={mockSetPartialFlashcardSet}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Custom Text' }));
+    fireEvent.change(screen.getByPlaceholderText('Paste your text here...'), { target: { value: 'Some text' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Generate Flashcards' }));
+
+    await waitFor(() => {
+      expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({ cards: streamedCards }));
     });
+
+    expect(mockSetPartialFlashcardSet).toHaveBeenCalledTimes(2);
+    expect(mockSetPartialFlashcardSet.mock.calls[0][0]).toEqual(expect.objectContaining({
+      title: 'Custom Text Flashcards',
+      cards: [streamedCards[0]]
+    }));
+    expect(mockSetPartialFlashcardSet.mock.calls[1][0].cards).toEqual(streamedCards);
+    // The partial and finished sets carry the id the generation was started with
+    const deckId = mockSetLoading.mock.calls[0][1];
+    expect(mockSetLoading).toHaveBeenCalledWith(true, deckId);
+    expect(mockSetPartialFlashcardSet.mock.calls[0][0].id).toBe(deckId);
+    expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({ id: deckId }));
   });
 
   // Import functionality tests
@@ -387,7 +879,7 @@ describe('InputForm Component', () => {
       await waitFor(() => {
         expect(mockSetFlashcardSet).toHaveBeenCalledWith({
           title: 'Test Flashcards',
-          source: 'JSON Import',
+          source: 'Test Source',
           cards: [
             { id: '1', question: 'What is React?', answer: 'A JavaScript library' },
             { id: '2', question: 'What is TypeScript?', answer: 'A superset of JavaScript' }
@@ -399,6 +891,99 @@ describe('InputForm Component', () => {
       expect(mockSetError).toHaveBeenCalledWith(null);
     });
 
+    test('keeps card types when importing JSON', async () => {
+      const typedJsonData = {
+        title: 'Typed',
+        cards: [
+          { id: '1', type: 'multiple-choice', question: 'Q1', answer: 'B', options: ['A', 'B'] },
+          { id: '2', type: 'true-false', question: 'S', answer: 'True', explanation: 'Because.' }
+        ]
+      };
+      const file = new File([JSON.stringify(typedJsonData)], 'typed.json', { type: 'application/json' });
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      const fileInput = document.querySelector('input[type="file"][accept=".json"]') as HTMLInputElement;
+      Object.defineProperty(fileInput, 'files', { value: [file], writable: false });
+      fireEvent.change(fileInput);
+
+      await waitFor(() => {
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+          cards: [
+            { id: '1', type: 'multiple-choice', question: 'Q1', answer: 'B', options: ['A', 'B'] },
+            { id: '2', type: 'true-false', question: 'S', answer: 'True', explanation: 'Because.' }
+          ]
+        }));
+      });
+    });
+
+    test('keeps tags, difficulty and stars from exported JSON files', async () => {
+      const taggedJsonData = {
+        title: 'Tagged',
+        cards: [
+          { id: '1', question: 'Q1', answer: 'A1', tags: ['Physics', 'exam'], difficulty: 'hard', starred: true },
+          { id: '2', question: 'Q2', answer: 'A2', tags: 'not a list', difficulty: 'unknown' }
+        ]
+      };
+      const file = new File([JSON.stringify(taggedJsonData)], 'tagged.json', { type: 'application/json' });
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      const fileInput = document.querySelector('input[type="file"][accept=".json"]') as HTMLInputElement;
+      Object.defineProperty(fileInput, 'files', { value: [file], writable: false });
+      fireEvent.change(fileInput);
+
+      await waitFor(() => {
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+          cards: [
+            { id: '1', question: 'Q1', answer: 'A1', tags: ['physics', 'exam'], difficulty: 'hard', starred: true },
+            { id: '2', question: 'Q2', answer: 'A2', tags: ['not-a-list'] }
+          ]
+        }));
+      });
+    });
+
+    test('keeps the source content of exported decks so their cards can be refined', async () => {
+      const exportedJsonData = {
+        title: 'Heart',
+        source: 'https://en.wikipedia.org/wiki/Heart',
+        sourceContent: [{ title: 'Anatomy', text: 'The heart has four chambers.' }, { title: 'Broken' }],
+        cards: [{ id: '1', question: 'How many chambers?', answer: 'Four', section: 'Anatomy' }]
+      };
+      const file = new File([JSON.stringify(exportedJsonData)], 'heart.json', { type: 'application/json' });
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      const fileInput = document.querySelector('input[type="file"][accept=".json"]') as HTMLInputElement;
+      Object.defineProperty(fileInput, 'files', { value: [file], writable: false });
+      fireEvent.change(fileInput);
+
+      await waitFor(() => {
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+          source: 'https://en.wikipedia.org/wiki/Heart',
+          sourceContent: [{ title: 'Anatomy', text: 'The heart has four chambers.' }]
+        }));
+      });
+    });
+
     test('handles JSON file without IDs by generating them', async () => {
       const jsonDataWithoutIds = {
         title: 'Test Flashcards',
@@ -536,7 +1121,7 @@ describe('InputForm Component', () => {
       const importButton = screen.getByRole('button', { name: /import csv/i });
       expect(importButton).toBeInTheDocument();
 
-      const fileInput = document.querySelector('input[type="file"][accept=".csv"]') as HTMLInputElement;
+      const fileInput = document.querySelector('input[type="file"][accept=".csv,.tsv"]') as HTMLInputElement;
       expect(fileInput).toBeInTheDocument();
 
       Object.defineProperty(fileInput, 'files', {
@@ -546,6 +1131,8 @@ describe('InputForm Component', () => {
 
       fireEvent.change(fileInput);
 
+      fireEvent.click(await screen.findByRole('button', { name: 'Import 2 cards' }));
+
       await waitFor(() => {
         expect(mockSetFlashcardSet).toHaveBeenCalledWith({
           title: 'Imported CSV Flashcards',
@@ -574,7 +1161,7 @@ describe('InputForm Component', () => {
         />
       );
 
-      const fileInput = document.querySelector('input[type="file"][accept=".csv"]') as HTMLInputElement;
+      const fileInput = document.querySelector('input[type="file"][accept=".csv,.tsv"]') as HTMLInputElement;
       Object.defineProperty(fileInput, 'files', {
         value: [file],
         writable: false,
@@ -582,8 +1169,67 @@ describe('InputForm Component', () => {
 
       fireEvent.change(fileInput);
 
+      expect(await screen.findByText('Choose the columns that hold the question and the answer')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Import 0 cards' })).toBeDisabled();
+
+      fireEvent.change(screen.getByLabelText('Question column'), { target: { value: '0' } });
+      fireEvent.change(screen.getByLabelText('Answer column'), { target: { value: '1' } });
+      fireEvent.click(screen.getByRole('button', { name: 'Import 1 card' }));
+
+      expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+        cards: [{ id: expect.any(String), question: 'React', answer: 'A JavaScript library' }]
+      }));
+    });
+
+    test('imports files written by the CSV export, including commas, quotes and newlines', async () => {
+      const csvContent = '"Question","Answer"\n"Who said ""hello""?","Alice, then Bob"\n"List two","one\ntwo"';
+      const file = new File([csvContent], 'export.csv', { type: 'text/csv' });
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      const fileInput = document.querySelector('input[type="file"][accept=".csv,.tsv"]') as HTMLInputElement;
+      Object.defineProperty(fileInput, 'files', {
+        value: [file],
+        writable: false,
+      });
+      fireEvent.change(fileInput);
+
+      fireEvent.click(await screen.findByRole('button', { name: 'Import 2 cards' }));
+
+      expect(mockSetFlashcardSet).toHaveBeenCalledWith(expect.objectContaining({
+        cards: [
+          { id: expect.any(String), question: 'Who said "hello"?', answer: 'Alice, then Bob' },
+          { id: expect.any(String), question: 'List two', answer: 'one\ntwo' }
+        ]
+      }));
+    });
+
+    test('reports malformed CSV files', async () => {
+      const file = new File(['Question,Answer\n"unterminated,answer'], 'broken.csv', { type: 'text/csv' });
+
+      render(
+        <InputForm
+          setFlashcardSet={mockSetFlashcardSet}
+          setLoading={mockSetLoading}
+          setError={mockSetError}
+        />
+      );
+
+      const fileInput = document.querySelector('input[type="file"][accept=".csv,.tsv"]') as HTMLInputElement;
+      Object.defineProperty(fileInput, 'files', {
+        value: [file],
+        writable: false,
+      });
+      fireEvent.change(fileInput);
+
       await waitFor(() => {
-        expect(mockSetError).toHaveBeenCalledWith(expect.stringContaining('must contain "Question" and "Answer" columns'));
+        expect(mockSetError).toHaveBeenCalledWith('Error importing CSV: Unterminated quoted field starting on line 2');
       });
     });
 
@@ -599,7 +1245,7 @@ describe('InputForm Component', () => {
         />
       );
 
-      const fileInput = document.querySelector('input[type="file"][accept=".csv"]') as HTMLInputElement;
+      const fileInput = document.querySelector('input[type="file"][accept=".csv,.tsv"]') as HTMLInputElement;
       Object.defineProperty(fileInput, 'files', {
         value: [file],
         writable: false,
@@ -641,7 +1287,7 @@ describe('InputForm Component', () => {
       const csvButton = screen.getByRole('button', { name: /import csv/i });
       
       const jsonFileInput = document.querySelector('input[type="file"][accept=".json"]') as HTMLInputElement;
-      const csvFileInput = document.querySelector('input[type="file"][accept=".csv"]') as HTMLInputElement;
+      const csvFileInput = document.querySelector('input[type="file"][accept=".csv,.tsv"]') as HTMLInputElement;
       
       // Mock the click method
       const jsonClickSpy = jest.spyOn(jsonFileInput, 'click').mockImplementation(() => {});
@@ -657,4 +1303,75 @@ describe('InputForm Component', () => {
       csvClickSpy.mockRestore();
     });
   });
+
+  describe('Anki Import', () => {
+    const selectFile = (file: File) => {
+      const fileInput = document.querySelector('input[type="file"][accept=".apkg"]') as HTMLInputElement;
+      Object.defineProperty(fileInput, 'files', {
+        value: [file],
+        writable: false,
+      });
+      fireEvent.change(fileInput);
+    };
+
+    const renderForm = () => render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+
+    test('imports an Anki package as a flashcard set', async () => {
+      const importedSet = {
+        title: 'Spanish',
+        source: 'Anki Import',
+        cards: [{ id: 'guid-1', question: 'Hola', answer: 'Hello' }],
+        createdAt: new Date()
+      };
+      mockImportFromApkg.mockResolvedValueOnce(importedSet);
+      renderForm();
+
+      expect(screen.getByRole('button', { name: /import anki/i })).toBeInTheDocument();
+      selectFile(new File([new Uint8Array([80, 75, 3, 4])], 'spanish.apkg'));
+
+      await waitFor(() => {
+        expect(mockSetFlashcardSet).toHaveBeenCalledWith(importedSet);
+      });
+      expect(mockImportFromApkg).toHaveBeenCalledWith(expect.any(ArrayBuffer));
+    });
+
+    test('reports packages that cannot be read', async () => {
+      mockImportFromApkg.mockRejectedValueOnce(new Error('Not an Anki package: collection file is missing'));
+      renderForm();
+
+      selectFile(new File(['not a zip'], 'broken.apkg'));
+
+      await waitFor(() => {
+        expect(mockSetError).toHaveBeenCalledWith('Error importing Anki package: Not an Anki package: collection file is missing');
+      });
+      expect(mockSetFlashcardSet).not.toHaveBeenCalled();
+    });
+
+    test('rejects files without the .apkg extension', () => {
+      renderForm();
+
+      selectFile(new File(['data'], 'deck.zip'));
+
+      expect(mockSetError).toHaveBeenCalledWith('Please select a valid Anki package (.apkg) file');
+      expect(mockImportFromApkg).not.toHaveBeenCalled();
+    });
+  });
+
+  test('has no detectable accessibility violations', async () => {
+    const { container } = render(
+      <InputForm
+        setFlashcardSet={mockSetFlashcardSet}
+        setLoading={mockSetLoading}
+        setError={mockSetError}
+      />
+    );
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
 });
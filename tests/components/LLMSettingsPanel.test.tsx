@@ -0,0 +1,111 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import LLMSettingsPanel from '../../src/components/LLMSettingsPanel';
+import { getLLMSettings, saveLLMSettings } from '../../src/config';
+import { testLLMConnection } from '../../src/services/connectionService';
+
+jest.mock('../../src/services/connectionService', () => ({
+  testLLMConnection: jest.fn()
+}));
+
+const mockTestLLMConnection = testLLMConnection as jest.MockedFunction<typeof testLLMConnection>;
+
+describe('LLMSettingsPanel Component', () => {
+  const mockOnClose = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  test('loads saved settings into the form', () => {
+    saveLLMSettings({ model: 'saved-model', temperature: 0.3 });
+
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    expect(screen.getByLabelText('Model')).toHaveValue('saved-model');
+    expect(screen.getByLabelText('Temperature')).toHaveValue(0.3);
+    expect(screen.getByLabelText('Base URL')).toHaveValue('');
+  });
+
+  test('saves the entered settings', () => {
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.change(screen.getByLabelText('Base URL'), { target: { value: 'http://localhost:11434' } });
+    fireEvent.change(screen.getByLabelText('API Key'), { target: { value: 'secret' } });
+    fireEvent.change(screen.getByLabelText('Max Tokens'), { target: { value: '2000' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Settings saved');
+    expect(getLLMSettings()).toEqual(expect.objectContaining({
+      baseUrl: 'http://localhost:11434',
+      apiKey: 'secret',
+      maxTokens: 2000
+    }));
+  });
+
+  test('rejects invalid values without saving', () => {
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.change(screen.getByLabelText('Temperature'), { target: { value: '3' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Temperature must be a number between 0 and 2');
+    expect(localStorage.getItem('llm_settings')).toBeNull();
+  });
+
+  test('resets to the environment defaults', () => {
+    saveLLMSettings({ model: 'saved-model' });
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByText('Reset to Defaults'));
+
+    expect(screen.getByLabelText('Model')).toHaveValue('');
+    expect(localStorage.getItem('llm_settings')).toBeNull();
+  });
+
+  test('tests the connection with the unsaved form values', async () => {
+    mockTestLLMConnection.mockResolvedValueOnce({ proxyHealthy: true, models: ['llama3.2', 'mistral'] });
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.change(screen.getByLabelText('Model'), { target: { value: 'llama3.2' } });
+    fireEvent.click(screen.getByText('Test Connection'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Proxy server is running. Connected: 2 models available.');
+    });
+    expect(mockTestLLMConnection).toHaveBeenCalledWith(expect.objectContaining({ model: 'llama3.2' }));
+    expect(localStorage.getItem('llm_settings')).toBeNull();
+  });
+
+  test('warns when the configured model is not on the server', async () => {
+    mockTestLLMConnection.mockResolvedValueOnce({ proxyHealthy: true, models: ['mistral'] });
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.change(screen.getByLabelText('Model'), { target: { value: 'llama3.2' } });
+    fireEvent.click(screen.getByText('Test Connection'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Model "llama3.2" was not found on the server.');
+    });
+  });
+
+  test('shows connection failures', async () => {
+    mockTestLLMConnection.mockRejectedValueOnce(new Error('Network error'));
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByText('Test Connection'));
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('Connection failed: Network error');
+    });
+  });
+
+  test('closes the panel', () => {
+    render(<LLMSettingsPanel onClose={mockOnClose} />);
+
+    fireEvent.click(screen.getByLabelText('Close settings'));
+
+    expect(mockOnClose).toHaveBeenCalled();
+  });
+});
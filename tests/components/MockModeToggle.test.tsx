@@ -1,5 +1,6 @@
 import React from 'react';
 import { render, screen, fireEvent } from '@testing-library/react';
+import { axe } from 'jest-axe';
 import { MockModeToggle } from '../../src/components/MockModeToggle';
 
 describe('MockModeToggle Component', () => {
@@ -98,4 +99,11 @@ describe('MockModeToggle Component', () => {
     const slider = document.querySelector('.toggle-slider');
     expect(slider).toBeInTheDocument();
   });
+
+  test('has no detectable accessibility violations', async () => {
+    const { container } = render(<MockModeToggle onChange={mockOnChange} />);
+
+    expect(screen.getByRole('checkbox', { name: 'Fast mock mode' })).toBeInTheDocument();
+    expect(await axe(container)).toHaveNoViolations();
+  });
 });
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import PromptTemplateEditor from '../../src/components/PromptTemplateEditor';
+import { DEFAULT_PROMPT_TEMPLATE, getCustomPresets } from '../../src/services/promptTemplateService';
+import { PromptTemplate } from '../../src/types';
+
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => 'saved-preset')
+}));
+
+describe('PromptTemplateEditor Component', () => {
+  let currentTemplate: PromptTemplate;
+
+  // Holds the template like InputForm does, so edits show up in the fields
+  const Harness = () => {
+    const [template, setTemplate] = useState<PromptTemplate>(DEFAULT_PROMPT_TEMPLATE);
+    currentTemplate = template;
+    return <PromptTemplateEditor template={template} onChange={setTemplate} />;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('switches between built-in presets', () => {
+    render(<Harness />);
+
+    fireEvent.change(screen.getByLabelText('Preset'), { target: { value: 'children' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Template' }));
+
+    expect(currentTemplate.name).toBe('For children');
+    expect(screen.getByLabelText('Audience')).toHaveValue('a child aged 8 to 11');
+    expect(screen.getByLabelText('Instructions')).toHaveValue(currentTemplate.systemPrompt);
+  });
+
+  test('saves an edited template as a preset and deletes it again', () => {
+    render(<Harness />);
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Template' }));
+
+    fireEvent.change(screen.getByLabelText('Audience'), { target: { value: 'a nursing student' } });
+    expect(screen.getByText('Edited')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Nursing' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Preset' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('Saved preset "Nursing"');
+    expect(screen.getByRole('option', { name: 'Nursing' })).toBeInTheDocument();
+    expect(screen.getByLabelText('Preset')).toHaveValue('saved-preset');
+    expect(screen.queryByText('Edited')).not.toBeInTheDocument();
+    expect(getCustomPresets()).toEqual([expect.objectContaining({ name: 'Nursing', audience: 'a nursing student' })]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Preset' }));
+
+    expect(getCustomPresets()).toEqual([]);
+    expect(screen.queryByRole('option', { name: 'Nursing' })).not.toBeInTheDocument();
+    expect(currentTemplate).toBe(DEFAULT_PROMPT_TEMPLATE);
+  });
+
+  test('explains why a template cannot be saved', () => {
+    render(<Harness />);
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Template' }));
+
+    fireEvent.change(screen.getByLabelText('User message'), { target: { value: 'Make cards.' } });
+    fireEvent.change(screen.getByLabelText('Preset name'), { target: { value: 'Broken' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save Preset' }));
+
+    expect(screen.getByRole('status')).toHaveTextContent('The user message must contain {{content}}');
+    expect(getCustomPresets()).toEqual([]);
+  });
+
+  test('resets edits to the chosen preset', () => {
+    render(<Harness />);
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Template' }));
+
+    fireEvent.change(screen.getByLabelText('Instructions'), { target: { value: 'Only dates.' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Reset' }));
+
+    expect(screen.getByLabelText('Instructions')).toHaveValue(DEFAULT_PROMPT_TEMPLATE.systemPrompt);
+  });
+
+  test('has no accessibility violations', async () => {
+    const { container } = render(<Harness />);
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Template' }));
+
+    expect(await axe(container)).toHaveNoViolations();
+  });
+});
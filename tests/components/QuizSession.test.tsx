@@ -0,0 +1,105 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import QuizSession from '../../src/components/QuizSession';
+import { gradeAnswerWithLLM } from '../../src/services/quizService';
+import { Flashcard } from '../../src/types';
+
+jest.mock('../../src/services/quizService', () => ({
+  ...jest.requireActual('../../src/services/quizService'),
+  gradeAnswerWithLLM: jest.fn()
+}));
+
+describe('QuizSession Component', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'Capital of France?', answer: 'Paris' },
+    { id: '2', type: 'multiple-choice', question: 'Largest planet?', answer: 'Jupiter', options: ['Mars', 'Jupiter'] },
+    { id: '3', type: 'true-false', question: 'The sun is a planet.', answer: 'False' }
+  ];
+
+  const answerTyped = (text: string) => {
+    fireEvent.change(screen.getByLabelText('Your answer'), { target: { value: text } });
+    fireEvent.click(screen.getByRole('button', { name: 'Check Answer' }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    localStorage.clear();
+  });
+
+  test('grades typed and picked answers and shows a summary', () => {
+    render(<QuizSession cards={cards} />);
+
+    expect(screen.getByText('Question 1 of 3')).toBeInTheDocument();
+    answerTyped('paris');
+    expect(screen.getByRole('status')).toHaveTextContent('✅ Correct');
+    fireEvent.click(screen.getByRole('button', { name: 'Next Question' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'A. Mars' }));
+    expect(screen.getByRole('status')).toHaveTextContent('❌ Incorrect');
+    expect(screen.getByText('Answer: B. Jupiter')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Next Question' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'False' }));
+    fireEvent.click(screen.getByRole('button', { name: 'See Results' }));
+
+    expect(screen.getByText('Quiz complete')).toBeInTheDocument();
+    expect(screen.getByText('Score: 67%')).toBeInTheDocument();
+    expect(screen.getAllByRole('row')).toHaveLength(4);
+    expect(screen.getByRole('cell', { name: 'Mars' })).toBeInTheDocument();
+  });
+
+  test('retries only the missed cards', () => {
+    render(<QuizSession cards={cards} />);
+
+    answerTyped('Lyon');
+    fireEvent.click(screen.getByRole('button', { name: 'Next Question' }));
+    fireEvent.click(screen.getByRole('button', { name: 'B. Jupiter' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Next Question' }));
+    fireEvent.click(screen.getByRole('button', { name: 'True' }));
+    fireEvent.click(screen.getByRole('button', { name: 'See Results' }));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Retry Missed Cards (2)' }));
+
+    expect(screen.getByText('Question 1 of 2')).toBeInTheDocument();
+    expect(screen.getByText('Capital of France?')).toBeInTheDocument();
+  });
+
+  test('asks the LLM judge about typed answers the local match rejects', async () => {
+    (gradeAnswerWithLLM as jest.Mock).mockResolvedValue({ verdict: 'partial', feedback: 'Name the city.', gradedBy: 'llm' });
+    render(<QuizSession cards={cards} />);
+
+    fireEvent.click(screen.getByLabelText('Grade typed answers with the LLM'));
+    answerTyped('The French capital');
+
+    await waitFor(() => {
+      expect(screen.getByRole('status')).toHaveTextContent('🟡 Partially correct');
+    });
+    expect(screen.getByText('Name the city.')).toBeInTheDocument();
+    expect(gradeAnswerWithLLM).toHaveBeenCalledWith(cards[0], 'The French capital', undefined, false);
+  });
+
+  test('asks the judge through the mock server when Fast Mock Mode is on', async () => {
+    localStorage.setItem('use_mock_mode', 'true');
+    (gradeAnswerWithLLM as jest.Mock).mockResolvedValue({ verdict: 'correct', feedback: 'Same city.', gradedBy: 'llm' });
+    render(<QuizSession cards={cards} />);
+
+    fireEvent.click(screen.getByLabelText('Grade typed answers with the LLM'));
+    answerTyped('The French capital');
+
+    expect(await screen.findByText('Same city.')).toBeInTheDocument();
+    expect(gradeAnswerWithLLM).toHaveBeenCalledWith(cards[0], 'The French capital', undefined, true);
+  });
+
+  test('falls back to local grading when the judge fails', async () => {
+    (gradeAnswerWithLLM as jest.Mock).mockRejectedValue(new Error('Failed to grade answer: offline'));
+    render(<QuizSession cards={cards} />);
+
+    fireEvent.click(screen.getByLabelText('Grade typed answers with the LLM'));
+    answerTyped('Lyon');
+
+    await waitFor(() => {
+      expect(screen.getByText('Failed to grade answer: offline; graded locally instead')).toBeInTheDocument();
+    });
+    expect(screen.getByRole('status')).toHaveTextContent('❌ Incorrect');
+  });
+});
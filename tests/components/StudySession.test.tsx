@@ -0,0 +1,80 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import StudySession from '../../src/components/StudySession';
+import { Flashcard } from '../../src/types';
+
+describe('StudySession Component', () => {
+  const mockOnGrade = jest.fn();
+  const future = new Date(Date.now() + 5 * 24 * 60 * 60 * 1000);
+
+  const cards: Flashcard[] = [
+    { id: '1', question: 'Question 1', answer: 'Answer 1' },
+    { id: '2', question: 'Question 2', answer: 'Answer 2', review: { easeFactor: 2.5, interval: 5, repetitions: 2, dueDate: future } }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('shows only due cards', () => {
+    render(<StudySession cards={cards} onGrade={mockOnGrade} />);
+
+    expect(screen.getByText('1 cards due')).toBeInTheDocument();
+    expect(screen.getByText('Question 1')).toBeInTheDocument();
+    expect(screen.queryByText('Question 2')).not.toBeInTheDocument();
+  });
+
+  test('reveals grade buttons after showing the answer', () => {
+    render(<StudySession cards={cards} onGrade={mockOnGrade} />);
+
+    expect(screen.queryByRole('button', { name: 'Good' })).not.toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Show Answer' }));
+
+    expect(screen.getByRole('button', { name: 'Again' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Hard' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Good' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Easy' })).toBeInTheDocument();
+  });
+
+  test('calls onGrade with the card id and grade', () => {
+    render(<StudySession cards={cards} onGrade={mockOnGrade} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Show Answer' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Easy' }));
+
+    expect(mockOnGrade).toHaveBeenCalledWith('1', 'easy', expect.any(Number));
+  });
+
+  test('studies only the cards with the chosen tag', () => {
+    const taggedCards: Flashcard[] = [
+      { id: '1', question: 'Question 1', answer: 'Answer 1', tags: ['physics'] },
+      { id: '3', question: 'Question 3', answer: 'Answer 3', tags: ['chemistry'] }
+    ];
+    render(<StudySession cards={taggedCards} onGrade={mockOnGrade} />);
+    expect(screen.getByText('2 cards due')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Study tag'), { target: { value: 'chemistry' } });
+
+    expect(screen.getByText('1 cards due')).toBeInTheDocument();
+    expect(screen.getByText('Question 3')).toBeInTheDocument();
+  });
+
+  test('shows a completion message when nothing is due', () => {
+    render(<StudySession cards={[cards[1]]} onGrade={mockOnGrade} />);
+
+    expect(screen.getByText('No cards are due for review')).toBeInTheDocument();
+  });
+
+  test('shows the answer with Space and grades it with the number keys', () => {
+    render(<StudySession cards={cards} onGrade={mockOnGrade} />);
+
+    fireEvent.keyDown(document.body, { key: '3' });
+    expect(mockOnGrade).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(document.body, { key: ' ' });
+    expect(screen.getByRole('button', { name: 'Good' })).toHaveAttribute('aria-keyshortcuts', '3');
+    fireEvent.keyDown(document.body, { key: '1' });
+
+    expect(mockOnGrade).toHaveBeenCalledWith('1', 'again', expect.any(Number));
+  });
+});
@@ -0,0 +1,65 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import StudyStats from '../../src/components/StudyStats';
+import { getReviewEvents } from '../../src/services/reviewHistoryService';
+import { Flashcard, ReviewEvent } from '../../src/types';
+
+jest.mock('../../src/services/reviewHistoryService', () => ({
+  getReviewEvents: jest.fn()
+}));
+
+const mockGetReviewEvents = getReviewEvents as jest.MockedFunction<typeof getReviewEvents>;
+
+describe('StudyStats Component', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'Capital of Peru?', answer: 'Lima' },
+    { id: '2', question: 'Capital of Chile?', answer: 'Santiago' }
+  ];
+
+  const review = (cardId: string, grade: ReviewEvent['grade'], responseTimeMs: number): ReviewEvent => ({
+    deckId: 'deck-1',
+    cardId,
+    timestamp: new Date(),
+    grade,
+    responseTimeMs
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('shows retention, time spent, hardest cards and the due forecast', async () => {
+    mockGetReviewEvents.mockResolvedValue([
+      review('1', 'again', 10000),
+      review('1', 'good', 4000),
+      review('2', 'easy', 2000),
+      review('2', 'good', 4000)
+    ]);
+    render(<StudyStats deckId="deck-1" cards={cards} />);
+
+    expect(await screen.findByText('75%')).toBeInTheDocument();
+    expect(mockGetReviewEvents).toHaveBeenCalledWith('deck-1');
+    expect(screen.getByText('4')).toBeInTheDocument();
+    expect(screen.getByText('20 s')).toBeInTheDocument();
+    expect(screen.getByText('Capital of Peru?')).toBeInTheDocument();
+    expect(screen.getByText('Forgotten 1 of 2 times')).toBeInTheDocument();
+    expect(screen.queryByText('Capital of Chile?')).not.toBeInTheDocument();
+    expect(screen.getByRole('img', { name: 'Reviews per day over the last 84 days' })).toBeInTheDocument();
+    expect(screen.getByText('Today').parentElement).toHaveTextContent('2');
+  });
+
+  test('shows empty statistics for decks that are not saved', async () => {
+    render(<StudyStats cards={cards} />);
+
+    expect(await screen.findByText('No card has given you trouble yet')).toBeInTheDocument();
+    expect(screen.getByText('–')).toBeInTheDocument();
+    expect(mockGetReviewEvents).not.toHaveBeenCalled();
+  });
+
+  test('reports a history that cannot be loaded', async () => {
+    mockGetReviewEvents.mockRejectedValue(new Error('IndexedDB is not available in this browser'));
+    render(<StudyStats deckId="deck-1" cards={cards} />);
+
+    expect(await screen.findByText('Could not load review history: IndexedDB is not available in this browser')).toBeInTheDocument();
+  });
+});
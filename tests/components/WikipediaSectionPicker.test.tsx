@@ -0,0 +1,50 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import WikipediaSectionPicker from '../../src/components/WikipediaSectionPicker';
+import { WikipediaSection } from '../../src/services/wikipediaService';
+
+describe('WikipediaSectionPicker', () => {
+  const paragraph = (text: string) => [{ type: 'paragraph' as const, text }];
+  const sections: WikipediaSection[] = [
+    { id: 'lead', title: 'Introduction', level: 2, blocks: paragraph('Intro.') },
+    { id: 'History', title: 'History', level: 2, blocks: [] },
+    { id: 'Early', title: 'Early use', level: 3, blocks: paragraph('Willow bark.') },
+    { id: 'Synthesis', title: 'Synthesis', level: 4, blocks: paragraph('Kolbe.') },
+    { id: 'Modern', title: 'Modern use', level: 3, blocks: paragraph('Pills.') },
+    { id: 'Mechanism', title: 'Mechanism', level: 2, blocks: paragraph('COX.') }
+  ];
+
+  test('selecting a section selects all of its subsections', () => {
+    const onChange = jest.fn();
+    render(<WikipediaSectionPicker sections={sections} selectedIds={['lead']} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('History'));
+
+    expect(onChange).toHaveBeenCalledWith(['lead', 'History', 'Early', 'Synthesis', 'Modern']);
+  });
+
+  test('deselecting a subsection leaves its siblings alone', () => {
+    const onChange = jest.fn();
+    const allIds = sections.map(section => section.id);
+    render(<WikipediaSectionPicker sections={sections} selectedIds={allIds} onChange={onChange} />);
+
+    fireEvent.click(screen.getByLabelText('Early use'));
+
+    expect(onChange).toHaveBeenCalledWith(['lead', 'History', 'Modern', 'Mechanism']);
+  });
+
+  test('selects all or none', () => {
+    const onChange = jest.fn();
+    render(<WikipediaSectionPicker sections={sections} selectedIds={['Mechanism']} onChange={onChange} />);
+
+    expect(screen.getByText('1 of 6 sections selected')).toBeInTheDocument();
+    expect(screen.getByLabelText('Mechanism')).toBeChecked();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Select all' }));
+    expect(onChange).toHaveBeenLastCalledWith(sections.map(section => section.id));
+
+    fireEvent.click(screen.getByRole('button', { name: 'Select none' }));
+    expect(onChange).toHaveBeenLastCalledWith([]);
+  });
+});
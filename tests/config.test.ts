@@ -0,0 +1,85 @@
+import {
+  getLLMConfig,
+  getLLMSettings,
+  saveLLMSettings,
+  clearLLMSettings,
+  LLM_SETTINGS_STORAGE_KEY
+} from '../src/config';
+
+describe('LLM config', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    localStorage.clear();
+    process.env = {
+      ...originalEnv,
+      INFERENCE_SERVER_URL: 'https://api.openai.com/v1',
+      MODEL_NAME: 'gpt-env',
+      LLM_API_KEY: 'env-key',
+      LLM_PROVIDER: ''
+    };
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('uses environment values when nothing is saved', () => {
+    const config = getLLMConfig();
+
+    expect(config.baseUrl).toBe('https://api.openai.com/v1');
+    expect(config.model).toBe('gpt-env');
+    expect(config.defaultApiKey).toBe('env-key');
+    expect(config.provider).toBe('openai');
+    expect(config.temperature).toBeUndefined();
+    expect(config.maxTokens).toBeUndefined();
+  });
+
+  test('merges saved settings over the environment', () => {
+    saveLLMSettings({
+      baseUrl: 'http://localhost:11434',
+      model: 'llama3.2',
+      temperature: 0.2,
+      maxTokens: 1000
+    });
+
+    const config = getLLMConfig();
+
+    expect(config.baseUrl).toBe('http://localhost:11434');
+    expect(config.model).toBe('llama3.2');
+    expect(config.defaultApiKey).toBe('env-key');
+    expect(config.provider).toBe('ollama');
+    expect(config.temperature).toBe(0.2);
+    expect(config.maxTokens).toBe(1000);
+  });
+
+  test('accepts explicit overrides and ignores saved settings for {}', () => {
+    saveLLMSettings({ model: 'saved-model' });
+
+    expect(getLLMConfig({ apiKey: 'form-key' }).defaultApiKey).toBe('form-key');
+    expect(getLLMConfig({}).model).toBe('gpt-env');
+  });
+
+  test('drops malformed saved values', () => {
+    localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, JSON.stringify({ model: '  ', temperature: 'hot', maxTokens: 500 }));
+
+    expect(getLLMSettings()).toEqual({
+      baseUrl: undefined,
+      model: undefined,
+      apiKey: undefined,
+      temperature: undefined,
+      maxTokens: 500
+    });
+
+    localStorage.setItem(LLM_SETTINGS_STORAGE_KEY, 'not json');
+    expect(getLLMSettings()).toEqual({});
+  });
+
+  test('clears saved settings', () => {
+    saveLLMSettings({ model: 'saved-model' });
+    clearLLMSettings();
+
+    expect(localStorage.getItem(LLM_SETTINGS_STORAGE_KEY)).toBeNull();
+    expect(getLLMConfig().model).toBe('gpt-env');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { gradeAnswerWithLLM } from '../../src/services/quizService';
+import { findDuplicateGroupsWithLLM } from '../../src/services/duplicateService';
+import { critiqueFlashcards } from '../../src/services/cardQualityService';
+import { PROXY_SERVER_URL } from '../../src/services/providers/openAICompatibleProvider';
+import { Flashcard } from '../../src/types';
+
+// Stands in for the inference server: answers with the target the request would have been forwarded to
+jest.mock('http-proxy-middleware', () => ({
+  createProxyMiddleware: (options: any) => (req: any, res: any) => {
+    res.json({ target: options.router(req) || options.target });
+  }
+}));
+
+describe('Proxy server', () => {
+  const lanServerUrl = 'http://192.168.1.20:1234/v1';
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.INFERENCE_SERVER_URL = lanServerUrl;
+    process.env.INFERENCE_ALLOWED_HOSTS = 'gpu-box.lan';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const app = jest.requireActual('../../server/proxy-server');
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    delete process.env.INFERENCE_SERVER_URL;
+    delete process.env.INFERENCE_ALLOWED_HOSTS;
+    jest.restoreAllMocks();
+  });
+
+  // The global fetch is mocked for the whole suite, so requests go through http directly
+  const requestModels = (serverUrl?: string) => new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const headers = serverUrl ? { 'X-Inference-Server-Url': serverUrl } : {};
+    http.get(`${baseUrl}/api/v1/models`, { headers }, response => {
+      let text = '';
+      response.on('data', chunk => { text += chunk; });
+      response.on('end', () => resolve({ status: response.statusCode || 0, body: JSON.parse(text) }));
+    }).on('error', reject);
+  });
+
+  test('forwards to the configured server on the local network', async () => {
+    const response = await requestModels(lanServerUrl);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ target: lanServerUrl });
+  });
+
+  test('forwards to local servers and the extra allowed hosts', async () => {
+    expect((await requestModels('http://localhost:11434')).status).toBe(200);
+    expect((await requestModels('http://gpu-box.lan:1234/v1')).body).toEqual({ target: 'http://gpu-box.lan:1234/v1' });
+  });
+
+  test('uses the configured server when the browser names none', async () => {
+    expect((await requestModels()).body).toEqual({ target: lanServerUrl });
+  });
+
+  test('refuses other hosts with an error naming the host', async () => {
+    const response = await requestModels('http://10.0.0.9:1234/v1');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe(
+      'The proxy does not forward to 10.0.0.9. Add it to INFERENCE_ALLOWED_HOSTS in .env to allow it.'
+    );
+  });
+
+  describe('Fast Mock Mode', () => {
+    const cards: Flashcard[] = [
+      { id: '1', question: 'What is the capital of France?', answer: 'Paris' },
+      { id: '2', question: 'Name the French capital.', answer: 'Paris' }
+    ];
+
+    // Sends the app's requests for the proxy to the server under test
+    const fetchFromProxy = (url: string, init: { method: string; headers: Record<string, string>; body: string }) => {
+      return new Promise((resolve, reject) => {
+        const request = http.request(url.replace(PROXY_SERVER_URL, baseUrl), { method: init.method, headers: init.headers }, response => {
+          let text = '';
+          response.on('data', chunk => { text += chunk; });
+          response.on('end', () => resolve({
+            ok: response.statusCode === 200,
+            status: response.statusCode,
+            headers: { get: (name: string) => response.headers[name.toLowerCase()] || null },
+            text: async () => text,
+            json: async () => JSON.parse(text)
+          }));
+        });
+        request.on('error', reject);
+        request.end(init.body);
+      });
+    };
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockImplementation(fetchFromProxy);
+    });
+
+    test('answers the LLM answer judge with a verdict', async () => {
+      const grade = await gradeAnswerWithLLM(cards[0], 'The French capital', undefined, true);
+
+      expect(grade).toEqual({
+        verdict: 'partial',
+        feedback: 'Mock mode cannot judge answers; compare yours with the expected answer.',
+        gradedBy: 'llm'
+      });
+    });
+
+    test('answers the paraphrase check with a duplicates list', async () => {
+      const groups = await findDuplicateGroupsWithLLM(cards, undefined, true);
+
+      expect(global.fetch).toHaveBeenCalled();
+      expect(groups).toEqual([]);
+    });
+
+    test('answers the quality review with a passing review of every card', async () => {
+      const critiques = await critiqueFlashcards(cards, undefined, true);
+
+      expect(critiques).toEqual([
+        { cardId: '1', score: 5, issues: [] },
+        { cardId: '2', score: 5, issues: [] }
+      ]);
+    });
+  });
+});
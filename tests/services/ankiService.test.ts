@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import initSqlJs from 'sql.js';
+import JSZip from 'jszip';
+import { exportToApkg, importFromApkg, htmlToText } from '../../src/services/ankiService';
+import { FlashcardSet } from '../../src/types';
+
+describe('Anki Service', () => {
+  const flashcardSet: FlashcardSet = {
+    id: 'deck-1',
+    title: 'Chemistry Basics',
+    source: 'https://en.wikipedia.org/wiki/Chemistry',
+    cards: [
+      { id: 'card-1', question: 'What is H₂O?', answer: 'Water 💧' },
+      { id: 'card-2', question: 'Is <b>bold</b> & "quoted" text kept?', answer: 'Yes,\nacross lines' },
+      { id: 'card-3', question: 'Wie heißt das auf Japanisch?', answer: '水 (みず)' }
+    ],
+    createdAt: new Date('2024-01-01')
+  };
+
+  // Opens the collection inside a package, lets the test change it, and zips it back up
+  const rewriteCollection = async (apkg: Uint8Array, change: (db: any) => void): Promise<Uint8Array> => {
+    const zip = await JSZip.loadAsync(apkg);
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+    change(db);
+    zip.file('collection.anki2', db.export());
+    db.close();
+    return zip.generateAsync({ type: 'uint8array' });
+  };
+
+  test('exports a zip with a collection and a media manifest', async () => {
+    const zip = await JSZip.loadAsync(await exportToApkg(flashcardSet));
+
+    expect(Object.keys(zip.files).sort()).toEqual(['collection.anki2', 'media']);
+    expect(await zip.file('media')!.async('string')).toBe('{}');
+  });
+
+  test('names the Anki deck after the flashcard set and stores one note per card', async () => {
+    const zip = await JSZip.loadAsync(await exportToApkg(flashcardSet));
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+
+    const decks = JSON.parse(String(db.exec('SELECT decks FROM col')[0].values[0][0]));
+    const deckNames = Object.keys(decks).map(id => decks[id].name);
+    expect(deckNames).toEqual(expect.arrayContaining(['Default', 'Chemistry Basics']));
+
+    const notes = db.exec('SELECT guid, flds FROM notes ORDER BY id')[0].values;
+    expect(notes.map(note => note[0])).toEqual(['card-1', 'card-2', 'card-3']);
+    expect(notes[1][1]).toBe('Is &lt;b&gt;bold&lt;/b&gt; &amp; &quot;quoted&quot; text kept?\x1fYes,<br>across lines');
+
+    expect(db.exec('SELECT COUNT(*) FROM cards')[0].values[0][0]).toBe(3);
+    db.close();
+  });
+
+  test('round-trips HTML-like and Unicode content with stable ids', async () => {
+    const imported = await importFromApkg(await exportToApkg(flashcardSet));
+
+    expect(imported.title).toBe('Chemistry Basics');
+    expect(imported.source).toBe('Anki Import');
+    expect(imported.cards).toEqual(flashcardSet.cards);
+  });
+
+  test('round-trips tags and difficulty through Anki note tags', async () => {
+    const taggedSet = {
+      ...flashcardSet,
+      cards: [{ id: 'card-1', question: 'What is H₂O?', answer: 'Water', tags: ['chemistry', 'water'], difficulty: 'easy' as const }]
+    };
+    const apkg = await exportToApkg(taggedSet);
+
+    const zip = await JSZip.loadAsync(apkg);
+    const SQL = await initSqlJs();
+    const db = new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+    expect(db.exec('SELECT tags FROM notes')[0].values[0][0]).toBe(' chemistry water difficulty::easy ');
+    db.close();
+
+    expect((await importFromApkg(apkg)).cards).toEqual(taggedSet.cards);
+  });
+
+  test('converts HTML from notes created in Anki to plain text', async () => {
+    const apkg = await rewriteCollection(await exportToApkg(flashcardSet), (db) => {
+      db.run('UPDATE notes SET flds = ? WHERE guid = ?', [
+        '<div>Capital of <i>France</i>?</div>\x1f<b>Paris</b><br/>Île-de-France&nbsp;&#8212; &#x1F1EB;&#x1F1F7;',
+        'card-1'
+      ]);
+    });
+
+    const imported = await importFromApkg(apkg);
+
+    expect(imported.cards[0]).toEqual({
+      id: 'card-1',
+      question: 'Capital of France?',
+      answer: 'Paris\nÎle-de-France — 🇫🇷'
+    });
+  });
+
+  test('skips notes without a back side', async () => {
+    const apkg = await rewriteCollection(await exportToApkg(flashcardSet), (db) => {
+      db.run('UPDATE notes SET flds = ? WHERE guid = ?', ['Only a front\x1f', 'card-2']);
+    });
+
+    const imported = await importFromApkg(apkg);
+
+    expect(imported.cards.map(card => card.id)).toEqual(['card-1', 'card-3']);
+  });
+
+  test('rejects packages in the newer compressed format', async () => {
+    const zip = new JSZip();
+    zip.file('collection.anki2', 'placeholder');
+    zip.file('collection.anki21b', 'zstd data');
+
+    await expect(importFromApkg(await zip.generateAsync({ type: 'uint8array' })))
+      .rejects.toThrow('This package uses the newer Anki format');
+  });
+
+  test('rejects zip files without a collection', async () => {
+    const zip = new JSZip();
+    zip.file('notes.txt', 'hello');
+
+    await expect(importFromApkg(await zip.generateAsync({ type: 'uint8array' })))
+      .rejects.toThrow('Not an Anki package: collection file is missing');
+  });
+
+  test('strips tags and decodes entities', () => {
+    expect(htmlToText('<p>A &amp; B</p><p>C &lt; D</p>')).toBe('A & B\nC < D');
+    expect(htmlToText('Tom&apos;s &unknown; entity')).toBe("Tom's &unknown; entity");
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  createCard,
+  validateCardChanges,
+  updateCard,
+  deleteCards,
+  restoreCards,
+  moveCard,
+  toggleStarred,
+  addTag,
+  removeTag,
+  setDifficulty
+} from '../../src/services/cardEditingService';
+import { Flashcard } from '../../src/types';
+
+describe('Card Editing Service', () => {
+  const cards: Flashcard[] = [
+    { id: 'a', question: 'Q1', answer: 'A1' },
+    { id: 'b', question: 'Q2', answer: 'A2' },
+    { id: 'c', question: 'Q3', answer: 'A3' },
+    { id: 'd', question: 'Q4', answer: 'A4' }
+  ];
+
+  test('creates a card with a fresh id and trimmed text', () => {
+    const card = createCard({ question: '  What is H2O? ', answer: 'Water ' });
+
+    expect(card.id).toEqual(expect.any(String));
+    expect(card.question).toBe('What is H2O?');
+    expect(card.answer).toBe('Water');
+  });
+
+  test('rejects empty questions or answers', () => {
+    expect(validateCardChanges({ question: ' ', answer: 'A' })).toBe('Question and answer cannot be empty');
+    expect(validateCardChanges({ question: 'Q', answer: '' })).toBe('Question and answer cannot be empty');
+    expect(validateCardChanges({ question: 'Q', answer: 'A' })).toBeNull();
+  });
+
+  test('updates a card in place, keeping its id and review state', () => {
+    const review = { easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: new Date() };
+    const updated = updateCard([{ ...cards[0], review }, cards[1]], 'a', { question: 'New Q', answer: 'New A' });
+
+    expect(updated[0]).toEqual({ id: 'a', question: 'New Q', answer: 'New A', review });
+    expect(updated[1]).toBe(cards[1]);
+  });
+
+  test('updates the correct option of a multiple choice card along with its answer', () => {
+    const choice: Flashcard = { id: 'm', type: 'multiple-choice', question: 'Q', answer: 'Rome', options: ['Milan', 'Rome'] };
+    const [updated] = updateCard([choice], 'm', { question: 'Q', answer: 'Roma' });
+
+    expect(updated).toEqual({ ...choice, answer: 'Roma', options: ['Milan', 'Roma'] });
+  });
+
+  test('deletes cards and restores them at their original positions', () => {
+    const result = deleteCards(cards, ['b', 'd']);
+
+    expect(result.cards.map(card => card.id)).toEqual(['a', 'c']);
+    expect(result.deleted).toEqual([{ card: cards[1], index: 1 }, { card: cards[3], index: 3 }]);
+    expect(restoreCards(result.cards, result.deleted).map(card => card.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('restores deleted cards at the end when the deck has shrunk', () => {
+    const { deleted } = deleteCards(cards, ['d']);
+
+    expect(restoreCards([cards[0]], deleted).map(card => card.id)).toEqual(['a', 'd']);
+  });
+
+  test('does not duplicate cards that are already back in the deck', () => {
+    const { deleted } = deleteCards(cards, ['b']);
+
+    expect(restoreCards(cards, deleted).map(card => card.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('moves a card to a new position', () => {
+    expect(moveCard(cards, 0, 2).map(card => card.id)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveCard(cards, 3, 0).map(card => card.id)).toEqual(['d', 'a', 'b', 'c']);
+    expect(moveCard(cards, 1, 1)).toBe(cards);
+  });
+
+  test('stars and unstars a card', () => {
+    const starred = toggleStarred(cards, 'b');
+    expect(starred[1]).toEqual({ id: 'b', question: 'Q2', answer: 'A2', starred: true });
+    expect(starred[0]).toBe(cards[0]);
+
+    expect(toggleStarred(starred, 'b')[1].starred).toBe(false);
+  });
+
+  test('adds normalized tags once and removes them', () => {
+    const tagged = addTag(addTag(cards, 'a', ' Organic Chemistry '), 'a', 'organic-chemistry');
+    expect(tagged[0].tags).toEqual(['organic-chemistry']);
+    expect(addTag(cards, 'a', '  ')[0]).toBe(cards[0]);
+
+    expect(removeTag(tagged, 'a', 'organic-chemistry')[0].tags).toEqual([]);
+  });
+
+  test('sets and clears the difficulty', () => {
+    expect(setDifficulty(cards, 'c', 'hard')[2].difficulty).toBe('hard');
+    expect(setDifficulty(cards, 'c')[2].difficulty).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  critiqueFlashcards,
+  applyRevisions,
+  getRevisedCritiques,
+  CardCritique,
+  CRITIQUE_BATCH_SIZE
+} from '../../src/services/cardQualityService';
+import { getLLMProvider } from '../../src/services/llmProvider';
+import { Flashcard } from '../../src/types';
+
+jest.mock('../../src/config', () => ({
+  ...jest.requireActual('../../src/config'),
+  getLLMConfig: jest.fn().mockReturnValue({ baseUrl: 'http://test-api.com', model: 'test-model' })
+}));
+
+jest.mock('../../src/services/llmProvider', () => ({
+  getLLMProvider: jest.fn()
+}));
+
+describe('Card Quality Service', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'What does the heart, which pumps blood, do?', answer: 'It pumps blood', tags: ['heart'] },
+    { id: '2', question: 'Which planet is the largest?', answer: 'Jupiter' },
+    { id: '3', type: 'true-false', question: 'The sun is a planet.', answer: 'False', explanation: 'It is a star.' }
+  ];
+
+  const mockResponse = (...responses: string[]) => {
+    const complete = jest.fn();
+    responses.forEach(response => complete.mockResolvedValueOnce(response));
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete });
+    return complete;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('scores cards and keeps valid rewrites of weak ones', async () => {
+    const complete = mockResponse(JSON.stringify({
+      reviews: [
+        { card: 1, score: 2, issues: ['giveaway', 'made-up'], rewrite: { question: 'What does the heart do?', answer: 'Pumps blood' } },
+        { card: 2, score: 5, issues: [] },
+        { card: 3, score: 3, issues: ['ambiguous'], rewrite: { type: 'true-false', question: 'The sun is a planet.', answer: 'maybe' } }
+      ]
+    }));
+
+    const critiques = await critiqueFlashcards(cards);
+
+    expect(critiques).toEqual([
+      { cardId: '1', score: 2, issues: ['giveaway'], revision: { question: 'What does the heart do?', answer: 'Pumps blood' } },
+      { cardId: '2', score: 5, issues: [] },
+      { cardId: '3', score: 3, issues: ['ambiguous'] }
+    ]);
+    const request = complete.mock.calls[0][0];
+    expect(request.temperature).toBe(0);
+    expect(request.messages[1].content).toBe([
+      'Card 1: {"question":"What does the heart, which pumps blood, do?","answer":"It pumps blood"}',
+      'Card 2: {"question":"Which planet is the largest?","answer":"Jupiter"}',
+      'Card 3: {"type":"true-false","question":"The sun is a planet.","answer":"False","explanation":"It is a star."}'
+    ].join('\n\n'));
+  });
+
+  test('ignores rewrites of passing cards and rewrites that change the type or nothing', async () => {
+    mockResponse(JSON.stringify({
+      reviews: [
+        { card: 1, score: 1, rewrite: { type: 'cloze', question: 'The {{heart}} pumps blood.' } },
+        { card: 2, score: 4, rewrite: { question: 'Name the largest planet.', answer: 'Jupiter' } },
+        { card: 3, score: 9, rewrite: { question: 'The sun is a planet.', answer: 'False', explanation: 'It is a star.' } }
+      ]
+    }));
+
+    const critiques = await critiqueFlashcards(cards);
+
+    expect(getRevisedCritiques(critiques)).toEqual([]);
+    expect(critiques[2].score).toBe(5);
+  });
+
+  test('reviews long decks in batches', async () => {
+    const deck = Array.from({ length: CRITIQUE_BATCH_SIZE + 1 }, (_, index) => ({
+      id: String(index), question: `Question ${index}?`, answer: `Answer ${index}`
+    }));
+    const complete = mockResponse('{"reviews": [{"card": 1, "score": 5}]}', '{"reviews": [{"card": 1, "score": 3}]}');
+
+    const critiques = await critiqueFlashcards(deck);
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(critiques.map(critique => critique.cardId)).toEqual(['0', String(CRITIQUE_BATCH_SIZE)]);
+  });
+
+  test('reports responses without a reviews list', async () => {
+    mockResponse('{"flashcards": []}');
+
+    await expect(critiqueFlashcards(cards)).rejects.toThrow('Failed to review card quality: the response did not contain a reviews list');
+  });
+
+  test('applies only accepted rewrites and keeps card metadata', () => {
+    const critiques: CardCritique[] = [
+      { cardId: '1', score: 2, issues: ['giveaway'], revision: { question: 'What does the heart do?', answer: 'Pumps blood' } },
+      { cardId: '3', score: 3, issues: [], revision: { type: 'true-false', question: 'The sun is a star.', answer: 'True' } }
+    ];
+
+    const updated = applyRevisions(cards, critiques, ['1', '3']);
+
+    expect(updated[0]).toEqual({ id: '1', question: 'What does the heart do?', answer: 'Pumps blood', tags: ['heart'] });
+    expect(updated[1]).toBe(cards[1]);
+    expect(updated[2]).toEqual({ id: '3', type: 'true-false', question: 'The sun is a star.', answer: 'True' });
+    expect(applyRevisions(cards, critiques, [])).toEqual(cards);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  getCardSource,
+  parseSourceContent,
+  getSourceExcerpt,
+  applyRefinement,
+  undoRefinement
+} from '../../src/services/cardRefinementService';
+import { Flashcard } from '../../src/types';
+
+describe('Card Refinement Service', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'Q1', answer: 'A1' },
+    { id: '2', question: 'Q2', answer: 'A2', section: 'History' },
+    { id: '3', question: 'Q3', answer: 'A3' }
+  ];
+  const newCards: Flashcard[] = [
+    { id: 'new-1', question: 'New 1', answer: 'N1' },
+    { id: 'new-2', question: 'New 2', answer: 'N2' }
+  ];
+
+  test('finds the text or section a card was generated from', () => {
+    const sections = [{ title: 'Intro', text: 'Intro text' }, { title: 'History', text: 'History text' }];
+
+    expect(getCardSource(cards[1], sections)).toBe('History text');
+    expect(getCardSource(cards[0], sections)).toBe('');
+    expect(getCardSource(cards[0], 'Whole text')).toBe('Whole text');
+    expect(getCardSource(cards[0])).toBe('');
+  });
+
+  test('reads source content back from export files', () => {
+    expect(parseSourceContent('Whole text')).toBe('Whole text');
+    expect(parseSourceContent([{ title: 'Intro', text: 'Intro text', extra: true }, { title: 'No text' }, null]))
+      .toEqual([{ title: 'Intro', text: 'Intro text' }]);
+    expect(parseSourceContent('')).toBeUndefined();
+    expect(parseSourceContent([{ title: 'No text' }])).toBeUndefined();
+    expect(parseSourceContent({ title: 'Intro', text: 'Intro text' })).toBeUndefined();
+  });
+
+  test('cuts an excerpt around the quote from long sources', () => {
+    const source = `${'a'.repeat(100)}QUOTE${'b'.repeat(100)}`;
+    const card: Flashcard = { id: '1', question: 'Q', answer: 'A', provenance: { quote: 'QUOTE', start: 100, end: 105 } };
+
+    expect(getSourceExcerpt(card, source, 25)).toBe(`${'a'.repeat(10)}QUOTE${'b'.repeat(10)}`);
+    expect(getSourceExcerpt(card, source, 1000)).toBe(source);
+    expect(getSourceExcerpt({ ...card, provenance: { quote: 'QUOTE', start: 0, end: 5 } }, source, 25)).toBe('a'.repeat(25));
+  });
+
+  test('falls back to the quote when the source cannot be used', () => {
+    const card: Flashcard = { id: '1', question: 'Q', answer: 'A', provenance: { quote: 'Unverified quote' } };
+
+    expect(getSourceExcerpt(card, '')).toBe('Unverified quote');
+    expect(getSourceExcerpt(card, 'x'.repeat(100), 25)).toBe('Unverified quote');
+    expect(getSourceExcerpt(cards[0], '')).toBe('');
+  });
+
+  test('replaces a card with its refined versions and undoes it', () => {
+    const { cards: refined, refinement } = applyRefinement(cards, '2', 'split', newCards);
+
+    expect(refined.map(card => card.id)).toEqual(['1', 'new-1', 'new-2', '3']);
+    expect(undoRefinement(refined, refinement)).toEqual(cards);
+  });
+
+  test('adds more cards after the card and removes them again on undo', () => {
+    const { cards: refined, refinement } = applyRefinement(cards, '1', 'more', newCards);
+
+    expect(refined.map(card => card.id)).toEqual(['1', 'new-1', 'new-2', '2', '3']);
+    expect(refinement.replaced).toBeUndefined();
+    expect(undoRefinement(refined, refinement)).toEqual(cards);
+  });
+
+  test('refuses to refine cards that are gone', () => {
+    expect(() => applyRefinement(cards, 'missing', 'regenerate', newCards)).toThrow('The card no longer exists');
+  });
+});
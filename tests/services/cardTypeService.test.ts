@@ -0,0 +1,98 @@
+import {
+  parseCardContent,
+  parseCardType,
+  getClozeDeletions,
+  hideClozeDeletions,
+  formatCardFront,
+  formatCardBack
+} from '../../src/services/cardTypeService';
+import { Flashcard } from '../../src/types';
+
+describe('Card Type Service', () => {
+  test('recognises card type names written in different ways', () => {
+    expect(parseCardType(undefined)).toBe('basic');
+    expect(parseCardType('Multiple Choice')).toBe('multiple-choice');
+    expect(parseCardType('true_false')).toBe('true-false');
+    expect(parseCardType('True/False')).toBe('true-false');
+    expect(parseCardType('essay')).toBeNull();
+  });
+
+  test('finds and hides cloze deletions', () => {
+    const text = 'The {{mitochondrion}} produces {{ ATP }}.';
+    expect(getClozeDeletions(text)).toEqual(['mitochondrion', 'ATP']);
+    expect(hideClozeDeletions(text)).toBe('The _____ produces _____.');
+  });
+
+  test('keeps basic cards as plain question/answer content', () => {
+    expect(parseCardContent({ question: ' Q ', answer: ' A ' })).toEqual({ content: { question: 'Q', answer: 'A' } });
+    expect(parseCardContent({ type: 'basic', question: 'Q', answer: '' }).reason).toBe('answer is missing or empty');
+  });
+
+  test('derives the cloze answer from the deletions when it is missing', () => {
+    expect(parseCardContent({ type: 'cloze', question: '{{Paris}} is the capital of {{France}}.' })).toEqual({
+      content: { type: 'cloze', question: '{{Paris}} is the capital of {{France}}.', answer: 'Paris, France' }
+    });
+    expect(parseCardContent({ type: 'cloze', question: 'Paris is a city.', answer: 'Paris' }).reason)
+      .toBe('cloze text has no {{...}} deletion');
+  });
+
+  test('adds the answer to multiple choice options and drops repeats', () => {
+    expect(parseCardContent({
+      type: 'multiple-choice',
+      question: 'Largest planet?',
+      answer: 'jupiter',
+      options: ['Mars', 'Jupiter', 'mars', ' ', 'Venus']
+    })).toEqual({
+      content: { type: 'multiple-choice', question: 'Largest planet?', answer: 'Jupiter', options: ['Mars', 'Jupiter', 'Venus'] }
+    });
+    expect(parseCardContent({ type: 'multiple-choice', question: 'Q', answer: 'A', options: ['A'] }).reason)
+      .toBe('multiple choice needs at least 2 options');
+    expect(parseCardContent({ type: 'multiple-choice', question: 'Q', answer: 'A' }).reason)
+      .toBe('multiple choice options are missing');
+  });
+
+  test('inserts a missing answer at a position that depends on the question', () => {
+    const optionsFor = (question: string) => parseCardContent({
+      type: 'multiple-choice',
+      question,
+      answer: 'Paris',
+      options: ['Lyon', 'Nice', 'Lille']
+    }).content as { options: string[] };
+
+    const positions = ['Capital of France?', 'Seat of the French government?', 'Largest French city?', 'City of the Louvre?', 'City on the Seine?']
+      .map(question => optionsFor(question).options.indexOf('Paris'));
+
+    expect(positions.every(position => position !== -1)).toBe(true);
+    expect(positions.some(position => position !== 3)).toBe(true);
+    expect(optionsFor('Capital of France?')).toEqual(optionsFor('Capital of France?'));
+    expect(optionsFor('Capital of France?').options.filter(option => option !== 'Paris')).toEqual(['Lyon', 'Nice', 'Lille']);
+  });
+
+  test('normalizes true/false answers and keeps the explanation', () => {
+    expect(parseCardContent({ type: 'true-false', question: 'Water boils at 50 °C.', answer: false, explanation: ' It boils at 100 °C. ' }))
+      .toEqual({
+        content: { type: 'true-false', question: 'Water boils at 50 °C.', answer: 'False', explanation: 'It boils at 100 °C.' }
+      });
+    expect(parseCardContent({ type: 'true-false', question: 'S', answer: 'TRUE' }).content)
+      .toEqual({ type: 'true-false', question: 'S', answer: 'True' });
+    expect(parseCardContent({ type: 'true-false', question: 'S', answer: 'maybe' }).reason)
+      .toBe('true/false answer must be True or False');
+  });
+
+  test('formats every card type as plain text', () => {
+    const cards: Flashcard[] = [
+      { id: '1', question: 'Q', answer: 'A' },
+      { id: '2', type: 'cloze', question: 'The {{Nile}} is long.', answer: 'Nile' },
+      { id: '3', type: 'multiple-choice', question: 'Capital of Italy?', answer: 'Rome', options: ['Milan', 'Rome'] },
+      { id: '4', type: 'true-false', question: 'The sun is a star.', answer: 'True', explanation: 'It is a G-type star.' }
+    ];
+
+    expect(cards.map(formatCardFront)).toEqual([
+      'Q',
+      'The _____ is long.',
+      'Capital of Italy?\nA. Milan\nB. Rome',
+      'True or false: The sun is a star.'
+    ]);
+    expect(cards.map(formatCardBack)).toEqual(['A', 'The Nile is long.', 'B. Rome', 'True. It is a G-type star.']);
+  });
+});
@@ -0,0 +1,71 @@
+import { chunkContent, chunkSections, getTargetCardCount, DEFAULT_CHUNK_SIZE } from '../../src/services/chunkingService';
+
+describe('Chunking Service', () => {
+  const paragraph = (label: string, length: number) => {
+    const sentence = `${label} is described here. `;
+    return sentence.repeat(Math.ceil(length / sentence.length)).substring(0, length).trim() + '.';
+  };
+
+  test('returns short content as a single chunk', () => {
+    expect(chunkContent('A short paragraph about cells.')).toEqual(['A short paragraph about cells.']);
+  });
+
+  test('returns no chunks for empty content', () => {
+    expect(chunkContent('   ')).toEqual([]);
+  });
+
+  test('packs paragraphs into chunks without splitting them', () => {
+    const content = [paragraph('Alpha', 400), paragraph('Beta', 400), paragraph('Gamma', 400)].join('\n\n');
+    const chunks = chunkContent(content, 900);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toContain('Alpha');
+    expect(chunks[0]).toContain('Beta');
+    expect(chunks[1]).toContain('Gamma');
+    expect(chunks[1]).not.toContain('Beta');
+  });
+
+  test('keeps section headings with the following paragraph', () => {
+    const content = [paragraph('Intro', 500), 'History', paragraph('Past', 500)].join('\n\n');
+    const chunks = chunkContent(content, 700);
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1].startsWith('History\n\nPast')).toBe(true);
+  });
+
+  test('never lets a chunk span two sections', () => {
+    const chunks = chunkSections([
+      { title: 'History', text: [paragraph('Past', 400), paragraph('Later', 400)].join('\n\n') },
+      { title: 'Mechanism', text: paragraph('Enzyme', 100) }
+    ], 700);
+
+    expect(chunks.map(chunk => chunk.section)).toEqual(['History', 'History', 'Mechanism']);
+    expect(chunks[1].text.startsWith('## History\n\nLater')).toBe(true);
+    expect(chunks[2].text).not.toContain('Later');
+  });
+
+  test('splits oversized paragraphs on sentence boundaries', () => {
+    const content = paragraph('Photosynthesis', 2500);
+    const chunks = chunkContent(content, 1000);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach(chunk => {
+      expect(chunk.length).toBeLessThanOrEqual(1000);
+      expect(chunk.endsWith('.')).toBe(true);
+    });
+  });
+
+  test('hard-splits text that has no sentence boundaries', () => {
+    const chunks = chunkContent('A'.repeat(5000));
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toHaveLength(DEFAULT_CHUNK_SIZE);
+    expect(chunks.join('')).toHaveLength(5000);
+  });
+
+  test('scales target card count with chunk length within bounds', () => {
+    expect(getTargetCardCount('short')).toBe(3);
+    expect(getTargetCardCount('x'.repeat(2000))).toBe(8);
+    expect(getTargetCardCount('x'.repeat(10000))).toBe(15);
+  });
+});
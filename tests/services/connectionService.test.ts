@@ -0,0 +1,84 @@
+import { checkProxyHealth, testLLMConnection } from '../../src/services/connectionService';
+import { LLMConfig } from '../../src/config';
+
+console.log = jest.fn();
+
+describe('Connection Service', () => {
+  const config: LLMConfig = {
+    baseUrl: 'http://localhost:1234/v1',
+    model: 'test-model',
+    defaultApiKey: '',
+    provider: 'lmstudio'
+  };
+
+  const healthResponse = (status: string) => ({
+    ok: true,
+    json: jest.fn().mockResolvedValueOnce({ status })
+  });
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  test('reports the proxy as healthy when /health answers ok', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(healthResponse('ok'));
+
+    expect(await checkProxyHealth()).toBe(true);
+    expect(global.fetch).toHaveBeenCalledWith('http://localhost:3001/health');
+  });
+
+  test('reports the proxy as unhealthy when it cannot be reached', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Failed to fetch'));
+
+    expect(await checkProxyHealth()).toBe(false);
+  });
+
+  test('lists models through the proxy for local servers', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(healthResponse('ok'))
+      .mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ data: [{ id: 'test-model' }, { id: 'other-model' }] })
+      });
+
+    const result = await testLLMConnection(config);
+
+    expect(result).toEqual({ proxyHealthy: true, models: ['test-model', 'other-model'] });
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[1];
+    expect(url).toBe('http://localhost:3001/api/v1/models');
+    expect(init.headers['X-Inference-Server-Url']).toBe('http://localhost:1234/v1');
+  });
+
+  test('lists Ollama models from its tags endpoint', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(healthResponse('ok'))
+      .mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ models: [{ name: 'llama3.2:latest' }] })
+      });
+
+    const result = await testLLMConnection({ ...config, baseUrl: 'http://localhost:11434', provider: 'ollama' });
+
+    expect(result.models).toEqual(['llama3.2:latest']);
+    expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe('http://localhost:11434/api/tags');
+  });
+
+  test('points at the proxy when the model listing fails and the proxy is down', async () => {
+    (global.fetch as jest.Mock)
+      .mockRejectedValueOnce(new Error('Failed to fetch'))
+      .mockRejectedValueOnce(new Error('Failed to fetch'));
+
+    await expect(testLLMConnection(config)).rejects.toThrow(
+      'Network error when connecting to http://localhost:3001/api/v1: Failed to fetch (the proxy server at http://localhost:3001 is not responding; start it with npm run proxy)'
+    );
+  });
+
+  test('reports HTTP errors from the model listing', async () => {
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(healthResponse('ok'))
+      .mockResolvedValueOnce({ ok: false, status: 401, text: jest.fn().mockResolvedValueOnce('Invalid API key') });
+
+    await expect(testLLMConnection({ ...config, baseUrl: 'https://api.openai.com/v1', provider: 'openai' }))
+      .rejects.toThrow('Model listing failed: 401 Invalid API key');
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  parseCsv,
+  detectDelimiter,
+  guessColumnMapping,
+  buildCardsFromRecords,
+  formatCardsAsCsv,
+  parseTags,
+  NO_COLUMN
+} from '../../src/services/csvService';
+
+describe('CSV Service', () => {
+  describe('parseCsv', () => {
+    test('parses quoted fields with delimiters, escaped quotes and newlines', () => {
+      const { records } = parseCsv('Question,Answer\r\n"a, b","say ""hi"""\r\n"multi\nline",plain\r\n');
+
+      expect(records).toEqual([
+        ['Question', 'Answer'],
+        ['a, b', 'say "hi"'],
+        ['multi\nline', 'plain']
+      ]);
+    });
+
+    test('parses what the CSV export writes', () => {
+      const exported = [['Question', 'Answer'], ['Q, with "quotes"', 'A\nwith newline']]
+        .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+        .join('\n');
+
+      expect(parseCsv(exported).records[1]).toEqual(['Q, with "quotes"', 'A\nwith newline']);
+    });
+
+    test('strips a byte order mark', () => {
+      expect(parseCsv('\uFEFFQuestion,Answer\nq,a').records[0]).toEqual(['Question', 'Answer']);
+    });
+
+    test('keeps empty fields and blank lines', () => {
+      expect(parseCsv('a,,c\n\nd,e,').records).toEqual([['a', '', 'c'], [''], ['d', 'e', '']]);
+    });
+
+    test('detects semicolon and tab delimiters', () => {
+      expect(parseCsv('Question;Answer\n"1,5";one and a half').records[1]).toEqual(['1,5', 'one and a half']);
+      expect(parseCsv('Question\tAnswer\nq\ta, b').delimiter).toBe('\t');
+    });
+
+    test('reports unterminated quotes with their line', () => {
+      expect(() => parseCsv('Question,Answer\nq,"never closed\nstill open')).toThrow(
+        'Unterminated quoted field starting on line 2'
+      );
+    });
+  });
+
+  test('ignores delimiters inside quotes when detecting', () => {
+    expect(detectDelimiter('"a;b;c",x,y\n')).toBe(',');
+    expect(detectDelimiter('plain')).toBe(',');
+  });
+
+  test('guesses column mapping from common header names', () => {
+    expect(guessColumnMapping(['Tags', 'Front', 'Back'])).toEqual({
+      question: 1,
+      answer: 2,
+      tags: 0,
+      type: NO_COLUMN,
+      options: NO_COLUMN,
+      difficulty: NO_COLUMN,
+      explanation: NO_COLUMN
+    });
+    expect(guessColumnMapping(['Title', 'Description'])).toEqual({
+      question: NO_COLUMN,
+      answer: NO_COLUMN,
+      tags: NO_COLUMN,
+      type: NO_COLUMN,
+      options: NO_COLUMN,
+      difficulty: NO_COLUMN,
+      explanation: NO_COLUMN
+    });
+    expect(guessColumnMapping(['Question', 'Answer', 'Type', 'Options'])).toMatchObject({ type: 2, options: 3 });
+    expect(guessColumnMapping(['Question', 'Answer', 'Tags', 'Difficulty'])).toMatchObject({ tags: 2, difficulty: 3 });
+    expect(guessColumnMapping(['Question', 'Answer', 'Explanation'])).toMatchObject({ explanation: 2 });
+  });
+
+  test('splits tags on commas, semicolons and spaces', () => {
+    expect(parseTags('biology, cells;exam  week1')).toEqual(['biology', 'cells', 'exam', 'week1']);
+    expect(parseTags('Biology #cells biology')).toEqual(['biology', 'cells']);
+  });
+
+  describe('buildCardsFromRecords', () => {
+    const mapping = { question: 0, answer: 1, tags: 2, type: NO_COLUMN, options: NO_COLUMN, difficulty: NO_COLUMN, explanation: NO_COLUMN };
+
+    test('builds cards with tags from mapped columns', () => {
+      const { cards, errors } = buildCardsFromRecords([['Q1', 'A1', 'one two'], ['Q2', 'A2', '']], mapping, 2);
+
+      expect(errors).toEqual([]);
+      expect(cards).toEqual([
+        { id: expect.any(String), question: 'Q1', answer: 'A1', tags: ['one', 'two'] },
+        { id: expect.any(String), question: 'Q2', answer: 'A2' }
+      ]);
+    });
+
+    test('reads the difficulty column, ignoring unknown levels', () => {
+      const { cards } = buildCardsFromRecords(
+        [['Q1', 'A1', 'Hard'], ['Q2', 'A2', 'impossible']],
+        { ...mapping, tags: NO_COLUMN, difficulty: 2 }
+      );
+
+      expect(cards[0].difficulty).toBe('hard');
+      expect(cards[1]).not.toHaveProperty('difficulty');
+    });
+
+    test('reports incomplete rows with their file row numbers', () => {
+      const { cards, errors } = buildCardsFromRecords(
+        [['Q1', 'A1'], ['Q2', '  '], [''], ['only question'], ['', '']],
+        mapping,
+        2
+      );
+
+      expect(cards).toHaveLength(1);
+      expect(errors).toEqual([
+        { row: 3, message: 'missing answer' },
+        { row: 5, message: 'missing answer (row has only 1 column)' }
+      ]);
+    });
+
+    test('keeps card types and multiple choice options from exported files', () => {
+      const typedMapping = { question: 0, answer: 1, tags: NO_COLUMN, type: 2, options: 3, difficulty: NO_COLUMN, explanation: NO_COLUMN };
+      const { cards, errors } = buildCardsFromRecords([
+        ['Capital of France?', 'Paris', 'multiple-choice', 'Lyon | Paris | Nice'],
+        ['The {{Seine}} flows through Paris.', 'Seine', 'cloze', ''],
+        ['Paris is in Spain.', 'false', 'true-false', ''],
+        ['Q', 'A', 'essay', '']
+      ], typedMapping, 2);
+
+      expect(cards).toEqual([
+        { id: expect.any(String), type: 'multiple-choice', question: 'Capital of France?', answer: 'Paris', options: ['Lyon', 'Paris', 'Nice'] },
+        { id: expect.any(String), type: 'cloze', question: 'The {{Seine}} flows through Paris.', answer: 'Seine' },
+        { id: expect.any(String), type: 'true-false', question: 'Paris is in Spain.', answer: 'False' }
+      ]);
+      expect(errors).toEqual([{ row: 5, message: 'unknown card type "essay"' }]);
+    });
+  });
+
+  test('imports exported files again without losing card types, explanations, tags or difficulty', () => {
+    const exported = [
+      { id: '1', question: 'What is "mitosis"?', answer: 'Cell division, in two', tags: ['biology'], difficulty: 'easy' as const },
+      { id: '2', type: 'multiple-choice' as const, question: 'Capital of France?', answer: 'Paris', options: ['Lyon', 'Paris', 'Nice'] },
+      { id: '3', type: 'true-false' as const, question: 'Paris is in Spain.', answer: 'False', explanation: 'It is in France.' },
+      { id: '4', type: 'cloze' as const, question: 'The {{Seine}} flows through Paris.', answer: 'Seine' }
+    ];
+
+    const { records } = parseCsv(formatCardsAsCsv(exported));
+    const { cards, errors } = buildCardsFromRecords(records.slice(1), guessColumnMapping(records[0]), 2);
+
+    expect(errors).toEqual([]);
+    expect(cards).toEqual(exported.map(card => ({ ...card, id: expect.any(String) })));
+  });
+});
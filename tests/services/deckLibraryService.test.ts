@@ -0,0 +1,128 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  listDecks,
+  getDeck,
+  saveDeck,
+  renameDeck,
+  duplicateDeck,
+  deleteDeck,
+  mergeDecks,
+  splitDeck
+} from '../../src/services/deckLibraryService';
+import { FlashcardSet } from '../../src/types';
+
+describe('Deck Library Service', () => {
+  const createSet = (title: string, createdAt: string): FlashcardSet => ({
+    title,
+    source: 'Test Source',
+    cards: [
+      { id: 'card-1', question: 'Question 1', answer: 'Answer 1' },
+      { id: 'card-2', question: 'Question 2', answer: 'Answer 2' }
+    ],
+    createdAt: new Date(createdAt)
+  });
+
+  beforeEach(() => {
+    global.indexedDB = new IDBFactory();
+  });
+
+  test('saves a deck and assigns an id', async () => {
+    const saved = await saveDeck(createSet('Biology', '2024-01-01T00:00:00.000Z'));
+
+    expect(saved.id).toEqual(expect.any(String));
+    const loaded = await getDeck(saved.id!);
+    expect(loaded).toEqual(saved);
+  });
+
+  test('keeps an existing id so saving again updates the deck', async () => {
+    const saved = await saveDeck({ ...createSet('Biology', '2024-01-01T00:00:00.000Z'), id: 'deck-1' });
+    await saveDeck({ ...saved, cards: saved.cards.slice(0, 1) });
+
+    const decks = await listDecks();
+    expect(decks).toHaveLength(1);
+    expect(decks[0]).toEqual({
+      id: 'deck-1',
+      title: 'Biology',
+      source: 'Test Source',
+      createdAt: new Date('2024-01-01T00:00:00.000Z'),
+      cardCount: 1
+    });
+  });
+
+  test('lists decks newest first', async () => {
+    await saveDeck(createSet('Older', '2024-01-01T00:00:00.000Z'));
+    await saveDeck(createSet('Newer', '2024-02-01T00:00:00.000Z'));
+
+    const decks = await listDecks();
+    expect(decks.map(deck => deck.title)).toEqual(['Newer', 'Older']);
+  });
+
+  test('returns null for unknown decks', async () => {
+    expect(await getDeck('missing')).toBeNull();
+  });
+
+  test('renames a deck', async () => {
+    const saved = await saveDeck(createSet('Biology', '2024-01-01T00:00:00.000Z'));
+    await renameDeck(saved.id!, '  Cell Biology  ');
+
+    expect((await getDeck(saved.id!))?.title).toBe('Cell Biology');
+  });
+
+  test('rejects empty titles and unknown decks when renaming', async () => {
+    const saved = await saveDeck(createSet('Biology', '2024-01-01T00:00:00.000Z'));
+
+    await expect(renameDeck(saved.id!, '   ')).rejects.toThrow('Deck title cannot be empty');
+    await expect(renameDeck('missing', 'New title')).rejects.toThrow('Deck not found: missing');
+  });
+
+  test('duplicates a deck with new deck and card ids', async () => {
+    const saved = await saveDeck(createSet('Biology', '2024-01-01T00:00:00.000Z'));
+    const copy = await duplicateDeck(saved.id!);
+
+    expect(copy.id).not.toBe(saved.id);
+    expect(copy.title).toBe('Biology (copy)');
+    expect(copy.cards.map(card => card.question)).toEqual(['Question 1', 'Question 2']);
+    expect(copy.cards.map(card => card.id)).not.toContain('card-1');
+    expect(await listDecks()).toHaveLength(2);
+  });
+
+  test('saves merged decks as a new deck', async () => {
+    const first = await saveDeck(createSet('Biology', '2024-01-01T00:00:00.000Z'));
+    const second = await saveDeck(createSet('Chemistry', '2024-01-02T00:00:00.000Z'));
+
+    const merged = await mergeDecks([first.id!, second.id!]);
+
+    expect(merged.id).not.toBe(first.id);
+    expect(merged.title).toBe('Biology + Chemistry');
+    expect((await getDeck(merged.id!))?.cards).toHaveLength(4);
+    expect(await listDecks()).toHaveLength(3);
+    await expect(mergeDecks([first.id!, 'missing'])).rejects.toThrow('Deck not found: missing');
+  });
+
+  test('saves each part of a split deck and keeps the original', async () => {
+    const set = createSet('Biology', '2024-01-01T00:00:00.000Z');
+    const saved = await saveDeck({
+      ...set,
+      cards: [{ ...set.cards[0], tags: ['cells'] }, { ...set.cards[1], tags: ['genetics'] }]
+    });
+
+    const parts = await splitDeck(saved.id!, 'tag');
+
+    expect(parts.map(part => part.title)).toEqual(['Biology – cells', 'Biology – genetics']);
+    expect(await getDeck(parts[1].id!)).toEqual(parts[1]);
+    expect(await listDecks()).toHaveLength(3);
+    await expect(splitDeck(saved.id!, 'section')).rejects.toThrow('No card has a section to split by');
+  });
+
+  test('deletes a deck', async () => {
+    const saved = await saveDeck(createSet('Biology', '2024-01-01T00:00:00.000Z'));
+    await deleteDeck(saved.id!);
+
+    expect(await getDeck(saved.id!)).toBeNull();
+    expect(await listDecks()).toEqual([]);
+  });
+});
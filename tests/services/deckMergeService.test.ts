@@ -0,0 +1,77 @@
+import { mergeFlashcardSets, splitFlashcardSet } from '../../src/services/deckMergeService';
+import { FlashcardSet } from '../../src/types';
+
+describe('Deck Merge Service', () => {
+  const biology: FlashcardSet = {
+    id: 'deck-1',
+    title: 'Biology',
+    source: 'https://en.wikipedia.org/wiki/Biology',
+    cards: [
+      { id: 'card-1', question: 'What is a cell?', answer: 'The basic unit of life', tags: ['cells'], section: 'Cells' },
+      { id: 'card-2', question: 'What is DNA?', answer: 'Genetic material', tags: ['genetics', 'cells'], section: 'Genetics' },
+      { id: 'card-3', question: 'What is biology?', answer: 'The study of life' }
+    ],
+    createdAt: new Date('2024-01-01')
+  };
+  const chemistry: FlashcardSet = {
+    id: 'deck-2',
+    title: 'Chemistry',
+    source: 'CSV Import',
+    cards: [
+      { id: 'card-1', question: 'What is an atom?', answer: 'The smallest unit of matter' }
+    ],
+    createdAt: new Date('2024-01-02')
+  };
+
+  test('merges the cards of several decks in order', () => {
+    const merged = mergeFlashcardSets([biology, chemistry]);
+
+    expect(merged.title).toBe('Biology + Chemistry');
+    expect(merged.source).toBe('https://en.wikipedia.org/wiki/Biology, CSV Import');
+    expect(merged.id).toBeUndefined();
+    expect(merged.cards.map(card => card.question)).toEqual([
+      'What is a cell?', 'What is DNA?', 'What is biology?', 'What is an atom?'
+    ]);
+  });
+
+  test('keeps card data and gives colliding ids a new id', () => {
+    const merged = mergeFlashcardSets([biology, chemistry], '  Science  ');
+
+    expect(merged.title).toBe('Science');
+    expect(merged.cards[0]).toBe(biology.cards[0]);
+    expect(merged.cards[3].id).not.toBe('card-1');
+    expect(new Set(merged.cards.map(card => card.id)).size).toBe(4);
+  });
+
+  test('lists a shared source once and needs two decks', () => {
+    expect(mergeFlashcardSets([biology, biology]).source).toBe('https://en.wikipedia.org/wiki/Biology');
+    expect(() => mergeFlashcardSets([biology])).toThrow('Choose at least two decks to merge');
+  });
+
+  test('splits a deck by tag, copying cards with several tags', () => {
+    const parts = splitFlashcardSet(biology, 'tag');
+
+    expect(parts.map(part => part.title)).toEqual(['Biology – cells', 'Biology – genetics', 'Biology – Untagged']);
+    expect(parts.map(part => part.cards.map(card => card.id))).toEqual([['card-1', 'card-2'], ['card-2'], ['card-3']]);
+    expect(parts[0].source).toBe(biology.source);
+  });
+
+  test('keeps the source text in every part', () => {
+    const parts = splitFlashcardSet({ ...biology, sourceContent: 'Biology text' }, 'section');
+
+    expect(parts.map(part => part.sourceContent)).toEqual(['Biology text', 'Biology text', 'Biology text']);
+    expect(splitFlashcardSet(biology, 'section')[0].sourceContent).toBeUndefined();
+  });
+
+  test('splits a deck by section', () => {
+    const parts = splitFlashcardSet(biology, 'section');
+
+    expect(parts.map(part => part.title)).toEqual(['Biology – Cells', 'Biology – Genetics', 'Biology – Other']);
+    expect(parts[2].cards).toEqual([biology.cards[2]]);
+  });
+
+  test('refuses to split when no card has the criterion', () => {
+    expect(() => splitFlashcardSet(chemistry, 'tag')).toThrow('No card has a tag to split by');
+    expect(() => splitFlashcardSet(chemistry, 'section')).toThrow('No card has a section to split by');
+  });
+});
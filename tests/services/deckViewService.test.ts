@@ -0,0 +1,84 @@
+import {
+  DEFAULT_DECK_VIEW,
+  applyDeckView,
+  findMatches,
+  isDeckOrder,
+  matchesSearch,
+  shuffleCards,
+  sortCards
+} from '../../src/services/deckViewService';
+import { Flashcard } from '../../src/types';
+
+describe('Deck View Service', () => {
+  const now = new Date('2024-01-01T12:00:00.000Z');
+  const review = (dueDate: string, lastGrade: 'again' | 'good') => ({
+    easeFactor: 2.5,
+    interval: 1,
+    repetitions: 1,
+    dueDate: new Date(dueDate),
+    lastReviewed: now,
+    lastGrade
+  });
+
+  const cards: Flashcard[] = [
+    { id: 'a', question: 'What is the capital of France?', answer: 'Paris', section: 'Europe', tags: ['geography'], difficulty: 'medium' },
+    { id: 'b', type: 'cloze', question: 'The {{Nile}} is a river.', answer: 'Nile', starred: true, review: review('2024-01-05T00:00:00.000Z', 'good') },
+    { id: 'c', type: 'multiple-choice', question: 'Largest planet?', answer: 'Jupiter', options: ['Mars', 'Jupiter'], section: 'Astronomy', review: review('2024-01-02T00:00:00.000Z', 'again') },
+    { id: 'd', question: 'Capital of Spain?', answer: 'Madrid', starred: true, tags: ['geography', 'spain'], difficulty: 'easy' }
+  ];
+
+  const ids = (list: Flashcard[]) => list.map(card => card.id);
+
+  test('searches questions, answers and options, requiring every word', () => {
+    expect(matchesSearch(cards[0], 'CAPITAL france')).toBe(true);
+    expect(matchesSearch(cards[0], 'capital spain')).toBe(false);
+    expect(matchesSearch(cards[2], 'mars')).toBe(true);
+    expect(matchesSearch(cards[1], '')).toBe(true);
+    expect(matchesSearch(cards[3], 'spain geography')).toBe(true);
+  });
+
+  test('finds merged, ordered match ranges for highlighting', () => {
+    expect(findMatches('Capital of a capital', 'capital')).toEqual([{ start: 0, end: 7 }, { start: 13, end: 20 }]);
+    expect(findMatches('Paris', 'par aris')).toEqual([{ start: 0, end: 5 }]);
+    expect(findMatches('Paris', '  ')).toEqual([]);
+  });
+
+  test('filters starred cards and cards missed at their last review', () => {
+    expect(ids(applyDeckView(cards, { ...DEFAULT_DECK_VIEW, filter: 'starred' }))).toEqual(['b', 'd']);
+    expect(ids(applyDeckView(cards, { ...DEFAULT_DECK_VIEW, filter: 'missed' }))).toEqual(['c']);
+    expect(ids(applyDeckView(cards, { ...DEFAULT_DECK_VIEW, filter: 'starred', query: 'madrid' }))).toEqual(['d']);
+    expect(ids(applyDeckView(cards, { ...DEFAULT_DECK_VIEW, tag: 'geography' }))).toEqual(['a', 'd']);
+  });
+
+  test('sorts by text, type, section and due date, keeping deck order for ties', () => {
+    expect(ids(sortCards(cards, 'question', 1))).toEqual(['d', 'c', 'b', 'a']);
+    // A cloze card's back is the whole sentence with the deletion revealed
+    expect(ids(sortCards(cards, 'answer', 1))).toEqual(['c', 'd', 'a', 'b']);
+    expect(ids(sortCards(cards, 'type', 1))).toEqual(['a', 'd', 'b', 'c']);
+    expect(ids(sortCards(cards, 'section', 1))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(sortCards(cards, 'due', 1))).toEqual(['a', 'd', 'c', 'b']);
+    expect(ids(sortCards(cards, 'difficulty', 1))).toEqual(['d', 'a', 'b', 'c']);
+    expect(ids(sortCards(cards, 'deck', 1))).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  test('shuffles reproducibly for a given seed', () => {
+    const many: Flashcard[] = [];
+    for (let i = 0; i < 20; i++) {
+      many.push({ id: String(i), question: `Q${i}`, answer: `A${i}` });
+    }
+
+    const first = ids(shuffleCards(many, 42));
+    expect(ids(shuffleCards(many, 42))).toEqual(first);
+    expect(ids(shuffleCards(many, 43))).not.toEqual(first);
+    expect(first).not.toEqual(ids(many));
+    expect(first.slice().sort()).toEqual(ids(many).sort());
+  });
+
+  test('tells whether a view shows the whole deck in its own order', () => {
+    expect(isDeckOrder(DEFAULT_DECK_VIEW)).toBe(true);
+    expect(isDeckOrder({ ...DEFAULT_DECK_VIEW, query: ' ' })).toBe(true);
+    expect(isDeckOrder({ ...DEFAULT_DECK_VIEW, order: 'shuffled' })).toBe(false);
+    expect(isDeckOrder({ ...DEFAULT_DECK_VIEW, filter: 'starred' })).toBe(false);
+    expect(isDeckOrder({ ...DEFAULT_DECK_VIEW, tag: 'spain' })).toBe(false);
+  });
+});
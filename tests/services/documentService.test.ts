@@ -0,0 +1,178 @@
+import JSZip from 'jszip';
+import {
+  getDocumentKind,
+  splitMarkdownSections,
+  extractMarkdown,
+  pdfItemsToText,
+  extractPdf,
+  docxXmlToMarkdown,
+  extractDocx,
+  extractDocument
+} from '../../src/services/documentService';
+
+const mockGetDocument = jest.fn();
+jest.mock('pdfjs-dist', () => ({
+  GlobalWorkerOptions: {},
+  getDocument: (...args: unknown[]) => mockGetDocument(...args)
+}));
+
+const textItem = (str: string, y: number, height: number = 10, hasEOL: boolean = true) => ({
+  str,
+  hasEOL,
+  height,
+  transform: [height, 0, 0, height, 72, y]
+});
+
+const wordDocument = (body: string) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+const wordParagraph = (text: string, properties: string = '') =>
+  `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('Document Service', () => {
+  test('recognises supported file types by extension', () => {
+    expect(getDocumentKind('Lecture 3.PDF')).toBe('pdf');
+    expect(getDocumentKind('notes.docx')).toBe('docx');
+    expect(getDocumentKind('README.md')).toBe('markdown');
+    expect(getDocumentKind('todo.txt')).toBe('text');
+    expect(getDocumentKind('slides.pptx')).toBeNull();
+    expect(getDocumentKind('Makefile')).toBeNull();
+  });
+
+  describe('Markdown', () => {
+    test('splits notes into their headed sections', () => {
+      const markdown = 'Some intro.\n\n# Cells\n\nCells are small.\n\n## Nucleus ##\n\n- Holds DNA\n\n```\n# not a heading\n```';
+
+      expect(splitMarkdownSections(markdown)).toEqual([
+        { title: 'Introduction', text: 'Some intro.' },
+        { title: 'Cells', text: 'Cells are small.' },
+        { title: 'Nucleus', text: '- Holds DNA\n\n```\n# not a heading\n```' }
+      ]);
+    });
+
+    test('leaves notes without headings unsplit', () => {
+      expect(splitMarkdownSections('Just a paragraph.\n\n#hashtag')).toEqual([]);
+    });
+
+    test('drops front matter and names the document after the file', () => {
+      const extracted = extractMarkdown('---\ntitle: Notes\n---\n# Learn C#\n\nA language.', 'week-1.md');
+
+      expect(extracted).toEqual({
+        title: 'week-1',
+        text: '# Learn C#\n\nA language.',
+        sections: [{ title: 'Learn C#', text: 'A language.' }]
+      });
+    });
+  });
+
+  describe('PDF', () => {
+    test('rebuilds headings and paragraphs from positioned lines', () => {
+      const text = pdfItemsToText([
+        textItem('Photosynthesis', 700, 18),
+        textItem('Plants convert light into chemical ', 670, 10, false),
+        textItem('energy.', 670),
+        textItem('This happens in the chloro-', 658),
+        textItem('plasts of leaf cells.', 646),
+        textItem('Light reactions come first.', 610)
+      ]);
+
+      expect(text).toBe(
+        '## Photosynthesis\n\n' +
+        'Plants convert light into chemical energy. This happens in the chloroplasts of leaf cells.\n\n' +
+        'Light reactions come first.'
+      );
+    });
+
+    test('extracts every page as its own section', async () => {
+      const pages = [
+        [textItem('First page text.', 700), { type: 'beginMarkedContent' }],
+        [],
+        [textItem('Third page text.', 700)]
+      ];
+      mockGetDocument.mockReturnValue({
+        promise: Promise.resolve({
+          numPages: pages.length,
+          getPage: (pageNumber: number) => Promise.resolve({
+            getTextContent: () => Promise.resolve({ items: pages[pageNumber - 1] })
+          })
+        })
+      });
+
+      const extracted = await extractPdf(new ArrayBuffer(8), 'Lecture 3.pdf');
+
+      expect(extracted).toEqual({
+        title: 'Lecture 3',
+        text: 'First page text.\n\nThird page text.',
+        sections: [
+          { title: 'Page 1', text: 'First page text.' },
+          { title: 'Page 3', text: 'Third page text.' }
+        ]
+      });
+    });
+
+    test('rejects PDFs without a text layer', async () => {
+      mockGetDocument.mockReturnValue({
+        promise: Promise.resolve({
+          numPages: 1,
+          getPage: () => Promise.resolve({ getTextContent: () => Promise.resolve({ items: [] }) })
+        })
+      });
+
+      await expect(extractPdf(new ArrayBuffer(8), 'scan.pdf')).rejects.toThrow('No text found in the PDF');
+    });
+  });
+
+  describe('Word', () => {
+    test('converts headings, lists and tables to Markdown', () => {
+      const xml = wordDocument([
+        wordParagraph('Genetics', '<w:pStyle w:val="Title"/>'),
+        wordParagraph('Genes are units of heredity.'),
+        wordParagraph('Vererbung', '<w:pStyle w:val="berschrift2"/><w:outlineLvl w:val="1"/>'),
+        wordParagraph('Dominant', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>'),
+        wordParagraph('Recessive', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>'),
+        '<w:tbl><w:tr><w:tc>' + wordParagraph('Allele') + '</w:tc><w:tc>' + wordParagraph('Trait') + '</w:tc></w:tr></w:tbl>',
+        wordParagraph('   ')
+      ].join(''));
+
+      expect(docxXmlToMarkdown(xml)).toBe(
+        '# Genetics\n\nGenes are units of heredity.\n\n## Vererbung\n\n- Dominant\n- Recessive\n\nAllele | Trait'
+      );
+    });
+
+    test('reads the document out of a .docx package', async () => {
+      const zip = new JSZip();
+      zip.file('word/document.xml', wordDocument(
+        wordParagraph('Mitosis', '<w:pStyle w:val="Heading1"/>') + wordParagraph('Cells divide.')
+      ));
+      const data = await zip.generateAsync({ type: 'arraybuffer' });
+
+      const extracted = await extractDocx(data, 'biology.docx');
+
+      expect(extracted.title).toBe('biology');
+      expect(extracted.sections).toEqual([{ title: 'Mitosis', text: 'Cells divide.' }]);
+    });
+
+    test('rejects files that are not Word documents', async () => {
+      const data = await new JSZip().file('other.txt', 'x').generateAsync({ type: 'arraybuffer' });
+
+      await expect(extractDocx(data, 'fake.docx')).rejects.toThrow('Not a valid Word document: word/document.xml is missing');
+    });
+  });
+
+  describe('extractDocument', () => {
+    test('reads plain text files without splitting them', async () => {
+      const file = new File(['  The mitochondria is the powerhouse of the cell.\n'], 'facts.txt', { type: 'text/plain' });
+
+      expect(await extractDocument(file)).toEqual({
+        title: 'facts',
+        text: 'The mitochondria is the powerhouse of the cell.',
+        sections: []
+      });
+    });
+
+    test('rejects unsupported and empty files', async () => {
+      await expect(extractDocument(new File(['x'], 'slides.pptx'))).rejects.toThrow('Unsupported file type');
+      await expect(extractDocument(new File(['  \n'], 'empty.md'))).rejects.toThrow('empty.md does not contain any text');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  getCardSimilarity,
+  findDuplicateGroups,
+  findDuplicateGroupsWithLLM,
+  canMergeAnswers,
+  keepOneCard,
+  mergeCardAnswers
+} from '../../src/services/duplicateService';
+import { getLLMProvider } from '../../src/services/llmProvider';
+import * as quizService from '../../src/services/quizService';
+import { Flashcard } from '../../src/types';
+
+jest.mock('../../src/config', () => ({
+  ...jest.requireActual('../../src/config'),
+  getLLMConfig: jest.fn().mockReturnValue({ baseUrl: 'http://test-api.com', model: 'test-model' })
+}));
+
+jest.mock('../../src/services/llmProvider', () => ({
+  getLLMProvider: jest.fn()
+}));
+
+describe('Duplicate Service', () => {
+  const cards: Flashcard[] = [
+    { id: '1', question: 'What is the capital of France?', answer: 'Paris', tags: ['geography'] },
+    { id: '2', question: 'What is the largest planet?', answer: 'Jupiter' },
+    { id: '3', question: 'What is the capital city of France?', answer: 'Paris, France', tags: ['europe'], starred: true },
+    { id: '4', question: 'Which city is the capital of France?', answer: 'Paris' },
+    { id: '5', question: 'Name the French capital.', answer: 'Paris' }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('scores reworded cards as similar and unrelated cards as different', () => {
+    expect(getCardSimilarity(cards[0], cards[0])).toBe(1);
+    expect(getCardSimilarity(cards[0], cards[2])).toBeGreaterThan(0.75);
+    expect(getCardSimilarity(cards[0], cards[1])).toBeLessThan(0.4);
+  });
+
+  test('groups likely duplicates in deck order', () => {
+    const groups = findDuplicateGroups(cards);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].cardIds).toEqual(['1', '3', '4']);
+    expect(groups[0].detectedBy).toBe('text');
+    expect(groups[0].similarity).toBeGreaterThan(0.75);
+    expect(findDuplicateGroups([cards[0], cards[1]])).toEqual([]);
+  });
+
+  test('only runs the edit distance on pairs that could be duplicates, over a bounded length', () => {
+    const questions = [
+      'What do mitochondria produce?',
+      'Which organelle holds the genetic material of a eukaryotic cell?',
+      'Name the process by which plants turn light into sugar.',
+      'How many chromosomes does a human body cell have?',
+      'Where are proteins assembled?'
+    ];
+    const longCards: Flashcard[] = questions.map((question, index) => ({
+      id: String(index + 1),
+      question,
+      answer: `Answer ${index} ${'explained at length '.repeat(index * 50)}`
+    })).concat([{ id: '6', question: 'What do the mitochondria produce?', answer: 'Answer 0' }]);
+    const getSimilarity = jest.spyOn(quizService, 'getSimilarity');
+
+    const groups = findDuplicateGroups(longCards);
+
+    expect(groups.map(group => group.cardIds)).toEqual([['1', '6']]);
+    // Both sides of all 15 pairs would be 30 comparisons without the pre-filter
+    expect(getSimilarity.mock.calls.length).toBeLessThan(10);
+
+    getSimilarity.mockClear();
+    expect(getCardSimilarity(longCards[4], { ...longCards[4], id: '7' })).toBe(1);
+    expect(getSimilarity).toHaveBeenCalledTimes(2);
+    getSimilarity.mock.calls.forEach(([a, b]) => {
+      expect(a.length).toBeLessThanOrEqual(200);
+      expect(b.length).toBeLessThanOrEqual(200);
+    });
+    getSimilarity.mockRestore();
+  });
+
+  test('asks the LLM about similar pairs and adds the ones it confirms', async () => {
+    const complete = jest.fn().mockResolvedValue('{"duplicates": [1]}');
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete });
+
+    const groups = await findDuplicateGroupsWithLLM([cards[0], cards[1], cards[4]]);
+
+    expect(groups).toEqual([{ cardIds: ['1', '5'], similarity: 1, detectedBy: 'llm' }]);
+    const request = complete.mock.calls[0][0];
+    expect(request.temperature).toBe(0);
+    expect(request.messages[1].content).toBe(
+      'Pair 1:\nA: What is the capital of France? → Paris\nB: Name the French capital. → Paris'
+    );
+  });
+
+  test('passes the API key and mock mode to the provider', async () => {
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete: jest.fn().mockResolvedValue('{"duplicates": []}') });
+
+    await findDuplicateGroupsWithLLM([cards[0], cards[4]], 'test-key', true);
+
+    expect(getLLMProvider).toHaveBeenCalledWith(expect.anything(), { apiKey: 'test-key', useMock: true });
+  });
+
+  test('skips the LLM when there are no uncertain pairs', async () => {
+    const groups = await findDuplicateGroupsWithLLM([cards[0], cards[2]]);
+
+    expect(getLLMProvider).not.toHaveBeenCalled();
+    expect(groups[0].detectedBy).toBe('text');
+  });
+
+  test('reports LLM responses without a duplicates list', async () => {
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete: jest.fn().mockResolvedValue('{"pairs": []}') });
+
+    await expect(findDuplicateGroupsWithLLM([cards[0], cards[4]]))
+      .rejects.toThrow('Failed to check duplicates: the response did not contain a duplicates list');
+  });
+
+  test('keeps one card and moves tags and stars onto it', () => {
+    const result = keepOneCard(cards, ['1', '3', '4'], '4');
+
+    expect(result.map(card => card.id)).toEqual(['2', '4', '5']);
+    expect(result[1]).toEqual({
+      id: '4',
+      question: 'Which city is the capital of France?',
+      answer: 'Paris',
+      tags: ['geography', 'europe'],
+      starred: true
+    });
+  });
+
+  test('merges distinct answers into the kept card', () => {
+    const result = mergeCardAnswers(cards, ['1', '3', '4'], '1');
+
+    expect(result.map(card => card.id)).toEqual(['1', '2', '5']);
+    expect(result[0].answer).toBe('Paris\nParis, France');
+  });
+
+  test('only merges answers of question and answer cards', () => {
+    const choice: Flashcard = { id: '6', type: 'multiple-choice', question: 'Capital of France?', answer: 'Paris', options: ['Paris', 'Lyon'] };
+
+    expect(canMergeAnswers([cards[0], cards[2]])).toBe(true);
+    expect(canMergeAnswers([cards[0], choice])).toBe(false);
+    expect(() => mergeCardAnswers([cards[0], choice], ['1', '6'], '1'))
+      .toThrow('Only question & answer cards can have their answers merged');
+    expect(() => mergeCardAnswers(cards, ['1', '3'], '2')).toThrow('The card to keep is not part of the group');
+  });
+});
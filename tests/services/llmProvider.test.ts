@@ -0,0 +1,43 @@
+import { getLLMProvider } from '../../src/services/llmProvider';
+import { LLMConfig } from '../../src/config';
+
+console.log = jest.fn();
+
+describe('LLM Provider factory', () => {
+  const baseConfig: LLMConfig = {
+    baseUrl: 'http://localhost:1234/v1',
+    model: 'test-model',
+    defaultApiKey: ''
+  };
+
+  test.each([
+    [{ provider: 'openai' as const }, 'OpenAI-compatible'],
+    [{ provider: 'lmstudio' as const }, 'LM Studio'],
+    [{ provider: 'ollama' as const }, 'Ollama'],
+    [{ provider: 'mock' as const }, 'Mock']
+  ])('selects the provider named in the config %p', (override, expectedName) => {
+    expect(getLLMProvider({ ...baseConfig, ...override }).name).toBe(expectedName);
+  });
+
+  test('detects the provider from the base URL when none is configured', () => {
+    expect(getLLMProvider({ ...baseConfig, baseUrl: 'https://api.openai.com/v1' }).name).toBe('OpenAI-compatible');
+    expect(getLLMProvider({ ...baseConfig, baseUrl: 'http://localhost:11434' }).name).toBe('Ollama');
+    expect(getLLMProvider(baseConfig).name).toBe('LM Studio');
+  });
+
+  test('uses the proxy mock route in fast mock mode regardless of provider', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ choices: [{ message: { content: 'mocked' } }] })
+    });
+
+    const provider = getLLMProvider({ ...baseConfig, provider: 'ollama' }, { useMock: true });
+    const result = await provider.complete({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(result).toBe('mocked');
+    expect(global.fetch).toHaveBeenCalledWith(
+      'http://localhost:3001/api/v1/chat/completions?mock=true',
+      expect.objectContaining({ headers: expect.objectContaining({ 'X-Use-Mock': 'true' }) })
+    );
+  });
+});
@@ -1,7 +1,10 @@
-import { extractFlashcards } from '../../src/services/llmService';
+import { extractFlashcards, refineFlashcard, previewExtractionMessages, MAX_EXTRACTION_REQUESTS } from '../../src/services/llmService';
+import { BUILT_IN_PRESETS } from '../../src/services/promptTemplateService';
 import { getLLMConfig } from '../../src/config';
+import { TextDecoder, TextEncoder } from 'util';
 
 jest.mock('../../src/config', () => ({
+  ...jest.requireActual('../../src/config'),
   getLLMConfig: jest.fn().mockReturnValue({
     baseUrl: 'http://test-api.com',
     model: 'test-model',
@@ -12,9 +15,13 @@ jest.mock('../../src/config', () => ({
 // Mock console methods to avoid noise in test output
 console.log = jest.fn();
 console.error = jest.fn();
+console.warn = jest.fn();
 
 global.fetch = jest.fn();
 
+// jsdom lacks the text codecs that the streaming reader relies on
+Object.assign(global, { TextDecoder, TextEncoder });
+
 jest.mock('uuid', () => ({
   v4: jest.fn(() => 'mocked-uuid')
 }));
@@ -28,6 +35,7 @@ describe('LLM Service', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (global.fetch as jest.Mock).mockReset();
     
     // Reset getLLMConfig mock to default values
     (getLLMConfig as jest.Mock).mockReturnValue({
@@ -72,8 +80,8 @@ describe('LLM Service', () => {
     );
 
     expect(result).toEqual([
-      { id: 'mocked-uuid', question: 'Test Question 1', answer: 'Test Answer 1' },
-      { id: 'mocked-uuid', question: 'Test Question 2', answer: 'Test Answer 2' }
+      { id: 'mocked-uuid', question: 'Test Question 1', answer: 'Test Answer 1', provenance: { quote: '' } },
+      { id: 'mocked-uuid', question: 'Test Question 2', answer: 'Test Answer 2', provenance: { quote: '' } }
     ]);
   });
 
@@ -145,36 +153,287 @@ describe('LLM Service', () => {
     );
   });
   
-  test('truncates long content correctly', async () => {
+  test('splits long content into chunks instead of truncating it', async () => {
+    const chunkResponse = (question: string) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify({ flashcards: [{ question, answer: 'A' }] }) } }]
+      })
+    });
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(chunkResponse('Q1'))
+      .mockResolvedValueOnce(chunkResponse('Q2'));
+
+    const result = await extractFlashcards(longContent, mockApiKey, false);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const sentContent = (global.fetch as jest.Mock).mock.calls
+      .map(call => JSON.parse(call[1].body).messages.find((m: any) => m.role === 'user').content)
+      .join('');
+    expect(sentContent).not.toContain('[Content truncated due to length]');
+    expect(sentContent.match(/A/g)!.length).toBeGreaterThanOrEqual(longContent.length);
+    expect(result.map(card => card.question)).toEqual(['Q1', 'Q2']);
+  });
+
+  test('reports progress for every chunk', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve({
+        choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: 'Q', answer: 'A' }] }) } }]
+      })
+    }));
+    const onProgress = jest.fn();
+
+    await extractFlashcards(longContent, mockApiKey, false, onProgress);
+
+    expect(onProgress.mock.calls.map(call => call[0])).toEqual([
+      { completedChunks: 0, totalChunks: 2 },
+      { completedChunks: 1, totalChunks: 2 },
+      { completedChunks: 2, totalChunks: 2 }
+    ]);
+  });
+
+  test('limits the number of concurrent chunk requests', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    (global.fetch as jest.Mock).mockImplementation(async () => {
+      inFlight += 1;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight -= 1;
+      return {
+        ok: true,
+        json: () => Promise.resolve({
+          choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: `Q${Math.random()}`, answer: 'A' }] }) } }]
+        })
+      };
+    });
+
+    await extractFlashcards('B'.repeat(15000), mockApiKey, false);
+
+    expect(global.fetch).toHaveBeenCalledTimes(5);
+    expect(maxInFlight).toBe(2);
+  });
+
+  test('refuses content that needs more requests than the limit', async () => {
+    const { requestCount } = previewExtractionMessages('B'.repeat(40000));
+    expect(requestCount).toBeGreaterThan(MAX_EXTRACTION_REQUESTS);
+
+    await expect(extractFlashcards('B'.repeat(40000), mockApiKey, false)).rejects.toThrow(
+      `Failed to extract flashcards: the content needs ${requestCount} requests, more than the limit of ${MAX_EXTRACTION_REQUESTS}`
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  test('sends every chunk once the caller allows more requests', async () => {
+    (global.fetch as jest.Mock).mockImplementation(() => Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve({
+        choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: `Q${Math.random()}`, answer: 'A' }] }) } }]
+      })
+    }));
+    const { requestCount } = previewExtractionMessages('B'.repeat(40000));
+
+    await extractFlashcards('B'.repeat(40000), mockApiKey, false, undefined, undefined, { maxRequests: requestCount });
+
+    expect(global.fetch).toHaveBeenCalledTimes(requestCount);
+  });
+
+  test('removes duplicate cards across chunks', async () => {
+    const chunkResponse = (flashcards: Array<{ question: string; answer: string }>) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify({ flashcards }) } }]
+      })
+    });
+
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(chunkResponse([
+        { question: 'What is DNA?', answer: 'Genetic material' },
+        { question: 'What is RNA?', answer: 'A nucleic acid' }
+      ]))
+      .mockResolvedValueOnce(chunkResponse([
+        { question: 'what is  DNA', answer: 'Deoxyribonucleic acid' },
+        { question: 'What is a gene?', answer: 'A unit of heredity' }
+      ]));
+
+    const result = await extractFlashcards(longContent, mockApiKey, false);
+
+    expect(result.map(card => card.question)).toEqual(['What is DNA?', 'What is RNA?', 'What is a gene?']);
+  });
+
+  test('scales the requested card count with chunk length', async () => {
     const mockResponse = {
-      choices: [
-        {
-          message: {
-            content: JSON.stringify({
-              flashcards: [{ question: 'Q', answer: 'A' }]
-            })
-          }
-        }
-      ]
+      choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: 'Q', answer: 'A' }] }) } }]
     };
-
     (global.fetch as jest.Mock).mockResolvedValueOnce({
       ok: true,
       json: jest.fn().mockResolvedValueOnce(mockResponse)
     });
 
-    await extractFlashcards(longContent, mockApiKey, false);
+    await extractFlashcards(mockContent, mockApiKey, false);
 
-    // Check that the content was truncated in the request body
-    const fetchCall = (global.fetch as jest.Mock).mock.calls[0][1];
-    const requestBody = JSON.parse(fetchCall.body);
-    
-    // Verify the content in the messages was truncated
-    const userMessage = requestBody.messages.find((m: any) => m.role === 'user');
-    expect(userMessage.content.length).toBeLessThan(longContent.length);
-    expect(userMessage.content).toContain('[Content truncated due to length]');
+    const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+    const systemMessage = requestBody.messages.find((m: any) => m.role === 'system');
+    expect(systemMessage.content).toContain('Create about 3 flashcards');
   });
   
+  test('labels cards with the section they were generated from', async () => {
+    const chunkResponse = (question: string) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({
+        choices: [{ message: { content: JSON.stringify({ flashcards: [{ question, answer: 'A' }] }) } }]
+      })
+    });
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(chunkResponse('When was it discovered?'))
+      .mockResolvedValueOnce(chunkResponse('How does it work?'));
+
+    const result = await extractFlashcards([
+      { title: 'History', text: 'It was discovered in 1897.' },
+      { title: 'Mechanism', text: 'It inhibits COX enzymes.' }
+    ], mockApiKey, false);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const userMessage = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+      .messages.find((m: any) => m.role === 'user').content;
+    expect(userMessage).toContain('## History\n\nIt was discovered in 1897.');
+    expect(result.map(card => [card.question, card.section])).toEqual([
+      ['When was it discovered?', 'History'],
+      ['How does it work?', 'Mechanism']
+    ]);
+  });
+
+  test('verifies supporting quotes against the source text', async () => {
+    const content = 'Aspirin was first synthesised in 1897.\n\nIt   inhibits the COX enzymes.';
+    const flashcards = [
+      { question: 'When was aspirin synthesised?', answer: '1897', quote: 'first synthesised in 1897' },
+      { question: 'What does it inhibit?', answer: 'COX enzymes', quote: '"It inhibits the COX enzymes."' },
+      { question: 'Who discovered it?', answer: 'Hoffmann', quote: 'Felix Hoffmann discovered it' }
+    ];
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ choices: [{ message: { content: JSON.stringify({ flashcards }) } }] })
+    });
+
+    const result = await extractFlashcards(content, mockApiKey, false);
+
+    const systemMessage = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+      .messages.find((m: any) => m.role === 'system').content;
+    expect(systemMessage).toContain('"quote"');
+    expect(result.map(card => card.provenance)).toEqual([
+      { quote: 'first synthesised in 1897', start: 12, end: 37 },
+      { quote: '"It inhibits the COX enzymes."', start: 40, end: 70 },
+      { quote: 'Felix Hoffmann discovered it' }
+    ]);
+    expect(content.substring(40, 70)).toBe('It   inhibits the COX enzymes.');
+  });
+
+  test('asks for tags and a difficulty and keeps them on the cards', async () => {
+    const flashcards = [
+      { question: 'What is H2O?', answer: 'Water', tags: ['Chemistry', 'molecules'], difficulty: 'easy' },
+      { question: 'What is NaCl?', answer: 'Salt' }
+    ];
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ choices: [{ message: { content: JSON.stringify({ flashcards }) } }] })
+    });
+
+    const result = await extractFlashcards('Water is H2O. Salt is NaCl.', mockApiKey, false);
+
+    const systemMessage = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+      .messages.find((m: any) => m.role === 'system').content;
+    expect(systemMessage).toContain('"tags"');
+    expect(systemMessage).toContain('"difficulty": "easy", "medium" or "hard"');
+    expect(result[0]).toMatchObject({ tags: ['chemistry', 'molecules'], difficulty: 'easy' });
+    expect(result[1]).not.toHaveProperty('tags');
+  });
+
+  test('asks for cards in the requested language', async () => {
+    const mockResponse = {
+      choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: 'Q', answer: 'A' }] }) } }]
+    };
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce(mockResponse) })
+      .mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce(mockResponse) });
+
+    await extractFlashcards(mockContent, mockApiKey, false, undefined, undefined, { language: 'de' });
+    await extractFlashcards(mockContent, mockApiKey, false);
+
+    const systemPrompt = (call: number) => JSON.parse((global.fetch as jest.Mock).mock.calls[call][1].body)
+      .messages.find((m: any) => m.role === 'system').content;
+    expect(systemPrompt(0)).toContain('Write every question and answer in German');
+    expect(systemPrompt(1)).not.toContain('Write every question and answer in');
+  });
+  
+  test('asks for the chosen mix of card types and keeps their fields', async () => {
+    const mockResponse = {
+      choices: [{
+        message: {
+          content: JSON.stringify({
+            flashcards: [
+              { type: 'cloze', question: 'The {{heart}} pumps blood.', answer: 'heart' },
+              { type: 'multiple-choice', question: 'What pumps blood?', answer: 'Heart', options: ['Lungs', 'Heart', 'Liver'] },
+              { type: 'true-false', question: 'The liver pumps blood.', answer: 'False', explanation: 'The heart does.' }
+            ]
+          })
+        }
+      }]
+    };
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce(mockResponse) });
+
+    const result = await extractFlashcards(mockContent, mockApiKey, false, undefined, undefined, {
+      cardTypes: ['cloze', 'multiple-choice', 'true-false']
+    });
+
+    const systemPrompt = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+      .messages.find((m: any) => m.role === 'system').content;
+    expect(systemPrompt).toContain('Create a mix of these card types: "cloze", "multiple-choice", "true-false"');
+    expect(systemPrompt).toContain('3 plausible but wrong distractors');
+    expect(systemPrompt).not.toContain('- "basic"');
+    expect(result.map(({ id, provenance, ...content }) => content)).toEqual([
+      { type: 'cloze', question: 'The {{heart}} pumps blood.', answer: 'heart' },
+      { type: 'multiple-choice', question: 'What pumps blood?', answer: 'Heart', options: ['Lungs', 'Heart', 'Liver'] },
+      { type: 'true-false', question: 'The liver pumps blood.', answer: 'False', explanation: 'The heart does.' }
+    ]);
+  });
+
+  test('words the request with the chosen prompt template', async () => {
+    const mockResponse = {
+      choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: 'Q', answer: 'A' }] }) } }]
+    };
+    (global.fetch as jest.Mock).mockResolvedValueOnce({ ok: true, json: jest.fn().mockResolvedValueOnce(mockResponse) });
+
+    await extractFlashcards(mockContent, mockApiKey, false, undefined, undefined, {
+      language: 'fr',
+      template: {
+        id: 'custom',
+        name: 'Custom',
+        systemPrompt: 'Write {{ count }} cards in {{language}} for {{audience}}, like "The {{cell}} divides."',
+        userPrompt: 'Source:\n\n{{content}}',
+        audience: 'nurses'
+      }
+    });
+
+    const messages = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).messages;
+    expect(messages[0].content).toContain('Write 3 cards in French for nurses, like "The {{cell}} divides."');
+    expect(messages[0].content).toContain('"difficulty": "easy", "medium" or "hard" for nurses');
+    expect(messages[0].content).toContain('Respond with the JSON object only');
+    expect(messages[1].content).toBe(`Source:\n\n${mockContent}`);
+  });
+
+  test('previews the messages of the first request', () => {
+    const preview = previewExtractionMessages([
+      { title: 'History', text: 'It was discovered in 1897.' },
+      { title: 'Uses', text: 'It is used in lamps.' }
+    ], { template: BUILT_IN_PRESETS[1] });
+
+    expect(preview.requestCount).toBe(2);
+    expect(preview.messages[0].content).toContain('You are an experienced teacher writing revision flashcards for a student preparing for an exam');
+    expect(preview.messages[1].content).toBe('Create exam revision flashcards from the following content:\n\n## History\n\nIt was discovered in 1897.');
+  });
+
   test('uses CORS proxy for localhost URLs', async () => {
     // Mock config to return a localhost URL
     (getLLMConfig as jest.Mock).mockReturnValue({
@@ -246,4 +505,282 @@ describe('LLM Service', () => {
     await expect(extractFlashcards(mockContent, mockApiKey, false))
       .rejects.toThrow('No response from LLM API');
   });
+
+  describe('streaming', () => {
+    const createStreamResponse = (events: string[]) => {
+      const encoder = new TextEncoder();
+      const pending = events.map(event => encoder.encode(event));
+      return {
+        ok: true,
+        headers: { get: (name: string) => (name === 'content-type' ? 'text/event-stream' : null) },
+        body: {
+          getReader: () => ({
+            read: () => Promise.resolve(
+              pending.length > 0 ? { done: false, value: pending.shift() } : { done: true, value: undefined }
+            ),
+            cancel: jest.fn().mockResolvedValue(undefined)
+          })
+        }
+      };
+    };
+
+    const deltaEvent = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+    test('requests a stream and emits cards as they complete', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createStreamResponse([
+        deltaEvent('{"flashcards":[{"question":"Q1","ans'),
+        deltaEvent('wer":"A1"},{"question":"Q2","answer":"A2"}'),
+        deltaEvent(']}'),
+        'data: [DONE]\n\n'
+      ]));
+      const onCard = jest.fn();
+
+      const result = await extractFlashcards(mockContent, mockApiKey, true, undefined, onCard);
+
+      const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(requestBody.stream).toBe(true);
+      expect(onCard.mock.calls.map(call => call[0].question)).toEqual(['Q1', 'Q2']);
+      expect(result).toEqual([
+        { id: 'mocked-uuid', question: 'Q1', answer: 'A1', provenance: { quote: '' } },
+        { id: 'mocked-uuid', question: 'Q2', answer: 'A2', provenance: { quote: '' } }
+      ]);
+    });
+
+    test('falls back to a regular response when the backend does not stream', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        headers: { get: () => 'application/json' },
+        json: jest.fn().mockResolvedValueOnce({
+          choices: [{ message: { content: JSON.stringify({ flashcards: [{ question: 'Q', answer: 'A' }] }) } }]
+        })
+      });
+      const onCard = jest.fn();
+
+      const result = await extractFlashcards(mockContent, mockApiKey, false, undefined, onCard);
+
+      expect(onCard).toHaveBeenCalledTimes(1);
+      expect(result).toEqual([{ id: 'mocked-uuid', question: 'Q', answer: 'A', provenance: { quote: '' } }]);
+    });
+
+    test('does not emit duplicate streamed cards', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createStreamResponse([
+        deltaEvent('{"flashcards":[{"question":"What is DNA?","answer":"A1"},'),
+        deltaEvent('{"question":"What is DNA","answer":"A2"}]}')
+      ]));
+      const onCard = jest.fn();
+
+      const result = await extractFlashcards(mockContent, mockApiKey, false, undefined, onCard);
+
+      expect(onCard).toHaveBeenCalledTimes(1);
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('output repair and validation', () => {
+    const completion = (content: string) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ choices: [{ message: { content } }] })
+    });
+
+    test('parses flashcards wrapped in markdown fences and prose', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(
+        'Here you go:\n```json\n{"flashcards": [{"question": "Q", "answer": "A"},]}\n```'
+      ));
+
+      const result = await extractFlashcards(mockContent, mockApiKey, false);
+
+      expect(result).toEqual([{ id: 'mocked-uuid', question: 'Q', answer: 'A', provenance: { quote: '' } }]);
+    });
+
+    test('drops invalid cards but keeps the valid ones', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(JSON.stringify({
+        flashcards: [{ question: 'Q1', answer: 'A1' }, { question: 'Q2', answer: '' }]
+      })));
+
+      const result = await extractFlashcards(mockContent, mockApiKey, false);
+
+      expect(result).toEqual([{ id: 'mocked-uuid', question: 'Q1', answer: 'A1', provenance: { quote: '' } }]);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('card 2: answer is missing or empty'));
+    });
+
+    test('re-prompts the model with validation errors when enabled', async () => {
+      (getLLMConfig as jest.Mock).mockReturnValue({
+        baseUrl: 'http://test-api.com',
+        model: 'test-model',
+        defaultApiKey: 'default-test-key',
+        maxRepairAttempts: 1
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(completion('{"flashcards": [{"question": "", "answer": "A"}]}'))
+        .mockResolvedValueOnce(completion('{"flashcards": [{"question": "Q", "answer": "A"}]}'));
+
+      const result = await extractFlashcards(mockContent, mockApiKey, false);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const retryBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      const lastMessages = retryBody.messages.slice(-2);
+      expect(lastMessages[0]).toEqual({ role: 'assistant', content: '{"flashcards": [{"question": "", "answer": "A"}]}' });
+      expect(lastMessages[1].content).toContain('card 1: question is missing or empty');
+      expect(result).toEqual([{ id: 'mocked-uuid', question: 'Q', answer: 'A', provenance: { quote: '' } }]);
+    });
+
+    test('gives up after the configured number of repair attempts', async () => {
+      (getLLMConfig as jest.Mock).mockReturnValue({
+        baseUrl: 'http://test-api.com',
+        model: 'test-model',
+        defaultApiKey: 'default-test-key',
+        maxRepairAttempts: 1
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(completion('not json at all'))
+        .mockResolvedValueOnce(completion('still not json'));
+
+      await expect(extractFlashcards(mockContent, mockApiKey, false))
+        .rejects.toThrow('Could not parse JSON from LLM response');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('requests JSON mode when the backend supports it', async () => {
+      (getLLMConfig as jest.Mock).mockReturnValue({
+        baseUrl: 'https://api.openai.com/v1',
+        model: 'test-model',
+        defaultApiKey: 'default-test-key',
+        jsonMode: true
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion('{"flashcards": [{"question": "Q", "answer": "A"}]}'));
+
+      await extractFlashcards(mockContent, mockApiKey, false);
+
+      const requestBody = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+      expect(requestBody.response_format).toEqual({ type: 'json_object' });
+    });
+
+    test('retries without JSON mode when the backend rejects it', async () => {
+      (getLLMConfig as jest.Mock).mockReturnValue({
+        baseUrl: 'http://localhost:1234/v1',
+        model: 'test-model',
+        defaultApiKey: 'default-test-key',
+        jsonMode: true
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 400,
+          text: jest.fn().mockResolvedValueOnce("'response_format.type' must be 'json_schema'")
+        })
+        .mockResolvedValueOnce(completion('{"flashcards": [{"question": "Q", "answer": "A"}]}'));
+
+      const result = await extractFlashcards(mockContent, mockApiKey, false);
+
+      const retryBody = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(retryBody.response_format).toBeUndefined();
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('refining single cards', () => {
+    const completion = (content: string) => ({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ choices: [{ message: { content } }] })
+    });
+    const source = 'The heart pumps blood. It has four chambers.';
+    const card = {
+      id: 'card-1',
+      question: 'What does the heart pump, and how many chambers does it have?',
+      answer: 'Blood; four',
+      tags: ['heart'],
+      section: 'Anatomy',
+      provenance: { quote: 'The heart pumps blood.', start: 0, end: 22 }
+    };
+    const requestBody = () => JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body);
+
+    test('splits a card using the source section it came from', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(JSON.stringify({
+        flashcards: [
+          { question: 'What does the heart pump?', answer: 'Blood', quote: 'The heart pumps blood.', difficulty: 'easy' },
+          { question: 'How many chambers does the heart have?', answer: 'Four', quote: 'It has four chambers.', tags: ['cardiology'] }
+        ]
+      })));
+
+      const result = await refineFlashcard(card, 'split', [{ title: 'Anatomy', text: source }]);
+
+      expect(result).toEqual([
+        {
+          id: 'mocked-uuid',
+          question: 'What does the heart pump?',
+          answer: 'Blood',
+          section: 'Anatomy',
+          provenance: { quote: 'The heart pumps blood.', start: 0, end: 22 },
+          tags: ['heart'],
+          difficulty: 'easy'
+        },
+        {
+          id: 'mocked-uuid',
+          question: 'How many chambers does the heart have?',
+          answer: 'Four',
+          section: 'Anatomy',
+          provenance: { quote: 'It has four chambers.', start: 23, end: 44 },
+          tags: ['heart']
+        }
+      ]);
+      const messages = requestBody().messages;
+      expect(messages[0].content).toContain('Split it into 2 to 5 flashcards');
+      expect(messages[1].content).toBe(
+        'Flashcard: {"question":"What does the heart pump, and how many chambers does it have?","answer":"Blood; four"}\n\n' + source
+      );
+    });
+
+    test('keeps the card type and falls back to the quote without a stored source', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(JSON.stringify({
+        flashcards: [{ type: 'cloze', question: 'The heart pumps {{blood}}.', answer: 'blood' }]
+      })));
+      const cloze = { id: 'card-2', type: 'cloze' as const, question: 'The {{heart}} pumps blood.', answer: 'heart', provenance: { quote: 'The heart pumps blood.' } };
+
+      const result = await refineFlashcard(cloze, 'regenerate');
+
+      expect(result).toEqual([{ id: 'mocked-uuid', type: 'cloze', question: 'The heart pumps {{blood}}.', answer: 'blood' }]);
+      const messages = requestBody().messages;
+      expect(messages[0].content).toContain('"cloze"');
+      expect(messages[1].content).toBe('Flashcard: {"type":"cloze","question":"The {{heart}} pumps blood.","answer":"heart"}\n\nThe heart pumps blood.');
+    });
+
+    test('asks for more cards on the same concept and drops repeats of the card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(JSON.stringify({
+        flashcards: [
+          { question: card.question, answer: 'Blood; four' },
+          { question: 'How many chambers does the heart have?', answer: 'Four' },
+          { question: 'What is a heart chamber?', answer: 'A cavity' }
+        ]
+      })));
+
+      const result = await refineFlashcard(card, 'more', source, 1);
+
+      expect(result.map(refined => refined.question)).toEqual(['How many chambers does the heart have?']);
+      expect(requestBody().messages[0].content).toContain('Write 1 new flashcards about the same concept');
+    });
+
+    test('reports responses that only repeat the card', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(JSON.stringify({
+        flashcards: [{ question: card.question, answer: 'Blood' }]
+      })));
+
+      await expect(refineFlashcard(card, 'more')).rejects.toThrow('Failed to refine flashcard: the LLM only repeated the card');
+    });
+
+    test('sends the request to the mock server in mock mode', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(completion(JSON.stringify({
+        flashcards: [{ question: 'What does the heart pump?', answer: 'Blood' }]
+      })));
+
+      await refineFlashcard(card, 'regenerate', source, 1, mockApiKey, true);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('?mock=true'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'X-Use-Mock': 'true' })
+        })
+      );
+    });
+  });
 });
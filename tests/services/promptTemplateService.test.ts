@@ -0,0 +1,105 @@
+import {
+  BUILT_IN_PRESETS,
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_PRESETS_STORAGE_KEY,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  getCustomPresets,
+  saveCustomPreset,
+  deleteCustomPreset,
+  isTemplateModified
+} from '../../src/services/promptTemplateService';
+import { PromptTemplate } from '../../src/types';
+
+let nextId = 0;
+jest.mock('uuid', () => ({
+  v4: jest.fn(() => `preset-${++nextId}`)
+}));
+
+describe('promptTemplateService', () => {
+  const values = { content: 'Water boils at 100 degrees.', count: 4, language: 'German', audience: 'a chemistry student' };
+  const template: PromptTemplate = {
+    ...DEFAULT_PROMPT_TEMPLATE,
+    systemPrompt: 'Create {{count}} cards for {{audience}}.'
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    nextId = 0;
+  });
+
+  describe('renderPromptTemplate', () => {
+    test('fills in every known variable', () => {
+      expect(renderPromptTemplate('{{count}} cards in {{ language }} for {{audience}}:\n{{content}}', values))
+        .toBe('4 cards in German for a chemistry student:\nWater boils at 100 degrees.');
+    });
+
+    test('leaves other double braces as written', () => {
+      expect(renderPromptTemplate('e.g. "The {{mitochondrion}} makes ATP." ({{topic}})', values))
+        .toBe('e.g. "The {{mitochondrion}} makes ATP." ({{topic}})');
+    });
+
+    test('does not fill in variables that appear in the content itself', () => {
+      expect(renderPromptTemplate('{{content}} ({{count}})', { ...values, content: 'Use {{count}} here' }))
+        .toBe('Use {{count}} here (4)');
+    });
+  });
+
+  test('every built-in preset is valid and has a unique id', () => {
+    BUILT_IN_PRESETS.forEach(preset => {
+      expect(validatePromptTemplate(preset)).toBeNull();
+    });
+    expect(new Set(BUILT_IN_PRESETS.map(preset => preset.id)).size).toBe(BUILT_IN_PRESETS.length);
+  });
+
+  test('rejects templates without instructions or content', () => {
+    expect(validatePromptTemplate({ ...template, systemPrompt: '  ' })).toBe('The prompt instructions cannot be empty');
+    expect(validatePromptTemplate({ ...template, userPrompt: 'Make cards.' })).toBe('The user message must contain {{content}}');
+  });
+
+  describe('custom presets', () => {
+    test('saves a new preset and overwrites it when saved under the same name', () => {
+      const saved = saveCustomPreset(template, ' Chemistry ');
+      expect(saved).toEqual({
+        id: 'preset-1',
+        name: 'Chemistry',
+        systemPrompt: template.systemPrompt,
+        userPrompt: template.userPrompt,
+        audience: template.audience
+      });
+
+      saveCustomPreset({ ...saved, audience: 'a chemistry student' }, 'chemistry');
+
+      expect(getCustomPresets()).toEqual([{ ...saved, name: 'chemistry', audience: 'a chemistry student' }]);
+    });
+
+    test('refuses empty names and the names of built-in presets', () => {
+      expect(() => saveCustomPreset(template, ' ')).toThrow('Please give the preset a name');
+      expect(() => saveCustomPreset(template, 'exam PREP')).toThrow('"exam PREP" is a built-in preset; please choose another name');
+      expect(() => saveCustomPreset({ ...template, userPrompt: 'No content' }, 'Broken')).toThrow('The user message must contain {{content}}');
+      expect(getCustomPresets()).toEqual([]);
+    });
+
+    test('deletes a preset', () => {
+      const first = saveCustomPreset(template, 'First');
+      const second = saveCustomPreset(template, 'Second');
+
+      deleteCustomPreset(first.id);
+
+      expect(getCustomPresets()).toEqual([second]);
+    });
+
+    test('ignores malformed storage', () => {
+      localStorage.setItem(PROMPT_PRESETS_STORAGE_KEY, '{not json');
+      expect(getCustomPresets()).toEqual([]);
+
+      localStorage.setItem(PROMPT_PRESETS_STORAGE_KEY, JSON.stringify([{ id: 'x', name: 'Incomplete' }, null, 'preset', { ...template, id: 'ok' }]));
+      expect(getCustomPresets().map(preset => preset.id)).toEqual(['ok']);
+    });
+  });
+
+  test('detects edits to the preset a template came from', () => {
+    expect(isTemplateModified(DEFAULT_PROMPT_TEMPLATE, BUILT_IN_PRESETS)).toBe(false);
+    expect(isTemplateModified({ ...DEFAULT_PROMPT_TEMPLATE, audience: 'experts' }, BUILT_IN_PRESETS)).toBe(true);
+  });
+});
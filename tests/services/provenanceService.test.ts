@@ -0,0 +1,60 @@
+import {
+  locateQuote,
+  buildProvenance,
+  isProvenanceVerified,
+  parseProvenance
+} from '../../src/services/provenanceService';
+
+describe('Provenance Service', () => {
+  const source = 'The Eiffel Tower was built in 1889.\n\nIt is named after the engineer Gustave Eiffel, whose company designed it.';
+
+  describe('locateQuote', () => {
+    test('finds an exact quote', () => {
+      expect(locateQuote(source, 'built in 1889')).toEqual({ start: 21, end: 34 });
+    });
+
+    test('ignores case, whitespace and typographic punctuation', () => {
+      const location = locateQuote(source, '“the Eiffel  tower was built\nin 1889.”');
+
+      expect(location).toEqual({ start: 0, end: 35 });
+    });
+
+    test('lets an ellipsis stand for skipped text', () => {
+      const location = locateQuote(source, 'named after the engineer ... designed it');
+
+      expect(location).not.toBeNull();
+      expect(source.substring(location!.start, location!.end)).toBe(
+        'named after the engineer Gustave Eiffel, whose company designed it'
+      );
+    });
+
+    test('requires the parts of an elided quote to appear in order', () => {
+      expect(locateQuote(source, 'designed it … built in 1889')).toBeNull();
+    });
+
+    test('returns null for quotes that are not in the source', () => {
+      expect(locateQuote(source, 'built in 1890')).toBeNull();
+      expect(locateQuote(source, '  ')).toBeNull();
+    });
+  });
+
+  test('buildProvenance records offsets only for quotes that were found', () => {
+    expect(buildProvenance('built in 1889', source)).toEqual({ quote: 'built in 1889', start: 21, end: 34 });
+    expect(buildProvenance('built in 1890', source)).toEqual({ quote: 'built in 1890' });
+    expect(buildProvenance(undefined, source)).toEqual({ quote: '' });
+  });
+
+  test('isProvenanceVerified depends on the quote having been located', () => {
+    expect(isProvenanceVerified({ quote: 'x', start: 0, end: 1 })).toBe(true);
+    expect(isProvenanceVerified({ quote: 'x' })).toBe(false);
+  });
+
+  test('parseProvenance keeps well-formed data from export files', () => {
+    expect(parseProvenance({ quote: 'q', start: 3, end: 8 })).toEqual({ quote: 'q', start: 3, end: 8 });
+    expect(parseProvenance({ quote: 'q', start: 8, end: 3 })).toEqual({ quote: 'q' });
+    expect(parseProvenance({ quote: 'q', start: '1.5', end: 3 })).toEqual({ quote: 'q' });
+    expect(parseProvenance({ start: 0, end: 1 })).toBeUndefined();
+    expect(parseProvenance(null)).toBeUndefined();
+    expect(parseProvenance('q')).toBeUndefined();
+  });
+});
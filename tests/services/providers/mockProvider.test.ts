@@ -0,0 +1,73 @@
+import { createMockProvider } from '../../../src/services/providers/mockProvider';
+import { gradeAnswerWithLLM } from '../../../src/services/quizService';
+import { findDuplicateGroupsWithLLM } from '../../../src/services/duplicateService';
+import { critiqueFlashcards } from '../../../src/services/cardQualityService';
+import { Flashcard } from '../../../src/types';
+
+// The review passes reach the mock provider like they would with LLM_PROVIDER=mock
+jest.mock('../../../src/services/llmProvider', () => ({
+  getLLMProvider: () => jest.requireActual('../../../src/services/providers/mockProvider').createMockProvider()
+}));
+
+describe('Mock provider', () => {
+  const request = {
+    messages: [
+      { role: 'system' as const, content: 'You create flashcards.' },
+      {
+        role: 'user' as const,
+        content: 'Create flashcards from the following content:\n\nThe mitochondrion is the powerhouse of the cell. Plants use chloroplasts for photosynthesis. Short one.'
+      }
+    ]
+  };
+
+  test('builds flashcards from the source sentences without network access', async () => {
+    const result = JSON.parse(await createMockProvider().complete(request));
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(result.flashcards).toEqual([
+      {
+        question: 'Complete the statement (1): "The mitochondrion is the ..."',
+        answer: 'The mitochondrion is the powerhouse of the cell.'
+      },
+      {
+        question: 'Complete the statement (2): "Plants use chloroplasts ..."',
+        answer: 'Plants use chloroplasts for photosynthesis.'
+      }
+    ]);
+  });
+
+  test('is deterministic', async () => {
+    const provider = createMockProvider();
+    expect(await provider.complete(request)).toBe(await provider.complete(request));
+  });
+
+  test('streams the same content in pieces', async () => {
+    const onDelta = jest.fn();
+    const result = await createMockProvider().complete({ ...request, onDelta });
+
+    expect(onDelta.mock.calls.length).toBeGreaterThan(1);
+    expect(onDelta.mock.calls.map(call => call[0]).join('')).toBe(result);
+  });
+
+  describe('review passes', () => {
+    const cards: Flashcard[] = [
+      { id: '1', question: 'What is the capital of France?', answer: 'Paris' },
+      { id: '2', question: 'Name the French capital.', answer: 'Paris' }
+    ];
+
+    test('gives the answer judge a verdict', async () => {
+      expect((await gradeAnswerWithLLM(cards[0], 'The French capital')).verdict).toBe('partial');
+    });
+
+    test('gives the paraphrase check an empty duplicates list', async () => {
+      expect(await findDuplicateGroupsWithLLM(cards)).toEqual([]);
+    });
+
+    test('gives the quality review a passing review of every card', async () => {
+      expect(await critiqueFlashcards(cards)).toEqual([
+        { cardId: '1', score: 5, issues: [] },
+        { cardId: '2', score: 5, issues: [] }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { createOllamaProvider } from '../../../src/services/providers/ollamaProvider';
+import { LLMConfig } from '../../../src/config';
+
+// jsdom lacks the text codecs that the streaming reader relies on
+Object.assign(global, { TextDecoder, TextEncoder });
+
+console.log = jest.fn();
+console.error = jest.fn();
+
+describe('Ollama provider', () => {
+  const config: LLMConfig = {
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llama3.2',
+    defaultApiKey: ''
+  };
+  const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  test('calls the native chat endpoint and reads the message content', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: jest.fn().mockResolvedValueOnce({ message: { role: 'assistant', content: '{"flashcards":[]}' }, done: true })
+    });
+
+    const provider = createOllamaProvider(config);
+    const result = await provider.complete({ messages, jsonMode: true, maxTokens: 500 });
+
+    expect(result).toBe('{"flashcards":[]}');
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama3.2',
+      messages,
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.7, num_predict: 500 }
+    });
+  });
+
+  test('streams newline-delimited JSON chunks', async () => {
+    const encoder = new TextEncoder();
+    const pending = [
+      '{"message":{"content":"Hel"},"done":false}\n{"message":',
+      '{"content":"lo"},"done":false}\n',
+      '{"message":{"content":""},"done":true}'
+    ].map(piece => encoder.encode(piece));
+
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      body: {
+        getReader: () => ({
+          read: () => Promise.resolve(
+            pending.length > 0 ? { done: false, value: pending.shift() } : { done: true, value: undefined }
+          )
+        })
+      }
+    });
+    const onDelta = jest.fn();
+
+    const result = await createOllamaProvider(config).complete({ messages, onDelta });
+
+    expect(onDelta.mock.calls).toEqual([['Hel'], ['lo']]);
+    expect(result).toBe('Hello');
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  test('reports API errors', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 404,
+      text: jest.fn().mockResolvedValueOnce('model "llama3.2" not found')
+    });
+
+    await expect(createOllamaProvider(config).complete({ messages }))
+      .rejects.toThrow('API request failed: 404 model "llama3.2" not found');
+  });
+});
@@ -0,0 +1,69 @@
+import { createOpenAICompatibleProvider, needsCORSproxy } from '../../../src/services/providers/openAICompatibleProvider';
+import { LLMConfig } from '../../../src/config';
+
+console.log = jest.fn();
+console.error = jest.fn();
+
+describe('OpenAI-compatible provider', () => {
+  const config: LLMConfig = {
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-test',
+    defaultApiKey: 'default-key'
+  };
+  const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+  const completion = (content: string) => ({
+    ok: true,
+    json: jest.fn().mockResolvedValueOnce({ choices: [{ message: { content } }] })
+  });
+
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  test('calls remote APIs directly with a bearer token', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(completion('Hi there'));
+
+    const provider = createOpenAICompatibleProvider(config, { apiKey: 'user-key' });
+    const result = await provider.complete({ messages, temperature: 0.2, maxTokens: 100 });
+
+    expect(result).toBe('Hi there');
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer user-key');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'gpt-test',
+      messages,
+      temperature: 0.2,
+      max_tokens: 100,
+      stream: false
+    });
+  });
+
+  test('routes localhost servers through the proxy without an Authorization header', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce(completion('ok'));
+
+    const provider = createOpenAICompatibleProvider({ ...config, baseUrl: 'http://127.0.0.1:8080/v1' });
+    await provider.complete({ messages });
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(url).toBe('http://localhost:3001/api/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+  });
+
+  test('wraps network failures with the backend URL', async () => {
+    (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('connection refused'));
+
+    const provider = createOpenAICompatibleProvider(config);
+
+    await expect(provider.complete({ messages }))
+      .rejects.toThrow('Network error when connecting to https://api.openai.com/v1: connection refused');
+  });
+
+  test('detects hosts that need the CORS proxy', () => {
+    expect(needsCORSproxy('http://localhost:1234/v1')).toBe(true);
+    expect(needsCORSproxy('http://127.0.0.1:1234')).toBe(true);
+    expect(needsCORSproxy('https://api.openai.com/v1')).toBe(false);
+    expect(needsCORSproxy('not a url')).toBe(false);
+  });
+});
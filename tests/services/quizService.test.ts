@@ -0,0 +1,115 @@
+import {
+  normalizeAnswer,
+  getSimilarity,
+  gradeAnswerLocally,
+  gradeAnswerWithLLM,
+  summarizeQuiz,
+  getMissedCards,
+  QuizResult
+} from '../../src/services/quizService';
+import { getLLMProvider } from '../../src/services/llmProvider';
+import { Flashcard } from '../../src/types';
+
+jest.mock('../../src/config', () => ({
+  ...jest.requireActual('../../src/config'),
+  getLLMConfig: jest.fn().mockReturnValue({ baseUrl: 'http://test-api.com', model: 'test-model' })
+}));
+
+jest.mock('../../src/services/llmProvider', () => ({
+  getLLMProvider: jest.fn()
+}));
+
+describe('Quiz Service', () => {
+  const card: Flashcard = { id: '1', question: 'What does the heart do?', answer: 'Pumps blood through the body' };
+
+  test('normalizes case, accents, punctuation and articles', () => {
+    expect(normalizeAnswer('  The Café-Society! ')).toBe('cafe society');
+    expect(normalizeAnswer('An apple, a day')).toBe('apple day');
+  });
+
+  test('measures similarity by edit distance', () => {
+    expect(getSimilarity('mitochondria', 'mitochondria')).toBe(1);
+    expect(getSimilarity('mitochondria', 'mitocondria')).toBeGreaterThan(0.9);
+    expect(getSimilarity('cat', 'dog')).toBe(0);
+  });
+
+  test('accepts exact answers, answers in a sentence and small typos', () => {
+    const short: Flashcard = { id: '2', question: 'Capital of France?', answer: 'Paris' };
+    expect(gradeAnswerLocally(short, 'paris.').verdict).toBe('correct');
+    expect(gradeAnswerLocally(short, 'It is Paris').verdict).toBe('correct');
+    expect(gradeAnswerLocally(short, 'Pariss')).toEqual({ verdict: 'correct', feedback: 'Check the spelling', gradedBy: 'local' });
+    expect(gradeAnswerLocally(short, 'Lyon').verdict).toBe('incorrect');
+    expect(gradeAnswerLocally(short, '  ')).toEqual({ verdict: 'incorrect', feedback: 'No answer given', gradedBy: 'local' });
+  });
+
+  test('does not accept answers that negate the expected one', () => {
+    const short: Flashcard = { id: '2', question: 'Capital of France?', answer: 'Paris' };
+    const statement: Flashcard = { id: '3', type: 'true-false', question: 'Paris is in France.', answer: 'True' };
+
+    expect(gradeAnswerLocally(statement, 'not true').verdict).toBe('incorrect');
+    expect(gradeAnswerLocally(statement, "It isn't true").verdict).toBe('incorrect');
+    expect(gradeAnswerLocally(short, 'Paris is not the capital').verdict).toBe('incorrect');
+    expect(gradeAnswerLocally(card, 'it does not pump blood through the body').verdict).toBe('incorrect');
+    expect(gradeAnswerLocally({ ...short, answer: 'Not a planet' }, 'not a planet').verdict).toBe('correct');
+  });
+
+  test('requires the same key words for true/false and multiple choice answers', () => {
+    const statement: Flashcard = { id: '3', type: 'true-false', question: 'Paris is in France.', answer: 'True' };
+    expect(gradeAnswerLocally(statement, 'It is true').verdict).toBe('correct');
+    expect(gradeAnswerLocally(statement, 'true and false').verdict).toBe('incorrect');
+  });
+
+  test('grades longer answers by the key words they contain', () => {
+    expect(gradeAnswerLocally(card, 'it pumps the blood through our body').verdict).toBe('correct');
+    expect(gradeAnswerLocally(card, 'pumps blood').verdict).toBe('partial');
+    expect(gradeAnswerLocally(card, 'it thinks').verdict).toBe('incorrect');
+  });
+
+  test('requires the exact option for multiple choice and true/false cards', () => {
+    const choice: Flashcard = { id: '3', type: 'multiple-choice', question: 'Q', answer: 'Jupiter', options: ['Jupiter', 'Jupyter'] };
+    expect(gradeAnswerLocally(choice, 'Jupiter').verdict).toBe('correct');
+    expect(gradeAnswerLocally(choice, 'Jupyter').verdict).toBe('incorrect');
+  });
+
+  test('asks the LLM judge for a verdict and feedback', async () => {
+    const complete = jest.fn().mockResolvedValue('{"verdict": "Correct", "feedback": "Same meaning."}');
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete });
+
+    const grade = await gradeAnswerWithLLM(card, 'It circulates blood');
+
+    expect(grade).toEqual({ verdict: 'correct', feedback: 'Same meaning.', gradedBy: 'llm' });
+    const request = complete.mock.calls[0][0];
+    expect(request.temperature).toBe(0);
+    expect(request.messages[1].content).toBe(
+      'Question: What does the heart do?\nExpected answer: Pumps blood through the body\nLearner\'s answer: It circulates blood'
+    );
+  });
+
+  test('passes the API key and mock mode to the provider', async () => {
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete: jest.fn().mockResolvedValue('{"verdict": "incorrect"}') });
+
+    await gradeAnswerWithLLM(card, 'x', 'test-key', true);
+
+    expect(getLLMProvider).toHaveBeenCalledWith(expect.anything(), { apiKey: 'test-key', useMock: true });
+  });
+
+  test('reports judge responses without a verdict', async () => {
+    (getLLMProvider as jest.Mock).mockReturnValue({ complete: jest.fn().mockResolvedValue('{"flashcards": []}') });
+
+    await expect(gradeAnswerWithLLM(card, 'x')).rejects.toThrow('Failed to grade answer: the response did not contain a verdict');
+  });
+
+  test('summarizes results and collects missed cards', () => {
+    const other: Flashcard = { id: '4', question: 'Q', answer: 'A' };
+    const third: Flashcard = { id: '5', question: 'Q2', answer: 'A2' };
+    const results: QuizResult[] = [
+      { card, response: 'pumps blood', grade: { verdict: 'correct', gradedBy: 'local' } },
+      { card: other, response: 'B', grade: { verdict: 'incorrect', gradedBy: 'local' } },
+      { card: third, response: 'A', grade: { verdict: 'partial', gradedBy: 'llm' } }
+    ];
+
+    expect(summarizeQuiz(results)).toEqual({ total: 3, correct: 1, partial: 1, incorrect: 1, score: 0.5 });
+    expect(getMissedCards(results)).toEqual([other, third]);
+    expect(summarizeQuiz([]).score).toBe(0);
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  extractJsonPayload,
+  repairJson,
+  parseLLMJson,
+  validateCard,
+  parseFlashcardResponse,
+  describeValidationErrors,
+  MAX_QUESTION_LENGTH
+} from '../../src/services/responseParsingService';
+
+describe('Response Parsing Service', () => {
+  describe('extractJsonPayload', () => {
+    test('strips markdown code fences', () => {
+      const raw = '```json\n{"flashcards": []}\n```';
+      expect(extractJsonPayload(raw)).toBe('{"flashcards": []}');
+    });
+
+    test('strips prose around the JSON object', () => {
+      const raw = 'Here are your flashcards:\n{"flashcards": [{"question": "Q", "answer": "A"}]}\nLet me know if you need more!';
+      expect(extractJsonPayload(raw)).toBe('{"flashcards": [{"question": "Q", "answer": "A"}]}');
+    });
+
+    test('keeps a top-level array', () => {
+      expect(extractJsonPayload('Cards: [{"question": "Q", "answer": "A"}].')).toBe('[{"question": "Q", "answer": "A"}]');
+    });
+  });
+
+  describe('repairJson', () => {
+    test('removes trailing commas', () => {
+      expect(JSON.parse(repairJson('{"flashcards": [{"question": "Q", "answer": "A",},]}'))).toEqual({
+        flashcards: [{ question: 'Q', answer: 'A' }]
+      });
+    });
+
+    test('replaces smart quotes and removes comments', () => {
+      const raw = '{\n// generated cards\n“flashcards”: [{“question”: “Q”, “answer”: “A”}]}';
+      expect(JSON.parse(repairJson(raw))).toEqual({ flashcards: [{ question: 'Q', answer: 'A' }] });
+    });
+
+    test('closes output that was cut off mid-card', () => {
+      const raw = '{"flashcards": [{"question": "Q1", "answer": "A1"}, {"question": "Q2", "ans';
+      expect(JSON.parse(repairJson(raw))).toEqual({
+        flashcards: [{ question: 'Q1', answer: 'A1' }, { question: 'Q2' }]
+      });
+    });
+  });
+
+  describe('parseLLMJson', () => {
+    test('parses clean JSON directly', () => {
+      expect(parseLLMJson('{"a": 1}')).toEqual({ a: 1 });
+    });
+
+    test('parses noisy output from small local models', () => {
+      const raw = 'Sure! ```json\n{"flashcards": [{"question": "Q", "answer": "A"},]}\n```';
+      expect(parseLLMJson(raw)).toEqual({ flashcards: [{ question: 'Q', answer: 'A' }] });
+    });
+
+    test('throws when no JSON can be recovered', () => {
+      expect(() => parseLLMJson('I cannot help with that.')).toThrow('Could not parse JSON from LLM response');
+    });
+  });
+
+  describe('validateCard', () => {
+    test('accepts and trims a valid card', () => {
+      expect(validateCard({ question: ' Q ', answer: ' A ' })).toEqual({ card: { question: 'Q', answer: 'A' } });
+    });
+
+    test('keeps the supporting quote but does not require one', () => {
+      expect(validateCard({ question: 'Q', answer: 'A', quote: ' It is so. ' })).toEqual({
+        card: { question: 'Q', answer: 'A', quote: 'It is so.' }
+      });
+      expect(validateCard({ question: 'Q', answer: 'A', quote: 42 })).toEqual({ card: { question: 'Q', answer: 'A' } });
+    });
+
+    test('keeps suggested tags and difficulty, dropping malformed ones', () => {
+      expect(validateCard({ question: 'Q', answer: 'A', tags: ['Cell Biology', 7], difficulty: 'Hard' })).toEqual({
+        card: { question: 'Q', answer: 'A', tags: ['cell-biology'], difficulty: 'hard' }
+      });
+      expect(validateCard({ question: 'Q', answer: 'A', tags: {}, difficulty: 'trivial' })).toEqual({
+        card: { question: 'Q', answer: 'A' }
+      });
+    });
+
+    test('rejects missing, empty or non-string fields', () => {
+      expect(validateCard(null).reason).toBe('card is not an object');
+      expect(validateCard({ answer: 'A' }).reason).toBe('question is missing or empty');
+      expect(validateCard({ question: 'Q', answer: '   ' }).reason).toBe('answer is missing or empty');
+      expect(validateCard({ question: 'Q', answer: 42 }).reason).toBe('answer is missing or empty');
+    });
+
+    test('validates the fields of typed cards', () => {
+      expect(validateCard({ type: 'true-false', question: 'The sky is green.', answer: false, quote: 'The sky is blue.' })).toEqual({
+        card: { type: 'true-false', question: 'The sky is green.', answer: 'False', quote: 'The sky is blue.' }
+      });
+      expect(validateCard({ type: 'multiple-choice', question: 'Q', answer: 'A' }).reason).toBe('multiple choice options are missing');
+      expect(validateCard({ type: 'flashcard', question: 'Q', answer: 'A' }).reason).toBe('unknown card type "flashcard"');
+    });
+
+    test('rejects overly long questions', () => {
+      const result = validateCard({ question: 'Q'.repeat(MAX_QUESTION_LENGTH + 1), answer: 'A' });
+      expect(result.reason).toBe(`question is longer than ${MAX_QUESTION_LENGTH} characters`);
+    });
+  });
+
+  describe('parseFlashcardResponse', () => {
+    test('keeps valid cards and reports invalid ones individually', () => {
+      const raw = JSON.stringify({
+        flashcards: [
+          { question: 'Q1', answer: 'A1' },
+          { question: '', answer: 'A2' },
+          { question: 'Q3', answer: 'A3' },
+          'not a card'
+        ]
+      });
+
+      const result = parseFlashcardResponse(raw);
+
+      expect(result.cards).toEqual([
+        { question: 'Q1', answer: 'A1' },
+        { question: 'Q3', answer: 'A3' }
+      ]);
+      expect(result.errors).toEqual([
+        { index: 1, reason: 'question is missing or empty' },
+        { index: 3, reason: 'card is not an object' }
+      ]);
+      expect(describeValidationErrors(result.errors)).toBe(
+        'card 2: question is missing or empty; card 4: card is not an object'
+      );
+    });
+
+    test('accepts a "cards" key or a bare array', () => {
+      expect(parseFlashcardResponse('{"cards": [{"question": "Q", "answer": "A"}]}').cards).toHaveLength(1);
+      expect(parseFlashcardResponse('[{"question": "Q", "answer": "A"}]').cards).toHaveLength(1);
+    });
+
+    test('throws when there is no flashcards array', () => {
+      expect(() => parseFlashcardResponse('{"invalid": "response"}')).toThrow('Invalid response format from LLM');
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { recordReviewEvent, getReviewEvents, deleteReviewEvents } from '../../src/services/reviewHistoryService';
+import { saveDeck, deleteDeck } from '../../src/services/deckLibraryService';
+import { ReviewEvent } from '../../src/types';
+
+describe('Review History Service', () => {
+  const event = (deckId: string, cardId: string, timestamp: string): ReviewEvent => ({
+    deckId,
+    cardId,
+    timestamp: new Date(timestamp),
+    grade: 'good',
+    responseTimeMs: 1500
+  });
+
+  beforeEach(() => {
+    global.indexedDB = new IDBFactory();
+  });
+
+  test('stores events per deck and returns them oldest first', async () => {
+    await recordReviewEvent(event('deck-1', 'b', '2024-03-02T10:00:00Z'));
+    await recordReviewEvent(event('deck-2', 'x', '2024-03-01T10:00:00Z'));
+    await recordReviewEvent(event('deck-1', 'a', '2024-03-01T10:00:00Z'));
+
+    expect(await getReviewEvents('deck-1')).toEqual([
+      event('deck-1', 'a', '2024-03-01T10:00:00Z'),
+      event('deck-1', 'b', '2024-03-02T10:00:00Z')
+    ]);
+  });
+
+  test('deletes the history of one deck', async () => {
+    await recordReviewEvent(event('deck-1', 'a', '2024-03-01T10:00:00Z'));
+    await recordReviewEvent(event('deck-2', 'x', '2024-03-01T10:00:00Z'));
+
+    await deleteReviewEvents('deck-1');
+
+    expect(await getReviewEvents('deck-1')).toEqual([]);
+    expect(await getReviewEvents('deck-2')).toHaveLength(1);
+  });
+
+  test('deleting a deck also deletes its history', async () => {
+    const deck = await saveDeck({ title: 'Deck', source: 'Test', cards: [], createdAt: new Date() });
+    await recordReviewEvent(event(deck.id!, 'a', '2024-03-01T10:00:00Z'));
+
+    await deleteDeck(deck.id!);
+
+    expect(await getReviewEvents(deck.id!)).toEqual([]);
+  });
+});
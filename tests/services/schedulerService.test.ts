@@ -0,0 +1,141 @@
+import {
+  createInitialReviewState,
+  scheduleReview,
+  isCardDue,
+  getDueCards,
+  reviewCard,
+  parseReviewState
+} from '../../src/services/schedulerService';
+import { Flashcard } from '../../src/types';
+
+describe('Scheduler Service', () => {
+  const now = new Date('2024-01-01T12:00:00.000Z');
+  const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  test('creates an initial review state that is due immediately', () => {
+    const state = createInitialReviewState(now);
+
+    expect(state).toEqual({
+      easeFactor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      dueDate: now
+    });
+  });
+
+  test('schedules the first two successful reviews at 1 and 6 days', () => {
+    const first = scheduleReview(undefined, 'good', now);
+    expect(first.repetitions).toBe(1);
+    expect(first.interval).toBe(1);
+    expect(first.dueDate).toEqual(daysFromNow(1));
+    expect(first.lastReviewed).toEqual(now);
+    expect(first.lastGrade).toBe('good');
+
+    const second = scheduleReview(first, 'good', now);
+    expect(second.repetitions).toBe(2);
+    expect(second.interval).toBe(6);
+    expect(second.dueDate).toEqual(daysFromNow(6));
+  });
+
+  test('multiplies the interval by the ease factor after the second review', () => {
+    const state = { easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now };
+    const next = scheduleReview(state, 'good', now);
+
+    expect(next.easeFactor).toBe(2.5);
+    expect(next.interval).toBe(15);
+    expect(next.repetitions).toBe(3);
+  });
+
+  test('resets repetitions and lowers ease factor on "again"', () => {
+    const state = { easeFactor: 2.5, interval: 15, repetitions: 3, dueDate: now };
+    const next = scheduleReview(state, 'again', now);
+
+    expect(next.repetitions).toBe(0);
+    expect(next.interval).toBe(1);
+    expect(next.easeFactor).toBeCloseTo(1.96);
+  });
+
+  test('never lets the ease factor drop below 1.3', () => {
+    let state = createInitialReviewState(now);
+    for (let i = 0; i < 10; i++) {
+      state = scheduleReview(state, 'again', now);
+    }
+
+    expect(state.easeFactor).toBe(1.3);
+  });
+
+  test('"hard" shortens and "easy" lengthens the interval compared with "good"', () => {
+    const state = { easeFactor: 2.5, interval: 6, repetitions: 2, dueDate: now };
+
+    const hard = scheduleReview(state, 'hard', now);
+    const good = scheduleReview(state, 'good', now);
+    const easy = scheduleReview(state, 'easy', now);
+
+    expect(hard.interval).toBeLessThan(good.interval);
+    expect(easy.interval).toBeGreaterThan(good.interval);
+    expect(easy.easeFactor).toBeGreaterThan(good.easeFactor);
+    expect(hard.easeFactor).toBeLessThan(good.easeFactor);
+  });
+
+  test('treats cards without review state as due', () => {
+    const card: Flashcard = { id: '1', question: 'Q', answer: 'A' };
+    expect(isCardDue(card, now)).toBe(true);
+  });
+
+  test('returns only due cards, most overdue first', () => {
+    const cards: Flashcard[] = [
+      { id: 'future', question: 'Q1', answer: 'A1', review: { easeFactor: 2.5, interval: 3, repetitions: 1, dueDate: daysFromNow(3) } },
+      { id: 'overdue', question: 'Q2', answer: 'A2', review: { easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: daysFromNow(-2) } },
+      { id: 'new', question: 'Q3', answer: 'A3' },
+      { id: 'today', question: 'Q4', answer: 'A4', review: { easeFactor: 2.5, interval: 1, repetitions: 1, dueDate: now } }
+    ];
+
+    expect(getDueCards(cards, now).map(card => card.id)).toEqual(['new', 'overdue', 'today']);
+  });
+
+  test('reviewCard returns an updated copy of the card', () => {
+    const card: Flashcard = { id: '1', question: 'Q', answer: 'A' };
+    const reviewed = reviewCard(card, 'good', now);
+
+    expect(reviewed).not.toBe(card);
+    expect(card.review).toBeUndefined();
+    expect(reviewed.review?.dueDate).toEqual(daysFromNow(1));
+  });
+
+  test('parses review state with string dates from JSON', () => {
+    const parsed = parseReviewState({
+      easeFactor: 2.36,
+      interval: 6,
+      repetitions: 2,
+      dueDate: '2024-01-07T12:00:00.000Z',
+      lastReviewed: '2024-01-01T12:00:00.000Z',
+      lastGrade: 'again'
+    });
+
+    expect(parsed).toEqual({
+      easeFactor: 2.36,
+      interval: 6,
+      repetitions: 2,
+      dueDate: daysFromNow(6),
+      lastReviewed: now,
+      lastGrade: 'again'
+    });
+    expect(parseReviewState(undefined)).toBeUndefined();
+    expect(parseReviewState({ interval: 3 })).toBeUndefined();
+    expect(parseReviewState({ dueDate: 'someday' })).toBeUndefined();
+    expect(parseReviewState('2024-01-07')).toBeUndefined();
+  });
+
+  test('drops unreadable optional fields of imported review state', () => {
+    const parsed = parseReviewState({ dueDate: '2024-01-07T12:00:00.000Z', lastReviewed: {}, lastGrade: 'perfect' });
+
+    expect(parsed).toEqual({
+      easeFactor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      dueDate: daysFromNow(6),
+      lastReviewed: undefined,
+      lastGrade: undefined
+    });
+  });
+});
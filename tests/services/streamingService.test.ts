@@ -0,0 +1,105 @@
+/**
+ * @jest-environment node
+ */
+import { createFlashcardStreamParser, readServerSentEvents } from '../../src/services/streamingService';
+
+const createBody = (pieces: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    }
+  });
+};
+
+describe('Streaming Service', () => {
+  describe('createFlashcardStreamParser', () => {
+    test('emits each card as soon as its object is complete', () => {
+      const parser = createFlashcardStreamParser();
+
+      expect(parser.push('{"flashcards":[{"question":"Q1",')).toEqual([]);
+      expect(parser.push('"answer":"A1"},{"question"')).toEqual([{ question: 'Q1', answer: 'A1' }]);
+      expect(parser.push(':"Q2","answer":"A2"}')).toEqual([{ question: 'Q2', answer: 'A2' }]);
+      expect(parser.push(']}')).toEqual([]);
+    });
+
+    test('ignores braces and quotes inside strings', () => {
+      const parser = createFlashcardStreamParser();
+      const json = JSON.stringify({
+        flashcards: [{ question: 'What does "{x}" mean?', answer: 'A set [literal] \\ escaped' }]
+      });
+
+      const cards = json.split('').reduce<any[]>((all, char) => all.concat(parser.push(char)), []);
+
+      expect(cards).toEqual([{ question: 'What does "{x}" mean?', answer: 'A set [literal] \\ escaped' }]);
+    });
+
+    test('passes typed cards through with their extra fields', () => {
+      const parser = createFlashcardStreamParser();
+
+      expect(parser.push('[{"type":"true-false","question":"S","answer":false},{"type":"multiple-choice","question":"Q","answer":"A","options":["A","B"]}]')).toEqual([
+        { type: 'true-false', question: 'S', answer: false },
+        { type: 'multiple-choice', question: 'Q', answer: 'A', options: ['A', 'B'] }
+      ]);
+    });
+
+    test('passes supporting quotes through', () => {
+      const parser = createFlashcardStreamParser();
+
+      expect(parser.push('[{"question":"Q","answer":"A","quote":"Because."}]')).toEqual([
+        { question: 'Q', answer: 'A', quote: 'Because.' }
+      ]);
+    });
+
+    test('accepts a bare array of cards', () => {
+      const parser = createFlashcardStreamParser();
+
+      expect(parser.push('[{"question":"Q","answer":"A"}]')).toEqual([{ question: 'Q', answer: 'A' }]);
+    });
+
+    test('skips array items that are not cards', () => {
+      const parser = createFlashcardStreamParser();
+
+      expect(parser.push('{"flashcards":[{"question":"Q"},{"tags":[{"name":"x"}]}]}')).toEqual([]);
+    });
+  });
+
+  describe('readServerSentEvents', () => {
+    test('delivers data payloads split across network chunks', async () => {
+      const onData = jest.fn();
+      const body = createBody(['data: {"a":', '1}\n\ndata: {"a":2}\n', '\n']);
+
+      await readServerSentEvents(body, onData);
+
+      expect(onData.mock.calls).toEqual([['{"a":1}'], ['{"a":2}']]);
+    });
+
+    test('stops at the [DONE] marker', async () => {
+      const onData = jest.fn();
+      const body = createBody(['data: first\n\ndata: [DONE]\n\ndata: ignored\n\n']);
+
+      await readServerSentEvents(body, onData);
+
+      expect(onData.mock.calls).toEqual([['first']]);
+    });
+
+    test('ignores comments and handles CRLF line endings', async () => {
+      const onData = jest.fn();
+      const body = createBody([': keep-alive\r\n\r\ndata: payload\r\n\r\n']);
+
+      await readServerSentEvents(body, onData);
+
+      expect(onData.mock.calls).toEqual([['payload']]);
+    });
+
+    test('flushes a final event without a trailing blank line', async () => {
+      const onData = jest.fn();
+      const body = createBody(['data: last']);
+
+      await readServerSentEvents(body, onData);
+
+      expect(onData.mock.calls).toEqual([['last']]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  toDateKey,
+  getRetentionRate,
+  getTotalTime,
+  getDailyReviewCounts,
+  getHardestCards,
+  getDueForecast,
+  buildStudyStats,
+  formatDuration,
+  HEATMAP_DAYS,
+  FORECAST_DAYS
+} from '../../src/services/studyStatsService';
+import { Flashcard, ReviewEvent, ReviewGrade } from '../../src/types';
+
+describe('Study Stats Service', () => {
+  const now = new Date(2024, 2, 15, 18, 0);
+
+  const event = (cardId: string, grade: ReviewGrade, daysAgo: number, responseTimeMs: number = 5000): ReviewEvent => ({
+    deckId: 'deck',
+    cardId,
+    timestamp: new Date(2024, 2, 15 - daysAgo, 9, 30),
+    grade,
+    responseTimeMs
+  });
+
+  const cards: Flashcard[] = [
+    { id: 'a', question: 'Qa', answer: 'Aa' },
+    { id: 'b', question: 'Qb', answer: 'Ab' },
+    { id: 'c', question: 'Qc', answer: 'Ac' }
+  ];
+
+  const events: ReviewEvent[] = [
+    event('a', 'again', 2),
+    event('a', 'again', 1),
+    event('a', 'good', 0),
+    event('b', 'hard', 1),
+    event('b', 'easy', 0, 1000),
+    event('c', 'good', 0, 2000),
+    event('deleted', 'again', 0)
+  ];
+
+  test('formats local calendar days', () => {
+    expect(toDateKey(new Date(2024, 0, 5, 23, 59))).toBe('2024-01-05');
+  });
+
+  test('computes the retention rate and time spent', () => {
+    expect(getRetentionRate(events)).toBeCloseTo(4 / 7);
+    expect(getRetentionRate([])).toBeNull();
+    expect(getTotalTime(events)).toBe(28000);
+  });
+
+  test('counts reviews per day, ending today', () => {
+    expect(getDailyReviewCounts(events, 4, now)).toEqual([
+      { date: '2024-03-12', count: 0 },
+      { date: '2024-03-13', count: 1 },
+      { date: '2024-03-14', count: 2 },
+      { date: '2024-03-15', count: 4 }
+    ]);
+  });
+
+  test('ranks reviewed cards by how often they were forgotten', () => {
+    expect(getHardestCards(events, cards, 5)).toEqual([
+      { card: cards[0], reviews: 3, lapses: 2, difficulty: 2 / 3 },
+      { card: cards[1], reviews: 2, lapses: 0, difficulty: 0.25 }
+    ]);
+    expect(getHardestCards(events, cards, 1)).toHaveLength(1);
+  });
+
+  test('forecasts due cards, counting new and overdue cards as due today', () => {
+    const reviewed = (id: string, dueDate: Date): Flashcard => ({
+      id,
+      question: 'Q',
+      answer: 'A',
+      review: { easeFactor: 2.5, interval: 1, repetitions: 1, dueDate }
+    });
+    const forecast = getDueForecast([
+      { id: 'new', question: 'Q', answer: 'A' },
+      reviewed('overdue', new Date(2024, 2, 10)),
+      reviewed('tomorrow', new Date(2024, 2, 16, 8)),
+      reviewed('later', new Date(2024, 2, 17, 20)),
+      reviewed('far', new Date(2024, 5, 1))
+    ], 3, now);
+
+    expect(forecast).toEqual([
+      { date: '2024-03-15', count: 2 },
+      { date: '2024-03-16', count: 1 },
+      { date: '2024-03-17', count: 1 }
+    ]);
+  });
+
+  test('builds the whole dashboard', () => {
+    const stats = buildStudyStats(events, cards, now);
+
+    expect(stats.totalReviews).toBe(7);
+    expect(stats.averageTimeMs).toBe(4000);
+    expect(stats.dailyReviews).toHaveLength(HEATMAP_DAYS);
+    expect(stats.dueForecast).toHaveLength(FORECAST_DAYS);
+    expect(stats.hardestCards.map(entry => entry.card.id)).toEqual(['a', 'b']);
+  });
+
+  test('formats durations', () => {
+    expect(formatDuration(12400)).toBe('12 s');
+    expect(formatDuration(200000)).toBe('3 min 20 s');
+    expect(formatDuration(3900000)).toBe('1 h 5 min');
+  });
+});
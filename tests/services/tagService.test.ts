@@ -0,0 +1,50 @@
+import {
+  normalizeTag,
+  parseTagList,
+  parseDifficulty,
+  getDeckTags,
+  formatAnkiTags,
+  parseAnkiTags
+} from '../../src/services/tagService';
+import { Flashcard } from '../../src/types';
+
+describe('Tag Service', () => {
+  test('normalizes tags to lowercase words joined by hyphens', () => {
+    expect(normalizeTag('  Cell Biology ')).toBe('cell-biology');
+    expect(normalizeTag('#History')).toBe('history');
+    expect(normalizeTag('a,b;c')).toBe('a-b-c');
+  });
+
+  test('parses tag arrays and comma separated strings without duplicates', () => {
+    expect(parseTagList(['Biology', 'biology', ' cells ', 3, ''])).toEqual(['biology', 'cells']);
+    expect(parseTagList('history, World War 2')).toEqual(['history', 'world-war-2']);
+    expect(parseTagList(undefined)).toEqual([]);
+  });
+
+  test('parses difficulty levels and common synonyms', () => {
+    expect(parseDifficulty('Hard')).toBe('hard');
+    expect(parseDifficulty('moderate')).toBe('medium');
+    expect(parseDifficulty('difficult')).toBe('hard');
+    expect(parseDifficulty('extreme')).toBeUndefined();
+    expect(parseDifficulty(3)).toBeUndefined();
+  });
+
+  test('counts the cards carrying each tag', () => {
+    const cards: Flashcard[] = [
+      { id: '1', question: 'Q1', answer: 'A1', tags: ['physics', 'exam'] },
+      { id: '2', question: 'Q2', answer: 'A2', tags: ['exam'] },
+      { id: '3', question: 'Q3', answer: 'A3' }
+    ];
+
+    expect(getDeckTags(cards)).toEqual([{ tag: 'exam', count: 2 }, { tag: 'physics', count: 1 }]);
+  });
+
+  test('writes and reads Anki tag strings, keeping difficulty as a hierarchical tag', () => {
+    const card: Flashcard = { id: '1', question: 'Q', answer: 'A', tags: ['physics'], difficulty: 'hard' };
+
+    expect(formatAnkiTags(card)).toBe(' physics difficulty::hard ');
+    expect(formatAnkiTags({ id: '2', question: 'Q', answer: 'A' })).toBe('');
+    expect(parseAnkiTags(' physics Leech difficulty::hard ')).toEqual({ tags: ['physics', 'leech'], difficulty: 'hard' });
+    expect(parseAnkiTags('')).toEqual({ tags: [] });
+  });
+});
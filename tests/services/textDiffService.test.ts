@@ -0,0 +1,26 @@
+import { diffWords } from '../../src/services/textDiffService';
+
+describe('Text Diff Service', () => {
+  test('marks removed and added words', () => {
+    expect(diffWords('What does the heart pump?', 'What organ pumps blood?')).toEqual([
+      { text: 'What ', change: 'same' },
+      { text: 'does the heart pump?', change: 'removed' },
+      { text: 'organ pumps blood?', change: 'added' }
+    ]);
+  });
+
+  test('keeps each side intact when its parts are joined', () => {
+    const before = 'The heart pumps blood\nthrough the body.';
+    const after = 'The heart pumps oxygenated blood.';
+    const parts = diffWords(before, after);
+
+    expect(parts.filter(part => part.change !== 'added').map(part => part.text).join('')).toBe(before);
+    expect(parts.filter(part => part.change !== 'removed').map(part => part.text).join('')).toBe(after);
+  });
+
+  test('handles identical and empty texts', () => {
+    expect(diffWords('Same text', 'Same text')).toEqual([{ text: 'Same text', change: 'same' }]);
+    expect(diffWords('', 'New')).toEqual([{ text: 'New', change: 'added' }]);
+    expect(diffWords('Old', '')).toEqual([{ text: 'Old', change: 'removed' }]);
+  });
+});
@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+import { extractMainContent, fetchWebPage } from '../../src/services/webPageService';
+
+const loadFixture = (name: string): string => {
+  return fs.readFileSync(path.join(__dirname, '../fixtures/webPages', name), 'utf8');
+};
+
+describe('Web Page Service', () => {
+  beforeEach(() => {
+    (global.fetch as jest.Mock).mockReset();
+  });
+
+  describe('extractMainContent', () => {
+    test('keeps the article of a blog post and drops navigation, ads, sidebars and comments', () => {
+      const page = extractMainContent(loadFixture('blog-post.html'), 'https://bread.example/why-sourdough-rises');
+
+      expect(page.title).toBe('Why Sourdough Rises');
+      expect(page.language).toBe('en');
+      expect(page.url).toBe('https://bread.example/why-sourdough-rises');
+      expect(page.content).toContain('# Why Sourdough Rises');
+      expect(page.content).toContain('## The starter\n\nA starter is a mixture of flour and water');
+      expect(page.content).toContain('- Feed it equal weights of flour and water.\n- Keep it at around 24 degrees Celsius.');
+      ['Recipes', 'cookies', 'premium flour', 'Share on social media', 'Popular posts', 'Great post', 'Copyright']
+        .forEach(boilerplate => expect(page.content).not.toContain(boilerplate));
+    });
+
+    test('keeps code, definition lists and tables of a documentation page', () => {
+      const page = extractMainContent(loadFixture('documentation.html'));
+
+      expect(page.title).toBe('Array.prototype.map() - Example Docs');
+      expect(page.content).toContain('## Syntax\n\nmap(callbackFn)\nmap(callbackFn, thisArg)');
+      expect(page.content).toContain('callbackFn\n\nA function to execute for each element in the array.');
+      expect(page.content).toContain('Browser | Version added\nChrome | 1');
+      ['Search the documentation', 'JavaScript / Array', 'Edit it on GitHub'].forEach(boilerplate => {
+        expect(page.content).not.toContain(boilerplate);
+      });
+    });
+
+    test('finds the densest block of prose when the page has no article element', () => {
+      const page = extractMainContent(loadFixture('news-article.html'));
+
+      expect(page.language).toBe('de');
+      expect(page.content.split('\n\n')).toEqual([
+        'Die neue Fußgängerbrücke über den Fluss wurde am Samstag nach drei Jahren Bauzeit eröffnet, wie die Stadtverwaltung mitteilte.',
+        'Die Brücke ist 120 Meter lang, besteht aus Stahl und Glas, und verbindet die Altstadt mit dem neuen Wohnviertel am Hafen.',
+        'Die Baukosten lagen bei 14 Millionen Euro, von denen das Land die Hälfte übernommen hat, so der Bürgermeister.'
+      ]);
+    });
+
+    test('falls back to the host name when the page has no title', () => {
+      expect(extractMainContent('<p>Just some text on a page.</p>', 'https://notes.example/a').title).toBe('notes.example');
+    });
+  });
+
+  describe('fetchWebPage', () => {
+    test('fetches the page through the proxy and extracts it', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({
+          url: 'https://bread.example/why-sourdough-rises',
+          html: loadFixture('blog-post.html')
+        })
+      });
+
+      const page = await fetchWebPage('https://bread.example/sourdough');
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'http://localhost:3001/fetch-page?url=https%3A%2F%2Fbread.example%2Fsourdough'
+      );
+      expect(page.title).toBe('Why Sourdough Rises');
+      expect(page.url).toBe('https://bread.example/why-sourdough-rises');
+    });
+
+    test('reports errors from the proxy', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 502,
+        statusText: 'Bad Gateway',
+        json: jest.fn().mockResolvedValueOnce({ error: 'The page responded with 404 Not Found' })
+      });
+
+      await expect(fetchWebPage('https://bread.example/missing')).rejects.toThrow(
+        'Failed to fetch web page: The page responded with 404 Not Found'
+      );
+    });
+
+    test('points at the proxy when it cannot be reached', async () => {
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      await expect(fetchWebPage('https://bread.example/')).rejects.toThrow('start it with npm run proxy');
+    });
+
+    test('rejects pages without readable text', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: jest.fn().mockResolvedValueOnce({ url: 'https://x.example/', html: '<nav><a href="/">Home</a></nav>' })
+      });
+
+      await expect(fetchWebPage('https://x.example/')).rejects.toThrow('No readable text was found on the page');
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import axios from 'axios';
-import { fetchWikipediaContent } from '../../src/services/wikipediaService';
+import {
+  fetchWikipediaContent,
+  parseWikipediaUrl,
+  extractSectionsFromHtml,
+  sectionsToText,
+  toSourceSections
+} from '../../src/services/wikipediaService';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -7,18 +13,6 @@ const mockedAxios = axios as jest.Mocked<typeof axios>;
 describe('Wikipedia Service', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-    
-    const mockElement = {
-      innerHTML: '',
-      querySelector: jest.fn().mockReturnValue({
-        textContent: 'Parsed content',
-        querySelectorAll: jest.fn().mockReturnValue([{
-          remove: jest.fn()
-        }])
-      })
-    };
-    
-    document.createElement = jest.fn().mockReturnValue(mockElement);
   });
 
   test('fetches and parses Wikipedia content successfully', async () => {
@@ -27,7 +21,7 @@ describe('Wikipedia Service', () => {
         parse: {
           title: 'Test Article',
           text: {
-            '*': '<div id="mw-content-text">Test Wikipedia content</div>'
+            '*': '<div class="mw-parser-output"><p>Test Wikipedia content.</p></div>'
           }
         }
       }
@@ -43,10 +37,27 @@ describe('Wikipedia Service', () => {
     
     expect(result).toEqual({
       title: 'Test Article',
-      content: 'Parsed content'
+      content: '## Introduction\n\nTest Wikipedia content.',
+      language: 'en',
+      sections: [
+        { id: 'lead', title: 'Introduction', level: 2, blocks: [{ type: 'paragraph', text: 'Test Wikipedia content.' }] }
+      ]
     });
   });
 
+  test('fetches from the language edition named in the URL', async () => {
+    mockedAxios.get.mockResolvedValue({
+      data: { parse: { title: 'Köln', text: { '*': '<div id="mw-content-text">Köln</div>' } } }
+    });
+
+    const result = await fetchWikipediaContent('https://de.m.wikipedia.org/wiki/K%C3%B6ln');
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      expect.stringContaining('https://de.wikipedia.org/w/api.php?action=parse&page=K%C3%B6ln&')
+    );
+    expect(result.language).toBe('de');
+  });
+
   test('throws error for invalid Wikipedia URL', async () => {
     await expect(fetchWikipediaContent('https://example.com/not-wikipedia')).rejects.toThrow('Invalid Wikipedia URL');
   });
@@ -81,4 +92,87 @@ describe('Wikipedia Service', () => {
 
     await expect(fetchWikipediaContent('https://en.wikipedia.org/wiki/Test_Article')).rejects.toThrow('Failed to fetch Wikipedia content: Network error');
   });
+
+  describe('extractSectionsFromHtml', () => {
+    const articleHtml = `
+      <div class="mw-parser-output">
+        <div class="hatnote">For the band, see Aspirin (band).</div>
+        <table class="infobox"><tr><td>Formula</td></tr></table>
+        <p>Aspirin is a <b>medication</b> used to reduce pain.<sup class="reference">[1]</sup></p>
+        <div class="mw-heading mw-heading2"><h2 id="History">History</h2><span class="mw-editsection">[edit]</span></div>
+        <div class="mw-heading mw-heading3"><h3 id="Willow_bark">Willow bark</h3></div>
+        <p>Willow bark was   used for centuries.[2]</p>
+        <ul><li>Sumer</li><li>Ancient Egypt</li></ul>
+        <h2><span class="mw-headline" id="Mechanism">Mechanism</span><span class="mw-editsection">[edit]</span></h2>
+        <p>It inhibits COX enzymes.</p>
+        <h2><span class="mw-headline" id="See_also">See also</span></h2>
+        <div class="navbox"><p>Analgesics</p></div>
+      </div>`;
+
+    test('builds an outline from both current and legacy heading markup', () => {
+      expect(extractSectionsFromHtml(articleHtml)).toEqual([
+        {
+          id: 'lead',
+          title: 'Introduction',
+          level: 2,
+          blocks: [{ type: 'paragraph', text: 'Aspirin is a medication used to reduce pain.' }]
+        },
+        { id: 'History', title: 'History', level: 2, blocks: [] },
+        {
+          id: 'Willow_bark',
+          title: 'Willow bark',
+          level: 3,
+          blocks: [
+            { type: 'paragraph', text: 'Willow bark was used for centuries.' },
+            { type: 'list', items: ['Sumer', 'Ancient Egypt'] }
+          ]
+        },
+        { id: 'Mechanism', title: 'Mechanism', level: 2, blocks: [{ type: 'paragraph', text: 'It inhibits COX enzymes.' }] }
+      ]);
+    });
+
+    test('keeps the outline in the article text', () => {
+      expect(sectionsToText(extractSectionsFromHtml(articleHtml))).toBe(
+        '## Introduction\n\nAspirin is a medication used to reduce pain.\n\n' +
+        '## History\n\n' +
+        '### Willow bark\n\nWillow bark was used for centuries.\n\n- Sumer\n- Ancient Egypt\n\n' +
+        '## Mechanism\n\nIt inhibits COX enzymes.'
+      );
+    });
+
+    test('gives repeated headings distinct ids', () => {
+      const sections = extractSectionsFromHtml('<h2>Notes</h2><p>One.</p><h2>Notes</h2><p>Two.</p>');
+
+      expect(sections.map(section => section.id)).toEqual(['Notes', 'Notes_2']);
+    });
+
+    test('turns sections with text into source sections', () => {
+      expect(toSourceSections(extractSectionsFromHtml(articleHtml))).toEqual([
+        { title: 'Introduction', text: 'Aspirin is a medication used to reduce pain.' },
+        { title: 'Willow bark', text: 'Willow bark was used for centuries.\n\n- Sumer\n- Ancient Egypt' },
+        { title: 'Mechanism', text: 'It inhibits COX enzymes.' }
+      ]);
+    });
+  });
+
+  describe('parseWikipediaUrl', () => {
+    test.each([
+      ['https://en.wikipedia.org/wiki/Test_Article', { wiki: 'en', language: 'en', title: 'Test_Article' }],
+      ['https://fr.wikipedia.org/wiki/Tour_Eiffel#Histoire', { wiki: 'fr', language: 'fr', title: 'Tour_Eiffel' }],
+      ['https://ja.m.wikipedia.org/wiki/%E6%9D%B1%E4%BA%AC', { wiki: 'ja', language: 'ja', title: '東京' }],
+      ['https://en.m.wikipedia.org/wiki/AC/DC', { wiki: 'en', language: 'en', title: 'AC/DC' }],
+      ['https://zh.wikipedia.org/zh-hans/%E5%8C%97%E4%BA%AC', { wiki: 'zh', language: 'zh', title: '北京' }],
+      ['https://de.wikipedia.org/w/index.php?title=Berlin&oldid=1', { wiki: 'de', language: 'de', title: 'Berlin' }],
+      ['https://simple.wikipedia.org/wiki/Cat', { wiki: 'simple', language: 'en', title: 'Cat' }],
+      ['https://wikipedia.org/wiki/Cat', { wiki: 'en', language: 'en', title: 'Cat' }]
+    ])('parses %s', (url, expected) => {
+      expect(parseWikipediaUrl(url)).toEqual(expected);
+    });
+
+    test('rejects URLs that are not Wikipedia articles', () => {
+      expect(parseWikipediaUrl('https://example.com/wiki/Cat')).toBeNull();
+      expect(parseWikipediaUrl('https://en.wikipedia.org/')).toBeNull();
+      expect(parseWikipediaUrl('not a url')).toBeNull();
+    });
+  });
 });
@@ -23,6 +23,15 @@ module.exports = {
         test: /\.css$/,
         use: ['style-loader', 'css-loader'],
       },
+      {
+        test: /\.wasm$/,
+        type: 'asset/resource',
+      },
+      {
+        // The pdf.js worker is loaded by URL, not bundled into the app
+        test: /pdf\.worker\.min\.mjs$/,
+        type: 'asset/resource',
+      },
     ],
   },
   plugins: [
@@ -33,6 +42,9 @@ module.exports = {
       'process.env.INFERENCE_SERVER_URL': JSON.stringify(process.env.INFERENCE_SERVER_URL || 'https://api.openai.com/v1'),
       'process.env.MODEL_NAME': JSON.stringify(process.env.MODEL_NAME || 'gpt-3.5-turbo-1106'),
       'process.env.LLM_API_KEY': JSON.stringify(process.env.LLM_API_KEY || ''),
+      'process.env.LLM_PROVIDER': JSON.stringify(process.env.LLM_PROVIDER || ''),
+      'process.env.LLM_JSON_MODE': JSON.stringify(process.env.LLM_JSON_MODE || ''),
+      'process.env.LLM_MAX_REPAIR_ATTEMPTS': JSON.stringify(process.env.LLM_MAX_REPAIR_ATTEMPTS || '1'),
     }),
   ],
   devServer: {